@@ -0,0 +1,52 @@
+// /api/acme/cleanup - Remove an ACME DNS-01 challenge record (httpreq compatible)
+
+import type { Env, DnsRecord } from '../../lib/types';
+import { requireAuth, successResponse, errorResponse } from '../../lib/auth';
+import { CloudflareDNSClient } from '../../lib/cloudflare-dns';
+import { logMemberAction } from '../../lib/domain-members';
+import { parseChallengeRequest, deleteAcmeRecord } from '../../lib/acme';
+
+// POST /api/acme/cleanup - Body: { fqdn: "_acme-challenge.example.py.kg.", value: "..." }
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+
+  const authResult = await requireAuth(request, env, { scope: 'dns:write' });
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const linuxdoId = parseInt(authResult.user.sub, 10);
+
+  const challenge = await parseChallengeRequest(request, env.DB, linuxdoId);
+  if (challenge instanceof Response) {
+    return challenge;
+  }
+
+  const { domain, role, name, value } = challenge;
+
+  // Only records created through /api/acme/present are removed here
+  const record = await env.DB.prepare(
+    'SELECT * FROM dns_records WHERE domain_id = ? AND name = ? AND content = ? AND acme_challenge = 1'
+  ).bind(domain.id, name, value).first<DnsRecord>();
+
+  // Cleanup is idempotent
+  if (!record) {
+    return successResponse({ message: 'Challenge record not found', name });
+  }
+
+  const cfClient = new CloudflareDNSClient(env.CLOUDFLARE_API_TOKEN, env.CLOUDFLARE_ZONE_ID);
+  if (!(await deleteAcmeRecord(env.DB, cfClient, record))) {
+    return errorResponse('Failed to delete challenge record', 500);
+  }
+
+  await logMemberAction(env.DB, { domain, role }, {
+    linuxdoId,
+    username: authResult.user.username,
+    action: 'acme_cleanup',
+    details: { type: 'TXT', name },
+    ip: request.headers.get('CF-Connecting-IP'),
+  });
+
+  console.log('[ACME] Challenge cleaned up:', `${name}.${domain.fqdn}`);
+  return successResponse({ message: 'Challenge record removed', name });
+};
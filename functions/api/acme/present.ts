@@ -0,0 +1,94 @@
+// /api/acme/present - Create an ACME DNS-01 challenge record (httpreq compatible)
+
+import type { Env, DnsRecord } from '../../lib/types';
+import { requireAuth, successResponse, errorResponse } from '../../lib/auth';
+import { CloudflareDNSClient } from '../../lib/cloudflare-dns';
+import { logMemberAction } from '../../lib/domain-members';
+import { requireDirectMode } from '../../lib/ns-delegation';
+import {
+  ACME_CHALLENGE_TTL,
+  MAX_ACME_RECORDS,
+  parseChallengeRequest,
+  cleanupStaleAcmeRecords,
+} from '../../lib/acme';
+
+// POST /api/acme/present - Body: { fqdn: "_acme-challenge.example.py.kg.", value: "..." }
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+
+  const authResult = await requireAuth(request, env, { scope: 'dns:write' });
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const linuxdoId = parseInt(authResult.user.sub, 10);
+
+  const challenge = await parseChallengeRequest(request, env.DB, linuxdoId);
+  if (challenge instanceof Response) {
+    return challenge;
+  }
+
+  const { domain, role, name, value } = challenge;
+
+  // Records live on the user's own nameservers while the domain is delegated
+  const nsMode = requireDirectMode(domain);
+  if (nsMode) {
+    return nsMode;
+  }
+  const cfClient = new CloudflareDNSClient(env.CLOUDFLARE_API_TOKEN, env.CLOUDFLARE_ZONE_ID);
+
+  // Remove challenges left behind by clients that never called cleanup
+  await cleanupStaleAcmeRecords(env.DB, cfClient, domain.id);
+
+  const { results: sameNameRecords } = await env.DB.prepare(
+    'SELECT * FROM dns_records WHERE domain_id = ? AND name = ?'
+  ).bind(domain.id, name).all<DnsRecord>();
+
+  // Clients retry present; an identical record is already in place
+  if ((sameNameRecords || []).some(r => r.type === 'TXT' && r.content === value)) {
+    return successResponse({ message: 'Challenge record already present', name });
+  }
+
+  if ((sameNameRecords || []).some(r => r.type === 'CNAME')) {
+    return errorResponse(`A CNAME record already exists at '${name}'`, 409);
+  }
+
+  const countResult = await env.DB.prepare(
+    'SELECT COUNT(*) as count FROM dns_records WHERE domain_id = ? AND acme_challenge = 1'
+  ).bind(domain.id).first<{ count: number }>();
+
+  if ((countResult?.count || 0) >= MAX_ACME_RECORDS) {
+    return errorResponse(`Maximum ${MAX_ACME_RECORDS} pending ACME challenge records allowed`, 400);
+  }
+
+  const dnsName = `${name}.${domain.fqdn}`;
+  const cfResult = await cfClient.createDNSRecord('TXT', dnsName, value, ACME_CHALLENGE_TTL, false);
+
+  if (!cfResult.success) {
+    console.error('[ACME] Cloudflare DNS create error:', cfResult.error);
+    return errorResponse(`Failed to create challenge record: ${cfResult.error}`, 500);
+  }
+
+  try {
+    await env.DB.prepare(`
+      INSERT INTO dns_records (domain_id, type, name, content, ttl, proxied, cloudflare_record_id, acme_challenge, created_at, updated_at)
+      VALUES (?, 'TXT', ?, ?, ?, 0, ?, 1, datetime('now'), datetime('now'))
+    `).bind(domain.id, name, value, ACME_CHALLENGE_TTL, cfResult.record.id).run();
+  } catch (e) {
+    console.error('[ACME] Database error:', e);
+    // Rollback: delete from Cloudflare
+    await cfClient.deleteDNSRecord(cfResult.record.id);
+    return errorResponse('Failed to store challenge record', 500);
+  }
+
+  await logMemberAction(env.DB, { domain, role }, {
+    linuxdoId,
+    username: authResult.user.username,
+    action: 'acme_present',
+    details: { type: 'TXT', name },
+    ip: request.headers.get('CF-Connecting-IP'),
+  });
+
+  console.log('[ACME] Challenge presented:', dnsName);
+  return successResponse({ message: 'Challenge record created', name });
+};
@@ -8,7 +8,7 @@ import { createNotification } from '../../lib/notifications';
 export const onRequestPost: PagesFunction<Env> = async (context) => {
   const { env, request } = context;
 
-  const authResult = await requireAdmin(request, env);
+  const authResult = await requireAdmin(request, env, { permission: 'announcements' });
   if (authResult instanceof Response) {
     return authResult;
   }
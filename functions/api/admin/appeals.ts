@@ -4,13 +4,14 @@ import type { Env, Appeal, Domain } from '../../lib/types';
 import { requireAdmin, successResponse, errorResponse } from '../../lib/auth';
 import { createNotification } from '../../lib/notifications';
 import { CloudflareDNSClient } from '../../lib/cloudflare-dns';
+import { republishDomainRecords } from '../../lib/dns-sync';
 import { addBlockchainLog, BlockchainActions } from '../../lib/blockchain';
 
 // GET /api/admin/appeals - Get all appeals
 export const onRequestGet: PagesFunction<Env> = async (context) => {
   const { env, request } = context;
 
-  const authResult = await requireAdmin(request, env);
+  const authResult = await requireAdmin(request, env, { permission: 'appeals' });
   if (authResult instanceof Response) {
     return authResult;
   }
@@ -41,7 +42,7 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
 export const onRequestPost: PagesFunction<Env> = async (context) => {
   const { env, request } = context;
 
-  const authResult = await requireAdmin(request, env);
+  const authResult = await requireAdmin(request, env, { permission: 'appeals' });
   if (authResult instanceof Response) {
     return authResult;
   }
@@ -85,30 +86,7 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
 
     if (action === 'approve') {
       // Restore DNS records and unsuspend domain
-      const { results: recordsToRestore } = await env.DB.prepare(
-        'SELECT * FROM dns_records WHERE domain_id = ? AND cf_synced = 0'
-      ).bind(appeal.domain_id).all();
-
-      if (recordsToRestore && recordsToRestore.length > 0) {
-        for (const record of recordsToRestore) {
-          try {
-            const dnsName = record.name === '@' ? appeal.fqdn : `${record.name}.${appeal.fqdn}`;
-            await cfClient.createDNSRecord(
-              record.type,
-              dnsName,
-              record.content,
-              record.ttl,
-              record.proxied === 1
-            );
-          } catch (e) {
-            console.error(`Failed to restore DNS record ${record.id}:`, e);
-          }
-        }
-
-        await env.DB.prepare(
-          'UPDATE dns_records SET cf_synced = 1 WHERE domain_id = ?'
-        ).bind(appeal.domain_id).run();
-      }
+      await republishDomainRecords(env.DB, cfClient, { id: appeal.domain_id as number, fqdn: appeal.fqdn as string });
 
       // Update domain status
       await env.DB.prepare(`
@@ -7,7 +7,7 @@ import { requireAdmin, successResponse, errorResponse } from '../../lib/auth';
 export const onRequestGet: PagesFunction<Env> = async (context) => {
   const { env, request } = context;
 
-  const authResult = await requireAdmin(request, env);
+  const authResult = await requireAdmin(request, env, { permission: 'banned_words' });
   if (authResult instanceof Response) {
     return authResult;
   }
@@ -34,7 +34,7 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
 export const onRequestPost: PagesFunction<Env> = async (context) => {
   const { env, request } = context;
 
-  const authResult = await requireAdmin(request, env);
+  const authResult = await requireAdmin(request, env, { permission: 'banned_words' });
   if (authResult instanceof Response) {
     return authResult;
   }
@@ -90,7 +90,7 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
 export const onRequestDelete: PagesFunction<Env> = async (context) => {
   const { env, request } = context;
 
-  const authResult = await requireAdmin(request, env);
+  const authResult = await requireAdmin(request, env, { permission: 'banned_words' });
   if (authResult instanceof Response) {
     return authResult;
   }
@@ -0,0 +1,158 @@
+// /api/admin/dns-approvals - Admin review of MX records awaiting approval
+
+import type { Env, DnsRecord } from '../../lib/types';
+import { requireAdmin, successResponse, errorResponse } from '../../lib/auth';
+import { createNotification } from '../../lib/notifications';
+import { CloudflareDNSClient } from '../../lib/cloudflare-dns';
+import { recordDnsRevision } from '../../lib/dns-revisions';
+
+type PendingRecord = DnsRecord & { domain_fqdn: string; domain_status: string; owner_linuxdo_id: number };
+
+// GET /api/admin/dns-approvals - List records awaiting approval
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+
+  const authResult = await requireAdmin(request, env, { permission: 'dns_approvals' });
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  try {
+    const { results: records } = await env.DB.prepare(`
+      SELECT r.*, d.fqdn as domain_fqdn, d.status as domain_status, d.owner_linuxdo_id, u.username
+      FROM dns_records r
+      JOIN domains d ON r.domain_id = d.id
+      JOIN users u ON d.owner_linuxdo_id = u.linuxdo_id
+      WHERE r.pending_approval = 1
+      ORDER BY r.created_at ASC
+    `).all();
+
+    return successResponse({ records: records || [] });
+  } catch (e) {
+    console.error('Failed to get pending DNS records:', e);
+    return errorResponse('Failed to get pending DNS records', 500);
+  }
+};
+
+// POST /api/admin/dns-approvals - Approve (publish) or reject (delete) a pending record
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+
+  const authResult = await requireAdmin(request, env, { permission: 'dns_approvals' });
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const adminId = parseInt(authResult.user.sub, 10);
+
+  let body: { id?: number; action?: 'approve' | 'reject'; reason?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('Invalid JSON body', 400);
+  }
+
+  const { id, action, reason } = body;
+
+  if (!id || typeof id !== 'number') {
+    return errorResponse('Missing or invalid id', 400);
+  }
+  if (action !== 'approve' && action !== 'reject') {
+    return errorResponse('action must be "approve" or "reject"', 400);
+  }
+
+  try {
+    const record = await env.DB.prepare(`
+      SELECT r.*, d.fqdn as domain_fqdn, d.status as domain_status, d.owner_linuxdo_id
+      FROM dns_records r
+      JOIN domains d ON r.domain_id = d.id
+      WHERE r.id = ?
+    `).bind(id).first<PendingRecord>();
+
+    if (!record) {
+      return errorResponse('DNS record not found', 404);
+    }
+    if (!record.pending_approval) {
+      return errorResponse('DNS record is not awaiting approval', 400);
+    }
+
+    const fullName = record.name === '@' ? record.domain_fqdn : `${record.name}.${record.domain_fqdn}`;
+    const display = `${record.type} ${fullName} ${record.priority ?? ''} ${record.content}`.replace(/\s+/g, ' ');
+
+    if (action === 'approve') {
+      // Suspended domains keep their records off Cloudflare; republishing picks this one up later
+      if (record.domain_status === 'active') {
+        const cfClient = new CloudflareDNSClient(env.CLOUDFLARE_API_TOKEN, env.CLOUDFLARE_ZONE_ID);
+        const cfResult = await cfClient.createDNSRecord(
+          record.type,
+          fullName,
+          record.content,
+          record.ttl,
+          false,
+          record.priority
+        );
+
+        if (!cfResult.success) {
+          return errorResponse(`Failed to publish DNS record: ${cfResult.error}`, 500);
+        }
+
+        await env.DB.prepare(`
+          UPDATE dns_records SET pending_approval = 0, cloudflare_record_id = ?, cf_synced = 1, updated_at = datetime('now')
+          WHERE id = ?
+        `).bind(cfResult.record.id, id).run();
+      } else {
+        await env.DB.prepare(`
+          UPDATE dns_records SET pending_approval = 0, updated_at = datetime('now') WHERE id = ?
+        `).bind(id).run();
+      }
+
+      await recordDnsRevision(env.DB, record.domain_id, {
+        linuxdoId: adminId,
+        source: 'admin',
+        action: 'mx_approve',
+        details: { record_id: id, name: record.name, content: record.content, priority: record.priority },
+      });
+
+      await createNotification(
+        env.DB,
+        record.owner_linuxdo_id,
+        'admin_message',
+        'MX 记录已通过审核',
+        `您的记录 ${display} 已通过审核并生效。`
+      );
+    } else {
+      await env.DB.prepare('DELETE FROM dns_records WHERE id = ?').bind(id).run();
+
+      await createNotification(
+        env.DB,
+        record.owner_linuxdo_id,
+        'admin_message',
+        'MX 记录未通过审核',
+        `您的记录 ${display} 未通过审核，已被删除。${reason ? `原因：${reason}` : ''}`
+      );
+    }
+
+    // Log the action
+    await env.DB.prepare(`
+      INSERT INTO audit_logs (linuxdo_id, action, target, details, ip_address, created_at)
+      VALUES (?, ?, ?, ?, ?, datetime('now'))
+    `).bind(
+      adminId,
+      action === 'approve' ? 'dns_mx_approve' : 'dns_mx_reject',
+      record.domain_fqdn,
+      JSON.stringify({
+        record_id: id,
+        name: record.name,
+        content: record.content,
+        priority: record.priority,
+        reason,
+      }),
+      request.headers.get('CF-Connecting-IP')
+    ).run();
+
+    return successResponse({ id, approved: action === 'approve' });
+  } catch (e) {
+    console.error('Failed to process pending DNS record:', e);
+    return errorResponse('Failed to process pending DNS record', 500);
+  }
+};
@@ -0,0 +1,82 @@
+// /api/admin/dns-drift - Cloudflare drift reports and repair
+
+import type { Env } from '../../lib/types';
+import { requireAdmin, successResponse, errorResponse } from '../../lib/auth';
+import { runDnsDriftCheck, getDnsDriftRuns } from '../../lib/dns-drift';
+
+// GET /api/admin/dns-drift - Get drift check reports
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+
+  const authResult = await requireAdmin(request, env, { permission: 'dns' });
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const url = new URL(request.url);
+  const limit = Math.min(parseInt(url.searchParams.get('limit') || '20', 10), 100);
+  const offset = parseInt(url.searchParams.get('offset') || '0', 10);
+
+  try {
+    const { runs, total } = await getDnsDriftRuns(env.DB, limit, offset);
+    return successResponse({ runs, total });
+  } catch (e) {
+    console.error('Failed to get DNS drift runs:', e);
+    return errorResponse('Failed to get DNS drift runs', 500);
+  }
+};
+
+// POST /api/admin/dns-drift - Run a check now, optionally repairing all drift or selected items
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+
+  const authResult = await requireAdmin(request, env, { permission: 'dns' });
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  let body: { repair?: boolean; items?: string[] } = {};
+  try {
+    const text = await request.text();
+    if (text) {
+      body = JSON.parse(text);
+    }
+  } catch {
+    return errorResponse('Invalid JSON body', 400);
+  }
+
+  if (body.items !== undefined && (!Array.isArray(body.items) || body.items.some(key => typeof key !== 'string'))) {
+    return errorResponse('items must be an array of drift item keys', 400);
+  }
+
+  // Drift is re-detected before repairing, so stale keys from an old report are simply skipped
+  const repair = body.items?.length ? body.items : body.repair === true;
+
+  try {
+    const report = await runDnsDriftCheck(env, authResult.dbUser.username, repair);
+
+    // Log the action
+    await env.DB.prepare(`
+      INSERT INTO audit_logs (linuxdo_id, action, target, details, ip_address, created_at)
+      VALUES (?, ?, ?, ?, ?, datetime('now'))
+    `).bind(
+      parseInt(authResult.user.sub, 10),
+      repair ? 'dns_drift_repair' : 'dns_drift_check',
+      `run:${report.id}`,
+      JSON.stringify({
+        orphaned: report.orphaned,
+        missing: report.missing,
+        mismatched: report.mismatched,
+        repaired: report.repaired,
+        errors: report.errors,
+        items: Array.isArray(repair) ? repair : undefined,
+      }),
+      request.headers.get('CF-Connecting-IP')
+    ).run();
+
+    return successResponse(report);
+  } catch (e) {
+    console.error('Failed to run DNS drift check:', e);
+    return errorResponse(`Failed to run DNS drift check: ${e instanceof Error ? e.message : String(e)}`, 500);
+  }
+};
@@ -3,6 +3,7 @@
 import type { Env, DnsRecord, Domain } from '../../lib/types';
 import { requireAdmin, successResponse, errorResponse } from '../../lib/auth';
 import { isEmailRelatedTxtRecord } from '../../lib/validators';
+import { recordDnsRevision } from '../../lib/dns-revisions';
 
 interface DnsRecordWithDomain extends DnsRecord {
   domain_label?: string;
@@ -14,7 +15,7 @@ interface DnsRecordWithDomain extends DnsRecord {
 export const onRequestGet: PagesFunction<Env> = async (context) => {
   const { env, request } = context;
 
-  const authResult = await requireAdmin(request, env);
+  const authResult = await requireAdmin(request, env, { permission: 'dns' });
   if (authResult instanceof Response) {
     return authResult;
   }
@@ -61,7 +62,7 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
 export const onRequestDelete: PagesFunction<Env> = async (context) => {
   const { env, request } = context;
 
-  const authResult = await requireAdmin(request, env);
+  const authResult = await requireAdmin(request, env, { permission: 'dns' });
   if (authResult instanceof Response) {
     return authResult;
   }
@@ -115,6 +116,13 @@ export const onRequestDelete: PagesFunction<Env> = async (context) => {
       request.headers.get('CF-Connecting-IP')
     ).run();
 
+    await recordDnsRevision(env.DB, record.domain_id, {
+      linuxdoId: adminId,
+      source: 'admin',
+      action: 'delete',
+      details: { record_id: id, type: record.type, name: record.name, content: record.content, reason },
+    });
+
     return successResponse({ deleted: true });
   } catch (e) {
     console.error('Failed to delete DNS record:', e);
@@ -126,7 +134,7 @@ export const onRequestDelete: PagesFunction<Env> = async (context) => {
 export const onRequestPut: PagesFunction<Env> = async (context) => {
   const { env, request } = context;
 
-  const authResult = await requireAdmin(request, env);
+  const authResult = await requireAdmin(request, env, { permission: 'dns' });
   if (authResult instanceof Response) {
     return authResult;
   }
@@ -211,6 +219,13 @@ export const onRequestPut: PagesFunction<Env> = async (context) => {
       request.headers.get('CF-Connecting-IP')
     ).run();
 
+    await recordDnsRevision(env.DB, record.domain_id, {
+      linuxdoId: adminId,
+      source: 'admin',
+      action: 'update',
+      details: { record_id: id, type: record.type, name: record.name, from: record.content, to: content, reason },
+    });
+
     return successResponse({ updated: true });
   } catch (e) {
     console.error('Failed to update DNS record:', e);
@@ -1,16 +1,28 @@
 // /api/admin/domains - Domain management
 
-import type { Env, Domain, AdminDomainListItem, DnsRecord } from '../../lib/types';
+import type { Env, Domain, AdminDomainListItem } from '../../lib/types';
 import { requireAdmin, successResponse, errorResponse } from '../../lib/auth';
 import { CloudflareDNSClient } from '../../lib/cloudflare-dns';
 import { createNotification } from '../../lib/notifications';
 import { addBlockchainLog, BlockchainActions } from '../../lib/blockchain';
+import {
+  unpublishDomainRecords,
+  republishDomainRecords,
+  deleteDomainRecordsFromCloudflare,
+  deleteDomainRows,
+} from '../../lib/dns-sync';
+import { refundDomainOrders, RefundResult } from '../../lib/refunds';
+
+// A review-status domain without a pending registration review was flagged after registration
+const FLAGGED_CONDITION = `NOT EXISTS (
+  SELECT 1 FROM pending_reviews pr WHERE pr.label = d.label AND pr.status = 'pending'
+)`;
 
 // GET /api/admin/domains - Get domains list
 export const onRequestGet: PagesFunction<Env> = async (context) => {
   const { env, request } = context;
 
-  const authResult = await requireAdmin(request, env);
+  const authResult = await requireAdmin(request, env, { permission: 'domains' });
   if (authResult instanceof Response) {
     return authResult;
   }
@@ -30,7 +42,10 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
       params.push(`%${search}%`, `%${search}%`, `%${search}%`);
     }
 
-    if (status !== 'all') {
+    if (status === 'flagged') {
+      // Domains put into review by the LinuxDO re-sync have no registration review to approve
+      whereClause += ` AND d.status = 'review' AND ${FLAGGED_CONDITION}`;
+    } else if (status !== 'all') {
       whereClause += ' AND d.status = ?';
       params.push(status);
     }
@@ -39,7 +54,8 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
 
     const { results } = await env.DB.prepare(`
       SELECT d.id, d.label, d.fqdn, d.owner_linuxdo_id, u.username as owner_username,
-             d.status, d.review_reason, d.created_at
+             d.status, d.review_reason, d.expires_at, d.created_at,
+             (d.status = 'review' AND ${FLAGGED_CONDITION}) as flagged
       FROM domains d
       LEFT JOIN users u ON d.owner_linuxdo_id = u.linuxdo_id
       WHERE ${whereClause}
@@ -71,7 +87,7 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
 export const onRequestPost: PagesFunction<Env> = async (context) => {
   const { env, request } = context;
 
-  const authResult = await requireAdmin(request, env);
+  const authResult = await requireAdmin(request, env, { permission: 'domains' });
   if (authResult instanceof Response) {
     return authResult;
   }
@@ -80,6 +96,7 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
     id?: number;
     action?: 'suspend' | 'activate' | 'delete';
     reason?: string;
+    abuse?: boolean;  // delete only: abuse deletions are not refunded
   };
   try {
     body = await request.json();
@@ -87,7 +104,7 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
     return errorResponse('Invalid JSON body', 400);
   }
 
-  const { id, action, reason } = body;
+  const { id, action, reason, abuse = false } = body;
 
   if (!id || typeof id !== 'number') {
     return errorResponse('Missing or invalid id', 400);
@@ -115,40 +132,22 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
     const adminId = parseInt(authResult.user.sub, 10);
     const cfClient = new CloudflareDNSClient(env.CLOUDFLARE_API_TOKEN, env.CLOUDFLARE_ZONE_ID);
 
+    // Get admin username for refund and blockchain logs
+    const adminUser = await env.DB.prepare(
+      'SELECT username FROM users WHERE linuxdo_id = ?'
+    ).bind(adminId).first<{ username: string }>();
+
+    let refunds: RefundResult[] = [];
+
     switch (action) {
       case 'suspend':
         console.log('[Admin Domains POST] Suspending domain:', domain.fqdn);
 
-        // Get all DNS records for this domain (only synced ones need to be deleted from CF)
-        const { results: dnsRecords } = await env.DB.prepare(
-          'SELECT * FROM dns_records WHERE domain_id = ? AND cf_synced = 1'
-        ).bind(id).all<DnsRecord>();
-
-        console.log('[Admin Domains POST] DNS records to delete from CF:', dnsRecords?.length || 0);
-
-        // Delete each DNS record from Cloudflare using stored cloudflare_record_id
-        let deletedCount = 0;
-        if (dnsRecords && dnsRecords.length > 0) {
-          for (const record of dnsRecords) {
-            if (record.cloudflare_record_id) {
-              try {
-                const deleteResult = await cfClient.deleteDNSRecord(record.cloudflare_record_id);
-                if (deleteResult.success) {
-                  deletedCount++;
-                } else {
-                  console.error(`Failed to delete CF record ${record.cloudflare_record_id}:`, deleteResult.error);
-                }
-              } catch (e) {
-                console.error(`Error deleting CF record ${record.cloudflare_record_id}:`, e);
-              }
-            }
-          }
-          console.log('[Admin Domains POST] Deleted', deletedCount, 'of', dnsRecords.length, 'CF records');
-
-          // Mark all DNS records as not synced in database (keep them as evidence)
-          await env.DB.prepare(
-            'UPDATE dns_records SET cf_synced = 0 WHERE domain_id = ?'
-          ).bind(id).run();
+        // Delete synced records from Cloudflare, keep them in DB as evidence
+        const unpublished = await unpublishDomainRecords(env.DB, cfClient, id);
+        console.log('[Admin Domains POST] Deleted', unpublished.deleted, 'of', unpublished.total, 'CF records');
+        if (unpublished.failed > 0) {
+          console.warn('[Admin Domains POST]', unpublished.failed, 'CF records could not be deleted, left for the drift check');
         }
 
         // Update domain status to suspended
@@ -171,73 +170,51 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
         break;
 
       case 'activate':
-        // Get all DNS records that need to be restored
-        const { results: recordsToRestore } = await env.DB.prepare(
-          'SELECT * FROM dns_records WHERE domain_id = ? AND cf_synced = 0'
-        ).bind(id).all<DnsRecord>();
-
-        // Restore DNS records to Cloudflare
-        if (recordsToRestore && recordsToRestore.length > 0) {
-          for (const record of recordsToRestore) {
-            try {
-              const dnsName = record.name === '@' ? domain.fqdn : `${record.name}.${domain.fqdn}`;
-              await cfClient.createDNSRecord(
-                record.type,
-                dnsName,
-                record.content,
-                record.ttl,
-                record.proxied === 1
-              );
-            } catch (e) {
-              console.error(`Failed to restore DNS record ${record.id}:`, e);
-              // Continue with other records even if one fails
-            }
-          }
-
-          // Mark all records as synced
-          await env.DB.prepare(
-            'UPDATE dns_records SET cf_synced = 1 WHERE domain_id = ?'
-          ).bind(id).run();
-        }
+        // Restore DNS records to Cloudflare (review domains kept theirs, so nothing is restored)
+        await republishDomainRecords(env.DB, cfClient, domain);
 
-        // Update domain status to active
+        // Update domain status to active; this also clears a review flag from the LinuxDO re-sync
         await env.DB.prepare(`
-          UPDATE domains SET status = 'active', suspend_reason = NULL
+          UPDATE domains SET status = 'active', suspend_reason = NULL, review_reason = NULL
           WHERE id = ?
         `).bind(id).run();
 
         // Send notification to user
-        await createNotification(
-          env.DB,
-          domain.owner_linuxdo_id,
-          'domain_unsuspended',
-          '域名已解除暂停',
-          `您的域名 ${domain.fqdn} 已解除暂停，现在可以正常使用了。`
-        );
+        if (domain.status === 'review') {
+          await createNotification(
+            env.DB,
+            domain.owner_linuxdo_id,
+            'domain_approved',
+            '域名审核通过',
+            `您的域名 ${domain.fqdn} 已通过人工审核，现在可以正常使用了。${reason ? `审核备注：${reason}` : ''}`
+          );
+        } else {
+          await createNotification(
+            env.DB,
+            domain.owner_linuxdo_id,
+            'domain_unsuspended',
+            '域名已解除暂停',
+            `您的域名 ${domain.fqdn} 已解除暂停，现在可以正常使用了。`
+          );
+        }
         break;
 
       case 'delete':
         console.log('[Admin Domains POST] Deleting domain:', domain.fqdn);
 
-        // Get all DNS records for this domain to delete from CF
-        const { results: recordsToDelete } = await env.DB.prepare(
-          'SELECT cloudflare_record_id FROM dns_records WHERE domain_id = ? AND cf_synced = 1 AND cloudflare_record_id IS NOT NULL'
-        ).bind(id).all<{ cloudflare_record_id: string }>();
-
         // Delete each DNS record from Cloudflare using stored cloudflare_record_id
-        let deleteCount = 0;
-        if (recordsToDelete && recordsToDelete.length > 0) {
-          for (const record of recordsToDelete) {
-            try {
-              await cfClient.deleteDNSRecord(record.cloudflare_record_id);
-              deleteCount++;
-            } catch (e) {
-              console.error(`Error deleting CF record ${record.cloudflare_record_id}:`, e);
-            }
-          }
-        }
+        const deleteCount = await deleteDomainRecordsFromCloudflare(env.DB, cfClient, id);
         console.log('[Admin Domains POST] Deleted', deleteCount, 'CF records');
 
+        // Return paid credits unless the domain was deleted for abuse
+        if (!abuse) {
+          refunds = await refundDomainOrders(env, domain, {
+            reason: `域名被管理员删除${reason ? `：${reason}` : ''}`,
+            actorName: adminUser?.username || null,
+          });
+          console.log('[Admin Domains POST] Refunded', refunds.filter(r => r.success).length, 'of', refunds.length, 'orders');
+        }
+
         // Send notification to user about deletion
         await createNotification(
           env.DB,
@@ -247,17 +224,9 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
           `您的域名 ${domain.fqdn} 已被管理员删除。${reason ? `删除原因：${reason}` : ''}`
         );
 
-        // Delete related records first (to avoid foreign key constraint errors)
-        console.log('[Admin Domains POST] Deleting related appeals for domain id:', id);
-        await env.DB.prepare('DELETE FROM appeals WHERE domain_id = ?').bind(id).run();
-
-        console.log('[Admin Domains POST] Deleting related dns_records for domain id:', id);
-        await env.DB.prepare('DELETE FROM dns_records WHERE domain_id = ?').bind(id).run();
-
-        // Delete from database
+        // Delete domain and related rows from database
         console.log('[Admin Domains POST] Deleting from DB, id:', id);
-        const dbDeleteResult = await env.DB.prepare('DELETE FROM domains WHERE id = ?').bind(id).run();
-        console.log('[Admin Domains POST] DB delete result:', JSON.stringify(dbDeleteResult));
+        await deleteDomainRows(env.DB, id);
         break;
     }
 
@@ -270,15 +239,10 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
       adminId,
       `domain_${action}`,
       domain.fqdn,
-      JSON.stringify({ reason, owner: domain.owner_linuxdo_id }),
+      JSON.stringify({ reason, owner: domain.owner_linuxdo_id, ...(action === 'delete' ? { abuse, refunds } : {}) }),
       request.headers.get('CF-Connecting-IP')
     ).run();
 
-    // Get admin username for blockchain log
-    const adminUser = await env.DB.prepare(
-      'SELECT username FROM users WHERE linuxdo_id = ?'
-    ).bind(adminId).first<{ username: string }>();
-
     // Add blockchain log
     const blockchainAction = action === 'suspend' ? BlockchainActions.DOMAIN_SUSPEND
       : action === 'activate' ? BlockchainActions.DOMAIN_ACTIVATE
@@ -289,11 +253,11 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
       actorName: adminUser?.username || null,
       targetType: 'domain',
       targetName: domain.fqdn,
-      details: { reason },
+      details: action === 'delete' ? { reason, abuse } : { reason },
     });
 
     console.log('[Admin Domains POST] Action completed successfully');
-    return successResponse({ updated: true, action });
+    return successResponse({ updated: true, action, ...(action === 'delete' ? { refunds } : {}) });
   } catch (e) {
     console.error('[Admin Domains POST] Failed to update domain:', e);
     console.error('[Admin Domains POST] Error message:', e instanceof Error ? e.message : String(e));
@@ -2,12 +2,13 @@
 
 import type { Env, DnsRecord } from '../../../../lib/types';
 import { requireAdmin, successResponse, errorResponse } from '../../../../lib/auth';
+import { recordDnsRevision } from '../../../../lib/dns-revisions';
 
 // GET /api/admin/domains/:id/dns - Get DNS records for a domain
 export const onRequestGet: PagesFunction<Env> = async (context) => {
   const { env, request, params } = context;
 
-  const authResult = await requireAdmin(request, env);
+  const authResult = await requireAdmin(request, env, { permission: 'dns' });
   if (authResult instanceof Response) {
     return authResult;
   }
@@ -47,7 +48,7 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
 export const onRequestDelete: PagesFunction<Env> = async (context) => {
   const { env, request, params } = context;
 
-  const authResult = await requireAdmin(request, env);
+  const authResult = await requireAdmin(request, env, { permission: 'dns' });
   if (authResult instanceof Response) {
     return authResult;
   }
@@ -74,6 +75,13 @@ export const onRequestDelete: PagesFunction<Env> = async (context) => {
     await env.DB.prepare('DELETE FROM dns_records WHERE id = ?')
       .bind(parseInt(recordId, 10)).run();
 
+    await recordDnsRevision(env.DB, domainId, {
+      linuxdoId: parseInt(authResult.user.sub, 10),
+      source: 'admin',
+      action: 'delete',
+      details: { record_id: record.id, type: record.type, name: record.name, content: record.content },
+    });
+
     return successResponse({ deleted: true });
   } catch (e) {
     console.error('Failed to delete DNS record:', e);
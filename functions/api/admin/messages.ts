@@ -7,7 +7,7 @@ import { requireAdmin, successResponse, errorResponse } from '../../lib/auth';
 export const onRequestGet: PagesFunction<Env> = async (context) => {
   const { env, request } = context;
 
-  const authResult = await requireAdmin(request, env);
+  const authResult = await requireAdmin(request, env, { permission: 'messages' });
   if (authResult instanceof Response) {
     return authResult;
   }
@@ -75,7 +75,7 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
 export const onRequestPost: PagesFunction<Env> = async (context) => {
   const { env, request } = context;
 
-  const authResult = await requireAdmin(request, env);
+  const authResult = await requireAdmin(request, env, { permission: 'messages' });
   if (authResult instanceof Response) {
     return authResult;
   }
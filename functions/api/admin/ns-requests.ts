@@ -0,0 +1,155 @@
+// /api/admin/ns-requests - Admin review of NS delegation requests
+
+import type { Env, Domain, NsRequest } from '../../lib/types';
+import { requireAdmin, successResponse, errorResponse } from '../../lib/auth';
+import { createNotification } from '../../lib/notifications';
+import { createResolver } from '../../lib/dns-resolver';
+import { recordDnsRevision } from '../../lib/dns-revisions';
+import { checkNameservers, applyNameservers } from '../../lib/ns-delegation';
+
+// GET /api/admin/ns-requests - List requests awaiting approval, with the domain's current state
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+
+  const authResult = await requireAdmin(request, env, { permission: 'dns_approvals' });
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  try {
+    const { results: requests } = await env.DB.prepare(`
+      SELECT n.*, d.fqdn as domain_fqdn, d.status as domain_status, d.dns_mode, u.username, u.trust_level,
+             (SELECT COUNT(*) FROM dns_records r WHERE r.domain_id = d.id AND r.type != 'NS') as direct_records
+      FROM ns_requests n
+      JOIN domains d ON n.domain_id = d.id
+      JOIN users u ON n.linuxdo_id = u.linuxdo_id
+      WHERE n.status = 'pending'
+      ORDER BY n.created_at ASC
+    `).all<NsRequest & Record<string, unknown>>();
+
+    return successResponse({
+      requests: (requests || []).map(r => ({ ...r, nameservers: JSON.parse(r.nameservers) })),
+    });
+  } catch (e) {
+    console.error('Failed to get NS requests:', e);
+    return errorResponse('Failed to get NS requests', 500);
+  }
+};
+
+// POST /api/admin/ns-requests - Approve (delegate now) or reject a request
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+
+  const authResult = await requireAdmin(request, env, { permission: 'dns_approvals' });
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const adminId = parseInt(authResult.user.sub, 10);
+
+  let body: { id?: number; action?: 'approve' | 'reject'; reason?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('Invalid JSON body', 400);
+  }
+
+  const { id, action, reason } = body;
+
+  if (!id || typeof id !== 'number') {
+    return errorResponse('Missing or invalid id', 400);
+  }
+  if (action !== 'approve' && action !== 'reject') {
+    return errorResponse('action must be "approve" or "reject"', 400);
+  }
+
+  try {
+    const nsRequest = await env.DB.prepare(
+      'SELECT * FROM ns_requests WHERE id = ?'
+    ).bind(id).first<NsRequest>();
+
+    if (!nsRequest) {
+      return errorResponse('NS request not found', 404);
+    }
+    if (nsRequest.status !== 'pending') {
+      return errorResponse(`NS request is ${nsRequest.status}`, 400);
+    }
+
+    const domain = await env.DB.prepare(
+      'SELECT * FROM domains WHERE id = ?'
+    ).bind(nsRequest.domain_id).first<Domain>();
+
+    if (!domain) {
+      return errorResponse('Domain not found', 404);
+    }
+
+    const nameservers: string[] = JSON.parse(nsRequest.nameservers);
+
+    if (action === 'approve') {
+      if (domain.status !== 'active') {
+        return errorResponse(`Domain ${domain.fqdn} is ${domain.status}`, 409);
+      }
+
+      // The nameservers may have changed since the user submitted the request
+      const check = await checkNameservers(createResolver(env), domain.fqdn, nameservers, (env.BASE_DOMAIN || 'py.kg').toLowerCase());
+      if (!check.valid) {
+        return errorResponse(`Nameserver check failed:\n${check.problems.join('\n')}`, 400);
+      }
+
+      const applied = await applyNameservers(env, domain, nameservers);
+      if (!applied.success) {
+        return errorResponse(applied.error, applied.status);
+      }
+
+      await env.DB.prepare(`
+        UPDATE ns_requests SET status = 'approved', reviewed_by = ?, reviewed_at = datetime('now') WHERE id = ?
+      `).bind(adminId, id).run();
+
+      if (domain.dns_mode !== 'ns') {
+        await recordDnsRevision(env.DB, domain.id, {
+          linuxdoId: adminId,
+          source: 'admin',
+          action: 'ns_enable',
+          details: { request_id: id, nameservers, deleted: applied.deleted },
+        });
+      }
+
+      await createNotification(
+        env.DB,
+        nsRequest.linuxdo_id,
+        'admin_message',
+        'NS 委派已通过审核',
+        `您的域名 ${domain.fqdn} 已委派至 ${nameservers.join('、')}，请在这些 DNS 服务器上管理解析记录。`
+      );
+    } else {
+      await env.DB.prepare(`
+        UPDATE ns_requests SET status = 'rejected', reason = ?, reviewed_by = ?, reviewed_at = datetime('now') WHERE id = ?
+      `).bind(reason || null, adminId, id).run();
+
+      await createNotification(
+        env.DB,
+        nsRequest.linuxdo_id,
+        'admin_message',
+        'NS 委派未通过审核',
+        `您的域名 ${domain.fqdn} 的 NS 委派申请未通过审核，解析记录保持不变。${reason ? `原因：${reason}` : ''}`
+      );
+    }
+
+    // Log the action
+    await env.DB.prepare(`
+      INSERT INTO audit_logs (linuxdo_id, action, target, details, ip_address, created_at)
+      VALUES (?, ?, ?, ?, ?, datetime('now'))
+    `).bind(
+      adminId,
+      action === 'approve' ? 'ns_request_approve' : 'ns_request_reject',
+      domain.fqdn,
+      JSON.stringify({ request_id: id, nameservers, reason }),
+      request.headers.get('CF-Connecting-IP')
+    ).run();
+
+    return successResponse({ id, approved: action === 'approve' });
+  } catch (e) {
+    console.error('Failed to process NS request:', e);
+    return errorResponse('Failed to process NS request', 500);
+  }
+};
@@ -0,0 +1,131 @@
+// /api/admin/orders - Order management and refunds
+
+import type { Env, Order, AdminOrderListItem } from '../../lib/types';
+import { requireAdmin, successResponse, errorResponse } from '../../lib/auth';
+import { refundPaidOrder } from '../../lib/refunds';
+
+// GET /api/admin/orders - Get orders list
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+
+  const authResult = await requireAdmin(request, env, { permission: 'orders' });
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const url = new URL(request.url);
+  const search = url.searchParams.get('search') || '';
+  const status = url.searchParams.get('status') || 'all';
+  const limit = Math.min(parseInt(url.searchParams.get('limit') || '50', 10), 100);
+  const offset = parseInt(url.searchParams.get('offset') || '0', 10);
+
+  try {
+    let whereClause = '1=1';
+    const params: any[] = [];
+
+    if (search) {
+      whereClause += ' AND (o.order_no LIKE ? OR o.label LIKE ? OR u.username LIKE ?)';
+      params.push(`%${search}%`, `%${search}%`, `%${search}%`);
+    }
+
+    if (status !== 'all') {
+      whereClause += ' AND o.status = ?';
+      params.push(status);
+    }
+
+    const { results } = await env.DB.prepare(`
+      SELECT o.*, u.username
+      FROM orders o
+      LEFT JOIN users u ON o.linuxdo_id = u.linuxdo_id
+      WHERE ${whereClause}
+      ORDER BY o.created_at DESC
+      LIMIT ? OFFSET ?
+    `).bind(...params, limit, offset).all<AdminOrderListItem>();
+
+    const countResult = await env.DB.prepare(`
+      SELECT COUNT(*) as count FROM orders o
+      LEFT JOIN users u ON o.linuxdo_id = u.linuxdo_id
+      WHERE ${whereClause}
+    `).bind(...params).first<{ count: number }>();
+
+    return successResponse({
+      orders: results || [],
+      total: countResult?.count || 0,
+    });
+  } catch (e) {
+    console.error('Failed to get orders:', e);
+    return errorResponse('Failed to get orders', 500);
+  }
+};
+
+// POST /api/admin/orders - Refund a paid order
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+
+  const authResult = await requireAdmin(request, env, { permission: 'orders' });
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  let body: { order_no?: string; action?: 'refund'; reason?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('Invalid JSON body', 400);
+  }
+
+  const { order_no, action, reason } = body;
+
+  if (!order_no || typeof order_no !== 'string') {
+    return errorResponse('Missing or invalid order_no', 400);
+  }
+
+  if (action !== 'refund') {
+    return errorResponse('Invalid action', 400);
+  }
+
+  try {
+    const order = await env.DB.prepare(
+      'SELECT * FROM orders WHERE order_no = ?'
+    ).bind(order_no).first<Order>();
+
+    if (!order) {
+      return errorResponse('Order not found', 404);
+    }
+
+    if (order.status !== 'paid') {
+      return errorResponse('Only paid orders can be refunded', 400);
+    }
+
+    const adminId = parseInt(authResult.user.sub, 10);
+    const adminUser = await env.DB.prepare(
+      'SELECT username FROM users WHERE linuxdo_id = ?'
+    ).bind(adminId).first<{ username: string }>();
+
+    const refund = await refundPaidOrder(env, order, {
+      reason: reason?.trim() || '管理员手动退款',
+      actorName: adminUser?.username || null,
+    });
+
+    // Log the action
+    await env.DB.prepare(`
+      INSERT INTO audit_logs (linuxdo_id, action, target, details, ip_address, created_at)
+      VALUES (?, ?, ?, ?, ?, datetime('now'))
+    `).bind(
+      adminId,
+      'order_refund',
+      order_no,
+      JSON.stringify({ reason, label: order.label, amount: order.amount, success: refund.success, msg: refund.msg }),
+      request.headers.get('CF-Connecting-IP')
+    ).run();
+
+    if (!refund.success) {
+      return errorResponse(`Refund failed: ${refund.msg}`, 502);
+    }
+
+    return successResponse({ refunded: true, refund });
+  } catch (e) {
+    console.error('Failed to refund order:', e);
+    return errorResponse('Failed to refund order', 500);
+  }
+};
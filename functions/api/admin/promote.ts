@@ -1,7 +1,8 @@
-// /api/admin/promote - Promote user to admin using secret
+// /api/admin/promote - Promote user to superadmin using secret
 
 import type { Env, User } from '../../lib/types';
 import { requireAuth, successResponse, errorResponse } from '../../lib/auth';
+import { addBlockchainLog, BlockchainActions } from '../../lib/blockchain';
 
 // Shared promotion logic
 async function promoteUser(request: Request, env: Env, secret: string) {
@@ -49,20 +50,20 @@ async function promoteUser(request: Request, env: Env, secret: string) {
       'SELECT * FROM users WHERE linuxdo_id = ?'
     ).bind(linuxdoId).first<User>();
 
-    console.log('[Promote] User found:', user ? 'yes' : 'no', user ? `is_admin=${user.is_admin}` : '');
+    console.log('[Promote] User found:', user ? 'yes' : 'no', user ? `admin_role=${user.admin_role}` : '');
 
     if (!user) {
       return errorResponse('User not found', 404);
     }
 
-    if (user.is_admin === 1) {
-      return successResponse({ message: 'Already an admin' });
+    if (user.admin_role === 'superadmin') {
+      return successResponse({ message: 'Already a superadmin' });
     }
 
-    // Promote to admin
-    console.log('[Promote] Updating user to admin...');
+    // Promote to superadmin
+    console.log('[Promote] Updating user to superadmin...');
     const updateResult = await env.DB.prepare(`
-      UPDATE users SET is_admin = 1, updated_at = datetime('now')
+      UPDATE users SET is_admin = 1, admin_role = 'superadmin', updated_at = datetime('now')
       WHERE linuxdo_id = ?
     `).bind(linuxdoId).run();
 
@@ -77,14 +78,22 @@ async function promoteUser(request: Request, env: Env, secret: string) {
       linuxdoId,
       'admin_promote_self',
       linuxdoId.toString(),
-      JSON.stringify({ method: 'secret' }),
+      JSON.stringify({ method: 'secret', previous_role: user.admin_role }),
       request.headers.get('CF-Connecting-IP')
     ).run();
 
     console.log('[Promote] Audit log result:', auditResult);
+
+    await addBlockchainLog(env.DB, {
+      action: user.admin_role ? BlockchainActions.ADMIN_ROLE_CHANGE : BlockchainActions.ADMIN_ROLE_GRANT,
+      actorName: user.username,
+      targetType: 'user',
+      targetName: user.username,
+      details: { method: 'secret', previous_role: user.admin_role, role: 'superadmin' },
+    });
     console.log('[Promote] Success!');
 
-    return successResponse({ message: 'Successfully promoted to admin' });
+    return successResponse({ message: 'Successfully promoted to superadmin' });
   } catch (e) {
     console.error('[Promote] Error:', e);
     console.error('[Promote] Error stack:', e instanceof Error ? e.stack : 'No stack trace');
@@ -0,0 +1,68 @@
+// /api/admin/reconciliation - Payment reconciliation reports
+
+import type { Env } from '../../lib/types';
+import { requireAdmin, successResponse, errorResponse } from '../../lib/auth';
+import { runPaymentReconciliation, getReconciliationRuns } from '../../lib/reconciliation';
+
+// GET /api/admin/reconciliation - Get reconciliation run reports
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+
+  const authResult = await requireAdmin(request, env, { permission: 'orders' });
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const url = new URL(request.url);
+  const limit = Math.min(parseInt(url.searchParams.get('limit') || '20', 10), 100);
+  const offset = parseInt(url.searchParams.get('offset') || '0', 10);
+
+  try {
+    const { runs, total } = await getReconciliationRuns(env.DB, limit, offset);
+
+    // Orders the next run will look at
+    const pendingCount = await env.DB.prepare(
+      "SELECT COUNT(*) as count FROM orders WHERE status = 'pending'"
+    ).first<{ count: number }>();
+
+    return successResponse({
+      runs,
+      total,
+      pending_orders: pendingCount?.count || 0,
+    });
+  } catch (e) {
+    console.error('Failed to get reconciliation runs:', e);
+    return errorResponse('Failed to get reconciliation runs', 500);
+  }
+};
+
+// POST /api/admin/reconciliation - Run reconciliation now
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+
+  const authResult = await requireAdmin(request, env, { permission: 'orders' });
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  try {
+    const report = await runPaymentReconciliation(env, authResult.dbUser.username);
+
+    // Log the action
+    await env.DB.prepare(`
+      INSERT INTO audit_logs (linuxdo_id, action, target, details, ip_address, created_at)
+      VALUES (?, ?, ?, ?, ?, datetime('now'))
+    `).bind(
+      parseInt(authResult.user.sub, 10),
+      'payment_reconcile',
+      `run:${report.id}`,
+      JSON.stringify({ checked: report.checked, activated: report.activated, expired: report.expired, errors: report.errors }),
+      request.headers.get('CF-Connecting-IP')
+    ).run();
+
+    return successResponse(report);
+  } catch (e) {
+    console.error('Failed to run reconciliation:', e);
+    return errorResponse('Failed to run reconciliation', 500);
+  }
+};
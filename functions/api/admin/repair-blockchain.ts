@@ -7,7 +7,7 @@ import { calculateBlockHash } from '../../lib/blockchain';
 export const onRequestPost: PagesFunction<Env> = async (context) => {
   const { env, request } = context;
 
-  const authResult = await requireAdmin(request, env);
+  const authResult = await requireAdmin(request, env, { permission: 'blockchain' });
   if (authResult instanceof Response) {
     return authResult;
   }
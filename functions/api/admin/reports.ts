@@ -4,6 +4,8 @@ import type { Env, Domain, DnsRecord } from '../../lib/types';
 import { requireAdmin, successResponse, errorResponse } from '../../lib/auth';
 import { CloudflareDNSClient } from '../../lib/cloudflare-dns';
 import { createNotification } from '../../lib/notifications';
+import { revokeUserSessions } from '../../lib/sessions';
+import { deleteDomainRows } from '../../lib/dns-sync';
 
 interface Report {
   id: number;
@@ -20,7 +22,7 @@ interface Report {
 export const onRequestGet: PagesFunction<Env> = async (context) => {
   const { env, request } = context;
 
-  const authResult = await requireAdmin(request, env);
+  const authResult = await requireAdmin(request, env, { permission: 'reports' });
   if (authResult instanceof Response) {
     return authResult;
   }
@@ -50,7 +52,7 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
 export const onRequestPost: PagesFunction<Env> = async (context) => {
   const { env, request } = context;
 
-  const authResult = await requireAdmin(request, env);
+  const authResult = await requireAdmin(request, env, { permission: 'reports' });
   if (authResult instanceof Response) {
     return authResult;
   }
@@ -123,6 +125,7 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
             UPDATE users SET is_banned = 1, ban_reason = ?, updated_at = datetime('now')
             WHERE linuxdo_id = ?
           `).bind(reason || '恶意举报', report.reporter_linuxdo_id).run();
+          await revokeUserSessions(env.DB, report.reporter_linuxdo_id);
         }
 
         // Ban reported user
@@ -131,6 +134,7 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
             UPDATE users SET is_banned = 1, ban_reason = ?, updated_at = datetime('now')
             WHERE linuxdo_id = ?
           `).bind(reason || '举报确认违规', domain.owner_linuxdo_id).run();
+          await revokeUserSessions(env.DB, domain.owner_linuxdo_id);
         }
 
         // Suspend domain
@@ -202,7 +206,7 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
           );
 
           // Delete from database
-          await env.DB.prepare('DELETE FROM domains WHERE id = ?').bind(domain.id).run();
+          await deleteDomainRows(env.DB, domain.id);
         }
 
         // Close report (mark as resolved or rejected)
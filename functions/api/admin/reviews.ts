@@ -6,12 +6,15 @@ import { CloudflareDNSClient } from '../../lib/cloudflare-dns';
 import { createNotification } from '../../lib/notifications';
 import { LinuxDOCreditClient } from '../../lib/credit';
 import { addBlockchainLog, BlockchainActions } from '../../lib/blockchain';
+import { getLifecycleSettings } from '../../lib/domain-lifecycle';
+import { refundPaidOrder, RefundResult } from '../../lib/refunds';
+import { revokeUserSessions } from '../../lib/sessions';
 
 // GET /api/admin/reviews - Get pending reviews
 export const onRequestGet: PagesFunction<Env> = async (context) => {
   const { env, request } = context;
 
-  const authResult = await requireAdmin(request, env);
+  const authResult = await requireAdmin(request, env, { permission: 'reviews' });
   if (authResult instanceof Response) {
     return authResult;
   }
@@ -52,7 +55,7 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
 export const onRequestPost: PagesFunction<Env> = async (context) => {
   const { env, request } = context;
 
-  const authResult = await requireAdmin(request, env);
+  const authResult = await requireAdmin(request, env, { permission: 'reviews' });
   if (authResult instanceof Response) {
     return authResult;
   }
@@ -139,10 +142,11 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
         );
       } else {
         // Domain doesn't exist (old flow), create it
+        const { termDays } = await getLifecycleSettings(env.DB);
         await env.DB.prepare(`
-          INSERT INTO domains (label, fqdn, owner_linuxdo_id, python_praise, usage_purpose, status, created_at)
-          VALUES (?, ?, ?, ?, ?, 'active', datetime('now'))
-        `).bind(review.label, fqdn, review.linuxdo_id, review.python_praise, review.usage_purpose).run();
+          INSERT INTO domains (label, fqdn, owner_linuxdo_id, python_praise, usage_purpose, status, expires_at, created_at)
+          VALUES (?, ?, ?, ?, ?, 'active', datetime('now', '+' || ? || ' days'), datetime('now'))
+        `).bind(review.label, fqdn, review.linuxdo_id, review.python_praise, review.usage_purpose, termDays).run();
 
         console.log('[Admin Review] Domain created as active:', fqdn);
       }
@@ -199,13 +203,32 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
         console.log('[Admin Review] Pending order deleted due to rejection:', review.order_no);
       }
 
+      // Get admin username for refund and blockchain logs
+      const adminUserReject = await env.DB.prepare(
+        'SELECT username FROM users WHERE linuxdo_id = ?'
+      ).bind(adminId).first<{ username: string }>();
+
+      // Refund the order if the user already paid
+      let refund: RefundResult | null = null;
+      const paidOrder = await env.DB.prepare(
+        'SELECT * FROM orders WHERE order_no = ? AND status = ?'
+      ).bind(review.order_no, 'paid').first<Order>();
+
+      if (paidOrder) {
+        refund = await refundPaidOrder(env, paidOrder, {
+          reason: `审核未通过${reason ? `：${reason}` : ''}`,
+          actorName: adminUserReject?.username || null,
+        });
+        console.log('[Admin Review] Refund result for rejected order:', review.order_no, refund.success, refund.msg);
+      }
+
       // Send notification to user
       await createNotification(
         env.DB,
         review.linuxdo_id,
         'domain_rejected',
         '域名审核未通过',
-        `您的域名 ${review.label}.${env.BASE_DOMAIN || 'py.kg'} 未通过审核。${reason ? `拒绝原因：${reason}` : ''}`
+        `您的域名 ${review.label}.${env.BASE_DOMAIN || 'py.kg'} 未通过审核。${reason ? `拒绝原因：${reason}` : ''}${refund?.success ? `已支付的 ${refund.amount} 积分已原路退回。` : ''}`
       );
 
       // Log the action
@@ -216,15 +239,10 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
         adminId,
         'review_reject',
         review.label,
-        JSON.stringify({ review_id: id, user_id: review.linuxdo_id, ban_user: banUser, reason }),
+        JSON.stringify({ review_id: id, user_id: review.linuxdo_id, ban_user: banUser, reason, refund }),
         request.headers.get('CF-Connecting-IP')
       ).run();
 
-      // Get admin username for blockchain log
-      const adminUserReject = await env.DB.prepare(
-        'SELECT username FROM users WHERE linuxdo_id = ?'
-      ).bind(adminId).first<{ username: string }>();
-
       // Add blockchain log for domain rejection
       await addBlockchainLog(env.DB, {
         action: BlockchainActions.DOMAIN_REJECT,
@@ -240,6 +258,7 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
           UPDATE users SET is_banned = 1, ban_reason = ?, updated_at = datetime('now')
           WHERE linuxdo_id = ?
         `).bind('审核被拒绝后封禁', review.linuxdo_id).run();
+        await revokeUserSessions(env.DB, review.linuxdo_id);
 
         // Also log user ban to blockchain
         const targetUser = await env.DB.prepare(
@@ -255,7 +274,7 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
         });
       }
 
-      return successResponse({ processed: true, action: 'reject' });
+      return successResponse({ processed: true, action: 'reject', refund });
     }
 
     return successResponse({ processed: true, action });
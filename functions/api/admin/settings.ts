@@ -4,12 +4,14 @@ import type { Env, Setting } from '../../lib/types';
 import { requireAdmin, successResponse, errorResponse } from '../../lib/auth';
 import { getSetting, setSetting } from '../../lib/moderation';
 import { addBlockchainLog, BlockchainActions } from '../../lib/blockchain';
+import { parseTrustLevelQuotas } from '../../lib/domains';
+import { parseRateLimits, RATE_LIMIT_ROUTES } from '../../lib/rate-limit';
 
 // GET /api/admin/settings - Get all settings
 export const onRequestGet: PagesFunction<Env> = async (context) => {
   const { env, request } = context;
 
-  const authResult = await requireAdmin(request, env);
+  const authResult = await requireAdmin(request, env, { permission: 'settings' });
   if (authResult instanceof Response) {
     return authResult;
   }
@@ -36,7 +38,7 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
 export const onRequestPut: PagesFunction<Env> = async (context) => {
   const { env, request } = context;
 
-  const authResult = await requireAdmin(request, env);
+  const authResult = await requireAdmin(request, env, { permission: 'settings' });
   if (authResult instanceof Response) {
     return authResult;
   }
@@ -48,7 +50,22 @@ export const onRequestPut: PagesFunction<Env> = async (context) => {
     return errorResponse('Invalid JSON body', 400);
   }
 
-  const allowedKeys = ['domain_price', 'require_review', 'max_domains_per_user'];
+  const allowedKeys = [
+    'domain_price',
+    'require_review',
+    'max_domains_per_user',
+    'max_domains_by_trust_level',
+    'renewal_price',
+    'registration_term_days',
+    'grace_period_days',
+    'redemption_period_days',
+    'order_expire_hours',
+    'mx_min_trust_level',
+    'ns_min_trust_level',
+    'dns_drift_auto_repair',
+    'transfer_fee',
+    'rate_limits',
+  ];
 
   try {
     for (const [key, value] of Object.entries(body)) {
@@ -77,6 +94,72 @@ export const onRequestPut: PagesFunction<Env> = async (context) => {
         }
       }
 
+      if (key === 'max_domains_by_trust_level') {
+        // Empty value gives every trust level max_domains_per_user
+        if (value !== '' && !parseTrustLevelQuotas(value)) {
+          return errorResponse('max_domains_by_trust_level must be a JSON object of trust level (0-4) to domain count (1-100)', 400);
+        }
+      }
+
+      if (key === 'renewal_price') {
+        // Empty value falls back to domain_price
+        const price = parseFloat(value);
+        if (value !== '' && (isNaN(price) || price < 0)) {
+          return errorResponse('Invalid renewal price value', 400);
+        }
+      }
+
+      if (key === 'registration_term_days' || key === 'grace_period_days' || key === 'redemption_period_days') {
+        const days = parseInt(value, 10);
+        const min = key === 'registration_term_days' ? 1 : 0;
+        if (isNaN(days) || days < min || days > 3650) {
+          return errorResponse(`${key} must be between ${min} and 3650`, 400);
+        }
+      }
+
+      if (key === 'order_expire_hours') {
+        const hours = parseInt(value, 10);
+        if (isNaN(hours) || hours < 1 || hours > 720) {
+          return errorResponse('order_expire_hours must be between 1 and 720', 400);
+        }
+      }
+
+      if (key === 'dns_drift_auto_repair') {
+        if (value !== 'true' && value !== 'false') {
+          return errorResponse('dns_drift_auto_repair must be "true" or "false"', 400);
+        }
+      }
+
+      if (key === 'transfer_fee') {
+        const fee = parseFloat(value);
+        if (isNaN(fee) || fee < 0) {
+          return errorResponse('Invalid transfer fee value', 400);
+        }
+      }
+
+      if (key === 'mx_min_trust_level') {
+        // 5 is above every LinuxDO trust level, leaving MX records to admin approval only
+        const level = parseInt(value, 10);
+        if (isNaN(level) || level < 0 || level > 5) {
+          return errorResponse('mx_min_trust_level must be between 0 and 5', 400);
+        }
+      }
+
+      if (key === 'ns_min_trust_level') {
+        // 5 is above every LinuxDO trust level, leaving NS delegation to admin approval only
+        const level = parseInt(value, 10);
+        if (isNaN(level) || level < 0 || level > 5) {
+          return errorResponse('ns_min_trust_level must be between 0 and 5', 400);
+        }
+      }
+
+      if (key === 'rate_limits') {
+        // Empty value uses the built-in budgets; listed routes override them
+        if (value !== '' && !parseRateLimits(value)) {
+          return errorResponse(`rate_limits must be a JSON object of route (${RATE_LIMIT_ROUTES.join(', ')}) to {"limit": 1-10000, "window": 1-86400 seconds}`, 400);
+        }
+      }
+
       await setSetting(key, value, env.DB);
     }
 
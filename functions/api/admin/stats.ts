@@ -6,7 +6,7 @@ import { requireAdmin, successResponse, errorResponse } from '../../lib/auth';
 export const onRequestGet: PagesFunction<Env> = async (context) => {
   const { env, request } = context;
 
-  const authResult = await requireAdmin(request, env);
+  const authResult = await requireAdmin(request, env, { permission: 'dashboard' });
   if (authResult instanceof Response) {
     return authResult;
   }
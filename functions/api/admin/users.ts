@@ -1,21 +1,23 @@
 // /api/admin/users - User management
 
-import type { Env, User, AdminUserListItem } from '../../lib/types';
-import { requireAdmin, successResponse, errorResponse } from '../../lib/auth';
+import type { Env, User, AdminUserListItem, AdminRole } from '../../lib/types';
+import { requireAdmin, successResponse, errorResponse, isAdminFromEnv } from '../../lib/auth';
 import { addBlockchainLog, BlockchainActions } from '../../lib/blockchain';
+import { revokeUserSessions } from '../../lib/sessions';
+import { ADMIN_ROLES, isAdminRole, hasPermission } from '../../lib/admin-roles';
 
 // GET /api/admin/users - Get users list
 export const onRequestGet: PagesFunction<Env> = async (context) => {
   const { env, request } = context;
 
-  const authResult = await requireAdmin(request, env);
+  const authResult = await requireAdmin(request, env, { permission: 'users' });
   if (authResult instanceof Response) {
     return authResult;
   }
 
   const url = new URL(request.url);
   const search = url.searchParams.get('search') || '';
-  const filter = url.searchParams.get('filter') || 'all'; // all, banned, admin
+  const filter = url.searchParams.get('filter') || 'all'; // all, banned, admin, or an admin role
   const limit = Math.min(parseInt(url.searchParams.get('limit') || '50', 10), 100);
   const offset = parseInt(url.searchParams.get('offset') || '0', 10);
 
@@ -32,10 +34,13 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
       whereClause += ' AND u.is_banned = 1';
     } else if (filter === 'admin') {
       whereClause += ' AND u.is_admin = 1';
+    } else if (isAdminRole(filter)) {
+      whereClause += ' AND u.admin_role = ?';
+      params.push(filter);
     }
 
     const { results } = await env.DB.prepare(`
-      SELECT u.linuxdo_id, u.username, u.trust_level, u.is_admin, u.is_banned, u.ban_reason, u.created_at,
+      SELECT u.linuxdo_id, u.username, u.trust_level, u.is_admin, u.admin_role, u.is_banned, u.ban_reason, u.created_at,
              (SELECT COUNT(*) FROM domains d WHERE d.owner_linuxdo_id = u.linuxdo_id) as domain_count
       FROM users u
       WHERE ${whereClause}
@@ -57,11 +62,11 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
   }
 };
 
-// POST /api/admin/users - Update user (ban/unban/set admin)
+// POST /api/admin/users - Update user (ban/unban needs the bans permission, set_admin/remove_admin the admins permission)
 export const onRequestPost: PagesFunction<Env> = async (context) => {
   const { env, request } = context;
 
-  const authResult = await requireAdmin(request, env);
+  const authResult = await requireAdmin(request, env, { permission: 'users' });
   if (authResult instanceof Response) {
     return authResult;
   }
@@ -69,6 +74,7 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
   let body: {
     linuxdo_id?: number;
     action?: 'ban' | 'unban' | 'set_admin' | 'remove_admin';
+    role?: AdminRole;  // for set_admin: grants or changes the role, default superadmin
     reason?: string;
   };
   try {
@@ -77,7 +83,7 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
     return errorResponse('Invalid JSON body', 400);
   }
 
-  const { linuxdo_id, action, reason } = body;
+  const { linuxdo_id, action, reason, role = 'superadmin' } = body;
 
   if (!linuxdo_id || typeof linuxdo_id !== 'number') {
     return errorResponse('Missing or invalid linuxdo_id', 400);
@@ -88,6 +94,15 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
     return errorResponse('Invalid action', 400);
   }
 
+  if (action === 'set_admin' && !isAdminRole(role)) {
+    return errorResponse(`role must be one of: ${ADMIN_ROLES.join(', ')}`, 400);
+  }
+
+  const permission = action === 'ban' || action === 'unban' ? 'bans' : 'admins';
+  if (!hasPermission(authResult.role, permission)) {
+    return errorResponse(`Your admin role (${authResult.role}) does not have the ${permission} permission`, 403);
+  }
+
   try {
     // Check if user exists
     const user = await env.DB.prepare(
@@ -101,16 +116,28 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
     const adminId = parseInt(authResult.user.sub, 10);
 
     // Prevent self-modification for certain actions
-    if (linuxdo_id === adminId && (action === 'ban' || action === 'remove_admin')) {
+    if (linuxdo_id === adminId && action !== 'unban') {
       return errorResponse('Cannot modify your own account', 400);
     }
 
+    // Banning another admin is for admins who could also take their role away
+    if (user.admin_role && (action === 'ban' || action === 'unban') && !hasPermission(authResult.role, 'admins')) {
+      return errorResponse('Only admins with the admins permission can ban other admins', 403);
+    }
+
+    // Their role comes from the environment and would be restored on their next request
+    if ((action === 'set_admin' || action === 'remove_admin') && isAdminFromEnv(linuxdo_id, env)) {
+      return errorResponse('Admins listed in ADMIN_LINUXDO_IDS are always superadmin', 400);
+    }
+
     switch (action) {
       case 'ban':
         await env.DB.prepare(`
           UPDATE users SET is_banned = 1, ban_reason = ?, updated_at = datetime('now')
           WHERE linuxdo_id = ?
         `).bind(reason || '管理员封禁', linuxdo_id).run();
+        // Existing logins end now rather than when their JWT expires
+        await revokeUserSessions(env.DB, linuxdo_id);
         break;
 
       case 'unban':
@@ -121,20 +148,31 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
         break;
 
       case 'set_admin':
+        if (user.admin_role === role) {
+          return errorResponse(`User is already ${role}`, 400);
+        }
         await env.DB.prepare(`
-          UPDATE users SET is_admin = 1, updated_at = datetime('now')
+          UPDATE users SET is_admin = 1, admin_role = ?, updated_at = datetime('now')
           WHERE linuxdo_id = ?
-        `).bind(linuxdo_id).run();
+        `).bind(role, linuxdo_id).run();
         break;
 
       case 'remove_admin':
+        if (!user.admin_role) {
+          return errorResponse('User is not an admin', 400);
+        }
         await env.DB.prepare(`
-          UPDATE users SET is_admin = 0, updated_at = datetime('now')
+          UPDATE users SET is_admin = 0, admin_role = NULL, updated_at = datetime('now')
           WHERE linuxdo_id = ?
         `).bind(linuxdo_id).run();
         break;
     }
 
+    // Role changes record the role before and after
+    const details = action === 'set_admin' || action === 'remove_admin'
+      ? { reason, previous_role: user.admin_role, role: action === 'set_admin' ? role : null }
+      : { reason };
+
     // Log the action
     await env.DB.prepare(`
       INSERT INTO audit_logs (linuxdo_id, action, target, details, ip_address, created_at)
@@ -143,7 +181,7 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
       adminId,
       `user_${action}`,
       linuxdo_id.toString(),
-      JSON.stringify({ reason }),
+      JSON.stringify(details),
       request.headers.get('CF-Connecting-IP')
     ).run();
 
@@ -155,18 +193,19 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
     // Add blockchain log
     const blockchainAction = action === 'ban' ? BlockchainActions.USER_BAN
       : action === 'unban' ? BlockchainActions.USER_UNBAN
-      : action === 'set_admin' ? BlockchainActions.ADMIN_GRANT
-      : BlockchainActions.ADMIN_REVOKE;
+      : action === 'remove_admin' ? BlockchainActions.ADMIN_ROLE_REVOKE
+      : user.admin_role ? BlockchainActions.ADMIN_ROLE_CHANGE
+      : BlockchainActions.ADMIN_ROLE_GRANT;
 
     await addBlockchainLog(env.DB, {
       action: blockchainAction,
       actorName: adminUser?.username || null,
       targetType: 'user',
       targetName: user.username,
-      details: { reason },
+      details,
     });
 
-    return successResponse({ updated: true, action });
+    return successResponse({ updated: true, action, ...(action === 'set_admin' ? { role } : {}) });
   } catch (e) {
     console.error('Failed to update user:', e);
     return errorResponse('Failed to update user', 500);
@@ -5,6 +5,7 @@ import { requireAuth, errorResponse, successResponse } from '../../lib/auth';
 import { DeepSeekClient, ChatMessage } from '../../lib/ai-client';
 import { getAgentTools, AgentToolExecutor } from '../../lib/agent-tools';
 import { getSystemPrompt, getWelcomeMessage } from '../../lib/agent-prompts';
+import { checkRateLimit } from '../../lib/rate-limit';
 import type { Env, User, ApiResponse } from '../../lib/types';
 
 interface ChatRequest {
@@ -52,6 +53,12 @@ export const onRequest: PagesFunction<Env> = async ({ request, env }) => {
     return errorResponse('Your account has been banned', 403);
   }
 
+  // Every message costs AI tokens
+  const rateLimited = await checkRateLimit(env.DB, request, 'agent_chat', linuxdoId);
+  if (rateLimited) {
+    return rateLimited;
+  }
+
   try {
     // Parse request body
     const body = await request.json() as ChatRequest;
@@ -86,8 +93,10 @@ export const onRequest: PagesFunction<Env> = async ({ request, env }) => {
         silenced: 0,
         active: 1,
         is_admin: 0,
+        admin_role: null,
         is_banned: 0,
         ban_reason: null,
+        profile_synced_at: null,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       });
@@ -159,8 +168,10 @@ export const onRequest: PagesFunction<Env> = async ({ request, env }) => {
       silenced: 0,
       active: 1,
       is_admin: 0,
+      admin_role: null,
       is_banned: 0,
       ban_reason: null,
+      profile_synced_at: null,
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
     }, request);
@@ -1,7 +1,8 @@
 // /api/appeals - Domain suspension appeals
 
-import type { Env, Domain, Appeal } from '../lib/types';
+import type { Env, Appeal } from '../lib/types';
 import { requireAuth, successResponse, errorResponse } from '../lib/auth';
+import { getUserDomain } from '../lib/domains';
 import { addBlockchainLog, BlockchainActions } from '../lib/blockchain';
 
 // GET /api/appeals - Get user's appeals
@@ -44,29 +45,31 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
   const { user } = authResult;
   const linuxdoId = parseInt(user.sub, 10);
 
-  let body: { reason?: string };
+  let body: { reason?: string; label?: string };
   try {
     body = await request.json();
   } catch {
     return errorResponse('Invalid JSON body', 400);
   }
 
-  const { reason } = body;
+  const { reason, label } = body;
 
   if (!reason || reason.trim().length < 10) {
     return errorResponse('申诉原因至少需要10个字符', 400);
   }
 
   try {
-    // Get user's suspended domain
-    const domain = await env.DB.prepare(
-      'SELECT * FROM domains WHERE owner_linuxdo_id = ? AND status = ?'
-    ).bind(linuxdoId, 'suspended').first<Domain>();
-
-    if (!domain) {
-      return errorResponse('您没有被暂停的域名', 404);
+    // Get user's suspended domain (label picks one when the user has several)
+    const found = await getUserDomain(env.DB, linuxdoId, label, {
+      statuses: ['suspended'],
+      notFoundError: '您没有被暂停的域名',
+    });
+    if (found.error) {
+      return found.error;
     }
 
+    const { domain } = found;
+
     // Check if there's already a pending appeal
     const existingAppeal = await env.DB.prepare(
       'SELECT * FROM appeals WHERE domain_id = ? AND status = ?'
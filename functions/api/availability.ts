@@ -0,0 +1,25 @@
+// /api/availability - Public domain availability check with suggestions
+
+import type { Env } from '../lib/types';
+import { successResponse, errorResponse } from '../lib/auth';
+import { checkAvailability } from '../lib/availability';
+
+// GET /api/availability?label={label} - Whether a label can be registered, and alternatives if not
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+
+  const label = new URL(request.url).searchParams.get('label');
+  if (!label) {
+    return errorResponse('Missing label parameter', 400);
+  }
+  if (label.length > 253) {
+    return errorResponse('Label too long', 400);
+  }
+
+  try {
+    return successResponse(await checkAvailability(env.DB, label, env.BASE_DOMAIN || 'py.kg'));
+  } catch (e) {
+    console.error('Availability check error:', e);
+    return errorResponse('Failed to check availability', 500);
+  }
+};
@@ -0,0 +1,25 @@
+// /api/cron/acme-cleanup - Scheduled removal of stale ACME challenge records
+
+import type { Env } from '../../lib/types';
+import { requireCron, successResponse, errorResponse } from '../../lib/auth';
+import { CloudflareDNSClient } from '../../lib/cloudflare-dns';
+import { cleanupStaleAcmeRecords } from '../../lib/acme';
+
+// POST /api/cron/acme-cleanup - Delete challenge records that were never cleaned up by their client
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+
+  const cronError = requireCron(request, env);
+  if (cronError) {
+    return cronError;
+  }
+
+  try {
+    const cfClient = new CloudflareDNSClient(env.CLOUDFLARE_API_TOKEN, env.CLOUDFLARE_ZONE_ID);
+    const removed = await cleanupStaleAcmeRecords(env.DB, cfClient, null);
+    return successResponse({ removed });
+  } catch (e) {
+    console.error('[Cron ACME] Failed:', e);
+    return errorResponse('Failed to clean up ACME challenge records', 500);
+  }
+};
@@ -0,0 +1,25 @@
+// /api/cron/dns-drift - Scheduled Cloudflare drift check
+
+import type { Env } from '../../lib/types';
+import { requireCron, successResponse, errorResponse } from '../../lib/auth';
+import { getSetting } from '../../lib/moderation';
+import { runDnsDriftCheck } from '../../lib/dns-drift';
+
+// POST /api/cron/dns-drift - Compare the zone with D1, repairing drift when dns_drift_auto_repair is on
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+
+  const cronError = requireCron(request, env);
+  if (cronError) {
+    return cronError;
+  }
+
+  try {
+    const autoRepair = (await getSetting('dns_drift_auto_repair', env.DB, 'false')) === 'true';
+    const report = await runDnsDriftCheck(env, 'cron', autoRepair);
+    return successResponse({ ...report, items: undefined });
+  } catch (e) {
+    console.error('[Cron DNS Drift] Failed:', e);
+    return errorResponse('Failed to check DNS drift', 500);
+  }
+};
@@ -0,0 +1,29 @@
+// /api/cron/domain-lifecycle - Scheduled expiry processing
+
+import type { Env } from '../../lib/types';
+import { requireCron, successResponse, errorResponse } from '../../lib/auth';
+import { runDomainLifecycle } from '../../lib/domain-lifecycle';
+
+// POST /api/cron/domain-lifecycle - Move expired domains to grace/redemption and release them
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+
+  const cronError = requireCron(request, env);
+  if (cronError) {
+    return cronError;
+  }
+
+  try {
+    const result = await runDomainLifecycle(env);
+    console.log('[Cron Lifecycle] Done:', JSON.stringify({
+      grace: result.grace.length,
+      redemption: result.redemption.length,
+      released: result.released.length,
+      errors: result.errors.length,
+    }));
+    return successResponse(result);
+  } catch (e) {
+    console.error('[Cron Lifecycle] Failed:', e);
+    return errorResponse('Failed to process domain lifecycle', 500);
+  }
+};
@@ -0,0 +1,24 @@
+// /api/cron/linuxdo-sync - Scheduled re-sync of user profiles from LinuxDO
+
+import type { Env } from '../../lib/types';
+import { requireCron, successResponse, errorResponse } from '../../lib/auth';
+import { createLinuxDOClient } from '../../lib/linuxdo';
+import { syncUserProfiles } from '../../lib/linuxdo-sync';
+
+// POST /api/cron/linuxdo-sync - Refresh the least recently synced users; newly silenced or inactive users' domains go to review
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+
+  const cronError = requireCron(request, env);
+  if (cronError) {
+    return cronError;
+  }
+
+  try {
+    const report = await syncUserProfiles(env.DB, createLinuxDOClient(env));
+    return successResponse(report);
+  } catch (e) {
+    console.error('[Cron LinuxDO Sync] Failed:', e);
+    return errorResponse('Failed to sync user profiles', 500);
+  }
+};
@@ -0,0 +1,23 @@
+// /api/cron/payment-reconciliation - Scheduled payment reconciliation
+
+import type { Env } from '../../lib/types';
+import { requireCron, successResponse, errorResponse } from '../../lib/auth';
+import { runPaymentReconciliation } from '../../lib/reconciliation';
+
+// POST /api/cron/payment-reconciliation - Complete paid orders whose callback was lost, expire unpaid ones
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+
+  const cronError = requireCron(request, env);
+  if (cronError) {
+    return cronError;
+  }
+
+  try {
+    const report = await runPaymentReconciliation(env, 'cron');
+    return successResponse(report);
+  } catch (e) {
+    console.error('[Cron Reconciliation] Failed:', e);
+    return errorResponse('Failed to reconcile payments', 500);
+  }
+};
@@ -1,17 +1,24 @@
-// /api/dns-records - DNS records management (A/AAAA/CNAME/TXT)
+// /api/dns-records - DNS records management (A/AAAA/CNAME/TXT/MX/SRV/CAA)
 
-import type { Env, Domain, DnsRecord } from '../lib/types';
+import type { Env, DnsRecord } from '../lib/types';
 import { requireAuth, successResponse, errorResponse } from '../lib/auth';
-import { CloudflareDNSClient, validateDNSRecordContent } from '../lib/cloudflare-dns';
-import { isEmailRelatedTxtRecord } from '../lib/validators';
-
-const MAX_RECORDS = 10;
+import { getUserDomain } from '../lib/domains';
+import { logMemberAction } from '../lib/domain-members';
+import { canManageName, filterManagedRecords, subtreeError } from '../lib/delegations';
+import { CloudflareDNSClient } from '../lib/cloudflare-dns';
+import type { DnsRecordInput } from '../lib/validators';
+import { validateDnsRecordInput, validateDnsRecordSet } from '../lib/validators';
+import { canPublishMx } from '../lib/mx-policy';
+import { requireDirectMode } from '../lib/ns-delegation';
+import { checkRateLimit } from '../lib/rate-limit';
+import { toDnsRecordResponse } from '../lib/ddns';
+import { recordDnsRevision, getRevisionSource } from '../lib/dns-revisions';
 
 // GET /api/dns-records - Get all DNS records for user's domain
 export const onRequestGet: PagesFunction<Env> = async (context) => {
-  const { env, request } = context;
+  const { env, request, params } = context;
 
-  const authResult = await requireAuth(request, env);
+  const authResult = await requireAuth(request, env, { scope: 'dns:read' });
   if (authResult instanceof Response) {
     return authResult;
   }
@@ -21,17 +28,15 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
 
   console.log('GET /api/dns-records - linuxdoId:', linuxdoId);
 
-  // Get user's domain
-  const domain = await env.DB.prepare(
-    'SELECT * FROM domains WHERE owner_linuxdo_id = ? AND status = ?'
-  ).bind(linuxdoId, 'active').first<Domain>();
-
-  console.log('Found domain:', domain?.id, domain?.fqdn);
-
-  if (!domain) {
-    return errorResponse('You do not have a registered domain', 404);
+  // Get user's domain (or a domain shared with the user)
+  const found = await getUserDomain(env.DB, linuxdoId, params.label, { access: 'read', delegates: true });
+  if (found.error) {
+    return found.error;
   }
 
+  const { domain } = found;
+  console.log('Found domain:', domain.id, domain.fqdn);
+
   // Get DNS records from database
   const { results: records } = await env.DB.prepare(
     'SELECT * FROM dns_records WHERE domain_id = ? ORDER BY type, name'
@@ -40,17 +45,18 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
   console.log('Found DNS records:', records?.length, 'for domain_id:', domain.id);
   console.log('Records:', JSON.stringify(records));
 
+  // Delegates only see their own subtree
   return successResponse({
     dns_mode: domain.dns_mode || 'direct',
-    records: records || [],
+    records: filterManagedRecords(found, records || []).map(toDnsRecordResponse),
   });
 };
 
 // POST /api/dns-records - Add a DNS record
 export const onRequestPost: PagesFunction<Env> = async (context) => {
-  const { env, request } = context;
+  const { env, request, params } = context;
 
-  const authResult = await requireAuth(request, env);
+  const authResult = await requireAuth(request, env, { scope: 'dns:write' });
   if (authResult instanceof Response) {
     return authResult;
   }
@@ -58,86 +64,43 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
   const { user } = authResult;
   const linuxdoId = parseInt(user.sub, 10);
 
+  const rateLimited = await checkRateLimit(env.DB, request, 'dns_records', linuxdoId);
+  if (rateLimited) {
+    return rateLimited;
+  }
+
   // Parse request body
-  let body: { type?: string; name?: string; content?: string; ttl?: number; proxied?: boolean };
+  let body: DnsRecordInput;
   try {
     body = await request.json();
   } catch {
     return errorResponse('Invalid JSON body', 400);
   }
 
-  const { type, name, content, ttl = 3600, proxied = false } = body;
-
-  // Validate type
-  if (!type || !['A', 'AAAA', 'CNAME', 'TXT'].includes(type)) {
-    return errorResponse('Invalid or missing record type. Must be A, AAAA, CNAME, or TXT', 400);
-  }
-
-  // Validate name (@ for root, or subdomain label)
-  if (!name) {
-    return errorResponse('Name is required', 400);
+  const validation = validateDnsRecordInput(body);
+  if (!validation.valid) {
+    return errorResponse(validation.error, 400);
   }
 
-  // Normalize name: empty string becomes @
-  const normalizedName = name.trim().toLowerCase() || '@';
+  const { type, name: normalizedName, content, ttl, proxied, priority } = validation.record;
 
-  // Validate content first (needed for TXT email check)
-  if (!content || typeof content !== 'string') {
-    return errorResponse('Missing or invalid content', 400);
+  // Get user's domain (or a domain shared with the user)
+  const found = await getUserDomain(env.DB, linuxdoId, params.label, { access: 'write', delegates: true });
+  if (found.error) {
+    return found.error;
   }
 
-  // TXT records: block email-related records only
-  if (type === 'TXT') {
-    const emailCheck = isEmailRelatedTxtRecord(normalizedName, content);
-    if (emailCheck.isEmailRelated) {
-      return errorResponse(emailCheck.reason || 'Email-related TXT records are not allowed', 400);
-    }
-  }
+  const { domain } = found;
 
-  // Validate name format
-  if (normalizedName !== '@') {
-    // Must be valid subdomain label (a-z0-9, can contain hyphens and underscores for TXT)
-    if (type === 'TXT') {
-      // TXT records can have underscores (like _acme-challenge)
-      if (!/^[a-z0-9_]([a-z0-9_-]*[a-z0-9_])?(\.[a-z0-9_]([a-z0-9_-]*[a-z0-9_])?)*$/.test(normalizedName)) {
-        return errorResponse('Invalid name format for TXT record', 400);
-      }
-    } else {
-      // A/AAAA/CNAME: standard subdomain format
-      if (!/^[a-z0-9]([a-z0-9-]*[a-z0-9])?$/.test(normalizedName)) {
-        return errorResponse('Invalid name format. Must be @ or a valid subdomain label (lowercase letters, numbers, hyphens)', 400);
-      }
-    }
-
-    if (normalizedName.length > 63) {
-      return errorResponse('Name too long. Maximum 63 characters', 400);
-    }
+  // Records live on the user's own nameservers while the domain is delegated
+  const nsMode = requireDirectMode(domain);
+  if (nsMode) {
+    return nsMode;
   }
 
-  // Validate content format
-
-  const contentValidation = validateDNSRecordContent(type as 'A' | 'AAAA' | 'CNAME' | 'TXT', content);
-  if (!contentValidation.valid) {
-    return errorResponse(contentValidation.error!, 400);
-  }
-
-  // Validate TTL
-  if (ttl < 60 || ttl > 86400) {
-    return errorResponse('TTL must be between 60 and 86400 seconds', 400);
-  }
-
-  // Validate proxied - only A, AAAA, CNAME can be proxied
-  if (proxied && type === 'TXT') {
-    return errorResponse('TXT records cannot be proxied', 400);
-  }
-
-  // Get user's domain
-  const domain = await env.DB.prepare(
-    'SELECT * FROM domains WHERE owner_linuxdo_id = ? AND status = ?'
-  ).bind(linuxdoId, 'active').first<Domain>();
-
-  if (!domain) {
-    return errorResponse('You do not have a registered domain', 404);
+  // Delegates can only add records within their delegated name
+  if (!canManageName(found, normalizedName)) {
+    return errorResponse(subtreeError(found.subtrees), 403);
   }
 
   // Get existing records
@@ -147,19 +110,51 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
 
   const existing = existingRecords || [];
 
-  // Check record count limit
-  if (existing.length >= MAX_RECORDS) {
-    return errorResponse(`Maximum ${MAX_RECORDS} DNS records allowed`, 400);
+  // Record limit (ACME challenge records don't count), CNAME coexistence and duplicates
+  const setCheck = validateDnsRecordSet([...existing, validation.record]);
+  if (!setCheck.valid) {
+    return errorResponse(setCheck.error!, 400);
   }
 
-  // CNAME cannot coexist with other records at the same name (except TXT)
-  const sameNameRecords = existing.filter(r => r.name === normalizedName);
-  if (type === 'CNAME' && sameNameRecords.some(r => r.type !== 'TXT')) {
-    return errorResponse(`CNAME records cannot coexist with A/AAAA records at '${normalizedName}'`, 400);
-  }
+  // MX from users below the trust threshold waits for admin approval (not published yet)
+  if (type === 'MX' && !(await canPublishMx(env.DB, linuxdoId, user.trust_level))) {
+    const insertResult = await env.DB.prepare(`
+      INSERT INTO dns_records (domain_id, type, name, content, priority, ttl, proxied, cloudflare_record_id, cf_synced, pending_approval, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, 0, NULL, 0, 1, datetime('now'), datetime('now'))
+    `).bind(domain.id, type, normalizedName, content, priority, ttl).run();
 
-  if ((type === 'A' || type === 'AAAA') && sameNameRecords.some(r => r.type === 'CNAME')) {
-    return errorResponse(`Cannot add A/AAAA records when CNAME exists at '${normalizedName}'`, 400);
+    // Log the action
+    await env.DB.prepare(`
+      INSERT INTO audit_logs (linuxdo_id, action, target, details, ip_address, created_at)
+      VALUES (?, ?, ?, ?, ?, datetime('now'))
+    `).bind(
+      linuxdoId,
+      'dns_mx_request',
+      domain.fqdn,
+      JSON.stringify({ record_id: insertResult.meta.last_row_id, name: normalizedName, content, priority }),
+      request.headers.get('CF-Connecting-IP')
+    ).run();
+
+    await logMemberAction(env.DB, found, {
+      linuxdoId,
+      username: user.username,
+      action: 'mx_request',
+      details: { type, name: normalizedName },
+      ip: request.headers.get('CF-Connecting-IP'),
+    });
+
+    return successResponse({
+      message: 'MX record submitted for admin approval',
+      pending_approval: true,
+      record: {
+        type,
+        name: normalizedName,
+        content,
+        priority,
+        ttl,
+        proxied,
+      },
+    });
   }
 
   // Build full DNS name for Cloudflare
@@ -168,11 +163,12 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
   // Create record in Cloudflare
   const cfClient = new CloudflareDNSClient(env.CLOUDFLARE_API_TOKEN, env.CLOUDFLARE_ZONE_ID);
   const cfResult = await cfClient.createDNSRecord(
-    type as 'A' | 'AAAA' | 'CNAME' | 'TXT',
+    type,
     dnsName,
     content,
     ttl,
-    proxied
+    proxied,
+    priority
   );
 
   if (!cfResult.success) {
@@ -183,19 +179,35 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
   // Store in database
   try {
     await env.DB.prepare(`
-      INSERT INTO dns_records (domain_id, type, name, content, ttl, proxied, cloudflare_record_id, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'), datetime('now'))
-    `).bind(domain.id, type, normalizedName, content, ttl, proxied ? 1 : 0, cfResult.record.id).run();
+      INSERT INTO dns_records (domain_id, type, name, content, priority, ttl, proxied, cloudflare_record_id, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, datetime('now'), datetime('now'))
+    `).bind(domain.id, type, normalizedName, content, priority, ttl, proxied ? 1 : 0, cfResult.record.id).run();
 
-    // Always use direct mode now (no NS support)
+    // Delegated domains were rejected above, so this is a direct-mode zone
     await env.DB.prepare('UPDATE domains SET dns_mode = ? WHERE id = ?').bind('direct', domain.id).run();
 
+    await recordDnsRevision(env.DB, domain.id, {
+      linuxdoId,
+      source: getRevisionSource(context.data, authResult),
+      action: 'create',
+      details: { type, name: normalizedName, content },
+    });
+
+    await logMemberAction(env.DB, found, {
+      linuxdoId,
+      username: user.username,
+      action: 'create',
+      details: { type, name: normalizedName },
+      ip: request.headers.get('CF-Connecting-IP'),
+    });
+
     return successResponse({
       message: 'DNS record created successfully',
       record: {
         type,
         name: normalizedName,
         content,
+        priority,
         ttl,
         proxied,
       },
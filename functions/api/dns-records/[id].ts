@@ -1,15 +1,24 @@
 // /api/dns-records/:id - DNS record operations
 
-import type { Env, Domain, DnsRecord } from '../../lib/types';
+import type { Env, DnsRecord } from '../../lib/types';
 import { requireAuth, successResponse, errorResponse } from '../../lib/auth';
-import { CloudflareDNSClient, validateDNSRecordContent } from '../../lib/cloudflare-dns';
-import { isEmailRelatedTxtRecord } from '../../lib/validators';
+import { getUserDomain } from '../../lib/domains';
+import { logMemberAction } from '../../lib/domain-members';
+import { canManageName, subtreeError } from '../../lib/delegations';
+import { CloudflareDNSClient } from '../../lib/cloudflare-dns';
+import type { DnsRecordInput } from '../../lib/validators';
+import { validateDnsRecordInput, validateDnsRecordSet, dnsRecordToInput } from '../../lib/validators';
+import { canPublishMx, MX_APPROVAL_REQUIRED_ERROR } from '../../lib/mx-policy';
+import { requireDirectMode } from '../../lib/ns-delegation';
+import { checkRateLimit } from '../../lib/rate-limit';
+import { toDnsRecordResponse } from '../../lib/ddns';
+import { recordDnsRevision, getRevisionSource } from '../../lib/dns-revisions';
 
 // GET /api/dns-records/:id - Get a single DNS record
 export const onRequestGet: PagesFunction<Env> = async (context) => {
   const { env, request, params } = context;
 
-  const authResult = await requireAuth(request, env);
+  const authResult = await requireAuth(request, env, { scope: 'dns:read' });
   if (authResult instanceof Response) {
     return authResult;
   }
@@ -22,32 +31,32 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
     return errorResponse('Missing record ID', 400);
   }
 
-  // Get user's domain
-  const domain = await env.DB.prepare(
-    'SELECT * FROM domains WHERE owner_linuxdo_id = ? AND status = ?'
-  ).bind(linuxdoId, 'active').first<Domain>();
-
-  if (!domain) {
-    return errorResponse('You do not have a registered domain', 404);
+  // Get user's domain (or a domain shared with the user)
+  const found = await getUserDomain(env.DB, linuxdoId, params.label, { access: 'read', delegates: true, recordId: parseInt(recordId, 10) });
+  if (found.error) {
+    return found.error;
   }
 
+  const { domain } = found;
+
   // Get the DNS record
   const record = await env.DB.prepare(
     'SELECT * FROM dns_records WHERE id = ? AND domain_id = ?'
   ).bind(parseInt(recordId, 10), domain.id).first<DnsRecord>();
 
-  if (!record) {
+  // Records outside a delegate's subtree are not theirs to see
+  if (!record || !canManageName(found, record.name)) {
     return errorResponse('DNS record not found', 404);
   }
 
-  return successResponse(record);
+  return successResponse(toDnsRecordResponse(record));
 };
 
-// PUT /api/dns-records/:id - Update a DNS record
+// PUT /api/dns-records/:id - Update a DNS record (omitted fields keep their current values)
 export const onRequestPut: PagesFunction<Env> = async (context) => {
   const { env, request, params } = context;
 
-  const authResult = await requireAuth(request, env);
+  const authResult = await requireAuth(request, env, { scope: 'dns:write' });
   if (authResult instanceof Response) {
     return authResult;
   }
@@ -55,33 +64,36 @@ export const onRequestPut: PagesFunction<Env> = async (context) => {
   const { user } = authResult;
   const linuxdoId = parseInt(user.sub, 10);
 
+  const rateLimited = await checkRateLimit(env.DB, request, 'dns_records', linuxdoId);
+  if (rateLimited) {
+    return rateLimited;
+  }
+
   const recordId = params.id as string;
   if (!recordId) {
     return errorResponse('Missing record ID', 400);
   }
 
   // Parse request body
-  let body: { type?: string; name?: string; content?: string; ttl?: number; proxied?: boolean };
+  let body: DnsRecordInput;
   try {
     body = await request.json();
   } catch {
     return errorResponse('Invalid JSON body', 400);
   }
 
-  const { type, name, content, ttl, proxied } = body;
-
-  // Validate required fields
-  if (type && !['A', 'AAAA', 'CNAME', 'TXT'].includes(type)) {
-    return errorResponse('Invalid DNS record type', 400);
+  // Get user's domain (or a domain shared with the user)
+  const found = await getUserDomain(env.DB, linuxdoId, params.label, { access: 'write', delegates: true, recordId: parseInt(recordId, 10) });
+  if (found.error) {
+    return found.error;
   }
 
-  // Get user's domain
-  const domain = await env.DB.prepare(
-    'SELECT * FROM domains WHERE owner_linuxdo_id = ? AND status = ?'
-  ).bind(linuxdoId, 'active').first<Domain>();
+  const { domain } = found;
 
-  if (!domain) {
-    return errorResponse('You do not have a registered domain', 404);
+  // Records live on the user's own nameservers while the domain is delegated
+  const nsMode = requireDirectMode(domain);
+  if (nsMode) {
+    return nsMode;
   }
 
   // Get the DNS record
@@ -89,58 +101,107 @@ export const onRequestPut: PagesFunction<Env> = async (context) => {
     'SELECT * FROM dns_records WHERE id = ? AND domain_id = ?'
   ).bind(parseInt(recordId, 10), domain.id).first<DnsRecord>();
 
-  if (!record) {
+  // Records outside a delegate's subtree are not theirs to see
+  if (!record || !canManageName(found, record.name)) {
     return errorResponse('DNS record not found', 404);
   }
 
-  // Validate content if provided
-  if (content && type) {
-    const validation = validateDNSRecordContent(type, content);
-    if (!validation.valid) {
-      return errorResponse(validation.error || 'Invalid DNS record content', 400);
-    }
+  if (record.pending_approval) {
+    return errorResponse('This record is awaiting admin approval; delete it and submit a new one instead', 400);
   }
 
-  // Check for TXT record restrictions
-  if ((type === 'TXT' || record.type === 'TXT') && content) {
-    if (isEmailRelatedTxtRecord(content)) {
-      return errorResponse('Email-related TXT records (SPF, DKIM, DMARC) are not allowed', 403);
-    }
+  // Challenge records do not count against the record limit and are cleaned up by the ACME job
+  if (record.acme_challenge) {
+    return errorResponse('ACME challenge records are managed by /api/acme', 400);
+  }
+
+  // Same rules as creating a record
+  const validation = validateDnsRecordInput({ ...dnsRecordToInput(record), ...body });
+  if (!validation.valid) {
+    return errorResponse(validation.error, 400);
+  }
+
+  const updated = validation.record;
+
+  // A delegate cannot move a record out of their subtree
+  if (!canManageName(found, updated.name)) {
+    return errorResponse(subtreeError(found.subtrees), 403);
+  }
+
+  const { results: otherRecords } = await env.DB.prepare(
+    'SELECT * FROM dns_records WHERE domain_id = ? AND id != ?'
+  ).bind(domain.id, record.id).all<DnsRecord>();
+
+  const setCheck = validateDnsRecordSet([...(otherRecords || []), updated]);
+  if (!setCheck.valid) {
+    return errorResponse(setCheck.error!, 400);
   }
 
-  const finalType = type || record.type;
-  const finalName = name !== undefined ? name : record.name;
-  const finalContent = content || record.content;
-  const finalTtl = ttl !== undefined ? ttl : record.ttl;
-  const finalProxied = proxied !== undefined ? (proxied ? 1 : 0) : record.proxied;
+  // Changing where mail goes is subject to the MX policy
+  const mxChanged = updated.type === 'MX' && (
+    record.type !== 'MX' || record.content !== updated.content || record.priority !== updated.priority
+  );
+  if (mxChanged && !(await canPublishMx(env.DB, linuxdoId, user.trust_level))) {
+    return errorResponse(MX_APPROVAL_REQUIRED_ERROR, 403);
+  }
 
   // Update in Cloudflare
   if (record.cloudflare_record_id) {
     const cfClient = new CloudflareDNSClient(env.CLOUDFLARE_API_TOKEN, env.CLOUDFLARE_ZONE_ID);
-    const cfResult = await cfClient.updateDNSRecord(record.cloudflare_record_id, {
-      type: finalType,
-      name: finalName === '@' ? domain.fqdn : `${finalName}.${domain.fqdn}`,
-      content: finalContent,
-      ttl: finalTtl,
-      proxied: finalProxied === 1,
-    });
+    const cfResult = await cfClient.updateDNSRecord(
+      record.cloudflare_record_id,
+      updated.type,
+      updated.name === '@' ? domain.fqdn : `${updated.name}.${domain.fqdn}`,
+      updated.content,
+      updated.ttl,
+      updated.proxied,
+      updated.priority
+    );
 
     if (!cfResult.success) {
       return errorResponse(`Cloudflare DNS update failed: ${cfResult.error}`, 500);
     }
   }
 
-  // Update in database
+  // Update in database (DDNS keys only apply to A/AAAA records)
   try {
-    await env.DB.prepare(
-      'UPDATE dns_records SET type = ?, name = ?, content = ?, ttl = ?, proxied = ? WHERE id = ?'
-    ).bind(finalType, finalName, finalContent, finalTtl, finalProxied, parseInt(recordId, 10)).run();
+    await env.DB.prepare(`
+      UPDATE dns_records
+      SET type = ?, name = ?, content = ?, priority = ?, ttl = ?, proxied = ?,
+          ddns_key_hash = CASE WHEN ? IN ('A', 'AAAA') THEN ddns_key_hash ELSE NULL END,
+          updated_at = datetime('now')
+      WHERE id = ?
+    `).bind(
+      updated.type,
+      updated.name,
+      updated.content,
+      updated.priority,
+      updated.ttl,
+      updated.proxied ? 1 : 0,
+      updated.type,
+      record.id
+    ).run();
+
+    await recordDnsRevision(env.DB, domain.id, {
+      linuxdoId,
+      source: getRevisionSource(context.data, authResult),
+      action: 'update',
+      details: { record_id: record.id, type: updated.type, name: updated.name, from: record.content, to: updated.content },
+    });
+
+    await logMemberAction(env.DB, found, {
+      linuxdoId,
+      username: user.username,
+      action: 'update',
+      details: { record_id: record.id, type: updated.type, name: updated.name },
+      ip: request.headers.get('CF-Connecting-IP'),
+    });
 
     const updatedRecord = await env.DB.prepare(
       'SELECT * FROM dns_records WHERE id = ?'
-    ).bind(parseInt(recordId, 10)).first<DnsRecord>();
+    ).bind(record.id).first<DnsRecord>();
 
-    return successResponse(updatedRecord);
+    return successResponse(updatedRecord && toDnsRecordResponse(updatedRecord));
   } catch (e) {
     console.error('Database error:', e);
     return errorResponse('Failed to update DNS record', 500);
@@ -151,7 +212,7 @@ export const onRequestPut: PagesFunction<Env> = async (context) => {
 export const onRequestDelete: PagesFunction<Env> = async (context) => {
   const { env, request, params } = context;
 
-  const authResult = await requireAuth(request, env);
+  const authResult = await requireAuth(request, env, { scope: 'dns:write' });
   if (authResult instanceof Response) {
     return authResult;
   }
@@ -159,18 +220,28 @@ export const onRequestDelete: PagesFunction<Env> = async (context) => {
   const { user } = authResult;
   const linuxdoId = parseInt(user.sub, 10);
 
+  const rateLimited = await checkRateLimit(env.DB, request, 'dns_records', linuxdoId);
+  if (rateLimited) {
+    return rateLimited;
+  }
+
   const recordId = params.id as string;
   if (!recordId) {
     return errorResponse('Missing record ID', 400);
   }
 
-  // Get user's domain
-  const domain = await env.DB.prepare(
-    'SELECT * FROM domains WHERE owner_linuxdo_id = ? AND status = ?'
-  ).bind(linuxdoId, 'active').first<Domain>();
+  // Get user's domain (or a domain shared with the user)
+  const found = await getUserDomain(env.DB, linuxdoId, params.label, { access: 'write', delegates: true, recordId: parseInt(recordId, 10) });
+  if (found.error) {
+    return found.error;
+  }
 
-  if (!domain) {
-    return errorResponse('You do not have a registered domain', 404);
+  const { domain } = found;
+
+  // Records live on the user's own nameservers while the domain is delegated
+  const nsMode = requireDirectMode(domain);
+  if (nsMode) {
+    return nsMode;
   }
 
   // Get the DNS record
@@ -178,18 +249,25 @@ export const onRequestDelete: PagesFunction<Env> = async (context) => {
     'SELECT * FROM dns_records WHERE id = ? AND domain_id = ?'
   ).bind(parseInt(recordId, 10), domain.id).first<DnsRecord>();
 
-  if (!record) {
+  // Records outside a delegate's subtree are not theirs to see
+  if (!record || !canManageName(found, record.name)) {
     return errorResponse('DNS record not found', 404);
   }
 
-  // Delete from Cloudflare
-  if (record.cloudflare_record_id) {
+  // Delete from Cloudflare; keep the row unless the record is confirmed gone,
+  // otherwise the Cloudflare record would be left without an owner
+  if (record.cloudflare_record_id && record.cf_synced) {
     const cfClient = new CloudflareDNSClient(env.CLOUDFLARE_API_TOKEN, env.CLOUDFLARE_ZONE_ID);
     const cfResult = await cfClient.deleteDNSRecord(record.cloudflare_record_id);
 
     if (!cfResult.success) {
       console.error('Cloudflare DNS delete error:', cfResult.error);
-      // Continue anyway to delete from database
+
+      const dnsName = record.name === '@' ? domain.fqdn : `${record.name}.${domain.fqdn}`;
+      const lookup = await cfClient.getAllRecords(dnsName);
+      if (!lookup.success || lookup.records.some(r => r.id === record.cloudflare_record_id)) {
+        return errorResponse(`Cloudflare DNS delete failed: ${cfResult.error}`, 500);
+      }
     }
   }
 
@@ -207,6 +285,24 @@ export const onRequestDelete: PagesFunction<Env> = async (context) => {
       await env.DB.prepare('UPDATE domains SET dns_mode = NULL WHERE id = ?').bind(domain.id).run();
     }
 
+    // ACME challenges and unapproved MX records are not part of the tracked zone
+    if (!record.acme_challenge && !record.pending_approval) {
+      await recordDnsRevision(env.DB, domain.id, {
+        linuxdoId,
+        source: getRevisionSource(context.data, authResult),
+        action: 'delete',
+        details: { record_id: record.id, type: record.type, name: record.name, content: record.content },
+      });
+    }
+
+    await logMemberAction(env.DB, found, {
+      linuxdoId,
+      username: user.username,
+      action: 'delete',
+      details: { record_id: record.id, type: record.type, name: record.name },
+      ip: request.headers.get('CF-Connecting-IP'),
+    });
+
     return successResponse({ deleted: true });
   } catch (e) {
     console.error('Database error:', e);
@@ -0,0 +1,126 @@
+// /api/dns-records/:id/ddns-key - Dynamic DNS update key management
+
+import type { Env, Domain, DnsRecord } from '../../../lib/types';
+import { requireAuth, successResponse, errorResponse } from '../../../lib/auth';
+import { getUserDomain } from '../../../lib/domains';
+import { generateDdnsKey, hashDdnsKey } from '../../../lib/ddns';
+
+// Look up an A/AAAA record of the user's active domain
+// Owner only: a key would keep working after a member is removed from the domain
+async function getDdnsRecord(
+  env: Env,
+  linuxdoId: number,
+  label: string | string[] | undefined,
+  recordId: string
+): Promise<Response | { domain: Domain; record: DnsRecord }> {
+  const found = await getUserDomain(env.DB, linuxdoId, label, { recordId: parseInt(recordId, 10) });
+  if (found.error) {
+    return found.error;
+  }
+
+  const { domain } = found;
+
+  const record = await env.DB.prepare(
+    'SELECT * FROM dns_records WHERE id = ? AND domain_id = ?'
+  ).bind(parseInt(recordId, 10), domain.id).first<DnsRecord>();
+
+  if (!record) {
+    return errorResponse('DNS record not found', 404);
+  }
+
+  if (record.type !== 'A' && record.type !== 'AAAA') {
+    return errorResponse('Dynamic DNS is only available for A and AAAA records', 400);
+  }
+
+  return { domain, record };
+}
+
+// POST /api/dns-records/:id/ddns-key - Generate (or rotate) the update key; returned only once
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env, request, params } = context;
+
+  const authResult = await requireAuth(request, env);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const linuxdoId = parseInt(authResult.user.sub, 10);
+  const lookup = await getDdnsRecord(env, linuxdoId, params.label, params.id as string);
+  if (lookup instanceof Response) {
+    return lookup;
+  }
+
+  const { domain, record } = lookup;
+  const key = generateDdnsKey();
+
+  try {
+    await env.DB.prepare(
+      'UPDATE dns_records SET ddns_key_hash = ? WHERE id = ?'
+    ).bind(await hashDdnsKey(key), record.id).run();
+
+    // Log the action
+    await env.DB.prepare(`
+      INSERT INTO audit_logs (linuxdo_id, action, target, details, ip_address, created_at)
+      VALUES (?, ?, ?, ?, ?, datetime('now'))
+    `).bind(
+      linuxdoId,
+      'ddns_key_create',
+      domain.fqdn,
+      JSON.stringify({ record_id: record.id, name: record.name, type: record.type, rotated: !!record.ddns_key_hash }),
+      request.headers.get('CF-Connecting-IP')
+    ).run();
+
+    const hostname = record.name === '@' ? domain.fqdn : `${record.name}.${domain.fqdn}`;
+    const url = new URL(request.url);
+
+    return successResponse({
+      key,
+      hostname,
+      update_url: `${url.protocol}//${url.host}/nic/update?hostname=${hostname}`,
+    });
+  } catch (e) {
+    console.error('Failed to create DDNS key:', e);
+    return errorResponse('Failed to create DDNS key', 500);
+  }
+};
+
+// DELETE /api/dns-records/:id/ddns-key - Disable dynamic updates for the record
+export const onRequestDelete: PagesFunction<Env> = async (context) => {
+  const { env, request, params } = context;
+
+  const authResult = await requireAuth(request, env);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const linuxdoId = parseInt(authResult.user.sub, 10);
+  const lookup = await getDdnsRecord(env, linuxdoId, params.label, params.id as string);
+  if (lookup instanceof Response) {
+    return lookup;
+  }
+
+  const { domain, record } = lookup;
+
+  try {
+    await env.DB.prepare(
+      'UPDATE dns_records SET ddns_key_hash = NULL WHERE id = ?'
+    ).bind(record.id).run();
+
+    // Log the action
+    await env.DB.prepare(`
+      INSERT INTO audit_logs (linuxdo_id, action, target, details, ip_address, created_at)
+      VALUES (?, ?, ?, ?, ?, datetime('now'))
+    `).bind(
+      linuxdoId,
+      'ddns_key_revoke',
+      domain.fqdn,
+      JSON.stringify({ record_id: record.id, name: record.name, type: record.type }),
+      request.headers.get('CF-Connecting-IP')
+    ).run();
+
+    return successResponse({ revoked: true });
+  } catch (e) {
+    console.error('Failed to revoke DDNS key:', e);
+    return errorResponse('Failed to revoke DDNS key', 500);
+  }
+};
@@ -0,0 +1,240 @@
+// /api/dns-records/batch - Apply several DNS record changes atomically
+
+import type { Env, DnsRecord } from '../../lib/types';
+import { requireAuth, successResponse, errorResponse, jsonResponse } from '../../lib/auth';
+import { getUserDomain } from '../../lib/domains';
+import { logMemberAction } from '../../lib/domain-members';
+import { CloudflareDNSClient } from '../../lib/cloudflare-dns';
+import type { DnsRecordInput } from '../../lib/validators';
+import { validateDnsRecordInput, validateDnsRecordSet, dnsRecordToInput } from '../../lib/validators';
+import { canPublishMx, MX_APPROVAL_REQUIRED_ERROR } from '../../lib/mx-policy';
+import { requireDirectMode } from '../../lib/ns-delegation';
+import { checkRateLimit } from '../../lib/rate-limit';
+import { applyDnsChangeset } from '../../lib/dns-changeset';
+import type { DnsChangeset } from '../../lib/dns-changeset';
+import { recordDnsRevision, getRevisionSource } from '../../lib/dns-revisions';
+
+const MAX_BATCH_OPERATIONS = 20;
+
+interface BatchOperation extends DnsRecordInput {
+  action?: string;
+  id?: number;
+}
+
+// success means the operation was applied; invalid operations carry an error
+interface BatchOperationResult {
+  index: number;
+  action: string;
+  success: boolean;
+  id?: number;
+  error?: string;
+}
+
+// POST /api/dns-records/batch - Validate all operations together, then apply them as one changeset
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env, request, params } = context;
+
+  const authResult = await requireAuth(request, env, { scope: 'dns:write' });
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const { user } = authResult;
+  const linuxdoId = parseInt(user.sub, 10);
+
+  const rateLimited = await checkRateLimit(env.DB, request, 'dns_records', linuxdoId);
+  if (rateLimited) {
+    return rateLimited;
+  }
+
+  let body: { operations?: BatchOperation[] };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('Invalid JSON body', 400);
+  }
+
+  const { operations } = body;
+  if (!Array.isArray(operations) || operations.length === 0) {
+    return errorResponse('operations must be a non-empty array', 400);
+  }
+  if (operations.length > MAX_BATCH_OPERATIONS) {
+    return errorResponse(`Maximum ${MAX_BATCH_OPERATIONS} operations per batch`, 400);
+  }
+
+  const found = await getUserDomain(env.DB, linuxdoId, params.label, { access: 'write' });
+  if (found.error) {
+    return found.error;
+  }
+
+  const { domain } = found;
+
+  // Records live on the user's own nameservers while the domain is delegated
+  const nsMode = requireDirectMode(domain);
+  if (nsMode) {
+    return nsMode;
+  }
+
+  const { results: existingRecords } = await env.DB.prepare(
+    'SELECT * FROM dns_records WHERE domain_id = ?'
+  ).bind(domain.id).all<DnsRecord>();
+
+  const existing = new Map((existingRecords || []).map(r => [r.id, r]));
+  const changeset: DnsChangeset = { create: [], update: [], delete: [] };
+  const results: BatchOperationResult[] = [];
+  const touched = new Set<number>();
+  const mxAllowed = await canPublishMx(env.DB, linuxdoId, user.trust_level);
+
+  // Validate each operation on its own
+  operations.forEach((op, index) => {
+    const action = typeof op?.action === 'string' ? op.action : '';
+    const result: BatchOperationResult = { index, action, success: false };
+    results.push(result);
+
+    if (action === 'create') {
+      const { action: _action, id: _id, ...input } = op;
+      const validation = validateDnsRecordInput(input);
+      if (!validation.valid) {
+        result.error = validation.error;
+        return;
+      }
+      if (validation.record.type === 'MX' && !mxAllowed) {
+        result.error = MX_APPROVAL_REQUIRED_ERROR;
+        return;
+      }
+      changeset.create.push(validation.record);
+      result.success = true;
+      return;
+    }
+
+    if (action !== 'update' && action !== 'delete') {
+      result.error = 'action must be create, update or delete';
+      return;
+    }
+
+    const record = typeof op.id === 'number' ? existing.get(op.id) : undefined;
+    if (!record) {
+      result.error = 'DNS record not found';
+      return;
+    }
+    result.id = record.id;
+
+    if (record.acme_challenge) {
+      result.error = 'ACME challenge records are managed by /api/acme';
+      return;
+    }
+    if (touched.has(record.id)) {
+      result.error = 'Record is modified by more than one operation';
+      return;
+    }
+    touched.add(record.id);
+
+    if (action === 'delete') {
+      changeset.delete.push(record);
+      result.success = true;
+      return;
+    }
+
+    if (record.pending_approval) {
+      result.error = 'This record is awaiting admin approval and can only be deleted';
+      return;
+    }
+
+    const { action: _action, id: _id, ...changes } = op;
+    const validation = validateDnsRecordInput({ ...dnsRecordToInput(record), ...changes });
+    if (!validation.valid) {
+      result.error = validation.error;
+      return;
+    }
+    const to = validation.record;
+    if (to.type === 'MX' && !mxAllowed &&
+        (record.type !== 'MX' || record.content !== to.content || record.priority !== to.priority)) {
+      result.error = MX_APPROVAL_REQUIRED_ERROR;
+      return;
+    }
+    changeset.update.push({ record, to });
+    result.success = true;
+  });
+
+  if (results.some(r => !r.success)) {
+    return jsonResponse({
+      success: false,
+      error: 'One or more operations are invalid; nothing was applied',
+      data: { applied: false, results: results.map(r => ({ ...r, success: false })) },
+    }, 400);
+  }
+
+  // Validate the resulting record set as a whole (limit, CNAME rules, duplicates)
+  const finalRecords = [
+    ...(existingRecords || []).filter(r => !touched.has(r.id)),
+    ...changeset.update.map(u => u.to),
+    ...changeset.create,
+  ];
+  const setCheck = validateDnsRecordSet(finalRecords);
+  if (!setCheck.valid) {
+    return jsonResponse({
+      success: false,
+      error: `${setCheck.error}; nothing was applied`,
+      data: { applied: false, results: results.map(r => ({ ...r, success: false })) },
+    }, 400);
+  }
+
+  const cfClient = new CloudflareDNSClient(env.CLOUDFLARE_API_TOKEN, env.CLOUDFLARE_ZONE_ID);
+  const applied = await applyDnsChangeset(env.DB, cfClient, domain, changeset);
+
+  if (!applied.success) {
+    const error = applied.rolledBack
+      ? `Batch failed and was rolled back: ${applied.error}`
+      : `Batch failed and could not be fully rolled back: ${applied.error}`;
+    return jsonResponse({
+      success: false,
+      error,
+      data: { applied: false, results: results.map(r => ({ ...r, success: false, error: applied.error })) },
+    }, 500);
+  }
+
+  // Fill in the ids of created records (creates keep their order in the changeset)
+  let created = 0;
+  for (const result of results) {
+    if (result.action === 'create') {
+      result.id = applied.createdIds[created++];
+    }
+  }
+
+  await recordDnsRevision(env.DB, domain.id, {
+    linuxdoId,
+    source: getRevisionSource(context.data, authResult),
+    action: 'batch',
+    details: {
+      created: changeset.create.length,
+      updated: changeset.update.length,
+      deleted: changeset.delete.length,
+    },
+  });
+
+  // Log the action
+  await env.DB.prepare(`
+    INSERT INTO audit_logs (linuxdo_id, action, target, details, ip_address, created_at)
+    VALUES (?, ?, ?, ?, ?, datetime('now'))
+  `).bind(
+    linuxdoId,
+    'dns_batch',
+    domain.fqdn,
+    JSON.stringify({
+      created: changeset.create.length,
+      updated: changeset.update.length,
+      deleted: changeset.delete.length,
+    }),
+    request.headers.get('CF-Connecting-IP')
+  ).run();
+
+  await logMemberAction(env.DB, found, {
+    linuxdoId,
+    username: user.username,
+    action: 'batch',
+    details: { created: changeset.create.length, updated: changeset.update.length, deleted: changeset.delete.length },
+    ip: request.headers.get('CF-Connecting-IP'),
+  });
+
+  return successResponse({ applied: true, results });
+};
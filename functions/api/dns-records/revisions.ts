@@ -0,0 +1,34 @@
+// /api/dns-records/revisions - DNS revision timeline
+
+import type { Env, DnsRevision } from '../../lib/types';
+import { requireAuth, successResponse } from '../../lib/auth';
+import { getUserDomain } from '../../lib/domains';
+import { toRevisionSummary } from '../../lib/dns-revisions';
+
+// GET /api/dns-records/revisions - List the domain's revisions, newest first
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env, request, params } = context;
+
+  const authResult = await requireAuth(request, env, { scope: 'dns:read' });
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const linuxdoId = parseInt(authResult.user.sub, 10);
+
+  const url = new URL(request.url);
+  const limit = Math.min(parseInt(url.searchParams.get('limit') || '50', 10) || 50, 100);
+
+  const found = await getUserDomain(env.DB, linuxdoId, params.label, { access: 'read' });
+  if (found.error) {
+    return found.error;
+  }
+
+  const { domain } = found;
+
+  const { results: revisions } = await env.DB.prepare(
+    'SELECT * FROM dns_revisions WHERE domain_id = ? ORDER BY id DESC LIMIT ?'
+  ).bind(domain.id, limit).all<DnsRevision>();
+
+  return successResponse({ revisions: (revisions || []).map(toRevisionSummary) });
+};
@@ -0,0 +1,189 @@
+// /api/dns-records/revisions/:id - View or restore a DNS revision
+
+import type { Env, Domain, DnsRecord, DnsRevision } from '../../../lib/types';
+import { requireAuth, successResponse, errorResponse } from '../../../lib/auth';
+import { getUserDomain } from '../../../lib/domains';
+import type { DomainAccess } from '../../../lib/domains';
+import { logMemberAction } from '../../../lib/domain-members';
+import { CloudflareDNSClient } from '../../../lib/cloudflare-dns';
+import { validateDnsRecordInput, validateDnsRecordSet, dnsRecordToInput } from '../../../lib/validators';
+import { diffZone, formatZoneDiff } from '../../../lib/zone-file';
+import type { ZoneDiff } from '../../../lib/zone-file';
+import type { DnsRecordValues } from '../../../lib/dns-changeset';
+import { applyDnsChangeset } from '../../../lib/dns-changeset';
+import { canPublishMx, changesMxRecords, MX_APPROVAL_REQUIRED_ERROR } from '../../../lib/mx-policy';
+import { requireDirectMode } from '../../../lib/ns-delegation';
+import { checkRateLimit } from '../../../lib/rate-limit';
+import { parseRevisionRecords, toRevisionSummary, recordDnsRevision, getRevisionSource } from '../../../lib/dns-revisions';
+
+type RestorePlan =
+  | { valid: true; diff: ZoneDiff }
+  | { valid: false; error: string; diff?: ZoneDiff };
+
+// Validate a revision's records against today's rules and diff them with the current zone
+async function planRestore(db: D1Database, domain: Domain, revision: DnsRevision): Promise<RestorePlan> {
+  const desired: DnsRecordValues[] = [];
+  for (const record of parseRevisionRecords(revision)) {
+    const validation = validateDnsRecordInput(dnsRecordToInput({ ...record, proxied: record.proxied ? 1 : 0 }));
+    if (!validation.valid) {
+      return { valid: false, error: `${record.type} record '${record.name}' can no longer be restored: ${validation.error}` };
+    }
+    desired.push(validation.record);
+  }
+
+  const { results: records } = await db.prepare(
+    'SELECT * FROM dns_records WHERE domain_id = ?'
+  ).bind(domain.id).all<DnsRecord>();
+
+  // ACME challenges and MX records awaiting approval are kept as they are
+  const untracked = (records || []).filter(r => r.acme_challenge || r.pending_approval);
+  const setCheck = validateDnsRecordSet([...desired, ...untracked]);
+  if (!setCheck.valid) {
+    return { valid: false, error: setCheck.error! };
+  }
+
+  return { valid: true, diff: diffZone(records || [], desired) };
+}
+
+async function getRevision(
+  db: D1Database,
+  linuxdoId: number,
+  label: string | string[] | undefined,
+  revisionId: string,
+  access: DomainAccess
+) {
+  const found = await getUserDomain(db, linuxdoId, label, { access });
+  if (found.error) {
+    return { error: found.error };
+  }
+
+  const { domain, role } = found;
+
+  const revision = await db.prepare(
+    'SELECT * FROM dns_revisions WHERE id = ? AND domain_id = ?'
+  ).bind(parseInt(revisionId, 10), domain.id).first<DnsRevision>();
+
+  if (!revision) {
+    return { error: errorResponse('Revision not found', 404) };
+  }
+
+  return { domain, role, revision };
+}
+
+// GET /api/dns-records/revisions/:id - A revision's records and the changes a restore would make
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env, request, params } = context;
+
+  const authResult = await requireAuth(request, env, { scope: 'dns:read' });
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const found = await getRevision(env.DB, parseInt(authResult.user.sub, 10), params.label, params.id as string, 'read');
+  if (found.error) {
+    return found.error;
+  }
+
+  const { domain, revision } = found;
+  const plan = await planRestore(env.DB, domain, revision);
+
+  return successResponse({
+    revision: toRevisionSummary(revision),
+    records: parseRevisionRecords(revision),
+    restorable: plan.valid,
+    error: plan.valid ? undefined : plan.error,
+    diff: plan.diff ? formatZoneDiff(plan.diff) : null,
+  });
+};
+
+// POST /api/dns-records/revisions/:id - Restore the zone (and Cloudflare) to this revision
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env, request, params } = context;
+
+  const authResult = await requireAuth(request, env, { scope: 'dns:write' });
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const linuxdoId = parseInt(authResult.user.sub, 10);
+
+  const rateLimited = await checkRateLimit(env.DB, request, 'dns_records', linuxdoId);
+  if (rateLimited) {
+    return rateLimited;
+  }
+
+  const found = await getRevision(env.DB, linuxdoId, params.label, params.id as string, 'write');
+  if (found.error) {
+    return found.error;
+  }
+
+  const { domain, role, revision } = found;
+
+  // Records live on the user's own nameservers while the domain is delegated
+  const nsMode = requireDirectMode(domain);
+  if (nsMode) {
+    return nsMode;
+  }
+
+  const plan = await planRestore(env.DB, domain, revision);
+  if (!plan.valid) {
+    return errorResponse(plan.error, 400);
+  }
+
+  const { diff } = plan;
+  if (diff.create.length === 0 && diff.update.length === 0 && diff.delete.length === 0) {
+    return successResponse({ restored: true, diff: formatZoneDiff(diff) });
+  }
+
+  if (changesMxRecords(diff) && !(await canPublishMx(env.DB, linuxdoId, authResult.user.trust_level))) {
+    return errorResponse(MX_APPROVAL_REQUIRED_ERROR, 403);
+  }
+
+  const cfClient = new CloudflareDNSClient(env.CLOUDFLARE_API_TOKEN, env.CLOUDFLARE_ZONE_ID);
+  const result = await applyDnsChangeset(env.DB, cfClient, domain, diff);
+
+  if (!result.success) {
+    return errorResponse(
+      result.rolledBack
+        ? `Restore failed and was rolled back: ${result.error}`
+        : `Restore failed and could not be fully rolled back: ${result.error}`,
+      500
+    );
+  }
+
+  const summary = {
+    revision_id: revision.id,
+    created: diff.create.length,
+    updated: diff.update.length,
+    deleted: diff.delete.length,
+  };
+
+  await recordDnsRevision(env.DB, domain.id, {
+    linuxdoId,
+    source: getRevisionSource(context.data, authResult),
+    action: 'restore',
+    details: summary,
+  });
+
+  // Log the action
+  await env.DB.prepare(`
+    INSERT INTO audit_logs (linuxdo_id, action, target, details, ip_address, created_at)
+    VALUES (?, ?, ?, ?, ?, datetime('now'))
+  `).bind(
+    linuxdoId,
+    'dns_revision_restore',
+    domain.fqdn,
+    JSON.stringify(summary),
+    request.headers.get('CF-Connecting-IP')
+  ).run();
+
+  await logMemberAction(env.DB, { domain, role }, {
+    linuxdoId,
+    username: authResult.user.username,
+    action: 'restore',
+    details: summary,
+    ip: request.headers.get('CF-Connecting-IP'),
+  });
+
+  return successResponse({ restored: true, diff: formatZoneDiff(diff) });
+};
@@ -0,0 +1,173 @@
+// /api/dns-records/zone - Zone file export and import
+
+import type { Env, DnsRecord } from '../../lib/types';
+import { requireAuth, successResponse, errorResponse } from '../../lib/auth';
+import { getUserDomain } from '../../lib/domains';
+import { logMemberAction } from '../../lib/domain-members';
+import { CloudflareDNSClient } from '../../lib/cloudflare-dns';
+import { exportZoneFile, parseZoneFile, diffZone, formatZoneDiff, MAX_ZONE_FILE_SIZE } from '../../lib/zone-file';
+import { applyDnsChangeset } from '../../lib/dns-changeset';
+import { canPublishMx, changesMxRecords, MX_APPROVAL_REQUIRED_ERROR } from '../../lib/mx-policy';
+import { requireDirectMode } from '../../lib/ns-delegation';
+import { checkRateLimit } from '../../lib/rate-limit';
+import { recordDnsRevision, getRevisionSource } from '../../lib/dns-revisions';
+
+// GET /api/dns-records/zone - Download the domain's records as a BIND zone file
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env, request, params } = context;
+
+  const authResult = await requireAuth(request, env, { scope: 'dns:read' });
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const linuxdoId = parseInt(authResult.user.sub, 10);
+
+  const found = await getUserDomain(env.DB, linuxdoId, params.label, { access: 'read' });
+  if (found.error) {
+    return found.error;
+  }
+
+  const { domain } = found;
+
+  const { results: records } = await env.DB.prepare(
+    'SELECT * FROM dns_records WHERE domain_id = ? ORDER BY type, name'
+  ).bind(domain.id).all<DnsRecord>();
+
+  return new Response(exportZoneFile(domain, records || []), {
+    headers: {
+      'Content-Type': 'text/dns; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${domain.fqdn}.zone"`,
+    },
+  });
+};
+
+// POST /api/dns-records/zone - Preview (default) or apply an uploaded zone file
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env, request, params } = context;
+
+  const authResult = await requireAuth(request, env, { scope: 'dns:write' });
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const linuxdoId = parseInt(authResult.user.sub, 10);
+
+  const rateLimited = await checkRateLimit(env.DB, request, 'dns_records', linuxdoId);
+  if (rateLimited) {
+    return rateLimited;
+  }
+
+  let body: { zone?: string; apply?: boolean };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('Invalid JSON body', 400);
+  }
+
+  const { zone, apply = false } = body;
+  if (typeof zone !== 'string' || !zone.trim()) {
+    return errorResponse('Missing zone file content', 400);
+  }
+  if (zone.length > MAX_ZONE_FILE_SIZE) {
+    return errorResponse(`Zone file too large (max ${MAX_ZONE_FILE_SIZE / 1024} KB)`, 400);
+  }
+
+  const found = await getUserDomain(env.DB, linuxdoId, params.label, { access: 'write' });
+  if (found.error) {
+    return found.error;
+  }
+
+  const { domain } = found;
+
+  // Records live on the user's own nameservers while the domain is delegated
+  const nsMode = requireDirectMode(domain);
+  if (nsMode) {
+    return nsMode;
+  }
+
+  const parsed = parseZoneFile(zone, domain.fqdn);
+
+  const { results: records } = await env.DB.prepare(
+    'SELECT * FROM dns_records WHERE domain_id = ?'
+  ).bind(domain.id).all<DnsRecord>();
+
+  const diff = diffZone(records || [], parsed.records.map(({ line, ...record }) => record));
+
+  // New or changed MX records are subject to the MX policy
+  if (changesMxRecords(diff) && !(await canPublishMx(env.DB, linuxdoId, authResult.user.trust_level))) {
+    parsed.errors.push({ line: 0, message: MX_APPROVAL_REQUIRED_ERROR });
+  }
+  const preview = {
+    valid: parsed.errors.length === 0,
+    errors: parsed.errors,
+    skipped: parsed.skipped,
+    diff: formatZoneDiff(diff),
+  };
+
+  if (!apply) {
+    return successResponse(preview);
+  }
+
+  if (parsed.errors.length > 0) {
+    const first = parsed.errors[0];
+    return errorResponse(
+      `Zone file has ${parsed.errors.length} error(s)${first.line ? `; line ${first.line}` : ''}: ${first.message}`,
+      400
+    );
+  }
+
+  if (diff.create.length === 0 && diff.update.length === 0 && diff.delete.length === 0) {
+    return successResponse({ ...preview, applied: true });
+  }
+
+  const cfClient = new CloudflareDNSClient(env.CLOUDFLARE_API_TOKEN, env.CLOUDFLARE_ZONE_ID);
+  const result = await applyDnsChangeset(env.DB, cfClient, domain, diff);
+
+  if (!result.success) {
+    return errorResponse(
+      result.rolledBack
+        ? `Zone import failed and was rolled back: ${result.error}`
+        : `Zone import failed and could not be fully rolled back: ${result.error}`,
+      500
+    );
+  }
+
+  await recordDnsRevision(env.DB, domain.id, {
+    linuxdoId,
+    source: getRevisionSource(context.data, authResult),
+    action: 'zone_import',
+    details: {
+      created: diff.create.length,
+      updated: diff.update.length,
+      deleted: diff.delete.length,
+    },
+  });
+
+  // Log the action
+  await env.DB.prepare(`
+    INSERT INTO audit_logs (linuxdo_id, action, target, details, ip_address, created_at)
+    VALUES (?, ?, ?, ?, ?, datetime('now'))
+  `).bind(
+    linuxdoId,
+    'dns_zone_import',
+    domain.fqdn,
+    JSON.stringify({
+      created: diff.create.length,
+      updated: diff.update.length,
+      deleted: diff.delete.length,
+      unchanged: diff.unchanged,
+    }),
+    request.headers.get('CF-Connecting-IP')
+  ).run();
+
+  await logMemberAction(env.DB, found, {
+    linuxdoId,
+    username: authResult.user.username,
+    action: 'zone_import',
+    details: { created: diff.create.length, updated: diff.update.length, deleted: diff.delete.length },
+    ip: request.headers.get('CF-Connecting-IP'),
+  });
+
+  return successResponse({ ...preview, applied: true });
+};
@@ -1,19 +1,21 @@
-// /api/domains - Domain registration and management
+// /api/domains - Domain registration and management (a user may hold up to max_domains_per_user domains)
 
-import type { Env, Domain, DomainResponse, Order, CreateOrderResponse, User, PendingReview, DnsRecord } from '../lib/types';
+import type { Env, Domain, DomainResponse, Order, CreateOrderResponse, User, PendingReview } from '../lib/types';
 import { requireAuth, successResponse, errorResponse } from '../lib/auth';
 import { validateLabel } from '../lib/validators';
 import { CloudflareDNSClient } from '../lib/cloudflare-dns';
 import { LinuxDOCreditClient, generateOrderNo } from '../lib/credit';
 import { checkLabel, checkUserAbuse, banUser, getSetting } from '../lib/moderation';
 import { addBlockchainLog, BlockchainActions } from '../lib/blockchain';
+import { getUserDomain, getDomainQuota, buildDomainResponse, OWNED_STATUSES } from '../lib/domains';
+import { deleteDomainRows } from '../lib/dns-sync';
 
-// GET /api/domains - Get user's domain
+// GET /api/domains - Get user's domains
 export const onRequestGet: PagesFunction<Env> = async (context) => {
   const { env, request } = context;
 
   // Authenticate
-  const authResult = await requireAuth(request, env);
+  const authResult = await requireAuth(request, env, { scope: 'domain:read' });
   if (authResult instanceof Response) {
     return authResult;
   }
@@ -21,74 +23,83 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
   const { user } = authResult;
   const linuxdoId = parseInt(user.sub, 10);
 
-  // Get user's domain (active, suspended, or pending review)
-  const domain = await env.DB.prepare(
-    'SELECT * FROM domains WHERE owner_linuxdo_id = ? AND status IN (?, ?, ?)'
-  ).bind(linuxdoId, 'active', 'suspended', 'review').first<Domain>();
-
-  if (!domain) {
-    // Check if there's a pending order first (higher priority)
-    // If user hasn't paid yet, they should see the pending order, not pending review
-    const pendingOrder = await env.DB.prepare(
-      'SELECT * FROM orders WHERE linuxdo_id = ? AND status = ? ORDER BY created_at DESC LIMIT 1'
-    ).bind(linuxdoId, 'pending').first<Order>();
-
-    if (pendingOrder) {
-      return successResponse({
-        domain: null,
-        pendingOrder: {
-          order_no: pendingOrder.order_no,
-          label: pendingOrder.label,
-          amount: pendingOrder.amount,
-          created_at: pendingOrder.created_at,
-        },
-      });
-    }
+  // Get user's domains (active, suspended, pending review, or expired but not yet released)
+  const { results: domains } = await env.DB.prepare(
+    `SELECT * FROM domains WHERE owner_linuxdo_id = ? AND status IN (${OWNED_STATUSES.map(() => '?').join(', ')}) ORDER BY id`
+  ).bind(linuxdoId, ...OWNED_STATUSES).all<Domain>();
 
-    // Check if there's a pending review (only if no pending unpaid order)
-    // This means the user has paid but the domain is still waiting for admin approval
-    const pendingReview = await env.DB.prepare(
-      'SELECT * FROM pending_reviews WHERE linuxdo_id = ? AND status = ? ORDER BY created_at DESC LIMIT 1'
-    ).bind(linuxdoId, 'pending').first<PendingReview>();
-
-    if (pendingReview) {
-      return successResponse({
-        domain: null,
-        pendingReview: {
-          label: pendingReview.label,
-          reason: pendingReview.reason,
-          created_at: pendingReview.created_at,
-        },
-      });
-    }
+  const responses: DomainResponse[] = [];
+  for (const domain of domains || []) {
+    responses.push(await buildDomainResponse(env, domain));
+  }
 
-    return successResponse({ domain: null });
+  const quota = await getDomainQuota(env.DB, linuxdoId);
+
+  // Domains other users shared with this user
+  const { results: shared } = await env.DB.prepare(`
+    SELECT d.label, d.fqdn, d.status, m.role, u.username as owner_username
+    FROM domain_members m
+    JOIN domains d ON d.id = m.domain_id
+    LEFT JOIN users u ON u.linuxdo_id = d.owner_linuxdo_id
+    WHERE m.linuxdo_id = ? AND d.status IN (${OWNED_STATUSES.map(() => '?').join(', ')})
+    ORDER BY d.id
+  `).bind(linuxdoId, ...OWNED_STATUSES).all();
+
+  // Third-level names delegated to this user
+  const { results: delegated } = await env.DB.prepare(`
+    SELECT g.id, g.name, g.name || '.' || d.fqdn as fqdn, d.label, d.status, u.username as owner_username
+    FROM domain_delegations g
+    JOIN domains d ON d.id = g.domain_id
+    LEFT JOIN users u ON u.linuxdo_id = d.owner_linuxdo_id
+    WHERE g.linuxdo_id = ? AND d.status IN (${OWNED_STATUSES.map(() => '?').join(', ')})
+    ORDER BY d.id, g.name
+  `).bind(linuxdoId, ...OWNED_STATUSES).all();
+
+  // Registration in progress: a pending order first (higher priority)
+  // If user hasn't paid yet, they should see the pending order, not pending review
+  const pendingOrder = await env.DB.prepare(
+    'SELECT * FROM orders WHERE linuxdo_id = ? AND status = ? AND order_type = ? ORDER BY created_at DESC LIMIT 1'
+  ).bind(linuxdoId, 'pending', 'register').first<Order>();
+
+  if (pendingOrder) {
+    return successResponse({
+      domain: responses[0] || null,
+      domains: responses,
+      shared: shared || [],
+      delegated: delegated || [],
+      quota,
+      pendingOrder: {
+        order_no: pendingOrder.order_no,
+        label: pendingOrder.label,
+        amount: pendingOrder.amount,
+        created_at: pendingOrder.created_at,
+      },
+    });
   }
 
-  // Get NS records from Cloudflare
-  const cfClient = new CloudflareDNSClient(env.CLOUDFLARE_API_TOKEN, env.CLOUDFLARE_ZONE_ID);
-  const nsResult = await cfClient.getNSRecords(domain.fqdn);
+  // Check if there's a pending review (only if no pending unpaid order)
+  // This means the user has paid but the domain is still waiting for admin approval
+  const pendingReview = await env.DB.prepare(
+    'SELECT * FROM pending_reviews WHERE linuxdo_id = ? AND status = ? ORDER BY created_at DESC LIMIT 1'
+  ).bind(linuxdoId, 'pending').first<PendingReview>();
 
-  const nameservers = nsResult.success ? nsResult.records.map(r => r.content) : [];
+  if (pendingReview) {
+    return successResponse({
+      domain: responses[0] || null,
+      domains: responses,
+      shared: shared || [],
+      delegated: delegated || [],
+      quota,
+      pendingReview: {
+        label: pendingReview.label,
+        reason: pendingReview.reason,
+        created_at: pendingReview.created_at,
+      },
+    });
+  }
 
-  // Get DNS records from database
-  const { results: dnsRecords } = await env.DB.prepare(
-    'SELECT * FROM dns_records WHERE domain_id = ? ORDER BY type, name'
-  ).bind(domain.id).all<DnsRecord>();
-
-  const response: DomainResponse = {
-    label: domain.label,
-    fqdn: domain.fqdn,
-    status: domain.status,
-    dns_mode: domain.dns_mode || null,
-    nameservers,
-    dns_records: dnsRecords || [],
-    created_at: domain.created_at,
-    review_reason: domain.review_reason || undefined,
-    suspend_reason: domain.suspend_reason || undefined,
-  };
-
-  return successResponse({ domain: response });
+  // `domain` is the first domain, kept for clients written for one domain per user
+  return successResponse({ domain: responses[0] || null, domains: responses, shared: shared || [], delegated: delegated || [], quota });
 };
 
 // POST /api/domains - Create payment order for domain registration
@@ -152,6 +163,15 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
     return errorResponse(validation.error!, 400);
   }
 
+  // Check the domain quota (expired domains still count until released, unpaid orders for other labels until they expire)
+  const quota = await getDomainQuota(env.DB, linuxdoId, { exceptLabel: normalizedLabel });
+  if (quota.used >= quota.limit) {
+    return errorResponse(`You have reached your limit of ${quota.limit} domain(s). Release a domain or wait for a higher quota.`, 409);
+  }
+  if (quota.used + quota.pending >= quota.limit) {
+    return errorResponse(`You have ${quota.pending} unpaid registration order(s) that already fill your limit of ${quota.limit} domain(s). Pay or cancel them first.`, 409);
+  }
+
   // Check label against banned words
   const moderationResult = await checkLabel(normalizedLabel, env.DB);
   if (!moderationResult.allowed) {
@@ -307,18 +327,6 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
     }
   }
 
-  // Check if user already has an active domain
-  const existingDomain = await env.DB.prepare(
-    'SELECT * FROM domains WHERE owner_linuxdo_id = ? AND status IN (?, ?)'
-  ).bind(linuxdoId, 'active', 'review').first<Domain>();
-
-  if (existingDomain) {
-    if (existingDomain.status === 'review') {
-      return errorResponse('您已有一个待审核的域名，请等待审核完成。', 409);
-    }
-    return errorResponse('You already have a registered domain. Each user can only register one domain.', 409);
-  }
-
   // Check if there's already a pending review
   const existingReview = await env.DB.prepare(
     'SELECT * FROM pending_reviews WHERE linuxdo_id = ? AND status = ?'
@@ -337,10 +345,10 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
     return errorResponse('This domain label is already registered', 409);
   }
 
-  // Check if there's already a pending order for this user
+  // Check if there's already a pending registration order for this user
   const existingOrder = await env.DB.prepare(
-    'SELECT * FROM orders WHERE linuxdo_id = ? AND status = ?'
-  ).bind(linuxdoId, 'pending').first<Order>();
+    'SELECT * FROM orders WHERE linuxdo_id = ? AND status = ? AND order_type = ?'
+  ).bind(linuxdoId, 'pending', 'register').first<Order>();
 
   if (existingOrder) {
     // Cancel old pending order if label is different
@@ -429,9 +437,9 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
   });
 };
 
-// DELETE /api/domains - Delete user's domain
+// DELETE /api/domains/:label - Delete one of the user's domains (DELETE /api/domains for users with a single domain)
 export const onRequestDelete: PagesFunction<Env> = async (context) => {
-  const { env, request } = context;
+  const { env, request, params } = context;
 
   // Authenticate
   const authResult = await requireAuth(request, env);
@@ -443,14 +451,13 @@ export const onRequestDelete: PagesFunction<Env> = async (context) => {
   const linuxdoId = parseInt(user.sub, 10);
 
   // Get user's domain
-  const domain = await env.DB.prepare(
-    'SELECT * FROM domains WHERE owner_linuxdo_id = ? AND status IN (?, ?, ?)'
-  ).bind(linuxdoId, 'active', 'suspended', 'review').first<Domain>();
-
-  if (!domain) {
-    return errorResponse('You do not have a registered domain', 404);
+  const found = await getUserDomain(env.DB, linuxdoId, params.label, { statuses: OWNED_STATUSES });
+  if (found.error) {
+    return found.error;
   }
 
+  const { domain } = found;
+
   // Prevent deletion of suspended or pending review domains
   if (domain.status === 'suspended') {
     return errorResponse(`您的域名已被暂停，无法删除。暂停原因: ${domain.suspend_reason || '违规操作'}`, 403);
@@ -479,11 +486,9 @@ export const onRequestDelete: PagesFunction<Env> = async (context) => {
     }
   }
 
-  // Delete from database (DNS records will be cascade deleted due to FOREIGN KEY)
+  // Delete from database
   try {
-    await env.DB.prepare(
-      'DELETE FROM domains WHERE owner_linuxdo_id = ?'
-    ).bind(linuxdoId).run();
+    await deleteDomainRows(env.DB, domain.id);
 
     // Log the action
     await logAudit(env.DB, linuxdoId, 'domain_delete', domain.fqdn, {
@@ -0,0 +1,167 @@
+// /api/domains/:label/delegations - Third-level names handed to other users
+
+import type { Env, DomainDelegation, User } from '../../../lib/types';
+import { requireAuth, successResponse, errorResponse } from '../../../lib/auth';
+import { createNotification } from '../../../lib/notifications';
+import { addBlockchainLog, BlockchainActions } from '../../../lib/blockchain';
+import { getUserDomain, OWNED_STATUSES } from '../../../lib/domains';
+import { MAX_DOMAIN_DELEGATIONS, validateDelegationName } from '../../../lib/delegations';
+
+// GET /api/domains/:label/delegations - The owner sees every delegation, a delegate only their own
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env, request, params } = context;
+
+  const authResult = await requireAuth(request, env, { scope: 'domain:read' });
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const linuxdoId = parseInt(authResult.user.sub, 10);
+
+  const found = await getUserDomain(env.DB, linuxdoId, params.label, {
+    statuses: OWNED_STATUSES,
+    access: 'read',
+    delegates: true,
+  });
+  if (found.error) {
+    return found.error;
+  }
+
+  const { domain, role } = found;
+
+  const { results: delegations } = await env.DB.prepare(`
+    SELECT g.id, g.name, g.linuxdo_id, u.username, g.created_at
+    FROM domain_delegations g
+    LEFT JOIN users u ON u.linuxdo_id = g.linuxdo_id
+    WHERE g.domain_id = ? AND (? = 0 OR g.linuxdo_id = ?)
+    ORDER BY g.name
+  `).bind(domain.id, role === 'delegate' ? 1 : 0, linuxdoId).all<DomainDelegation & { username: string | null }>();
+
+  return successResponse({
+    fqdn: domain.fqdn,
+    role,
+    delegations: (delegations || []).map(d => ({ ...d, fqdn: `${d.name}.${domain.fqdn}` })),
+    max_delegations: MAX_DOMAIN_DELEGATIONS,
+  });
+};
+
+// POST /api/domains/:label/delegations - Delegate a third-level name to another user
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env, request, params } = context;
+
+  // Only the owner's logged-in session can hand out names
+  const authResult = await requireAuth(request, env);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const linuxdoId = parseInt(authResult.user.sub, 10);
+
+  // Check if user is banned
+  const dbUser = await env.DB.prepare(
+    'SELECT * FROM users WHERE linuxdo_id = ?'
+  ).bind(linuxdoId).first<User>();
+
+  if (dbUser?.is_banned) {
+    return errorResponse(`您的账户已被封禁: ${dbUser.ban_reason || '违规操作'}`, 403);
+  }
+
+  let body: { name?: string; username?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('Invalid JSON body', 400);
+  }
+
+  const nameCheck = validateDelegationName(body.name);
+  if (!nameCheck.valid) {
+    return errorResponse(nameCheck.error, 400);
+  }
+
+  const username = typeof body.username === 'string' ? body.username.trim().replace(/^@/, '') : '';
+  if (!username) {
+    return errorResponse('Missing or invalid username', 400);
+  }
+
+  const found = await getUserDomain(env.DB, linuxdoId, params.label);
+  if (found.error) {
+    return found.error;
+  }
+
+  const { domain } = found;
+  const { name } = nameCheck;
+
+  // LinuxDO usernames are case-insensitive
+  const delegate = await env.DB.prepare(
+    'SELECT * FROM users WHERE username = ? COLLATE NOCASE'
+  ).bind(username).first<User>();
+
+  if (!delegate) {
+    return errorResponse('User not found, they need to log in to this site once first', 404);
+  }
+
+  if (delegate.linuxdo_id === linuxdoId) {
+    return errorResponse('You already own this domain', 400);
+  }
+
+  if (delegate.is_banned) {
+    return errorResponse('User account is banned', 400);
+  }
+
+  const existing = await env.DB.prepare(
+    'SELECT id FROM domain_delegations WHERE domain_id = ? AND name = ?'
+  ).bind(domain.id, name).first();
+
+  if (existing) {
+    return errorResponse(`${name}.${domain.fqdn} is already delegated, revoke it first`, 409);
+  }
+
+  const count = await env.DB.prepare(
+    'SELECT COUNT(*) as count FROM domain_delegations WHERE domain_id = ?'
+  ).bind(domain.id).first<{ count: number }>();
+
+  if ((count?.count || 0) >= MAX_DOMAIN_DELEGATIONS) {
+    return errorResponse(`Maximum ${MAX_DOMAIN_DELEGATIONS} delegated names per domain`, 400);
+  }
+
+  const result = await env.DB.prepare(`
+    INSERT INTO domain_delegations (domain_id, name, linuxdo_id, created_by, created_at)
+    VALUES (?, ?, ?, ?, datetime('now'))
+  `).bind(domain.id, name, delegate.linuxdo_id, linuxdoId).run();
+
+  const delegation = await env.DB.prepare(
+    'SELECT * FROM domain_delegations WHERE id = ?'
+  ).bind(result.meta.last_row_id).first<DomainDelegation>();
+
+  const fqdn = `${name}.${domain.fqdn}`;
+
+  await createNotification(
+    env.DB,
+    delegate.linuxdo_id,
+    'domain_delegation',
+    '您获得了子域名授权',
+    `${authResult.user.username} 将 ${fqdn} 授权给您管理，您可以通过 /api/domains/${domain.label}/dns-records 管理该名称下的解析记录。`
+  );
+
+  // Log the action
+  await env.DB.prepare(`
+    INSERT INTO audit_logs (linuxdo_id, action, target, details, ip_address, created_at)
+    VALUES (?, ?, ?, ?, ?, datetime('now'))
+  `).bind(
+    linuxdoId,
+    'domain_delegation_add',
+    domain.fqdn,
+    JSON.stringify({ delegation_id: delegation?.id, name, delegate: delegate.username }),
+    request.headers.get('CF-Connecting-IP')
+  ).run();
+
+  await addBlockchainLog(env.DB, {
+    action: BlockchainActions.DOMAIN_DELEGATE,
+    actorName: authResult.user.username,
+    targetType: 'domain',
+    targetName: fqdn,
+    details: { delegate: delegate.username },
+  });
+
+  return successResponse({ delegation: delegation && { ...delegation, fqdn } });
+};
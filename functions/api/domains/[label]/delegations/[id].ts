@@ -0,0 +1,76 @@
+// /api/domains/:label/delegations/:id - Revoke a delegated name
+
+import type { Env, DomainDelegation } from '../../../../lib/types';
+import { requireAuth, successResponse, errorResponse } from '../../../../lib/auth';
+import { createNotification } from '../../../../lib/notifications';
+import { addBlockchainLog, BlockchainActions } from '../../../../lib/blockchain';
+import { getUserDomain, OWNED_STATUSES } from '../../../../lib/domains';
+
+// DELETE /api/domains/:label/delegations/:id - The owner revokes a delegation, or the delegate gives it up
+// Records under the name stay in the zone and are managed by the owner again
+export const onRequestDelete: PagesFunction<Env> = async (context) => {
+  const { env, request, params } = context;
+
+  const authResult = await requireAuth(request, env);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const linuxdoId = parseInt(authResult.user.sub, 10);
+
+  const found = await getUserDomain(env.DB, linuxdoId, params.label, {
+    statuses: OWNED_STATUSES,
+    access: 'read',
+    delegates: true,
+  });
+  if (found.error) {
+    return found.error;
+  }
+
+  const { domain, role } = found;
+
+  const delegation = await env.DB.prepare(
+    'SELECT g.*, u.username FROM domain_delegations g LEFT JOIN users u ON u.linuxdo_id = g.linuxdo_id WHERE g.id = ? AND g.domain_id = ?'
+  ).bind(parseInt(params.id as string, 10), domain.id).first<DomainDelegation & { username: string | null }>();
+
+  const own = delegation?.linuxdo_id === linuxdoId;
+  if (!delegation || (role !== 'owner' && !own)) {
+    return errorResponse('Delegation not found', 404);
+  }
+
+  await env.DB.prepare('DELETE FROM domain_delegations WHERE id = ?').bind(delegation.id).run();
+
+  const fqdn = `${delegation.name}.${domain.fqdn}`;
+
+  await createNotification(
+    env.DB,
+    own ? domain.owner_linuxdo_id : delegation.linuxdo_id,
+    'domain_delegation',
+    own ? '子域名授权已放弃' : '子域名授权已撤销',
+    own
+      ? `${authResult.user.username} 已放弃 ${fqdn} 的授权，该名称下的解析记录现由您管理。`
+      : `${authResult.user.username} 已撤销您对 ${fqdn} 的授权，您不再能管理该名称下的解析记录。`
+  );
+
+  // Log the action
+  await env.DB.prepare(`
+    INSERT INTO audit_logs (linuxdo_id, action, target, details, ip_address, created_at)
+    VALUES (?, ?, ?, ?, ?, datetime('now'))
+  `).bind(
+    linuxdoId,
+    'domain_delegation_revoke',
+    domain.fqdn,
+    JSON.stringify({ delegation_id: delegation.id, name: delegation.name, delegate: delegation.username, released: own }),
+    request.headers.get('CF-Connecting-IP')
+  ).run();
+
+  await addBlockchainLog(env.DB, {
+    action: BlockchainActions.DOMAIN_DELEGATION_REVOKE,
+    actorName: authResult.user.username,
+    targetType: 'domain',
+    targetName: fqdn,
+    details: { delegate: delegation.username, released: own },
+  });
+
+  return successResponse({ revoked: true });
+};
@@ -0,0 +1,3 @@
+// /api/domains/:label/dns-records - DNS records of one of the user's domains
+
+export { onRequestGet, onRequestPost } from '../../dns-records';
@@ -0,0 +1,3 @@
+// /api/domains/:label/dns-records/:id - DNS record operations
+
+export { onRequestGet, onRequestPut, onRequestDelete } from '../../../dns-records/[id]';
@@ -0,0 +1,3 @@
+// /api/domains/:label/dns-records/:id/ddns-key - Dynamic DNS update key management
+
+export { onRequestPost, onRequestDelete } from '../../../../dns-records/[id]/ddns-key';
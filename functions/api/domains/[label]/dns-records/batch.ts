@@ -0,0 +1,3 @@
+// /api/domains/:label/dns-records/batch - Apply several DNS record changes atomically
+
+export { onRequestPost } from '../../../dns-records/batch';
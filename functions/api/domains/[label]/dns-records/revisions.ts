@@ -0,0 +1,3 @@
+// /api/domains/:label/dns-records/revisions - DNS revision timeline
+
+export { onRequestGet } from '../../../dns-records/revisions';
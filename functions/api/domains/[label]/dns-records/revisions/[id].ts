@@ -0,0 +1,3 @@
+// /api/domains/:label/dns-records/revisions/:id - View or restore a DNS revision
+
+export { onRequestGet, onRequestPost } from '../../../../dns-records/revisions/[id]';
@@ -0,0 +1,3 @@
+// /api/domains/:label/dns-records/zone - Zone file export and import
+
+export { onRequestGet, onRequestPost } from '../../../dns-records/zone';
@@ -0,0 +1,26 @@
+// /api/domains/:label - One of the user's domains (or a domain shared with the user)
+
+import type { Env } from '../../../lib/types';
+import { requireAuth, successResponse } from '../../../lib/auth';
+import { getUserDomain, buildDomainResponse, OWNED_STATUSES } from '../../../lib/domains';
+
+// GET /api/domains/:label - Get the domain with its nameservers and DNS records
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env, request, params } = context;
+
+  const authResult = await requireAuth(request, env, { scope: 'domain:read' });
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const linuxdoId = parseInt(authResult.user.sub, 10);
+
+  const found = await getUserDomain(env.DB, linuxdoId, params.label, { statuses: OWNED_STATUSES, access: 'read' });
+  if (found.error) {
+    return found.error;
+  }
+
+  return successResponse({ domain: await buildDomainResponse(env, found.domain), role: found.role });
+};
+
+export { onRequestDelete } from '../../domains';
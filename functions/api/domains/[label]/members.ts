@@ -0,0 +1,171 @@
+// /api/domains/:label/members - Users the owner shares the domain with
+
+import type { Env, DomainMember, User } from '../../../lib/types';
+import { requireAuth, successResponse, errorResponse } from '../../../lib/auth';
+import { createNotification } from '../../../lib/notifications';
+import { addBlockchainLog, BlockchainActions } from '../../../lib/blockchain';
+import { getUserDomain, OWNED_STATUSES } from '../../../lib/domains';
+import { MAX_DOMAIN_MEMBERS, isDomainMemberRole } from '../../../lib/domain-members';
+
+// GET /api/domains/:label/members - List the domain's members (owner and members)
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env, request, params } = context;
+
+  const authResult = await requireAuth(request, env, { scope: 'domain:read' });
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const linuxdoId = parseInt(authResult.user.sub, 10);
+
+  const found = await getUserDomain(env.DB, linuxdoId, params.label, { statuses: OWNED_STATUSES, access: 'read' });
+  if (found.error) {
+    return found.error;
+  }
+
+  const { domain, role } = found;
+
+  const owner = await env.DB.prepare(
+    'SELECT username FROM users WHERE linuxdo_id = ?'
+  ).bind(domain.owner_linuxdo_id).first<{ username: string }>();
+
+  const { results: members } = await env.DB.prepare(`
+    SELECT m.id, m.linuxdo_id, u.username, m.role, m.created_at, m.updated_at
+    FROM domain_members m
+    LEFT JOIN users u ON u.linuxdo_id = m.linuxdo_id
+    WHERE m.domain_id = ?
+    ORDER BY m.id
+  `).bind(domain.id).all();
+
+  return successResponse({
+    fqdn: domain.fqdn,
+    role,
+    owner: owner?.username || null,
+    members: members || [],
+    max_members: MAX_DOMAIN_MEMBERS,
+  });
+};
+
+// POST /api/domains/:label/members - Add a member, or change an existing member's role
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env, request, params } = context;
+
+  // Only the owner's logged-in session can share a domain
+  const authResult = await requireAuth(request, env);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const linuxdoId = parseInt(authResult.user.sub, 10);
+
+  // Check if user is banned
+  const dbUser = await env.DB.prepare(
+    'SELECT * FROM users WHERE linuxdo_id = ?'
+  ).bind(linuxdoId).first<User>();
+
+  if (dbUser?.is_banned) {
+    return errorResponse(`您的账户已被封禁: ${dbUser.ban_reason || '违规操作'}`, 403);
+  }
+
+  let body: { username?: string; role?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('Invalid JSON body', 400);
+  }
+
+  const username = typeof body.username === 'string' ? body.username.trim().replace(/^@/, '') : '';
+  if (!username) {
+    return errorResponse('Missing or invalid username', 400);
+  }
+
+  const { role } = body;
+  if (!isDomainMemberRole(role)) {
+    return errorResponse('role must be "viewer" or "dns-editor"', 400);
+  }
+
+  const found = await getUserDomain(env.DB, linuxdoId, params.label);
+  if (found.error) {
+    return found.error;
+  }
+
+  const { domain } = found;
+
+  // LinuxDO usernames are case-insensitive
+  const invitee = await env.DB.prepare(
+    'SELECT * FROM users WHERE username = ? COLLATE NOCASE'
+  ).bind(username).first<User>();
+
+  if (!invitee) {
+    return errorResponse('User not found, they need to log in to this site once first', 404);
+  }
+
+  if (invitee.linuxdo_id === linuxdoId) {
+    return errorResponse('You already own this domain', 400);
+  }
+
+  if (invitee.is_banned) {
+    return errorResponse('User account is banned', 400);
+  }
+
+  const existing = await env.DB.prepare(
+    'SELECT * FROM domain_members WHERE domain_id = ? AND linuxdo_id = ?'
+  ).bind(domain.id, invitee.linuxdo_id).first<DomainMember>();
+
+  if (existing?.role === role) {
+    return successResponse({ member: existing });
+  }
+
+  if (!existing) {
+    const count = await env.DB.prepare(
+      'SELECT COUNT(*) as count FROM domain_members WHERE domain_id = ?'
+    ).bind(domain.id).first<{ count: number }>();
+
+    if ((count?.count || 0) >= MAX_DOMAIN_MEMBERS) {
+      return errorResponse(`Maximum ${MAX_DOMAIN_MEMBERS} members per domain`, 400);
+    }
+  }
+
+  await env.DB.prepare(`
+    INSERT INTO domain_members (domain_id, linuxdo_id, role, invited_by, created_at, updated_at)
+    VALUES (?, ?, ?, ?, datetime('now'), datetime('now'))
+    ON CONFLICT (domain_id, linuxdo_id) DO UPDATE SET role = excluded.role, updated_at = datetime('now')
+  `).bind(domain.id, invitee.linuxdo_id, role, linuxdoId).run();
+
+  const member = await env.DB.prepare(
+    'SELECT * FROM domain_members WHERE domain_id = ? AND linuxdo_id = ?'
+  ).bind(domain.id, invitee.linuxdo_id).first<DomainMember>();
+
+  const roleName = role === 'dns-editor' ? 'DNS 编辑者' : '只读成员';
+  await createNotification(
+    env.DB,
+    invitee.linuxdo_id,
+    'domain_member',
+    existing ? '域名成员权限已变更' : '您已被添加为域名成员',
+    existing
+      ? `${authResult.user.username} 将您在域名 ${domain.fqdn} 的权限变更为${roleName}。`
+      : `${authResult.user.username} 将您添加为域名 ${domain.fqdn} 的${roleName}。`
+  );
+
+  // Log the action
+  await env.DB.prepare(`
+    INSERT INTO audit_logs (linuxdo_id, action, target, details, ip_address, created_at)
+    VALUES (?, ?, ?, ?, ?, datetime('now'))
+  `).bind(
+    linuxdoId,
+    existing ? 'domain_member_update' : 'domain_member_add',
+    domain.fqdn,
+    JSON.stringify({ member_id: member?.id, member: invitee.username, role, previous_role: existing?.role }),
+    request.headers.get('CF-Connecting-IP')
+  ).run();
+
+  await addBlockchainLog(env.DB, {
+    action: BlockchainActions.DOMAIN_MEMBER_ADD,
+    actorName: authResult.user.username,
+    targetType: 'domain',
+    targetName: domain.fqdn,
+    details: { member: invitee.username, role, previous_role: existing?.role || null },
+  });
+
+  return successResponse({ member });
+};
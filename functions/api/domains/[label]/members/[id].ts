@@ -0,0 +1,73 @@
+// /api/domains/:label/members/:id - Remove a member
+
+import type { Env, DomainMember } from '../../../../lib/types';
+import { requireAuth, successResponse, errorResponse } from '../../../../lib/auth';
+import { createNotification } from '../../../../lib/notifications';
+import { addBlockchainLog, BlockchainActions } from '../../../../lib/blockchain';
+import { getUserDomain, OWNED_STATUSES } from '../../../../lib/domains';
+
+// DELETE /api/domains/:label/members/:id - The owner removes a member, or a member leaves the domain
+export const onRequestDelete: PagesFunction<Env> = async (context) => {
+  const { env, request, params } = context;
+
+  const authResult = await requireAuth(request, env);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const linuxdoId = parseInt(authResult.user.sub, 10);
+
+  const found = await getUserDomain(env.DB, linuxdoId, params.label, { statuses: OWNED_STATUSES, access: 'read' });
+  if (found.error) {
+    return found.error;
+  }
+
+  const { domain, role } = found;
+
+  const member = await env.DB.prepare(
+    'SELECT m.*, u.username FROM domain_members m LEFT JOIN users u ON u.linuxdo_id = m.linuxdo_id WHERE m.id = ? AND m.domain_id = ?'
+  ).bind(parseInt(params.id as string, 10), domain.id).first<DomainMember & { username: string | null }>();
+
+  if (!member) {
+    return errorResponse('Member not found', 404);
+  }
+
+  const leaving = member.linuxdo_id === linuxdoId;
+  if (role !== 'owner' && !leaving) {
+    return errorResponse('Only the domain owner can remove other members', 403);
+  }
+
+  await env.DB.prepare('DELETE FROM domain_members WHERE id = ?').bind(member.id).run();
+
+  await createNotification(
+    env.DB,
+    leaving ? domain.owner_linuxdo_id : member.linuxdo_id,
+    'domain_member',
+    leaving ? '成员已退出域名' : '您已被移出域名',
+    leaving
+      ? `${authResult.user.username} 已退出您的域名 ${domain.fqdn}。`
+      : `${authResult.user.username} 已将您移出域名 ${domain.fqdn}，您不再能查看或修改其解析记录。`
+  );
+
+  // Log the action
+  await env.DB.prepare(`
+    INSERT INTO audit_logs (linuxdo_id, action, target, details, ip_address, created_at)
+    VALUES (?, ?, ?, ?, ?, datetime('now'))
+  `).bind(
+    linuxdoId,
+    'domain_member_remove',
+    domain.fqdn,
+    JSON.stringify({ member_id: member.id, member: member.username, role: member.role, left: leaving }),
+    request.headers.get('CF-Connecting-IP')
+  ).run();
+
+  await addBlockchainLog(env.DB, {
+    action: BlockchainActions.DOMAIN_MEMBER_REMOVE,
+    actorName: authResult.user.username,
+    targetType: 'domain',
+    targetName: domain.fqdn,
+    details: { member: member.username, role: member.role, left: leaving },
+  });
+
+  return successResponse({ removed: true });
+};
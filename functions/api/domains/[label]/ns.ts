@@ -0,0 +1,3 @@
+// /api/domains/:label/ns - NS delegation mode
+
+export { onRequestGet, onRequestPut, onRequestDelete } from '../../ns';
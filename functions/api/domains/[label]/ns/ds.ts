@@ -0,0 +1,3 @@
+// /api/domains/:label/ns/ds - DS records of a delegated domain
+
+export { onRequestGet, onRequestPost } from '../../../ns/ds';
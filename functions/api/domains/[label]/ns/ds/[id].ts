@@ -0,0 +1,3 @@
+// /api/domains/:label/ns/ds/:id - Change or remove a DS record
+
+export { onRequestPut, onRequestDelete } from '../../../../ns/ds/[id]';
@@ -0,0 +1,3 @@
+// /api/domains/:label/renew - Domain renewal
+
+export { onRequestPost } from '../renew';
@@ -0,0 +1,3 @@
+// /api/domains/:label/transfer - Start or cancel a domain transfer
+
+export { onRequestPost, onRequestDelete } from '../transfer';
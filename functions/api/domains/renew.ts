@@ -0,0 +1,110 @@
+// /api/domains/:label/renew - Domain renewal (/api/domains/renew for users with a single domain)
+
+import type { Env, Order, User, CreateOrderResponse } from '../../lib/types';
+import { requireAuth, successResponse, errorResponse } from '../../lib/auth';
+import { getUserDomain } from '../../lib/domains';
+import { LinuxDOCreditClient, generateOrderNo } from '../../lib/credit';
+import { getLifecycleSettings, getRenewalPrice, canRenew } from '../../lib/domain-lifecycle';
+
+// POST /api/domains/:label/renew - Create payment order for renewing one of the user's domains
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env, request, params } = context;
+
+  // Authenticate
+  const authResult = await requireAuth(request, env);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const { user } = authResult;
+  const linuxdoId = parseInt(user.sub, 10);
+
+  // Check if user is banned
+  const dbUser = await env.DB.prepare(
+    'SELECT * FROM users WHERE linuxdo_id = ?'
+  ).bind(linuxdoId).first<User>();
+
+  if (dbUser?.is_banned) {
+    return errorResponse(`您的账户已被封禁: ${dbUser.ban_reason || '违规操作'}`, 403);
+  }
+
+  // Only active domains and expired domains that haven't been released can be renewed
+  const found = await getUserDomain(env.DB, linuxdoId, params.label, {
+    statuses: ['active', 'grace', 'redemption'],
+    notFoundError: 'You do not have a renewable domain',
+  });
+  if (found.error) {
+    return found.error;
+  }
+
+  const { domain } = found;
+
+  const { termDays } = await getLifecycleSettings(env.DB);
+  if (!canRenew(domain, termDays)) {
+    return errorResponse(`域名剩余有效期超过 ${termDays} 天，暂时无需续费。`, 400);
+  }
+
+  const url = new URL(request.url);
+  const creditClient = new LinuxDOCreditClient({
+    pid: env.CREDIT_PID,
+    key: env.CREDIT_KEY,
+    notifyUrl: `${url.protocol}//${url.host}/api/payment/notify`,
+    returnUrl: `${url.protocol}//${url.host}/api/payment/return`,
+  });
+
+  // Reuse an existing pending renewal order
+  const existingOrder = await env.DB.prepare(
+    'SELECT * FROM orders WHERE linuxdo_id = ? AND label = ? AND status = ? AND order_type = ?'
+  ).bind(linuxdoId, domain.label, 'pending', 'renew').first<Order>();
+
+  if (existingOrder) {
+    const formData = creditClient.createOrderParams({
+      outTradeNo: existingOrder.order_no,
+      name: `PY.KG 域名续费: ${domain.fqdn}`,
+      money: existingOrder.amount,
+    });
+
+    return successResponse<CreateOrderResponse>({
+      order_no: existingOrder.order_no,
+      submit_url: creditClient.getSubmitUrl(),
+      form_data: formData,
+    });
+  }
+
+  const price = await getRenewalPrice(env);
+  const orderNo = generateOrderNo();
+
+  try {
+    await env.DB.prepare(`
+      INSERT INTO orders (order_no, linuxdo_id, label, amount, order_type, status, created_at)
+      VALUES (?, ?, ?, ?, 'renew', 'pending', datetime('now'))
+    `).bind(orderNo, linuxdoId, domain.label, price).run();
+
+    // Log the action
+    await env.DB.prepare(`
+      INSERT INTO audit_logs (linuxdo_id, action, target, details, ip_address, created_at)
+      VALUES (?, ?, ?, ?, ?, datetime('now'))
+    `).bind(
+      linuxdoId,
+      'order_create',
+      orderNo,
+      JSON.stringify({ label: domain.label, amount: price, order_type: 'renew' }),
+      request.headers.get('CF-Connecting-IP')
+    ).run();
+  } catch (e) {
+    console.error('Database error:', e);
+    return errorResponse('Failed to create renewal order', 500);
+  }
+
+  const formData = creditClient.createOrderParams({
+    outTradeNo: orderNo,
+    name: `PY.KG 域名续费: ${domain.fqdn}`,
+    money: price,
+  });
+
+  return successResponse<CreateOrderResponse>({
+    order_no: orderNo,
+    submit_url: creditClient.getSubmitUrl(),
+    form_data: formData,
+  });
+};
@@ -0,0 +1,215 @@
+// /api/domains/:label/transfer - Domain transfers to another user (/api/domains/transfer for users with a single domain)
+
+import type { Env, DomainTransfer, User } from '../../lib/types';
+import { requireAuth, successResponse, errorResponse } from '../../lib/auth';
+import { createNotification } from '../../lib/notifications';
+import { getUserDomain, hasDomainQuota } from '../../lib/domains';
+import { TRANSFER_EXPIRE_DAYS, getTransferFee, expireTransfers } from '../../lib/transfers';
+
+const TRANSFER_LIST_SQL = `
+  SELECT t.*, d.fqdn, fu.username as from_username, tu.username as to_username
+  FROM domain_transfers t
+  JOIN domains d ON d.id = t.domain_id
+  LEFT JOIN users fu ON fu.linuxdo_id = t.from_linuxdo_id
+  LEFT JOIN users tu ON tu.linuxdo_id = t.to_linuxdo_id
+`;
+
+// GET /api/domains/transfer - Transfers started by or offered to the user
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+
+  const authResult = await requireAuth(request, env, { scope: 'domain:read' });
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const linuxdoId = parseInt(authResult.user.sub, 10);
+
+  await expireTransfers(env.DB);
+
+  const { results: outgoing } = await env.DB.prepare(
+    `${TRANSFER_LIST_SQL} WHERE t.from_linuxdo_id = ? ORDER BY t.id DESC LIMIT 20`
+  ).bind(linuxdoId).all();
+
+  const { results: incoming } = await env.DB.prepare(
+    `${TRANSFER_LIST_SQL} WHERE t.to_linuxdo_id = ? ORDER BY t.id DESC LIMIT 20`
+  ).bind(linuxdoId).all();
+
+  return successResponse({
+    outgoing: outgoing || [],
+    incoming: incoming || [],
+    fee: await getTransferFee(env.DB),
+  });
+};
+
+// POST /api/domains/:label/transfer - Offer one of the user's domains to another LinuxDO user
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env, request, params } = context;
+
+  // Ownership changes are only possible from a logged-in session
+  const authResult = await requireAuth(request, env);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const linuxdoId = parseInt(authResult.user.sub, 10);
+
+  // Check if user is banned
+  const dbUser = await env.DB.prepare(
+    'SELECT * FROM users WHERE linuxdo_id = ?'
+  ).bind(linuxdoId).first<User>();
+
+  if (dbUser?.is_banned) {
+    return errorResponse(`您的账户已被封禁: ${dbUser.ban_reason || '违规操作'}`, 403);
+  }
+
+  let body: { username?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('Invalid JSON body', 400);
+  }
+
+  const username = typeof body.username === 'string' ? body.username.trim().replace(/^@/, '') : '';
+  if (!username) {
+    return errorResponse('Missing or invalid username', 400);
+  }
+
+  const found = await getUserDomain(env.DB, linuxdoId, params.label, {
+    notFoundError: 'You do not have an active domain to transfer',
+  });
+  if (found.error) {
+    return found.error;
+  }
+
+  const { domain } = found;
+
+  await expireTransfers(env.DB);
+
+  const openTransfer = await env.DB.prepare(
+    "SELECT id FROM domain_transfers WHERE domain_id = ? AND status IN ('pending', 'awaiting_payment')"
+  ).bind(domain.id).first();
+
+  if (openTransfer) {
+    return errorResponse('This domain already has a transfer in progress, cancel it first', 409);
+  }
+
+  // LinuxDO usernames are case-insensitive
+  const recipient = await env.DB.prepare(
+    'SELECT * FROM users WHERE username = ? COLLATE NOCASE'
+  ).bind(username).first<User>();
+
+  if (!recipient) {
+    return errorResponse('Recipient not found, they need to log in to this site once first', 404);
+  }
+
+  if (recipient.linuxdo_id === linuxdoId) {
+    return errorResponse('You cannot transfer a domain to yourself', 400);
+  }
+
+  if (recipient.is_banned) {
+    return errorResponse('Recipient account is banned', 400);
+  }
+
+  if (!(await hasDomainQuota(env.DB, recipient.linuxdo_id))) {
+    return errorResponse('Recipient has reached the maximum number of domains', 400);
+  }
+
+  const fee = await getTransferFee(env.DB);
+
+  const result = await env.DB.prepare(`
+    INSERT INTO domain_transfers (domain_id, from_linuxdo_id, to_linuxdo_id, status, fee, created_at, expires_at)
+    VALUES (?, ?, ?, 'pending', ?, datetime('now'), datetime('now', '+' || ? || ' days'))
+  `).bind(domain.id, linuxdoId, recipient.linuxdo_id, fee, TRANSFER_EXPIRE_DAYS).run();
+
+  const transfer = await env.DB.prepare(
+    'SELECT * FROM domain_transfers WHERE id = ?'
+  ).bind(result.meta.last_row_id).first<DomainTransfer>();
+
+  await createNotification(
+    env.DB,
+    recipient.linuxdo_id,
+    'domain_transfer',
+    '收到域名转移请求',
+    `${authResult.user.username} 希望将域名 ${domain.fqdn} 转移给您${fee > 0 ? `，接收需支付 ${fee} 积分转移费` : ''}。请在 ${TRANSFER_EXPIRE_DAYS} 天内接受或拒绝。`
+  );
+
+  // Log the action
+  await env.DB.prepare(`
+    INSERT INTO audit_logs (linuxdo_id, action, target, details, ip_address, created_at)
+    VALUES (?, ?, ?, ?, ?, datetime('now'))
+  `).bind(
+    linuxdoId,
+    'domain_transfer_start',
+    domain.fqdn,
+    JSON.stringify({ transfer_id: transfer?.id, to: recipient.username, fee }),
+    request.headers.get('CF-Connecting-IP')
+  ).run();
+
+  return successResponse({ transfer });
+};
+
+// DELETE /api/domains/:label/transfer - Cancel the domain's open transfer
+export const onRequestDelete: PagesFunction<Env> = async (context) => {
+  const { env, request, params } = context;
+
+  const authResult = await requireAuth(request, env);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const linuxdoId = parseInt(authResult.user.sub, 10);
+
+  const found = await getUserDomain(env.DB, linuxdoId, params.label);
+  if (found.error) {
+    return found.error;
+  }
+
+  const { domain } = found;
+
+  const transfer = await env.DB.prepare(`
+    SELECT * FROM domain_transfers
+    WHERE domain_id = ? AND from_linuxdo_id = ? AND status IN ('pending', 'awaiting_payment')
+  `).bind(domain.id, linuxdoId).first<DomainTransfer>();
+
+  if (!transfer) {
+    return errorResponse('No transfer in progress', 404);
+  }
+
+  const updated = await env.DB.prepare(
+    "UPDATE domain_transfers SET status = 'cancelled' WHERE id = ? AND status IN ('pending', 'awaiting_payment')"
+  ).bind(transfer.id).run();
+
+  if (!updated.meta.changes) {
+    return errorResponse('Transfer has already been completed or closed', 409);
+  }
+
+  // An unpaid fee order is void; a payment that still arrives is refunded
+  if (transfer.order_no) {
+    await env.DB.prepare(
+      "UPDATE orders SET status = 'failed' WHERE order_no = ? AND status = 'pending'"
+    ).bind(transfer.order_no).run();
+  }
+
+  await createNotification(
+    env.DB,
+    transfer.to_linuxdo_id,
+    'domain_transfer',
+    '域名转移已取消',
+    `域名 ${domain.fqdn} 的转移请求已被持有人取消。`
+  );
+
+  // Log the action
+  await env.DB.prepare(`
+    INSERT INTO audit_logs (linuxdo_id, action, target, details, ip_address, created_at)
+    VALUES (?, ?, ?, ?, ?, datetime('now'))
+  `).bind(
+    linuxdoId,
+    'domain_transfer_cancel',
+    domain.fqdn,
+    JSON.stringify({ transfer_id: transfer.id }),
+    request.headers.get('CF-Connecting-IP')
+  ).run();
+
+  return successResponse({ cancelled: true });
+};
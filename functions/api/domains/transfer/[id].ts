@@ -0,0 +1,181 @@
+// /api/domains/transfer/:id - Recipient's answer to a domain transfer
+
+import type { Env, Domain, DomainTransfer, Order, User, CreateOrderResponse } from '../../../lib/types';
+import { requireAuth, successResponse, errorResponse } from '../../../lib/auth';
+import { LinuxDOCreditClient, generateOrderNo } from '../../../lib/credit';
+import { createNotification } from '../../../lib/notifications';
+import { hasDomainQuota } from '../../../lib/domains';
+import { expireTransfers, completeTransfer } from '../../../lib/transfers';
+
+// POST /api/domains/transfer/:id - Accept (paying the fee, if any) or decline a transfer
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env, request, params } = context;
+
+  // Ownership changes are only possible from a logged-in session
+  const authResult = await requireAuth(request, env);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const linuxdoId = parseInt(authResult.user.sub, 10);
+
+  let body: { action?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('Invalid JSON body', 400);
+  }
+
+  if (body.action !== 'accept' && body.action !== 'decline') {
+    return errorResponse('action must be "accept" or "decline"', 400);
+  }
+
+  await expireTransfers(env.DB);
+
+  const transfer = await env.DB.prepare(`
+    SELECT * FROM domain_transfers
+    WHERE id = ? AND to_linuxdo_id = ? AND status IN ('pending', 'awaiting_payment')
+  `).bind(parseInt(params.id as string, 10), linuxdoId).first<DomainTransfer>();
+
+  if (!transfer) {
+    return errorResponse('Transfer not found or no longer open', 404);
+  }
+
+  const domain = await env.DB.prepare(
+    'SELECT * FROM domains WHERE id = ?'
+  ).bind(transfer.domain_id).first<Domain>();
+
+  if (!domain) {
+    return errorResponse('Domain not found', 404);
+  }
+
+  const ip = request.headers.get('CF-Connecting-IP');
+
+  if (body.action === 'decline') {
+    await env.DB.prepare(
+      "UPDATE domain_transfers SET status = 'declined' WHERE id = ? AND status IN ('pending', 'awaiting_payment')"
+    ).bind(transfer.id).run();
+
+    // An unpaid fee order is void; a payment that still arrives is refunded
+    if (transfer.order_no) {
+      await env.DB.prepare(
+        "UPDATE orders SET status = 'failed' WHERE order_no = ? AND status = 'pending'"
+      ).bind(transfer.order_no).run();
+    }
+
+    await createNotification(
+      env.DB,
+      transfer.from_linuxdo_id,
+      'domain_transfer',
+      '域名转移被拒绝',
+      `${authResult.user.username} 拒绝接收域名 ${domain.fqdn}，域名仍归您所有。`
+    );
+
+    // Log the action
+    await env.DB.prepare(`
+      INSERT INTO audit_logs (linuxdo_id, action, target, details, ip_address, created_at)
+      VALUES (?, ?, ?, ?, ?, datetime('now'))
+    `).bind(
+      linuxdoId,
+      'domain_transfer_decline',
+      domain.fqdn,
+      JSON.stringify({ transfer_id: transfer.id }),
+      ip
+    ).run();
+
+    return successResponse({ declined: true });
+  }
+
+  // Check if user is banned
+  const dbUser = await env.DB.prepare(
+    'SELECT * FROM users WHERE linuxdo_id = ?'
+  ).bind(linuxdoId).first<User>();
+
+  if (dbUser?.is_banned) {
+    return errorResponse(`您的账户已被封禁: ${dbUser.ban_reason || '违规操作'}`, 403);
+  }
+
+  if (!(await hasDomainQuota(env.DB, linuxdoId))) {
+    return errorResponse('You have reached the maximum number of domains', 400);
+  }
+
+  if (transfer.fee <= 0) {
+    const result = await completeTransfer(env, transfer, ip);
+    if (!result.success) {
+      return errorResponse(result.error, 409);
+    }
+
+    return successResponse({ transferred: true, fqdn: domain.fqdn });
+  }
+
+  // A fee is due: the transfer completes once the order is paid
+  const url = new URL(request.url);
+  const creditClient = new LinuxDOCreditClient({
+    pid: env.CREDIT_PID,
+    key: env.CREDIT_KEY,
+    notifyUrl: `${url.protocol}//${url.host}/api/payment/notify`,
+    returnUrl: `${url.protocol}//${url.host}/api/payment/return`,
+  });
+
+  // Reuse the transfer's pending order
+  if (transfer.order_no) {
+    const existingOrder = await env.DB.prepare(
+      'SELECT * FROM orders WHERE order_no = ? AND status = ?'
+    ).bind(transfer.order_no, 'pending').first<Order>();
+
+    if (existingOrder) {
+      const formData = creditClient.createOrderParams({
+        outTradeNo: existingOrder.order_no,
+        name: `PY.KG 域名转移: ${domain.fqdn}`,
+        money: existingOrder.amount,
+      });
+
+      return successResponse<CreateOrderResponse>({
+        order_no: existingOrder.order_no,
+        submit_url: creditClient.getSubmitUrl(),
+        form_data: formData,
+      });
+    }
+  }
+
+  const orderNo = generateOrderNo();
+
+  try {
+    await env.DB.batch([
+      env.DB.prepare(`
+        INSERT INTO orders (order_no, linuxdo_id, label, amount, order_type, status, created_at)
+        VALUES (?, ?, ?, ?, 'transfer', 'pending', datetime('now'))
+      `).bind(orderNo, linuxdoId, domain.label, transfer.fee),
+      env.DB.prepare(
+        "UPDATE domain_transfers SET status = 'awaiting_payment', order_no = ? WHERE id = ?"
+      ).bind(orderNo, transfer.id),
+    ]);
+
+    // Log the action
+    await env.DB.prepare(`
+      INSERT INTO audit_logs (linuxdo_id, action, target, details, ip_address, created_at)
+      VALUES (?, ?, ?, ?, ?, datetime('now'))
+    `).bind(
+      linuxdoId,
+      'order_create',
+      orderNo,
+      JSON.stringify({ label: domain.label, amount: transfer.fee, order_type: 'transfer', transfer_id: transfer.id }),
+      ip
+    ).run();
+  } catch (e) {
+    console.error('Database error:', e);
+    return errorResponse('Failed to create transfer order', 500);
+  }
+
+  const formData = creditClient.createOrderParams({
+    outTradeNo: orderNo,
+    name: `PY.KG 域名转移: ${domain.fqdn}`,
+    money: transfer.fee,
+  });
+
+  return successResponse<CreateOrderResponse>({
+    order_no: orderNo,
+    submit_url: creditClient.getSubmitUrl(),
+    form_data: formData,
+  });
+};
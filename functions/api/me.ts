@@ -1,8 +1,10 @@
 // /api/me - Get current user info and quota
 
-import type { Env, MeResponse, Domain, User } from '../lib/types';
-import { requireAuth, successResponse, errorResponse, isAdminFromEnv } from '../lib/auth';
+import type { Env, MeResponse, User } from '../lib/types';
+import { requireAuth, successResponse, errorResponse, resolveAdminRole } from '../lib/auth';
+import { ROLE_PERMISSIONS } from '../lib/admin-roles';
 import { getSetting } from '../lib/moderation';
+import { getDomainQuota } from '../lib/domains';
 
 export const onRequestGet: PagesFunction<Env> = async (context) => {
   const { env, request } = context;
@@ -21,19 +23,15 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
     'SELECT * FROM users WHERE linuxdo_id = ?'
   ).bind(linuxdoId).first<User>();
 
-  // Check if user has an active domain
-  const domain = await env.DB.prepare(
-    'SELECT * FROM domains WHERE owner_linuxdo_id = ? AND status = ?'
-  ).bind(linuxdoId, 'active').first<Domain>();
+  // Domain quota (max_domains_per_user, raised by trust level)
+  const quota = await getDomainQuota(env.DB, linuxdoId);
 
   // Get price from settings or env
   const priceFromDb = await getSetting('domain_price', env.DB, '');
   const price = parseFloat(priceFromDb || env.DOMAIN_PRICE || '10');
 
-  // Check admin status
-  const isEnvAdmin = isAdminFromEnv(linuxdoId, env);
-  const isDbAdmin = dbUser?.is_admin === 1;
-  const isAdmin = isEnvAdmin || isDbAdmin;
+  // Check admin role
+  const adminRole = resolveAdminRole(linuxdoId, dbUser, env);
 
   // Check banned status
   const isBanned = dbUser?.is_banned === 1;
@@ -43,12 +41,14 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
       linuxdo_id: linuxdoId,
       username: user.username,
       trust_level: user.trust_level,
-      is_admin: isAdmin,
+      is_admin: adminRole !== null,
+      admin_role: adminRole,
+      admin_permissions: adminRole ? ROLE_PERMISSIONS[adminRole] : [],
       is_banned: isBanned,
     },
     quota: {
-      maxDomains: 1,
-      used: domain ? 1 : 0,
+      maxDomains: quota.limit,
+      used: quota.used,
     },
     price,
   };
@@ -0,0 +1,60 @@
+// /api/me/sessions - Active login sessions
+
+import type { Env } from '../../lib/types';
+import { requireAuth, successResponse, errorResponse } from '../../lib/auth';
+import { listActiveSessions, revokeUserSessions } from '../../lib/sessions';
+
+// GET /api/me/sessions - List the user's active sessions, marking the one making this request
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+
+  const authResult = await requireAuth(request, env);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const linuxdoId = parseInt(authResult.user.sub, 10);
+
+  try {
+    const sessions = await listActiveSessions(env.DB, linuxdoId, authResult.user.jti);
+    return successResponse({ sessions });
+  } catch (e) {
+    console.error('Failed to get sessions:', e);
+    return errorResponse('Failed to get sessions', 500);
+  }
+};
+
+// DELETE /api/me/sessions - Log out everywhere (?keep_current=true keeps this session)
+export const onRequestDelete: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+  const url = new URL(request.url);
+
+  const authResult = await requireAuth(request, env);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const linuxdoId = parseInt(authResult.user.sub, 10);
+  const keepCurrent = url.searchParams.get('keep_current') === 'true';
+
+  try {
+    const revoked = await revokeUserSessions(env.DB, linuxdoId, keepCurrent ? authResult.user.jti : undefined);
+
+    // Log the action
+    await env.DB.prepare(`
+      INSERT INTO audit_logs (linuxdo_id, action, target, details, ip_address, created_at)
+      VALUES (?, ?, ?, ?, ?, datetime('now'))
+    `).bind(
+      linuxdoId,
+      'session_revoke_all',
+      linuxdoId.toString(),
+      JSON.stringify({ revoked, keep_current: keepCurrent }),
+      request.headers.get('CF-Connecting-IP')
+    ).run();
+
+    return successResponse({ revoked });
+  } catch (e) {
+    console.error('Failed to revoke sessions:', e);
+    return errorResponse('Failed to revoke sessions', 500);
+  }
+};
@@ -0,0 +1,41 @@
+// /api/me/sessions/[id] - Revoke a login session
+
+import type { Env } from '../../../lib/types';
+import { requireAuth, successResponse, errorResponse } from '../../../lib/auth';
+import { revokeSession } from '../../../lib/sessions';
+
+// DELETE /api/me/sessions/:id - Revoke one of the user's sessions (including the current one)
+export const onRequestDelete: PagesFunction<Env> = async (context) => {
+  const { env, request, params } = context;
+  const sessionId = params.id as string;
+
+  const authResult = await requireAuth(request, env);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const linuxdoId = parseInt(authResult.user.sub, 10);
+
+  try {
+    if (!(await revokeSession(env.DB, linuxdoId, sessionId))) {
+      return errorResponse('Session not found', 404);
+    }
+
+    // Log the action
+    await env.DB.prepare(`
+      INSERT INTO audit_logs (linuxdo_id, action, target, details, ip_address, created_at)
+      VALUES (?, ?, ?, ?, ?, datetime('now'))
+    `).bind(
+      linuxdoId,
+      'session_revoke',
+      sessionId,
+      JSON.stringify({ current: sessionId === authResult.user.jti }),
+      request.headers.get('CF-Connecting-IP')
+    ).run();
+
+    return successResponse({ revoked: true, current: sessionId === authResult.user.jti });
+  } catch (e) {
+    console.error('Failed to revoke session:', e);
+    return errorResponse('Failed to revoke session', 500);
+  }
+};
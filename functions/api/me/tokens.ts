@@ -0,0 +1,139 @@
+// /api/me/tokens - Personal API token management
+
+import type { Env, ApiToken, ApiTokenScope, User } from '../../lib/types';
+import { requireAuth, successResponse, errorResponse } from '../../lib/auth';
+import {
+  API_TOKEN_SCOPES,
+  MAX_TOKENS_PER_USER,
+  generateApiToken,
+  hashApiToken,
+  toTokenListItem,
+} from '../../lib/api-tokens';
+
+// GET /api/me/tokens - List user's API tokens
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+
+  const authResult = await requireAuth(request, env);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const linuxdoId = parseInt(authResult.user.sub, 10);
+
+  try {
+    const { results } = await env.DB.prepare(
+      'SELECT * FROM api_tokens WHERE linuxdo_id = ? AND revoked_at IS NULL ORDER BY created_at DESC'
+    ).bind(linuxdoId).all<ApiToken>();
+
+    return successResponse({
+      tokens: (results || []).map(toTokenListItem),
+      available_scopes: API_TOKEN_SCOPES,
+    });
+  } catch (e) {
+    console.error('Failed to get API tokens:', e);
+    return errorResponse('Failed to get API tokens', 500);
+  }
+};
+
+// POST /api/me/tokens - Create a new API token (the token is only returned once)
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+
+  const authResult = await requireAuth(request, env);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const linuxdoId = parseInt(authResult.user.sub, 10);
+
+  // Check if user is banned
+  const dbUser = await env.DB.prepare(
+    'SELECT * FROM users WHERE linuxdo_id = ?'
+  ).bind(linuxdoId).first<User>();
+
+  if (dbUser?.is_banned) {
+    return errorResponse(`您的账户已被封禁: ${dbUser.ban_reason || '违规操作'}`, 403);
+  }
+
+  let body: { name?: string; scopes?: string[]; expires_in_days?: number };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('Invalid JSON body', 400);
+  }
+
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name || name.length > 64) {
+    return errorResponse('name is required and must be at most 64 characters', 400);
+  }
+
+  if (!Array.isArray(body.scopes) || body.scopes.length === 0) {
+    return errorResponse(`scopes must be a non-empty array of: ${API_TOKEN_SCOPES.join(', ')}`, 400);
+  }
+
+  const invalidScopes = body.scopes.filter(s => !API_TOKEN_SCOPES.includes(s as ApiTokenScope));
+  if (invalidScopes.length > 0) {
+    return errorResponse(`Invalid scopes: ${invalidScopes.join(', ')}`, 400);
+  }
+
+  const scopes = Array.from(new Set(body.scopes)) as ApiTokenScope[];
+
+  const expiresInDays = body.expires_in_days;
+  if (expiresInDays !== undefined && expiresInDays !== null) {
+    if (typeof expiresInDays !== 'number' || !Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > 3650) {
+      return errorResponse('expires_in_days must be an integer between 1 and 3650', 400);
+    }
+  }
+
+  try {
+    const countResult = await env.DB.prepare(
+      'SELECT COUNT(*) as count FROM api_tokens WHERE linuxdo_id = ? AND revoked_at IS NULL'
+    ).bind(linuxdoId).first<{ count: number }>();
+
+    if ((countResult?.count || 0) >= MAX_TOKENS_PER_USER) {
+      return errorResponse(`You can have at most ${MAX_TOKENS_PER_USER} API tokens`, 400);
+    }
+
+    const token = generateApiToken();
+    const tokenHash = await hashApiToken(token);
+    const tokenPrefix = token.substring(0, 12);
+
+    const result = await env.DB.prepare(`
+      INSERT INTO api_tokens (linuxdo_id, name, token_hash, token_prefix, scopes, expires_at, created_at)
+      VALUES (?, ?, ?, ?, ?, CASE WHEN ? IS NULL THEN NULL ELSE datetime('now', '+' || ? || ' days') END, datetime('now'))
+    `).bind(
+      linuxdoId,
+      name,
+      tokenHash,
+      tokenPrefix,
+      scopes.join(','),
+      expiresInDays ?? null,
+      expiresInDays ?? null
+    ).run();
+
+    const created = await env.DB.prepare(
+      'SELECT * FROM api_tokens WHERE id = ?'
+    ).bind(result.meta.last_row_id).first<ApiToken>();
+
+    // Log the action
+    await env.DB.prepare(`
+      INSERT INTO audit_logs (linuxdo_id, action, target, details, ip_address, created_at)
+      VALUES (?, ?, ?, ?, ?, datetime('now'))
+    `).bind(
+      linuxdoId,
+      'api_token_create',
+      tokenPrefix,
+      JSON.stringify({ name, scopes, expires_in_days: expiresInDays ?? null }),
+      request.headers.get('CF-Connecting-IP')
+    ).run();
+
+    return successResponse({
+      token,
+      ...toTokenListItem(created!),
+    });
+  } catch (e) {
+    console.error('Failed to create API token:', e);
+    return errorResponse('Failed to create API token', 500);
+  }
+};
@@ -0,0 +1,52 @@
+// /api/me/tokens/[id] - Revoke a personal API token
+
+import type { Env, ApiToken } from '../../../lib/types';
+import { requireAuth, successResponse, errorResponse } from '../../../lib/auth';
+
+// DELETE /api/me/tokens/:id - Revoke an API token
+export const onRequestDelete: PagesFunction<Env> = async (context) => {
+  const { env, request, params } = context;
+  const tokenId = parseInt(params.id as string, 10);
+
+  const authResult = await requireAuth(request, env);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const linuxdoId = parseInt(authResult.user.sub, 10);
+
+  if (isNaN(tokenId)) {
+    return errorResponse('Invalid token ID', 400);
+  }
+
+  try {
+    const token = await env.DB.prepare(
+      'SELECT * FROM api_tokens WHERE id = ? AND linuxdo_id = ? AND revoked_at IS NULL'
+    ).bind(tokenId, linuxdoId).first<ApiToken>();
+
+    if (!token) {
+      return errorResponse('API token not found', 404);
+    }
+
+    await env.DB.prepare(
+      'UPDATE api_tokens SET revoked_at = datetime(\'now\') WHERE id = ?'
+    ).bind(tokenId).run();
+
+    // Log the action
+    await env.DB.prepare(`
+      INSERT INTO audit_logs (linuxdo_id, action, target, details, ip_address, created_at)
+      VALUES (?, ?, ?, ?, ?, datetime('now'))
+    `).bind(
+      linuxdoId,
+      'api_token_revoke',
+      token.token_prefix,
+      JSON.stringify({ name: token.name }),
+      request.headers.get('CF-Connecting-IP')
+    ).run();
+
+    return successResponse({ revoked: true });
+  } catch (e) {
+    console.error('Failed to revoke API token:', e);
+    return errorResponse('Failed to revoke API token', 500);
+  }
+};
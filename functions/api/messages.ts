@@ -2,6 +2,7 @@
 
 import type { Env, Message, MessageWithSender, Conversation } from '../lib/types';
 import { requireAuth, successResponse, errorResponse } from '../lib/auth';
+import { checkRateLimit } from '../lib/rate-limit';
 
 // GET /api/messages - Get user's message conversation with admins
 export const onRequestGet: PagesFunction<Env> = async (context) => {
@@ -82,6 +83,11 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
   const { user } = authResult;
   const linuxdoId = parseInt(user.sub, 10);
 
+  const rateLimited = await checkRateLimit(env.DB, request, 'messages', linuxdoId);
+  if (rateLimited) {
+    return rateLimited;
+  }
+
   let body: { content?: string };
   try {
     body = await request.json();
@@ -1,12 +1,21 @@
-// /api/ns - NS record management
+// /api/ns - NS delegation mode (/api/domains/:label/ns for users with several domains)
 
-import type { Env, Domain } from '../lib/types';
+import type { Env, DnsRecord, NsRequest, User } from '../lib/types';
 import { requireAuth, successResponse, errorResponse } from '../lib/auth';
-import { CloudflareDNSClient, validateNameserver } from '../lib/cloudflare-dns';
-
-// GET /api/ns - Get NS records for user's domain
+import { getUserDomain, OWNED_STATUSES } from '../lib/domains';
+import { createResolver } from '../lib/dns-resolver';
+import { recordDnsRevision, getRevisionSource } from '../lib/dns-revisions';
+import {
+  parseNameservers,
+  canDelegateNs,
+  checkNameservers,
+  applyNameservers,
+  removeNameservers,
+} from '../lib/ns-delegation';
+
+// GET /api/ns - DNS mode, delegated nameservers and any request waiting for approval
 export const onRequestGet: PagesFunction<Env> = async (context) => {
-  const { env, request } = context;
+  const { env, request, params } = context;
 
   // Authenticate
   const authResult = await requireAuth(request, env);
@@ -18,38 +27,38 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
   const linuxdoId = parseInt(user.sub, 10);
 
   // Get user's domain
-  const domain = await env.DB.prepare(
-    'SELECT * FROM domains WHERE owner_linuxdo_id = ?'
-  ).bind(linuxdoId).first<Domain>();
-
-  if (!domain) {
-    return errorResponse('You do not have a registered domain', 404);
+  const found = await getUserDomain(env.DB, linuxdoId, params.label, { statuses: OWNED_STATUSES });
+  if (found.error) {
+    return found.error;
   }
 
-  if (domain.status !== 'active') {
-    return errorResponse('Your domain is suspended', 403);
-  }
+  const { domain } = found;
 
-  // Get NS records from Cloudflare
-  const cfClient = new CloudflareDNSClient(env.CLOUDFLARE_API_TOKEN, env.CLOUDFLARE_ZONE_ID);
-  const nsResult = await cfClient.getNSRecords(domain.fqdn);
+  const { results: nsRecords } = await env.DB.prepare(
+    "SELECT content FROM dns_records WHERE domain_id = ? AND type = 'NS' ORDER BY content"
+  ).bind(domain.id).all<{ content: string }>();
 
-  if (!nsResult.success) {
-    console.error('Cloudflare error:', nsResult.error);
-    return errorResponse(`Failed to fetch NS records: ${nsResult.error}`, 500);
-  }
-
-  const nameservers = nsResult.records.map(r => r.content);
+  const pendingRequest = await env.DB.prepare(
+    "SELECT * FROM ns_requests WHERE domain_id = ? AND status = 'pending'"
+  ).bind(domain.id).first<NsRequest>();
 
   return successResponse({
     domain: domain.fqdn,
-    nameservers,
+    dns_mode: domain.dns_mode || 'direct',
+    nameservers: (nsRecords || []).map(r => r.content),
+    pending_request: pendingRequest ? {
+      id: pendingRequest.id,
+      nameservers: JSON.parse(pendingRequest.nameservers),
+      created_at: pendingRequest.created_at,
+    } : null,
+    requires_approval: !(await canDelegateNs(env.DB, linuxdoId, user.trust_level)),
   });
 };
 
-// PUT /api/ns - Update NS records for user's domain
+// PUT /api/ns - Delegate the domain to the given nameservers (or change them)
+// Direct records are deleted when switching; users below ns_min_trust_level get an approval request instead
 export const onRequestPut: PagesFunction<Env> = async (context) => {
-  const { env, request } = context;
+  const { env, request, params } = context;
 
   // Authenticate
   const authResult = await requireAuth(request, env);
@@ -60,97 +69,122 @@ export const onRequestPut: PagesFunction<Env> = async (context) => {
   const { user } = authResult;
   const linuxdoId = parseInt(user.sub, 10);
 
-  // Get user's domain
-  const domain = await env.DB.prepare(
-    'SELECT * FROM domains WHERE owner_linuxdo_id = ?'
-  ).bind(linuxdoId).first<Domain>();
+  // Check if user is banned
+  const dbUser = await env.DB.prepare(
+    'SELECT * FROM users WHERE linuxdo_id = ?'
+  ).bind(linuxdoId).first<User>();
 
-  if (!domain) {
-    return errorResponse('You do not have a registered domain', 404);
-  }
-
-  if (domain.status !== 'active') {
-    return errorResponse('Your domain is suspended', 403);
+  if (dbUser?.is_banned) {
+    return errorResponse(`您的账户已被封禁: ${dbUser.ban_reason || '违规操作'}`, 403);
   }
 
   // Parse request body
-  let body: { nameservers?: string[] };
+  let body: { nameservers?: unknown; confirm?: boolean };
   try {
     body = await request.json();
   } catch {
     return errorResponse('Invalid JSON body', 400);
   }
 
-  const { nameservers } = body;
-
-  if (!nameservers || !Array.isArray(nameservers)) {
-    return errorResponse('Missing or invalid nameservers array', 400);
+  const parsed = parseNameservers(body.nameservers);
+  if (!parsed.valid) {
+    return errorResponse(parsed.error, 400);
   }
 
-  // Validate nameservers count (at least 2, max 8)
-  if (nameservers.length < 2) {
-    return errorResponse('At least 2 nameservers are required', 400);
-  }
+  const { nameservers } = parsed;
 
-  if (nameservers.length > 8) {
-    return errorResponse('Maximum 8 nameservers allowed', 400);
+  // Get user's domain
+  const found = await getUserDomain(env.DB, linuxdoId, params.label);
+  if (found.error) {
+    return found.error;
   }
 
-  // Validate each nameserver
-  const validationErrors: string[] = [];
-  const normalizedNS: string[] = [];
+  const { domain } = found;
 
-  for (let i = 0; i < nameservers.length; i++) {
-    const ns = nameservers[i];
-    if (typeof ns !== 'string') {
-      validationErrors.push(`nameservers[${i}]: Must be a string`);
-      continue;
-    }
+  // Switching deletes the direct records; make sure the user knows
+  if (domain.dns_mode !== 'ns') {
+    const direct = await env.DB.prepare(
+      "SELECT COUNT(*) as count FROM dns_records WHERE domain_id = ? AND type != 'NS'"
+    ).bind(domain.id).first<{ count: number }>();
 
-    const validation = validateNameserver(ns);
-    if (!validation.valid) {
-      validationErrors.push(`nameservers[${i}]: ${validation.error}`);
-      continue;
+    if ((direct?.count || 0) > 0 && body.confirm !== true) {
+      return errorResponse(
+        `Switching to NS mode deletes the domain's ${direct?.count} DNS records (they stay in the revision history); resend with "confirm": true`,
+        409
+      );
     }
+  }
 
-    // Normalize: ensure it ends with a dot
-    const normalized = ns.endsWith('.') ? ns : `${ns}.`;
-    normalizedNS.push(normalized);
+  const check = await checkNameservers(createResolver(env), domain.fqdn, nameservers, (env.BASE_DOMAIN || 'py.kg').toLowerCase());
+  if (!check.valid) {
+    return errorResponse(`Nameserver check failed:\n${check.problems.join('\n')}`, 400);
   }
 
-  // Check for duplicates
-  const uniqueNS = [...new Set(normalizedNS)];
-  if (uniqueNS.length !== normalizedNS.length) {
-    validationErrors.push('Duplicate nameservers are not allowed');
+  // Below the trust threshold an admin decides; a newer request replaces an older one
+  if (!(await canDelegateNs(env.DB, linuxdoId, user.trust_level))) {
+    await env.DB.prepare(
+      "UPDATE ns_requests SET status = 'cancelled' WHERE domain_id = ? AND status = 'pending'"
+    ).bind(domain.id).run();
+
+    const result = await env.DB.prepare(`
+      INSERT INTO ns_requests (domain_id, linuxdo_id, nameservers, status, created_at)
+      VALUES (?, ?, ?, 'pending', datetime('now'))
+    `).bind(domain.id, linuxdoId, JSON.stringify(nameservers)).run();
+
+    // Log the action
+    await logAudit(env.DB, linuxdoId, 'ns_request', domain.fqdn, {
+      request_id: result.meta.last_row_id,
+      nameservers,
+    }, getClientIP(request));
+
+    return successResponse({
+      message: 'NS delegation submitted for admin approval',
+      pending_approval: true,
+      request_id: result.meta.last_row_id,
+      domain: domain.fqdn,
+      nameservers,
+    });
   }
 
-  if (validationErrors.length > 0) {
-    return errorResponse(`Validation errors:\n${validationErrors.join('\n')}`, 400);
+  const previousMode = domain.dns_mode || 'direct';
+  const applied = await applyNameservers(env, domain, nameservers);
+  if (!applied.success) {
+    console.error('NS update error:', applied.error);
+    return errorResponse(applied.error, applied.status);
   }
 
-  // Update NS records in Cloudflare
-  const cfClient = new CloudflareDNSClient(env.CLOUDFLARE_API_TOKEN, env.CLOUDFLARE_ZONE_ID);
-  const updateResult = await cfClient.updateNSRecords(domain.fqdn, normalizedNS, 3600);
+  // A direct request supersedes one still waiting for approval
+  await env.DB.prepare(
+    "UPDATE ns_requests SET status = 'cancelled' WHERE domain_id = ? AND status = 'pending'"
+  ).bind(domain.id).run();
 
-  if (!updateResult.success) {
-    console.error('Cloudflare update error:', updateResult.error);
-    return errorResponse(`Failed to update NS records: ${updateResult.error}`, 500);
+  if (previousMode !== 'ns') {
+    await recordDnsRevision(env.DB, domain.id, {
+      linuxdoId,
+      source: getRevisionSource(context.data, authResult),
+      action: 'ns_enable',
+      details: { nameservers, deleted: applied.deleted },
+    });
   }
 
   // Log the action
   await logAudit(env.DB, linuxdoId, 'ns_update', domain.fqdn, {
-    nameservers: normalizedNS,
+    nameservers,
+    previous_mode: previousMode,
+    deleted_records: applied.deleted,
   }, getClientIP(request));
 
   return successResponse({
     domain: domain.fqdn,
-    nameservers: normalizedNS,
+    dns_mode: 'ns',
+    nameservers,
+    deleted_records: applied.deleted,
   });
 };
 
-// DELETE /api/ns - Delete all NS records for user's domain
+// DELETE /api/ns - Remove the delegation (back to direct mode) and/or cancel a pending request
 export const onRequestDelete: PagesFunction<Env> = async (context) => {
-  const { env, request } = context;
+  const { env, request, params } = context;
 
   // Authenticate
   const authResult = await requireAuth(request, env);
@@ -162,35 +196,51 @@ export const onRequestDelete: PagesFunction<Env> = async (context) => {
   const linuxdoId = parseInt(user.sub, 10);
 
   // Get user's domain
-  const domain = await env.DB.prepare(
-    'SELECT * FROM domains WHERE owner_linuxdo_id = ?'
-  ).bind(linuxdoId).first<Domain>();
-
-  if (!domain) {
-    return errorResponse('You do not have a registered domain', 404);
+  const found = await getUserDomain(env.DB, linuxdoId, params.label);
+  if (found.error) {
+    return found.error;
   }
 
-  if (domain.status !== 'active') {
-    return errorResponse('Your domain is suspended', 403);
-  }
+  const { domain } = found;
 
-  // Delete NS records from Cloudflare
-  const cfClient = new CloudflareDNSClient(env.CLOUDFLARE_API_TOKEN, env.CLOUDFLARE_ZONE_ID);
-  const deleteResult = await cfClient.deleteAllNSRecords(domain.fqdn);
+  const cancelled = await env.DB.prepare(
+    "UPDATE ns_requests SET status = 'cancelled' WHERE domain_id = ? AND status = 'pending'"
+  ).bind(domain.id).run();
 
-  if (!deleteResult.success) {
-    console.error('Cloudflare delete error:', deleteResult.error);
-    return errorResponse(`Failed to delete NS records: ${deleteResult.error}`, 500);
+  const { results: nsRecords } = await env.DB.prepare(
+    "SELECT * FROM dns_records WHERE domain_id = ? AND type = 'NS'"
+  ).bind(domain.id).all<DnsRecord>();
+
+  if ((nsRecords || []).length === 0) {
+    if (!cancelled.meta.changes) {
+      return errorResponse('Domain is not delegated and has no pending NS request', 404);
+    }
+    return successResponse({ domain: domain.fqdn, dns_mode: domain.dns_mode || 'direct', request_cancelled: true });
+  }
+
+  const removed = await removeNameservers(env, domain);
+  if (!removed.success) {
+    console.error('NS delete error:', removed.error);
+    return errorResponse(removed.error, removed.status);
   }
 
+  await recordDnsRevision(env.DB, domain.id, {
+    linuxdoId,
+    source: getRevisionSource(context.data, authResult),
+    action: 'ns_disable',
+    details: { nameservers: (nsRecords || []).map(r => r.content) },
+  });
+
   // Log the action
   await logAudit(env.DB, linuxdoId, 'ns_delete', domain.fqdn, {
-    deleted: deleteResult.deleted,
+    deleted: (nsRecords || []).length,
   }, getClientIP(request));
 
   return successResponse({
     domain: domain.fqdn,
-    deleted: deleteResult.deleted,
+    dns_mode: 'direct',
+    deleted: (nsRecords || []).length,
+    request_cancelled: cancelled.meta.changes > 0,
   });
 };
 
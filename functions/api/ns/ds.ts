@@ -0,0 +1,145 @@
+// /api/ns/ds - DS records of a delegated domain (/api/domains/:label/ns/ds for users with several domains)
+
+import type { Env, DnsRecord, User } from '../../lib/types';
+import { requireAuth, successResponse, errorResponse } from '../../lib/auth';
+import { getUserDomain, OWNED_STATUSES } from '../../lib/domains';
+import { CloudflareDNSClient } from '../../lib/cloudflare-dns';
+import type { DsRecordInput } from '../../lib/ns-delegation';
+import { parseDsRecord, requireNsMode, toDsRecordResponse, MAX_DS_RECORDS } from '../../lib/ns-delegation';
+
+// GET /api/ns/ds - List the domain's DS records
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env, request, params } = context;
+
+  // Authenticate
+  const authResult = await requireAuth(request, env);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const linuxdoId = parseInt(authResult.user.sub, 10);
+
+  // Get user's domain
+  const found = await getUserDomain(env.DB, linuxdoId, params.label, { statuses: OWNED_STATUSES });
+  if (found.error) {
+    return found.error;
+  }
+
+  const { domain } = found;
+
+  const { results: records } = await env.DB.prepare(
+    "SELECT * FROM dns_records WHERE domain_id = ? AND type = 'DS' ORDER BY id"
+  ).bind(domain.id).all<DnsRecord>();
+
+  return successResponse({
+    domain: domain.fqdn,
+    dns_mode: domain.dns_mode || 'direct',
+    records: (records || []).map(toDsRecordResponse),
+  });
+};
+
+// POST /api/ns/ds - Publish a DS record in the parent zone (NS mode only)
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env, request, params } = context;
+
+  // Authenticate
+  const authResult = await requireAuth(request, env);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const linuxdoId = parseInt(authResult.user.sub, 10);
+
+  // Check if user is banned
+  const dbUser = await env.DB.prepare(
+    'SELECT * FROM users WHERE linuxdo_id = ?'
+  ).bind(linuxdoId).first<User>();
+
+  if (dbUser?.is_banned) {
+    return errorResponse(`您的账户已被封禁: ${dbUser.ban_reason || '违规操作'}`, 403);
+  }
+
+  // Parse request body
+  let body: DsRecordInput;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('Invalid JSON body', 400);
+  }
+
+  const parsed = parseDsRecord(body);
+  if (!parsed.valid) {
+    return errorResponse(parsed.error, 400);
+  }
+
+  const { content, ttl } = parsed;
+
+  // Get user's domain
+  const found = await getUserDomain(env.DB, linuxdoId, params.label);
+  if (found.error) {
+    return found.error;
+  }
+
+  const { domain } = found;
+
+  const directMode = requireNsMode(domain);
+  if (directMode) {
+    return directMode;
+  }
+
+  const { results: existingRecords } = await env.DB.prepare(
+    "SELECT * FROM dns_records WHERE domain_id = ? AND type = 'DS'"
+  ).bind(domain.id).all<DnsRecord>();
+
+  const existing = existingRecords || [];
+
+  if (existing.length >= MAX_DS_RECORDS) {
+    return errorResponse(`Maximum ${MAX_DS_RECORDS} DS records allowed`, 400);
+  }
+  if (existing.some(r => r.content === content)) {
+    return errorResponse('This DS record already exists', 409);
+  }
+
+  // Create record in Cloudflare
+  const cfClient = new CloudflareDNSClient(env.CLOUDFLARE_API_TOKEN, env.CLOUDFLARE_ZONE_ID);
+  const cfResult = await cfClient.createDNSRecord('DS', domain.fqdn, content, ttl);
+
+  if (!cfResult.success) {
+    console.error('Cloudflare DS create error:', cfResult.error);
+    return errorResponse(`Failed to create DS record: ${cfResult.error}`, 500);
+  }
+
+  // Store in database
+  try {
+    const result = await env.DB.prepare(`
+      INSERT INTO dns_records (domain_id, type, name, content, ttl, proxied, cloudflare_record_id, created_at, updated_at)
+      VALUES (?, 'DS', '@', ?, ?, 0, ?, datetime('now'), datetime('now'))
+    `).bind(domain.id, content, ttl, cfResult.record.id).run();
+
+    // Log the action
+    await env.DB.prepare(`
+      INSERT INTO audit_logs (linuxdo_id, action, target, details, ip_address, created_at)
+      VALUES (?, ?, ?, ?, ?, datetime('now'))
+    `).bind(
+      linuxdoId,
+      'ds_create',
+      domain.fqdn,
+      JSON.stringify({ record_id: result.meta.last_row_id, content }),
+      request.headers.get('CF-Connecting-IP')
+    ).run();
+
+    return successResponse({
+      message: 'DS record created successfully',
+      record: {
+        id: result.meta.last_row_id,
+        content,
+        ttl,
+      },
+    });
+  } catch (e) {
+    console.error('Database error:', e);
+    // Rollback: delete from Cloudflare
+    await cfClient.deleteDNSRecord(cfResult.record.id);
+    return errorResponse('Failed to store DS record', 500);
+  }
+};
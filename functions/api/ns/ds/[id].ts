@@ -0,0 +1,175 @@
+// /api/ns/ds/:id - Change or remove a DS record
+
+import type { Env, DnsRecord, User } from '../../../lib/types';
+import { requireAuth, successResponse, errorResponse } from '../../../lib/auth';
+import { getUserDomain } from '../../../lib/domains';
+import { CloudflareDNSClient, parseDsContent } from '../../../lib/cloudflare-dns';
+import type { DsRecordInput } from '../../../lib/ns-delegation';
+import { parseDsRecord, requireNsMode, toDsRecordResponse } from '../../../lib/ns-delegation';
+
+// PUT /api/ns/ds/:id - Update a DS record (omitted fields keep their current values)
+export const onRequestPut: PagesFunction<Env> = async (context) => {
+  const { env, request, params } = context;
+
+  // Authenticate
+  const authResult = await requireAuth(request, env);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const linuxdoId = parseInt(authResult.user.sub, 10);
+  const recordId = parseInt(params.id as string, 10);
+
+  // Check if user is banned
+  const dbUser = await env.DB.prepare(
+    'SELECT * FROM users WHERE linuxdo_id = ?'
+  ).bind(linuxdoId).first<User>();
+
+  if (dbUser?.is_banned) {
+    return errorResponse(`您的账户已被封禁: ${dbUser.ban_reason || '违规操作'}`, 403);
+  }
+
+  // Parse request body
+  let body: DsRecordInput;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('Invalid JSON body', 400);
+  }
+
+  // Get user's domain
+  const found = await getUserDomain(env.DB, linuxdoId, params.label, { recordId });
+  if (found.error) {
+    return found.error;
+  }
+
+  const { domain } = found;
+
+  const directMode = requireNsMode(domain);
+  if (directMode) {
+    return directMode;
+  }
+
+  const record = await env.DB.prepare(
+    "SELECT * FROM dns_records WHERE id = ? AND domain_id = ? AND type = 'DS'"
+  ).bind(recordId, domain.id).first<DnsRecord>();
+
+  if (!record) {
+    return errorResponse('DS record not found', 404);
+  }
+
+  const current = parseDsContent(record.content);
+  const parsed = parseDsRecord({
+    key_tag: body.key_tag ?? current?.keyTag,
+    algorithm: body.algorithm ?? current?.algorithm,
+    digest_type: body.digest_type ?? current?.digestType,
+    digest: body.digest ?? current?.digest,
+    ttl: body.ttl ?? record.ttl,
+  });
+  if (!parsed.valid) {
+    return errorResponse(parsed.error, 400);
+  }
+
+  const { content, ttl } = parsed;
+
+  const duplicate = await env.DB.prepare(
+    "SELECT id FROM dns_records WHERE domain_id = ? AND type = 'DS' AND content = ? AND id != ?"
+  ).bind(domain.id, content, record.id).first();
+
+  if (duplicate) {
+    return errorResponse('This DS record already exists', 409);
+  }
+
+  // Update in Cloudflare
+  if (record.cloudflare_record_id) {
+    const cfClient = new CloudflareDNSClient(env.CLOUDFLARE_API_TOKEN, env.CLOUDFLARE_ZONE_ID);
+    const cfResult = await cfClient.updateDNSRecord(record.cloudflare_record_id, 'DS', domain.fqdn, content, ttl);
+
+    if (!cfResult.success) {
+      console.error('Cloudflare DS update error:', cfResult.error);
+      return errorResponse(`Failed to update DS record: ${cfResult.error}`, 500);
+    }
+  }
+
+  await env.DB.prepare(`
+    UPDATE dns_records SET content = ?, ttl = ?, updated_at = datetime('now') WHERE id = ?
+  `).bind(content, ttl, record.id).run();
+
+  // Log the action
+  await env.DB.prepare(`
+    INSERT INTO audit_logs (linuxdo_id, action, target, details, ip_address, created_at)
+    VALUES (?, ?, ?, ?, ?, datetime('now'))
+  `).bind(
+    linuxdoId,
+    'ds_update',
+    domain.fqdn,
+    JSON.stringify({ record_id: record.id, old_content: record.content, content }),
+    request.headers.get('CF-Connecting-IP')
+  ).run();
+
+  return successResponse({
+    message: 'DS record updated successfully',
+    record: toDsRecordResponse({ ...record, content, ttl }),
+  });
+};
+
+// DELETE /api/ns/ds/:id - Remove a DS record (e.g. before turning off DNSSEC on the user's nameservers)
+export const onRequestDelete: PagesFunction<Env> = async (context) => {
+  const { env, request, params } = context;
+
+  // Authenticate
+  const authResult = await requireAuth(request, env);
+  if (authResult instanceof Response) {
+    return authResult;
+  }
+
+  const linuxdoId = parseInt(authResult.user.sub, 10);
+  const recordId = parseInt(params.id as string, 10);
+
+  // Get user's domain
+  const found = await getUserDomain(env.DB, linuxdoId, params.label, { recordId });
+  if (found.error) {
+    return found.error;
+  }
+
+  const { domain } = found;
+
+  const record = await env.DB.prepare(
+    "SELECT * FROM dns_records WHERE id = ? AND domain_id = ? AND type = 'DS'"
+  ).bind(recordId, domain.id).first<DnsRecord>();
+
+  if (!record) {
+    return errorResponse('DS record not found', 404);
+  }
+
+  // Keep the row unless the Cloudflare record is confirmed gone
+  if (record.cloudflare_record_id && record.cf_synced) {
+    const cfClient = new CloudflareDNSClient(env.CLOUDFLARE_API_TOKEN, env.CLOUDFLARE_ZONE_ID);
+    const cfResult = await cfClient.deleteDNSRecord(record.cloudflare_record_id);
+
+    if (!cfResult.success) {
+      console.error('Cloudflare DS delete error:', cfResult.error);
+
+      const lookup = await cfClient.getAllRecords(domain.fqdn);
+      if (!lookup.success || lookup.records.some(r => r.id === record.cloudflare_record_id)) {
+        return errorResponse(`Cloudflare DNS delete failed: ${cfResult.error}`, 500);
+      }
+    }
+  }
+
+  await env.DB.prepare('DELETE FROM dns_records WHERE id = ?').bind(record.id).run();
+
+  // Log the action
+  await env.DB.prepare(`
+    INSERT INTO audit_logs (linuxdo_id, action, target, details, ip_address, created_at)
+    VALUES (?, ?, ?, ?, ?, datetime('now'))
+  `).bind(
+    linuxdoId,
+    'ds_delete',
+    domain.fqdn,
+    JSON.stringify({ record_id: record.id, content: record.content }),
+    request.headers.get('CF-Connecting-IP')
+  ).run();
+
+  return successResponse({ deleted: true });
+};
@@ -3,7 +3,9 @@
 import type { Env, Order } from '../../lib/types';
 import { LinuxDOCreditClient, NotifyParams } from '../../lib/credit';
 import { createNotification } from '../../lib/notifications';
-import { addBlockchainLog, BlockchainActions } from '../../lib/blockchain';
+import { getLifecycleSettings } from '../../lib/domain-lifecycle';
+import { completePaidOrder, amountMatches } from '../../lib/payments';
+import { getDomainQuota } from '../../lib/domains';
 
 // GET /api/payment/notify - Handle payment callback from LinuxDO Credit
 export const onRequestGet: PagesFunction<Env> = async (context) => {
@@ -77,24 +79,46 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
   // Check if already processed - but still try to create domain if missing
   const baseDomain = env.BASE_DOMAIN || 'py.kg';
   const fqdn = `${order.label}.${baseDomain}`;
+  const orderType = order.order_type || 'register';
+
+  if (order.status === 'paid' && orderType !== 'register') {
+    // Renewals and transfers were already applied when the order was marked paid
+    console.log(`[Payment Notify] ${orderType} order already paid:`, params.out_trade_no);
+    return new Response('success', { status: 200 });
+  }
+
+  if (order.status === 'paid' && order.released_at) {
+    // The domain was registered from this order and has since been released or deleted
+    console.log('[Payment Notify] Domain of paid order was released, not recreating:', params.out_trade_no);
+    return new Response('success', { status: 200 });
+  }
 
   if (order.status === 'paid') {
     console.log('[Payment Notify] Order already paid, checking if domain exists:', params.out_trade_no);
 
     // Check if domain already exists
     const existingDomain = await env.DB.prepare(
-      'SELECT * FROM domains WHERE owner_linuxdo_id = ?'
-    ).bind(order.linuxdo_id).first();
+      'SELECT * FROM domains WHERE label = ? AND owner_linuxdo_id = ?'
+    ).bind(order.label, order.linuxdo_id).first();
 
     if (existingDomain) {
       console.log('[Payment Notify] Domain already exists:', existingDomain.fqdn);
       return new Response('success', { status: 200 });
     }
 
+    // An order refunded (or awaiting refund) for exceeding the quota never had a domain
+    const quota = await getDomainQuota(env.DB, order.linuxdo_id);
+    if (quota.used >= quota.limit) {
+      console.log('[Payment Notify] Domain quota reached, not recreating:', params.out_trade_no);
+      return new Response('success', { status: 200 });
+    }
+
     // Domain doesn't exist, try to create it
     console.log('[Payment Notify] Domain missing, attempting to create...');
 
     try {
+      const { termDays } = await getLifecycleSettings(env.DB);
+
       // Check if there's a pending review for this order
       const pendingReview = await env.DB.prepare(
         'SELECT * FROM pending_reviews WHERE order_no = ?'
@@ -103,9 +127,9 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
       if (pendingReview && pendingReview.status === 'pending') {
         // Create domain with 'review' status
         await env.DB.prepare(`
-          INSERT INTO domains (label, fqdn, owner_linuxdo_id, python_praise, usage_purpose, status, review_reason, created_at)
-          VALUES (?, ?, ?, ?, ?, 'review', ?, datetime('now'))
-        `).bind(order.label, fqdn, order.linuxdo_id, order.python_praise, order.usage_purpose, pendingReview.reason).run();
+          INSERT INTO domains (label, fqdn, owner_linuxdo_id, python_praise, usage_purpose, status, review_reason, expires_at, created_at)
+          VALUES (?, ?, ?, ?, ?, 'review', ?, datetime('now', '+' || ? || ' days'), datetime('now'))
+        `).bind(order.label, fqdn, order.linuxdo_id, order.python_praise, order.usage_purpose, pendingReview.reason, termDays).run();
 
         console.log('[Payment Notify] ✅ Domain created with review status (recovery):', fqdn);
 
@@ -119,17 +143,17 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
       } else if (pendingReview && pendingReview.status === 'approved') {
         // Review already approved, create as active
         await env.DB.prepare(`
-          INSERT INTO domains (label, fqdn, owner_linuxdo_id, python_praise, usage_purpose, status, created_at)
-          VALUES (?, ?, ?, ?, ?, 'active', datetime('now'))
-        `).bind(order.label, fqdn, order.linuxdo_id, order.python_praise, order.usage_purpose).run();
+          INSERT INTO domains (label, fqdn, owner_linuxdo_id, python_praise, usage_purpose, status, expires_at, created_at)
+          VALUES (?, ?, ?, ?, ?, 'active', datetime('now', '+' || ? || ' days'), datetime('now'))
+        `).bind(order.label, fqdn, order.linuxdo_id, order.python_praise, order.usage_purpose, termDays).run();
 
         console.log('[Payment Notify] ✅ Domain created as active (review was approved):', fqdn);
       } else if (!pendingReview) {
         // No review needed, create as active
         await env.DB.prepare(`
-          INSERT INTO domains (label, fqdn, owner_linuxdo_id, python_praise, usage_purpose, status, created_at)
-          VALUES (?, ?, ?, ?, ?, 'active', datetime('now'))
-        `).bind(order.label, fqdn, order.linuxdo_id, order.python_praise, order.usage_purpose).run();
+          INSERT INTO domains (label, fqdn, owner_linuxdo_id, python_praise, usage_purpose, status, expires_at, created_at)
+          VALUES (?, ?, ?, ?, ?, 'active', datetime('now', '+' || ? || ' days'), datetime('now'))
+        `).bind(order.label, fqdn, order.linuxdo_id, order.python_praise, order.usage_purpose, termDays).run();
 
         console.log('[Payment Notify] ✅ Domain created as active (recovery):', fqdn);
       }
@@ -143,12 +167,10 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
   }
 
   // Verify amount
-  const expectedAmount = order.amount.toFixed(2);
-  const receivedAmount = parseFloat(params.money).toFixed(2);
-  if (expectedAmount !== receivedAmount) {
+  if (!amountMatches(order, params.money)) {
     console.error('[Payment Notify] Amount mismatch:', {
-      expected: expectedAmount,
-      received: receivedAmount
+      expected: order.amount.toFixed(2),
+      received: parseFloat(params.money).toFixed(2)
     });
     // 金额不匹配不应该重试，返回 200 + 'fail' 让平台停止重试
     return new Response('fail', { status: 200 });
@@ -156,129 +178,12 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
 
   // Update order status and create domain
   try {
-    console.log('[Payment Notify] 💾 Updating order status to paid...');
-
-    await env.DB.prepare(`
-      UPDATE orders SET status = 'paid', trade_no = ?, paid_at = datetime('now')
-      WHERE order_no = ?
-    `).bind(params.trade_no, params.out_trade_no).run();
-
-    console.log('[Payment Notify] ✅ Order updated successfully:', {
-      order_no: params.out_trade_no,
-      trade_no: params.trade_no,
-      new_status: 'paid'
+    await completePaidOrder(env, order, {
+      tradeNo: params.trade_no,
+      money: params.money,
+      ip: request.headers.get('CF-Connecting-IP'),
+      source: 'notify',
     });
-
-    console.log('[Payment Notify] 🔍 Checking for pending review...');
-
-    // Check if there's a pending review for this order
-    const pendingReview = await env.DB.prepare(
-      'SELECT * FROM pending_reviews WHERE order_no = ? AND status = ?'
-    ).bind(params.out_trade_no, 'pending').first();
-
-    if (pendingReview) {
-      console.log('[Payment Notify] ⚠️ Domain requires manual review, creating domain with review status');
-
-      // Create domain immediately with 'review' status
-      await env.DB.prepare(`
-        INSERT INTO domains (label, fqdn, owner_linuxdo_id, python_praise, usage_purpose, status, review_reason, created_at)
-        VALUES (?, ?, ?, ?, ?, 'review', ?, datetime('now'))
-      `).bind(order.label, fqdn, order.linuxdo_id, order.python_praise, order.usage_purpose, pendingReview.reason).run();
-
-      console.log('[Payment Notify] ✅ Domain created with review status:', fqdn);
-
-      // Send notification to user
-      await createNotification(
-        env.DB,
-        order.linuxdo_id,
-        'domain_pending_review',
-        '域名创建成功，等待审核',
-        `您的域名 ${fqdn} 已成功创建，正在等待管理员审核。审核原因：${pendingReview.reason}`
-      );
-
-      // Log the payment
-      await env.DB.prepare(`
-        INSERT INTO audit_logs (linuxdo_id, action, target, details, ip_address, created_at)
-        VALUES (?, ?, ?, ?, ?, datetime('now'))
-      `).bind(
-        order.linuxdo_id,
-        'order_paid',
-        fqdn,
-        JSON.stringify({
-          order_no: params.out_trade_no,
-          trade_no: params.trade_no,
-          amount: params.money,
-          status: 'pending_review',
-        }),
-        request.headers.get('CF-Connecting-IP')
-      ).run();
-
-      // Get user info for blockchain log
-      const userForReview = await env.DB.prepare(
-        'SELECT username FROM users WHERE linuxdo_id = ?'
-      ).bind(order.linuxdo_id).first<{ username: string }>();
-
-      // Add blockchain log for domain registration (pending review)
-      await addBlockchainLog(env.DB, {
-        action: BlockchainActions.DOMAIN_REGISTER,
-        actorName: userForReview?.username || null,
-        targetType: 'domain',
-        targetName: fqdn,
-        result: 'pending_review',
-        details: {
-          amount: params.money,
-          review_reason: pendingReview.reason,
-        },
-      });
-
-      console.log('[Payment Notify] ✅ Payment logged, domain pending review:', fqdn);
-    } else {
-      console.log('[Payment Notify] 🌐 Creating domain:', fqdn);
-
-      // No review needed, create domain directly as active
-      await env.DB.prepare(`
-        INSERT INTO domains (label, fqdn, owner_linuxdo_id, python_praise, usage_purpose, status, created_at)
-        VALUES (?, ?, ?, ?, ?, 'active', datetime('now'))
-      `).bind(order.label, fqdn, order.linuxdo_id, order.python_praise, order.usage_purpose).run();
-
-      console.log('[Payment Notify] ✅ Domain created successfully in database');
-
-      // Log the action
-      await env.DB.prepare(`
-        INSERT INTO audit_logs (linuxdo_id, action, target, details, ip_address, created_at)
-        VALUES (?, ?, ?, ?, ?, datetime('now'))
-      `).bind(
-        order.linuxdo_id,
-        'domain_register',
-        fqdn,
-        JSON.stringify({
-          order_no: params.out_trade_no,
-          trade_no: params.trade_no,
-          amount: params.money,
-        }),
-        request.headers.get('CF-Connecting-IP')
-      ).run();
-
-      // Get user info for blockchain log
-      const user = await env.DB.prepare(
-        'SELECT username FROM users WHERE linuxdo_id = ?'
-      ).bind(order.linuxdo_id).first<{ username: string }>();
-
-      // Add blockchain log for domain registration
-      await addBlockchainLog(env.DB, {
-        action: BlockchainActions.DOMAIN_REGISTER,
-        actorName: user?.username || null,
-        targetType: 'domain',
-        targetName: fqdn,
-        details: {
-          amount: params.money,
-        },
-      });
-
-      console.log('[Payment Notify] ✅ Audit log created');
-      console.log('[Payment Notify] 🎉 Domain registered successfully:', fqdn);
-    }
-
   } catch (e) {
     console.error('[Payment Notify] Database error:', e);
     // 数据库错误可能是临时的，返回错误状态码让平台重试
@@ -2,6 +2,7 @@
 
 import type { Env } from '../lib/types';
 import { requireAuth, successResponse, errorResponse } from '../lib/auth';
+import { checkRateLimit } from '../lib/rate-limit';
 
 interface Report {
   id: number;
@@ -26,6 +27,11 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
   const { user } = authResult;
   const linuxdoId = parseInt(user.sub, 10);
 
+  const rateLimited = await checkRateLimit(env.DB, request, 'reports', linuxdoId);
+  if (rateLimited) {
+    return rateLimited;
+  }
+
   // Parse request body
   let body: { label?: string; reason?: string };
   try {
@@ -1,9 +1,12 @@
 // /api/whois - WHOIS query for domain information
+// JSON by default; ?format=text or Accept: text/plain gives a registry-style text block
 
 import type { Env, Domain, DnsRecord } from '../lib/types';
 import { requireAuth, successResponse, errorResponse } from '../lib/auth';
 import { validateLabel } from '../lib/validators';
 import { checkLabel } from '../lib/moderation';
+import type { WhoisTextContext } from '../lib/whois';
+import { formatWhoisText, formatWhoisReservedText, formatWhoisNotFoundText } from '../lib/whois';
 
 interface WhoisDomainInfo {
   label: string;
@@ -14,6 +17,7 @@ interface WhoisDomainInfo {
   };
   status: string;
   created_at: string;
+  expires_at: string | null;
   python_praise: string | null;
   usage_purpose: string | null;
   suspend_reason: string | null;
@@ -40,6 +44,7 @@ interface DomainQueryResult {
   owner_linuxdo_id: number;
   status: string;
   created_at: string;
+  expires_at: string | null;
   python_praise: string | null;
   usage_purpose: string | null;
   suspend_reason: string | null;
@@ -47,30 +52,76 @@ interface DomainQueryResult {
   username: string | null;
 }
 
-// GET /api/whois?domain={label} - Query domain information
+function textResponse(body: string, status: number = 200): Response {
+  return new Response(body, {
+    status,
+    headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+  });
+}
+
+// ?format= wins; otherwise text only when the client asks for text/plain and not JSON
+function wantsText(request: Request, url: URL): boolean {
+  const format = url.searchParams.get('format');
+  if (format) {
+    return format === 'text';
+  }
+  return acceptsText(request);
+}
+
+function acceptsText(request: Request): boolean {
+  const accept = request.headers.get('Accept') || '';
+  return accept.includes('text/plain') && !accept.includes('application/json');
+}
+
+// Errors in text mode are a plain "Error: ..." line with the same status
+function whoisError(text: boolean, message: string, status: number): Response {
+  return text ? textResponse(`Error: ${message}\n`, status) : errorResponse(message, status);
+}
+
+// GET /api/whois?domain={label}[&format=text] - Query domain information
 export const onRequestGet: PagesFunction<Env> = async (context) => {
   const { env, request } = context;
 
-  // Authenticate - require login
-  const authResult = await requireAuth(request, env);
+  const url = new URL(request.url);
+
+  const format = url.searchParams.get('format');
+  if (format && format !== 'json' && format !== 'text') {
+    // An unusable format says nothing about what the client reads, so fall back to Accept
+    return whoisError(acceptsText(request), 'format must be "json" or "text"', 400);
+  }
+
+  // Decided before authenticating so that auth failures come back in the requested format too
+  const text = wantsText(request, url);
+
+  // Authenticate - require login or an API token with domain:read
+  const authResult = await requireAuth(request, env, { scope: 'domain:read' });
   if (authResult instanceof Response) {
-    return authResult;
+    if (!text) {
+      return authResult;
+    }
+    const body = await authResult.json() as { error?: string };
+    return whoisError(true, body.error || 'Unauthorized', authResult.status);
   }
 
   // Get and validate domain parameter
-  const url = new URL(request.url);
   const domainParam = url.searchParams.get('domain');
 
   if (!domainParam) {
-    return errorResponse('Missing domain parameter', 400);
+    return whoisError(text, 'Missing domain parameter', 400);
   }
 
   const domain = domainParam.toLowerCase().trim();
 
+  const textContext: WhoisTextContext = {
+    baseDomain: (env.BASE_DOMAIN || 'py.kg').toLowerCase(),
+    origin: url.origin,
+    abuseContact: env.ABUSE_CONTACT || url.origin,
+  };
+
   // Validate domain format
   const validation = validateLabel(domain);
   if (!validation.valid) {
-    return errorResponse(validation.error || 'Invalid domain format', 400);
+    return whoisError(text, validation.error || 'Invalid domain format', 400);
   }
 
   try {
@@ -83,19 +134,25 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
         status: 'reserved',
         reason: moderationResult.reason || '域名包含被禁止的词汇',
       };
+      if (text) {
+        return textResponse(formatWhoisReservedText(reservedInfo.label, reservedInfo.reason, textContext));
+      }
       return successResponse(reservedInfo);
     }
 
     // Query database - JOIN with users table to get username
-    // Query active, suspended, and review status domains
+    // Query active, suspended, review and expired (not yet released) domains
     const result = await env.DB.prepare(`
-      SELECT d.id, d.label, d.fqdn, d.owner_linuxdo_id, d.status, d.created_at, d.python_praise, d.usage_purpose, d.suspend_reason, d.review_reason, u.username
+      SELECT d.id, d.label, d.fqdn, d.owner_linuxdo_id, d.status, d.created_at, d.expires_at, d.python_praise, d.usage_purpose, d.suspend_reason, d.review_reason, u.username
       FROM domains d
       LEFT JOIN users u ON d.owner_linuxdo_id = u.linuxdo_id
-      WHERE d.label = ? AND d.status IN ('active', 'suspended', 'review')
+      WHERE d.label = ? AND d.status IN ('active', 'suspended', 'review', 'grace', 'redemption')
     `).bind(domain).first<DomainQueryResult>();
 
     if (!result) {
+      if (text) {
+        return textResponse(formatWhoisNotFoundText(domain, textContext), 404);
+      }
       return errorResponse('Domain not found', 404);
     }
 
@@ -104,6 +161,18 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
       'SELECT type, name, content, ttl, proxied FROM dns_records WHERE domain_id = ? ORDER BY type, name'
     ).bind(result.id).all<DnsRecord>();
 
+    if (text) {
+      return textResponse(formatWhoisText({
+        id: result.id,
+        fqdn: result.fqdn,
+        status: result.status,
+        created_at: result.created_at,
+        expires_at: result.expires_at,
+        username: result.username,
+        records: dnsRecords || [],
+      }, textContext));
+    }
+
     // Build response
     const response: WhoisDomainInfo = {
       label: result.label,
@@ -114,6 +183,7 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
       },
       status: result.status,
       created_at: result.created_at,
+      expires_at: result.expires_at,
       python_praise: result.python_praise,
       usage_purpose: result.usage_purpose,
       suspend_reason: result.suspend_reason,
@@ -131,6 +201,6 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
 
   } catch (error) {
     console.error('WHOIS query error:', error);
-    return errorResponse('Failed to query domain information', 500);
+    return whoisError(text, 'Failed to query domain information', 500);
   }
 };
@@ -1,9 +1,10 @@
 // OAuth2 Callback endpoint - exchanges code for token, validates user, creates session
 
 import type { Env, LinuxDOUser } from '../lib/types';
-import { signJWT, parseCookies } from '../lib/jwt';
+import { parseCookies } from '../lib/jwt';
 import { setSessionCookie, clearOAuthCookies, getCookieName } from '../lib/auth';
 import { addBlockchainLog, BlockchainActions } from '../lib/blockchain';
+import { createSession, signSessionToken, sessionTtl } from '../lib/sessions';
 
 const LINUXDO_TOKEN_URL = 'https://connect.linux.do/oauth2/token';
 const LINUXDO_USER_URL = 'https://connect.linux.do/api/user';
@@ -82,21 +83,34 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
     return redirectWithError('Database error: Failed to save user information');
   }
 
+  // Record the session so it can be listed, refreshed and revoked
+  const remember = cookies['remember_me'] === '1';
+  const ttl = sessionTtl(remember);
+  let jti: string;
+  try {
+    jti = await createSession(env.DB, user.id, request, remember);
+  } catch (e) {
+    console.error('Failed to create session:', e);
+    return redirectWithError('Database error: Failed to create session');
+  }
+
   // Create JWT session
-  const jwt = await signJWT(
+  const jwt = await signSessionToken(
     {
       sub: String(user.id),
       username: user.username,
       trust_level: user.trust_level,
     },
+    jti,
+    0,
     env.JWT_SIGNING_KEY,
-    86400 // 24 hours
+    ttl
   );
 
   // Clear OAuth cookies and set session cookie
   const headers = new Headers();
   const cookieName = getCookieName(env);
-  headers.append('Set-Cookie', setSessionCookie(jwt, cookieName, 86400));
+  headers.append('Set-Cookie', setSessionCookie(jwt, cookieName, ttl));
   for (const clearCookie of clearOAuthCookies()) {
     headers.append('Set-Cookie', clearCookie);
   }
@@ -212,13 +226,14 @@ async function upsertUser(db: D1Database, user: LinuxDOUser): Promise<void> {
   const isNewUser = !existingUser;
 
   await db.prepare(`
-    INSERT INTO users (linuxdo_id, username, trust_level, silenced, active, updated_at)
-    VALUES (?, ?, ?, ?, ?, datetime('now'))
+    INSERT INTO users (linuxdo_id, username, trust_level, silenced, active, profile_synced_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, datetime('now'), datetime('now'))
     ON CONFLICT(linuxdo_id) DO UPDATE SET
       username = excluded.username,
       trust_level = excluded.trust_level,
       silenced = excluded.silenced,
       active = excluded.active,
+      profile_synced_at = excluded.profile_synced_at,
       updated_at = datetime('now')
   `).bind(
     user.id,
@@ -1,8 +1,8 @@
-// OAuth2 Login endpoint - redirects to LinuxDO Connect
+// OAuth2 Login endpoint - redirects to LinuxDO Connect (?remember=1 for a 30-day session)
 
 import type { Env } from '../lib/types';
 import { generateState } from '../lib/jwt';
-import { setStateCookie } from '../lib/auth';
+import { setStateCookie, setRememberMeCookie } from '../lib/auth';
 
 const LINUXDO_AUTHORIZE_URL = 'https://connect.linux.do/oauth2/authorize';
 
@@ -23,6 +23,9 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
   // Set state cookie and redirect
   const headers = new Headers();
   headers.append('Set-Cookie', setStateCookie(state));
+  if (new URL(request.url).searchParams.get('remember') === '1') {
+    headers.append('Set-Cookie', setRememberMeCookie());
+  }
   headers.set('Location', authUrl.toString());
 
   return new Response(null, {
@@ -1,12 +1,27 @@
-// Logout endpoint - clears session cookie
+// Logout endpoint - revokes the current session and clears the session cookie
 
 import type { Env } from '../lib/types';
 import { clearSessionCookie, getCookieName } from '../lib/auth';
+import { parseCookies, verifyJWT } from '../lib/jwt';
+import { revokeSession } from '../lib/sessions';
 
 export const onRequestGet: PagesFunction<Env> = async (context) => {
-  const { env } = context;
+  const { env, request } = context;
   const cookieName = getCookieName(env);
 
+  // Revoke server-side so a copy of the cookie stops working too
+  const token = parseCookies(request.headers.get('Cookie'))[cookieName];
+  if (token) {
+    const result = await verifyJWT(token, env.JWT_SIGNING_KEY);
+    if (result.valid && result.payload.jti) {
+      try {
+        await revokeSession(env.DB, parseInt(result.payload.sub, 10), result.payload.jti);
+      } catch (e) {
+        console.error('Failed to revoke session:', e);
+      }
+    }
+  }
+
   const headers = new Headers();
   headers.append('Set-Cookie', clearSessionCookie(cookieName));
   headers.set('Location', '/');
@@ -0,0 +1,64 @@
+// Refresh endpoint - re-issues the session JWT while the user is active, sliding its expiry
+
+import type { Env, User } from '../lib/types';
+import { successResponse, errorResponse, setSessionCookie, getCookieName } from '../lib/auth';
+import { parseCookies, verifyJWT } from '../lib/jwt';
+import { verifySession, rotateSession, signSessionToken } from '../lib/sessions';
+
+// POST /auth/refresh - Swap the session cookie for a new generation (no-op while the current token is fresh)
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+  const cookieName = getCookieName(env);
+
+  const token = parseCookies(request.headers.get('Cookie'))[cookieName];
+  if (!token) {
+    return errorResponse('No session cookie', 401);
+  }
+
+  const result = await verifyJWT(token, env.JWT_SIGNING_KEY);
+  if (!result.valid) {
+    return errorResponse(result.error, 401);
+  }
+
+  const verified = await verifySession(env.DB, result.payload, request.headers.get('CF-Connecting-IP'));
+  if (!verified.valid) {
+    return errorResponse(verified.error, 401);
+  }
+
+  const { session } = verified;
+
+  try {
+    const rotated = await rotateSession(env.DB, session, result.payload);
+    if (!rotated) {
+      return successResponse({ refreshed: false, expires_at: session.expires_at, remember: session.remember === 1 });
+    }
+
+    // Pick up username and trust level changes since the last token was issued
+    const dbUser = await env.DB.prepare(
+      'SELECT username, trust_level FROM users WHERE linuxdo_id = ?'
+    ).bind(session.linuxdo_id).first<Pick<User, 'username' | 'trust_level'>>();
+
+    const jwt = await signSessionToken(
+      {
+        sub: result.payload.sub,
+        username: dbUser?.username || result.payload.username,
+        trust_level: dbUser?.trust_level ?? result.payload.trust_level,
+      },
+      session.jti,
+      rotated.generation,
+      env.JWT_SIGNING_KEY,
+      rotated.expiresIn
+    );
+
+    const response = successResponse({
+      refreshed: true,
+      expires_at: new Date(Date.now() + rotated.expiresIn * 1000).toISOString().replace('T', ' ').slice(0, 19),
+      remember: session.remember === 1,
+    });
+    response.headers.append('Set-Cookie', setSessionCookie(jwt, cookieName, rotated.expiresIn));
+    return response;
+  } catch (e) {
+    console.error('Failed to refresh session:', e);
+    return errorResponse('Failed to refresh session', 500);
+  }
+};
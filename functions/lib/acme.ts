@@ -0,0 +1,133 @@
+// ACME DNS-01 challenge records (lego / acme.sh "httpreq" style present/cleanup)
+
+import type { Domain, DnsRecord } from './types';
+import { CloudflareDNSClient } from './cloudflare-dns';
+import { errorResponse } from './auth';
+import type { DomainRole } from './domains';
+
+export const ACME_CHALLENGE_LABEL = '_acme-challenge';
+export const ACME_CHALLENGE_TTL = 60;
+// Challenges are validated within minutes; anything older was abandoned by the client
+export const ACME_STALE_AFTER_HOURS = 2;
+// Enough for several concurrent orders (e.g. apex + wildcard)
+export const MAX_ACME_RECORDS = 10;
+
+// Convert a challenge FQDN into a record name relative to the user's domain
+// "_acme-challenge.www.example.py.kg." -> "_acme-challenge.www"
+export function parseChallengeName(fqdn: string, domainFqdn: string): string | null {
+  const normalized = fqdn.trim().toLowerCase().replace(/\.$/, '');
+  const suffix = `.${domainFqdn.toLowerCase()}`;
+
+  if (!normalized.endsWith(suffix)) {
+    return null;
+  }
+
+  const name = normalized.slice(0, -suffix.length);
+  if (name !== ACME_CHALLENGE_LABEL && !name.startsWith(`${ACME_CHALLENGE_LABEL}.`)) {
+    return null;
+  }
+
+  // Remaining labels must be valid hostname labels (wildcards are validated at the apex)
+  const rest = name.split('.').slice(1);
+  if (!rest.every(label => /^[a-z0-9]([a-z0-9-]*[a-z0-9])?$/.test(label) && label.length <= 63)) {
+    return null;
+  }
+
+  return name;
+}
+
+// Key authorization digests are base64url; RAW mode values are limited to printable ASCII
+export function isValidChallengeValue(value: string): boolean {
+  return value.length > 0 && value.length <= 255 && /^[\x21-\x7e]+$/.test(value) && !value.includes('"');
+}
+
+// Parse a present/cleanup request body and resolve it against the user's active domains
+// (including domains shared with the user as dns-editor)
+export async function parseChallengeRequest(
+  request: Request,
+  db: D1Database,
+  linuxdoId: number
+): Promise<Response | { domain: Domain; role: DomainRole; name: string; value: string }> {
+  let body: { fqdn?: string; value?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('Invalid JSON body', 400);
+  }
+
+  const { fqdn, value } = body;
+  if (!fqdn || typeof fqdn !== 'string') {
+    return errorResponse('Missing or invalid fqdn', 400);
+  }
+  if (!value || typeof value !== 'string' || !isValidChallengeValue(value)) {
+    return errorResponse('Missing or invalid value', 400);
+  }
+
+  const { results: domains } = await db.prepare(`
+    SELECT d.*, CASE WHEN d.owner_linuxdo_id = ? THEN 'owner' ELSE m.role END as role
+    FROM domains d
+    LEFT JOIN domain_members m ON m.domain_id = d.id AND m.linuxdo_id = ?
+    WHERE d.status = 'active' AND (d.owner_linuxdo_id = ? OR m.role = 'dns-editor')
+    ORDER BY d.id
+  `).bind(linuxdoId, linuxdoId, linuxdoId).all<Domain & { role: DomainRole }>();
+
+  if (!domains || domains.length === 0) {
+    return errorResponse('You do not have a registered domain', 404);
+  }
+
+  // The challenge name picks which of the user's domains it belongs to
+  for (const { role, ...domain } of domains) {
+    const name = parseChallengeName(fqdn, domain.fqdn);
+    if (name) {
+      return { domain, role, name, value };
+    }
+  }
+
+  const fqdns = domains.map(d => d.fqdn).join(' / ');
+  return errorResponse(`fqdn must be ${ACME_CHALLENGE_LABEL}.<domain> or ${ACME_CHALLENGE_LABEL}.<sub>.<domain> for one of your domains (${fqdns})`, 400);
+}
+
+// Delete challenge records older than ACME_STALE_AFTER_HOURS (all domains when domainId is null)
+export async function cleanupStaleAcmeRecords(
+  db: D1Database,
+  cfClient: CloudflareDNSClient,
+  domainId: number | null
+): Promise<number> {
+  const { results } = await db.prepare(`
+    SELECT * FROM dns_records
+    WHERE acme_challenge = 1
+      AND created_at <= datetime('now', '-' || ? || ' hours')
+      AND (? IS NULL OR domain_id = ?)
+  `).bind(ACME_STALE_AFTER_HOURS, domainId, domainId).all<DnsRecord>();
+
+  let removed = 0;
+  for (const record of results || []) {
+    if (await deleteAcmeRecord(db, cfClient, record)) {
+      removed++;
+    }
+  }
+
+  if (removed > 0) {
+    console.log('[ACME] Removed', removed, 'stale challenge records');
+  }
+  return removed;
+}
+
+// Delete a challenge record from Cloudflare and the database
+export async function deleteAcmeRecord(
+  db: D1Database,
+  cfClient: CloudflareDNSClient,
+  record: DnsRecord
+): Promise<boolean> {
+  if (record.cloudflare_record_id) {
+    const cfResult = await cfClient.deleteDNSRecord(record.cloudflare_record_id);
+    // Keep the row if Cloudflare still has the record, so the next cleanup retries
+    if (!cfResult.success && !/does not exist/i.test(cfResult.error)) {
+      console.error('[ACME] Failed to delete challenge record from Cloudflare:', record.id, cfResult.error);
+      return false;
+    }
+  }
+
+  await db.prepare('DELETE FROM dns_records WHERE id = ?').bind(record.id).run();
+  return true;
+}
@@ -0,0 +1,25 @@
+// Admin roles and the permissions each one grants
+// Routes under /api/admin declare the permission they need through requireAdmin
+
+import type { AdminRole, AdminPermission } from './types';
+
+export const ADMIN_ROLES: AdminRole[] = ['superadmin', 'moderator', 'support'];
+
+const ALL_PERMISSIONS: AdminPermission[] = [
+  'dashboard', 'users', 'bans', 'admins', 'reviews', 'reports', 'appeals', 'domains', 'dns',
+  'dns_approvals', 'banned_words', 'messages', 'announcements', 'orders', 'settings', 'blockchain',
+];
+
+export const ROLE_PERMISSIONS: Record<AdminRole, AdminPermission[]> = {
+  superadmin: ALL_PERMISSIONS,
+  moderator: ['dashboard', 'users', 'bans', 'reviews', 'reports', 'appeals', 'domains', 'dns_approvals', 'banned_words'],
+  support: ['dashboard', 'users', 'messages', 'announcements'],
+};
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return typeof value === 'string' && ADMIN_ROLES.includes(value as AdminRole);
+}
+
+export function hasPermission(role: AdminRole | null, permission: AdminPermission): boolean {
+  return role !== null && ROLE_PERMISSIONS[role].includes(permission);
+}
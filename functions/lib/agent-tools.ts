@@ -2,6 +2,8 @@
 
 import type { Tool } from './ai-client';
 import type { Env, User } from './types';
+import { getUserDomain } from './domains';
+import { checkAvailability } from './availability';
 
 /**
  * Get all available tools for the agent
@@ -29,7 +31,13 @@ export function getAgentTools(): Tool[] {
       function: {
         name: 'query_dns_records',
         description: 'Query DNS records for user domains',
-        parameters: { type: 'object', properties: {}, required: [] },
+        parameters: {
+          type: 'object',
+          properties: {
+            domain: { type: 'string', description: 'Domain label, needed when the user has several domains' },
+          },
+          required: [],
+        },
       },
     },
     {
@@ -64,7 +72,7 @@ export function getAgentTools(): Tool[] {
       type: 'function',
       function: {
         name: 'check_domain_available',
-        description: 'Check domain availability for registration',
+        description: 'Check domain availability for registration; suggests alternatives when unavailable',
         parameters: {
           type: 'object',
           properties: {
@@ -96,11 +104,17 @@ export function getAgentTools(): Tool[] {
         parameters: {
           type: 'object',
           properties: {
-            type: { type: 'string', enum: ['A', 'AAAA', 'CNAME', 'TXT'] },
-            name: { type: 'string' },
-            content: { type: 'string' },
+            domain: { type: 'string', description: 'Domain label, needed when the user has several domains' },
+            type: { type: 'string', enum: ['A', 'AAAA', 'CNAME', 'TXT', 'MX', 'SRV', 'CAA'] },
+            name: { type: 'string', description: 'SRV names use _service._proto form' },
+            content: { type: 'string', description: 'Target host for MX/SRV, value for CAA' },
             ttl: { type: 'number' },
             proxied: { type: 'boolean' },
+            priority: { type: 'number', description: 'MX/SRV priority' },
+            weight: { type: 'number', description: 'SRV weight' },
+            port: { type: 'number', description: 'SRV port' },
+            flags: { type: 'number', description: 'CAA flags (0 or 128)' },
+            tag: { type: 'string', enum: ['issue', 'issuewild', 'iodef'], description: 'CAA tag' },
           },
           required: ['type', 'name', 'content'],
         },
@@ -114,10 +128,18 @@ export function getAgentTools(): Tool[] {
         parameters: {
           type: 'object',
           properties: {
+            domain: { type: 'string', description: 'Domain label, needed when the user has several domains' },
             record_id: { type: 'number' },
-            type: { type: 'string' },
+            type: { type: 'string', enum: ['A', 'AAAA', 'CNAME', 'TXT', 'MX', 'SRV', 'CAA'] },
             name: { type: 'string' },
             content: { type: 'string' },
+            ttl: { type: 'number' },
+            proxied: { type: 'boolean' },
+            priority: { type: 'number' },
+            weight: { type: 'number' },
+            port: { type: 'number' },
+            flags: { type: 'number' },
+            tag: { type: 'string', enum: ['issue', 'issuewild', 'iodef'] },
           },
           required: ['record_id'],
         },
@@ -131,6 +153,7 @@ export function getAgentTools(): Tool[] {
         parameters: {
           type: 'object',
           properties: {
+            domain: { type: 'string', description: 'Domain label, needed when the user has several domains' },
             record_id: { type: 'number' },
           },
           required: ['record_id'],
@@ -145,6 +168,7 @@ export function getAgentTools(): Tool[] {
         parameters: {
           type: 'object',
           properties: {
+            domain: { type: 'string', description: 'Domain label, needed when the user has several domains' },
             reason: { type: 'string', description: 'Appeal reason' },
           },
           required: ['reason'],
@@ -204,15 +228,15 @@ export class AgentToolExecutor {
     const handlers: Record<string, (args: any) => Promise<any>> = {
       get_user_info: () => this.getUserInfo(),
       get_domain_info: () => this.getDomainInfo(),
-      query_dns_records: () => this.queryDnsRecords(),
+      query_dns_records: (args) => this.queryDnsRecords(args.domain),
       whois_lookup: (args) => this.whoisLookup(args.label),
       check_blacklist: (args) => this.checkBlacklist(args.label),
       check_domain_available: (args) => this.checkDomainAvailable(args.label),
       register_domain: (args) => this.registerDomain(args.label),
       add_dns_record: (args) => this.addDnsRecord(args),
       update_dns_record: (args) => this.updateDnsRecord(args),
-      delete_dns_record: (args) => this.deleteDnsRecord(args.record_id),
-      submit_appeal: (args) => this.submitAppeal(args.reason),
+      delete_dns_record: (args) => this.deleteDnsRecord(args.record_id, args.domain),
+      submit_appeal: (args) => this.submitAppeal(args.reason, args.domain),
       submit_report: (args) => this.submitReport(args.label, args.reason),
       get_notifications: (args) => this.getNotifications(args.unread_only),
     };
@@ -251,29 +275,27 @@ export class AgentToolExecutor {
     return await response.json();
   }
 
-  private async queryDnsRecords() {
+  private async queryDnsRecords(label?: string) {
     const url = new URL('/api/dns-records', this.request.url);
     const dnsRequest = new Request(url, {
       headers: this.request.headers,
     });
 
     const { onRequestGet } = await import('../api/dns-records');
-    const response = await onRequestGet({ request: dnsRequest, env: this.env } as any);
+    const response = await onRequestGet({ request: dnsRequest, env: this.env, params: { label } } as any);
     const data = await response.json();
 
     // Return with UI rendering flag for interactive DNS management
     if (data.success && data.data) {
       // Get domain info for display
-      const domain = await this.env.DB.prepare(
-        'SELECT * FROM domains WHERE owner_linuxdo_id = ? AND status = ?'
-      ).bind(this.user.linuxdo_id, 'active').first();
+      const found = await getUserDomain(this.env.DB, this.user.linuxdo_id, label);
 
       return {
         success: true,
         ui_type: 'dns_manager',
         data: {
           ...data.data,
-          domain: domain || {}
+          domain: found.domain || {}
         }
       };
     }
@@ -353,18 +375,9 @@ export class AgentToolExecutor {
   }
 
   private async checkDomainAvailable(label: string) {
-    // Check if domain exists in database
-    const existing = await this.env.DB.prepare(
-      'SELECT id FROM domains WHERE label = ?'
-    ).bind(label).first();
-
     return {
       success: true,
-      data: {
-        available: !existing,
-        label,
-        fqdn: `${label}.${this.env.BASE_DOMAIN || 'py.kg'}`,
-      },
+      data: await checkAvailability(this.env.DB, label, this.env.BASE_DOMAIN || 'py.kg'),
     };
   }
 
@@ -385,6 +398,7 @@ export class AgentToolExecutor {
   }
 
   private async addDnsRecord(args: any) {
+    const { domain, ...recordData } = args;
     const url = new URL('/api/dns-records', this.request.url);
     const addRequest = new Request(url, {
       method: 'POST',
@@ -392,16 +406,21 @@ export class AgentToolExecutor {
         ...Object.fromEntries(this.request.headers),
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify(args),
+      body: JSON.stringify(recordData),
     });
 
     const { onRequestPost } = await import('../api/dns-records');
-    const response = await onRequestPost({ request: addRequest, env: this.env } as any);
+    const response = await onRequestPost({
+      request: addRequest,
+      env: this.env,
+      data: { via: 'agent' },
+      params: { label: domain }
+    } as any);
     return await response.json();
   }
 
   private async updateDnsRecord(args: any) {
-    const { record_id, ...updateData } = args;
+    const { record_id, domain, ...updateData } = args;
     const url = new URL(`/api/dns-records/${record_id}`, this.request.url);
     const updateRequest = new Request(url, {
       method: 'PUT',
@@ -416,12 +435,13 @@ export class AgentToolExecutor {
     const response = await onRequestPut({
       request: updateRequest,
       env: this.env,
-      params: { id: String(record_id) }
+      data: { via: 'agent' },
+      params: { id: String(record_id), label: domain }
     } as any);
     return await response.json();
   }
 
-  private async deleteDnsRecord(recordId: number) {
+  private async deleteDnsRecord(recordId: number, label?: string) {
     const url = new URL(`/api/dns-records/${recordId}`, this.request.url);
     const deleteRequest = new Request(url, {
       method: 'DELETE',
@@ -432,12 +452,13 @@ export class AgentToolExecutor {
     const response = await onRequestDelete({
       request: deleteRequest,
       env: this.env,
-      params: { id: String(recordId) }
+      data: { via: 'agent' },
+      params: { id: String(recordId), label }
     } as any);
     return await response.json();
   }
 
-  private async submitAppeal(reason: string) {
+  private async submitAppeal(reason: string, label?: string) {
     const url = new URL('/api/appeals', this.request.url);
     const appealRequest = new Request(url, {
       method: 'POST',
@@ -445,7 +466,7 @@ export class AgentToolExecutor {
         ...Object.fromEntries(this.request.headers),
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({ reason }),
+      body: JSON.stringify({ reason, label }),
     });
 
     const { onRequestPost } = await import('../api/appeals');
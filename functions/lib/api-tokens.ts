@@ -0,0 +1,128 @@
+// Personal API tokens (Authorization: Bearer pykg_...)
+
+import type { ApiToken, ApiTokenScope, JWTPayload, User } from './types';
+
+export const API_TOKEN_SCOPES: ApiTokenScope[] = ['dns:read', 'dns:write', 'domain:read'];
+export const API_TOKEN_PREFIX = 'pykg_';
+export const MAX_TOKENS_PER_USER = 20;
+
+export interface ApiTokenAuth {
+  id: number;
+  name: string;
+  scopes: ApiTokenScope[];
+}
+
+// Public view of a token (never includes the hash)
+export type ApiTokenListItem = Omit<ApiToken, 'token_hash' | 'scopes'> & { scopes: ApiTokenScope[] };
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Generate a new random token
+export function generateApiToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return API_TOKEN_PREFIX + toHex(bytes.buffer);
+}
+
+// Tokens are stored as SHA-256 hashes
+export async function hashApiToken(token: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token)));
+}
+
+export function parseScopes(scopes: string): ApiTokenScope[] {
+  return scopes.split(',').map(s => s.trim()).filter((s): s is ApiTokenScope => API_TOKEN_SCOPES.includes(s as ApiTokenScope));
+}
+
+export function toTokenListItem(token: ApiToken): ApiTokenListItem {
+  const { token_hash, ...rest } = token;
+  return { ...rest, scopes: parseScopes(token.scopes) };
+}
+
+// Extract an API token from the Authorization header
+// Bearer is the normal form; Basic (token as password) is for httpreq-style ACME clients
+export function getBearerToken(request: Request): string | null {
+  const header = request.headers.get('Authorization');
+  if (!header) {
+    return null;
+  }
+
+  const bearer = header.match(/^Bearer\s+(\S+)$/i);
+  if (bearer) {
+    return bearer[1];
+  }
+
+  const basic = header.match(/^Basic\s+(\S+)$/i);
+  if (basic) {
+    try {
+      const decoded = atob(basic[1]);
+      const password = decoded.substring(decoded.indexOf(':') + 1);
+      return password.startsWith(API_TOKEN_PREFIX) ? password : null;
+    } catch {
+      return null;
+    }
+  }
+
+  return null;
+}
+
+// Verify a token and record its use
+export async function verifyApiToken(
+  db: D1Database,
+  token: string,
+  ip: string | null
+): Promise<{ valid: true; user: JWTPayload; token: ApiTokenAuth } | { valid: false; error: string }> {
+  if (!token.startsWith(API_TOKEN_PREFIX)) {
+    return { valid: false, error: 'Invalid API token' };
+  }
+
+  const tokenHash = await hashApiToken(token);
+  const row = await db.prepare(`
+    SELECT t.*, u.username, u.trust_level, u.is_banned
+    FROM api_tokens t
+    JOIN users u ON t.linuxdo_id = u.linuxdo_id
+    WHERE t.token_hash = ?
+  `).bind(tokenHash).first<ApiToken & Pick<User, 'username' | 'trust_level' | 'is_banned'>>();
+
+  if (!row || row.revoked_at) {
+    return { valid: false, error: 'Invalid API token' };
+  }
+
+  if (row.expires_at && new Date(row.expires_at.replace(' ', 'T') + 'Z').getTime() <= Date.now()) {
+    return { valid: false, error: 'API token expired' };
+  }
+
+  if (row.is_banned) {
+    return { valid: false, error: 'User is banned' };
+  }
+
+  await db.prepare(
+    'UPDATE api_tokens SET last_used_at = datetime(\'now\'), last_used_ip = ? WHERE id = ?'
+  ).bind(ip, row.id).run();
+
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    valid: true,
+    user: {
+      sub: String(row.linuxdo_id),
+      username: row.username,
+      trust_level: row.trust_level,
+      iat: now,
+      exp: now,
+    },
+    token: {
+      id: row.id,
+      name: row.name,
+      scopes: parseScopes(row.scopes),
+    },
+  };
+}
+
+// Revoke all of a user's tokens; returns how many were revoked
+export async function revokeUserApiTokens(db: D1Database, linuxdoId: number): Promise<number> {
+  const result = await db.prepare(
+    'UPDATE api_tokens SET revoked_at = datetime(\'now\') WHERE linuxdo_id = ? AND revoked_at IS NULL'
+  ).bind(linuxdoId).run();
+
+  return result.meta.changes;
+}
@@ -1,14 +1,19 @@
 // Auth middleware for Pages Functions
 
-import type { Env, JWTPayload, User } from './types';
+import type { Env, JWTPayload, User, ApiTokenScope, AdminRole, AdminPermission } from './types';
 import { verifyJWT, parseCookies } from './jwt';
+import { getBearerToken, verifyApiToken, ApiTokenAuth } from './api-tokens';
+import { verifySession } from './sessions';
+import { hasPermission } from './admin-roles';
 
 export interface AuthContext {
   user: JWTPayload;
+  token?: ApiTokenAuth;  // set when authenticated with a personal API token
 }
 
 export interface AdminAuthContext extends AuthContext {
   dbUser: User;
+  role: AdminRole;
 }
 
 const COOKIE_NAME = 'session';
@@ -17,11 +22,20 @@ export function getCookieName(env: Env): string {
   return env.SESSION_COOKIE_NAME || COOKIE_NAME;
 }
 
-// Extract and verify JWT from cookie
+// Extract and verify JWT from cookie, or a personal API token from the Authorization header
 export async function authenticateRequest(
   request: Request,
   env: Env
-): Promise<{ authenticated: true; user: JWTPayload } | { authenticated: false; error: string }> {
+): Promise<{ authenticated: true; user: JWTPayload; token?: ApiTokenAuth } | { authenticated: false; error: string }> {
+  const bearerToken = getBearerToken(request);
+  if (bearerToken) {
+    const tokenResult = await verifyApiToken(env.DB, bearerToken, request.headers.get('CF-Connecting-IP'));
+    if (!tokenResult.valid) {
+      return { authenticated: false, error: tokenResult.error };
+    }
+    return { authenticated: true, user: tokenResult.user, token: tokenResult.token };
+  }
+
   const cookieHeader = request.headers.get('Cookie');
   const cookies = parseCookies(cookieHeader);
   const cookieName = getCookieName(env);
@@ -36,6 +50,12 @@ export async function authenticateRequest(
     return { authenticated: false, error: result.error };
   }
 
+  // The signature alone is not enough: the session may have been revoked
+  const session = await verifySession(env.DB, result.payload, request.headers.get('CF-Connecting-IP'));
+  if (!session.valid) {
+    return { authenticated: false, error: session.error };
+  }
+
   return { authenticated: true, user: result.payload };
 }
 
@@ -78,6 +98,11 @@ export function setStateCookie(state: string): string {
   return `oauth_state=${state}; Path=/; HttpOnly; Secure; SameSite=Lax; Max-Age=600`; // 10 minutes
 }
 
+// Remember the "remember me" choice across the OAuth round trip
+export function setRememberMeCookie(): string {
+  return `remember_me=1; Path=/; HttpOnly; Secure; SameSite=Lax; Max-Age=600`;
+}
+
 // Set PKCE verifier cookie
 export function setPKCECookie(verifier: string): string {
   return `pkce_verifier=${verifier}; Path=/; HttpOnly; Secure; SameSite=Lax; Max-Age=600`;
@@ -88,18 +113,32 @@ export function clearOAuthCookies(): string[] {
   return [
     'oauth_state=; Path=/; HttpOnly; Secure; SameSite=Lax; Max-Age=0',
     'pkce_verifier=; Path=/; HttpOnly; Secure; SameSite=Lax; Max-Age=0',
+    'remember_me=; Path=/; HttpOnly; Secure; SameSite=Lax; Max-Age=0',
   ];
 }
 
 // Require authentication middleware wrapper
+// API tokens are only accepted on routes that declare the scope they need
 export async function requireAuth(
   request: Request,
-  env: Env
+  env: Env,
+  options: { scope?: ApiTokenScope } = {}
 ): Promise<Response | AuthContext> {
   const result = await authenticateRequest(request, env);
   if (!result.authenticated) {
     return errorResponse(result.error, 401);
   }
+
+  if (result.token) {
+    if (!options.scope) {
+      return errorResponse('API tokens are not accepted on this endpoint', 403);
+    }
+    if (!result.token.scopes.includes(options.scope)) {
+      return errorResponse(`API token is missing the required scope: ${options.scope}`, 403);
+    }
+    return { user: result.user, token: result.token };
+  }
+
   return { user: result.user };
 }
 
@@ -110,41 +149,59 @@ export function isAdminFromEnv(linuxdoId: number, env: Env): boolean {
   return ids.includes(linuxdoId);
 }
 
+// Env admins are always superadmins; everyone else has the role stored in the database, if any
+export function resolveAdminRole(linuxdoId: number, dbUser: Pick<User, 'admin_role'> | null, env: Env): AdminRole | null {
+  if (isAdminFromEnv(linuxdoId, env)) {
+    return 'superadmin';
+  }
+  return dbUser?.admin_role || null;
+}
+
 // Require admin authentication
+// Routes pass the permission they need; without one any admin role is enough
 export async function requireAdmin(
   request: Request,
-  env: Env
+  env: Env,
+  options: { permission?: AdminPermission } = {}
 ): Promise<Response | AdminAuthContext> {
   const result = await authenticateRequest(request, env);
   if (!result.authenticated) {
     return errorResponse(result.error, 401);
   }
 
+  // Admin routes require a browser session
+  if (result.token) {
+    return errorResponse('API tokens are not accepted on admin endpoints', 403);
+  }
+
   const linuxdoId = parseInt(result.user.sub, 10);
 
-  // Check database for admin status
+  // Check database for admin role
   const dbUser = await env.DB.prepare(
     'SELECT * FROM users WHERE linuxdo_id = ?'
   ).bind(linuxdoId).first<User>();
 
-  // Check if admin from env or database
-  const isEnvAdmin = isAdminFromEnv(linuxdoId, env);
-  const isDbAdmin = dbUser?.is_admin === 1;
-
-  if (!isEnvAdmin && !isDbAdmin) {
+  const role = resolveAdminRole(linuxdoId, dbUser, env);
+  if (!role) {
     return errorResponse('Admin access required', 403);
   }
 
-  // If user is env admin but not in DB as admin, update DB
-  if (isEnvAdmin && dbUser && !isDbAdmin) {
+  if (options.permission && !hasPermission(role, options.permission)) {
+    return errorResponse(`Your admin role (${role}) does not have the ${options.permission} permission`, 403);
+  }
+
+  // If user is env admin but not in DB as superadmin, update DB
+  if (dbUser && (dbUser.is_admin !== 1 || dbUser.admin_role !== role)) {
     await env.DB.prepare(
-      'UPDATE users SET is_admin = 1, updated_at = datetime(\'now\') WHERE linuxdo_id = ?'
-    ).bind(linuxdoId).run();
+      'UPDATE users SET is_admin = 1, admin_role = ?, updated_at = datetime(\'now\') WHERE linuxdo_id = ?'
+    ).bind(role, linuxdoId).run();
     dbUser.is_admin = 1;
+    dbUser.admin_role = role;
   }
 
   return {
     user: result.user,
+    role,
     dbUser: dbUser || {
       linuxdo_id: linuxdoId,
       username: result.user.username,
@@ -152,10 +209,37 @@ export async function requireAdmin(
       silenced: 0,
       active: 1,
       is_admin: 1,
+      admin_role: role,
       is_banned: 0,
       ban_reason: null,
+      profile_synced_at: null,
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
     }
   };
 }
+
+// Require the shared secret used by scheduled jobs (sent as X-Cron-Secret)
+export function requireCron(request: Request, env: Env): Response | null {
+  if (!env.CRON_SECRET) {
+    return errorResponse('Scheduled jobs are not configured', 403);
+  }
+
+  const encoder = new TextEncoder();
+  const secretBytes = encoder.encode(request.headers.get('X-Cron-Secret') || '');
+  const expectedBytes = encoder.encode(env.CRON_SECRET);
+
+  if (secretBytes.length !== expectedBytes.length) {
+    return errorResponse('Invalid cron secret', 403);
+  }
+
+  // Constant-time comparison
+  let match = true;
+  for (let i = 0; i < secretBytes.length; i++) {
+    if (secretBytes[i] !== expectedBytes[i]) {
+      match = false;
+    }
+  }
+
+  return match ? null : errorResponse('Invalid cron secret', 403);
+}
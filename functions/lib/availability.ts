@@ -0,0 +1,140 @@
+// Domain availability: the registration checks that do not depend on who is asking
+// Shared by /api/availability and the agent's check_domain_available tool
+
+import { validateLabel } from './validators';
+import { checkLabelAgainst, getBannedWords, getSetting } from './moderation';
+import type { ModerationCode } from './moderation';
+
+export type AvailabilityCode = 'available' | 'invalid' | ModerationCode | 'taken' | 'pending_review';
+
+export interface AvailabilityVerdict {
+  label: string;
+  fqdn: string;
+  available: boolean;
+  code: AvailabilityCode;
+  reason?: string;
+  requires_review?: boolean;
+  suggestions?: string[];
+}
+
+export const MAX_SUGGESTIONS = 5;
+
+// Candidates looked up per request (D1 allows at most 100 bound parameters per query)
+const MAX_CANDIDATES = 50;
+
+// Words tried around an unavailable label
+const SUGGESTION_SUFFIXES = ['py', 'dev', 'app', 'lab', 'hq', 'io', 'site'];
+const SUGGESTION_PREFIXES = ['my', 'get', 'the'];
+
+// Turn arbitrary input into something label-shaped, so an invalid label can still get suggestions
+function sanitizeLabel(input: string): string {
+  return input
+    .toLowerCase()
+    .replace(/[^a-z0-9-]+/g, '-')
+    .replace(/-{2,}/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 63)
+    .replace(/-+$/, '');
+}
+
+// Candidates in order of preference: suffixes, hyphenated splits, prefixes, numbers
+function suggestionCandidates(base: string): string[] {
+  const candidates: string[] = [];
+
+  for (const suffix of SUGGESTION_SUFFIXES) {
+    candidates.push(`${base}-${suffix}`, `${base}${suffix}`);
+  }
+
+  // Split a run-together label into two words, keeping both parts at least two characters
+  if (!base.includes('-')) {
+    for (let i = 2; i <= base.length - 2; i++) {
+      candidates.push(`${base.slice(0, i)}-${base.slice(i)}`);
+    }
+  }
+
+  for (const prefix of SUGGESTION_PREFIXES) {
+    candidates.push(`${prefix}${base}`, `${prefix}-${base}`);
+  }
+
+  for (let n = 1; n <= 9; n++) {
+    candidates.push(`${base}${n}`);
+  }
+
+  return [...new Set(candidates)].filter(c => c !== base);
+}
+
+// Labels already registered or waiting for review, out of the given ones
+async function findUnavailableLabels(db: D1Database, labels: string[]): Promise<{ taken: Set<string>; reviewing: Set<string> }> {
+  if (labels.length === 0) {
+    return { taken: new Set(), reviewing: new Set() };
+  }
+
+  const placeholders = labels.map(() => '?').join(', ');
+  const [domains, reviews] = await db.batch<{ label: string }>([
+    db.prepare(`SELECT label FROM domains WHERE label IN (${placeholders})`).bind(...labels),
+    db.prepare(`SELECT label FROM pending_reviews WHERE status = 'pending' AND label IN (${placeholders})`).bind(...labels),
+  ]);
+
+  return {
+    taken: new Set((domains.results || []).map(r => r.label)),
+    reviewing: new Set((reviews.results || []).map(r => r.label)),
+  };
+}
+
+export async function checkAvailability(db: D1Database, input: string, baseDomain: string): Promise<AvailabilityVerdict> {
+  const label = input.toLowerCase().trim();
+  const bannedWords = await getBannedWords(db);
+
+  const verdict = await judgeLabel(db, label, bannedWords);
+  const result: AvailabilityVerdict = { label, fqdn: `${label}.${baseDomain}`, ...verdict };
+
+  if (result.available) {
+    if ((await getSetting('require_review', db, 'false')) === 'true') {
+      result.requires_review = true;
+    }
+    return result;
+  }
+
+  const base = sanitizeLabel(label);
+  result.suggestions = base.length >= 2 ? await suggestLabels(db, base, bannedWords) : [];
+  return result;
+}
+
+async function judgeLabel(
+  db: D1Database,
+  label: string,
+  bannedWords: string[]
+): Promise<{ available: boolean; code: AvailabilityCode; reason?: string }> {
+  const validation = validateLabel(label);
+  if (!validation.valid) {
+    return { available: false, code: 'invalid', reason: validation.error };
+  }
+
+  const moderation = checkLabelAgainst(label, bannedWords);
+  if (!moderation.allowed) {
+    return { available: false, code: moderation.code || 'reserved', reason: moderation.reason };
+  }
+
+  const { taken, reviewing } = await findUnavailableLabels(db, [label]);
+  if (taken.has(label)) {
+    return { available: false, code: 'taken', reason: 'This domain label is already registered' };
+  }
+  if (reviewing.has(label)) {
+    return { available: false, code: 'pending_review', reason: 'This domain label is waiting for review' };
+  }
+
+  return { available: true, code: 'available' };
+}
+
+// Alternatives that pass every check a registration would run
+async function suggestLabels(db: D1Database, base: string, bannedWords: string[]): Promise<string[]> {
+  const candidates = suggestionCandidates(base).filter(candidate =>
+    validateLabel(candidate).valid && checkLabelAgainst(candidate, bannedWords).allowed
+  ).slice(0, MAX_CANDIDATES);
+
+  const { taken, reviewing } = await findUnavailableLabels(db, candidates);
+
+  return candidates
+    .filter(candidate => !taken.has(candidate) && !reviewing.has(candidate))
+    .slice(0, MAX_SUGGESTIONS);
+}
@@ -244,8 +244,11 @@ export const BlockchainActions = {
   USER_REGISTER: 'user_register',
   USER_BAN: 'user_ban',
   USER_UNBAN: 'user_unban',
-  ADMIN_GRANT: 'admin_grant',
-  ADMIN_REVOKE: 'admin_revoke',
+  ADMIN_GRANT: 'admin_grant',     // before admin roles
+  ADMIN_REVOKE: 'admin_revoke',   // before admin roles
+  ADMIN_ROLE_GRANT: 'admin_role_grant',
+  ADMIN_ROLE_CHANGE: 'admin_role_change',
+  ADMIN_ROLE_REVOKE: 'admin_role_revoke',
   // Domain actions
   DOMAIN_REGISTER: 'domain_register',
   DOMAIN_APPROVE: 'domain_approve',
@@ -253,6 +256,18 @@ export const BlockchainActions = {
   DOMAIN_SUSPEND: 'domain_suspend',
   DOMAIN_ACTIVATE: 'domain_activate',
   DOMAIN_DELETE: 'domain_delete',
+  DOMAIN_RENEW: 'domain_renew',
+  DOMAIN_EXPIRE: 'domain_expire',
+  DOMAIN_RELEASE: 'domain_release',
+  DOMAIN_TRANSFER: 'domain_transfer',
+  DOMAIN_MEMBER_ADD: 'domain_member_add',
+  DOMAIN_MEMBER_REMOVE: 'domain_member_remove',
+  DOMAIN_DELEGATE: 'domain_delegate',
+  DOMAIN_DELEGATION_REVOKE: 'domain_delegation_revoke',
+  // DNS actions
+  DNS_MEMBER_CHANGE: 'dns_member_change',
+  // Order actions
+  ORDER_REFUND: 'order_refund',
   // Appeal actions
   APPEAL_SUBMIT: 'appeal_submit',
   APPEAL_APPROVE: 'appeal_approve',
@@ -1,17 +1,23 @@
 // Cloudflare DNS API client
 
+import type { DnsRecordType } from './types';
+
 export interface CloudflareEnv {
   CLOUDFLARE_API_TOKEN: string;
   CLOUDFLARE_ZONE_ID: string;
 }
 
-interface CloudflareDNSRecord {
+export interface CloudflareDNSRecord {
   id: string;
   type: string;
   name: string;
   content: string;
   ttl: number;
   proxied: boolean;
+  priority?: number;
+  data?: Record<string, unknown>;
+  created_on?: string;
+  modified_on?: string;
 }
 
 interface CloudflareAPIResponse<T> {
@@ -34,8 +40,89 @@ interface CloudflareListResponse<T> {
   };
 }
 
+// Record fields for create/overwrite requests
+// content is in presentation format; SRV, CAA and DS are converted to Cloudflare's structured data
+export interface CloudflareRecordInput {
+  type: DnsRecordType;
+  name: string;
+  content: string;
+  ttl: number;
+  proxied: boolean;
+  priority?: number | null;
+}
+
+// Batch request: Cloudflare applies deletes, puts and posts in that order, all or nothing
+export interface CloudflareBatchInput {
+  deletes?: Array<{ id: string }>;
+  puts?: Array<CloudflareRecordInput & { id: string }>;
+  posts?: CloudflareRecordInput[];
+}
+
+export interface CloudflareBatchResult {
+  deletes: CloudflareDNSRecord[];
+  puts: CloudflareDNSRecord[];
+  posts: CloudflareDNSRecord[];
+}
+
 const CLOUDFLARE_API_BASE = 'https://api.cloudflare.com/client/v4';
 
+// Record types Cloudflare can proxy
+export const PROXIABLE_TYPES = ['A', 'AAAA', 'CNAME'];
+
+// Page size when listing the whole zone
+const ZONE_LIST_PAGE_SIZE = 1000;
+
+// Build the API payload for a record; proxied records use automatic TTL
+function toRecordBody(record: CloudflareRecordInput): Record<string, unknown> {
+  const shouldProxy = PROXIABLE_TYPES.includes(record.type) && record.proxied;
+  const body: Record<string, unknown> = {
+    type: record.type,
+    name: record.name,
+    ttl: shouldProxy ? 1 : record.ttl,
+    proxied: shouldProxy,
+  };
+
+  switch (record.type) {
+    case 'MX':
+      body.content = record.content;
+      body.priority = record.priority ?? 10;
+      break;
+    case 'SRV': {
+      const srv = parseSrvContent(record.content);
+      body.data = {
+        priority: record.priority ?? 0,
+        weight: srv?.weight ?? 0,
+        port: srv?.port ?? 0,
+        target: srv?.target ?? '',
+      };
+      break;
+    }
+    case 'CAA': {
+      const caa = parseCaaContent(record.content);
+      body.data = {
+        flags: caa?.flags ?? 0,
+        tag: caa?.tag ?? '',
+        value: caa?.value ?? '',
+      };
+      break;
+    }
+    case 'DS': {
+      const ds = parseDsContent(record.content);
+      body.data = {
+        key_tag: ds?.keyTag ?? 0,
+        algorithm: ds?.algorithm ?? 0,
+        digest_type: ds?.digestType ?? 0,
+        digest: ds?.digest ?? '',
+      };
+      break;
+    }
+    default:
+      body.content = record.content;
+  }
+
+  return body;
+}
+
 export class CloudflareDNSClient {
   private token: string;
   private zoneId: string;
@@ -90,6 +177,32 @@ export class CloudflareDNSClient {
     return { success: true, records: result.data || [] };
   }
 
+  // List every record in the zone, following pagination
+  async listZoneRecords(): Promise<{ success: true; records: CloudflareDNSRecord[] } | { success: false; error: string }> {
+    const records: CloudflareDNSRecord[] = [];
+
+    for (let page = 1; ; page++) {
+      try {
+        const response = await fetch(
+          `${CLOUDFLARE_API_BASE}/zones/${this.zoneId}/dns_records?per_page=${ZONE_LIST_PAGE_SIZE}&page=${page}`,
+          { headers: { 'Authorization': `Bearer ${this.token}` } }
+        );
+        const data = await response.json() as CloudflareListResponse<CloudflareDNSRecord>;
+
+        if (!data.success) {
+          return { success: false, error: data.errors.map(e => e.message).join(', ') || 'Unknown error' };
+        }
+
+        records.push(...(data.result || []));
+        if (!data.result_info || page >= data.result_info.total_pages) {
+          return { success: true, records };
+        }
+      } catch (e) {
+        return { success: false, error: `Request failed: ${e}` };
+      }
+    }
+  }
+
   // Get NS records for a subdomain
   async getNSRecords(subdomain: string): Promise<{ success: true; records: CloudflareDNSRecord[] } | { success: false; error: string }> {
     const result = await this.request<CloudflareDNSRecord[]>(
@@ -104,27 +217,19 @@ export class CloudflareDNSClient {
     return { success: true, records: result.data || [] };
   }
 
-  // Create a DNS record (A, AAAA, CNAME, or TXT)
+  // Create a DNS record (priority is used by MX and SRV)
   async createDNSRecord(
-    type: 'A' | 'AAAA' | 'CNAME' | 'TXT',
+    type: DnsRecordType,
     name: string,
     content: string,
     ttl: number = 3600,
-    proxied: boolean = false
+    proxied: boolean = false,
+    priority: number | null = null
   ): Promise<{ success: true; record: CloudflareDNSRecord } | { success: false; error: string }> {
-    // TXT records cannot be proxied
-    const shouldProxy = type !== 'TXT' && proxied;
-
     const result = await this.request<CloudflareDNSRecord>(
       'POST',
       `/zones/${this.zoneId}/dns_records`,
-      {
-        type,
-        name,
-        content,
-        ttl: shouldProxy ? 1 : ttl, // Proxied records use automatic TTL
-        proxied: shouldProxy,
-      }
+      toRecordBody({ type, name, content, ttl, proxied, priority })
     );
 
     if (!result.success) {
@@ -137,25 +242,17 @@ export class CloudflareDNSClient {
   // Update a DNS record
   async updateDNSRecord(
     recordId: string,
-    type: 'A' | 'AAAA' | 'CNAME' | 'NS',
+    type: DnsRecordType,
     name: string,
     content: string,
     ttl: number = 3600,
-    proxied: boolean = false
+    proxied: boolean = false,
+    priority: number | null = null
   ): Promise<{ success: true; record: CloudflareDNSRecord } | { success: false; error: string }> {
-    // NS records cannot be proxied
-    const shouldProxy = type !== 'NS' && proxied;
-
     const result = await this.request<CloudflareDNSRecord>(
       'PUT',
       `/zones/${this.zoneId}/dns_records/${recordId}`,
-      {
-        type,
-        name,
-        content,
-        ttl: shouldProxy ? 1 : ttl, // Proxied records use automatic TTL
-        proxied: shouldProxy,
-      }
+      toRecordBody({ type, name, content, ttl, proxied, priority })
     );
 
     if (!result.success) {
@@ -179,55 +276,15 @@ export class CloudflareDNSClient {
     return { success: true };
   }
 
-  // Delete all DNS records for a subdomain
-  async deleteAllRecords(subdomain: string): Promise<{ success: true; deleted: number } | { success: false; error: string }> {
-    // First get all records
-    const getResult = await this.getAllRecords(subdomain);
-    if (!getResult.success) {
-      return getResult;
-    }
-
-    // Delete each record
-    let deleted = 0;
-    for (const record of getResult.records) {
-      const deleteResult = await this.deleteDNSRecord(record.id);
-      if (deleteResult.success) {
-        deleted++;
-      }
-    }
-
-    return { success: true, deleted };
-  }
-
-  // Check if subdomain has any records (to prevent conflicts)
-  async subdomainExists(subdomain: string): Promise<{ success: true; exists: boolean } | { success: false; error: string }> {
-    const result = await this.request<CloudflareDNSRecord[]>(
-      'GET',
-      `/zones/${this.zoneId}/dns_records?name=${encodeURIComponent(subdomain)}`
-    );
-
-    if (!result.success) {
-      return result;
-    }
-
-    return { success: true, exists: (result.data || []).length > 0 };
-  }
-
-  // Create NS record (legacy method - calls Cloudflare API directly)
-  async createNSRecord(
-    subdomain: string,
-    nameserver: string,
-    ttl: number = 3600
-  ): Promise<{ success: true; record: CloudflareDNSRecord } | { success: false; error: string }> {
-    const result = await this.request<CloudflareDNSRecord>(
+  // Apply several changes atomically via the batch endpoint
+  async batchDNSRecords(batch: CloudflareBatchInput): Promise<{ success: true; result: CloudflareBatchResult } | { success: false; error: string }> {
+    const result = await this.request<Partial<CloudflareBatchResult>>(
       'POST',
-      `/zones/${this.zoneId}/dns_records`,
+      `/zones/${this.zoneId}/dns_records/batch`,
       {
-        type: 'NS',
-        name: subdomain,
-        content: nameserver,
-        ttl,
-        proxied: false,
+        deletes: batch.deletes || [],
+        puts: (batch.puts || []).map(record => ({ id: record.id, ...toRecordBody(record) })),
+        posts: (batch.posts || []).map(toRecordBody),
       }
     );
 
@@ -235,61 +292,52 @@ export class CloudflareDNSClient {
       return result;
     }
 
-    return { success: true, record: result.data };
-  }
-
-  // Delete NS record by ID (legacy method)
-  async deleteNSRecord(recordId: string): Promise<{ success: true } | { success: false; error: string }> {
-    return this.deleteDNSRecord(recordId);
+    return {
+      success: true,
+      result: {
+        deletes: result.data?.deletes || [],
+        puts: result.data?.puts || [],
+        posts: result.data?.posts || [],
+      },
+    };
   }
 
-  // Delete all NS records for a subdomain (legacy method)
-  async deleteAllNSRecords(subdomain: string): Promise<{ success: true; deleted: number } | { success: false; error: string }> {
-    // First get all NS records
-    const getResult = await this.getNSRecords(subdomain);
+  // Delete all DNS records for a subdomain (failed deletes are counted, not fatal)
+  async deleteAllRecords(subdomain: string): Promise<{ success: true; deleted: number; failed: number } | { success: false; error: string }> {
+    // First get all records
+    const getResult = await this.getAllRecords(subdomain);
     if (!getResult.success) {
       return getResult;
     }
 
     // Delete each record
     let deleted = 0;
+    let failed = 0;
     for (const record of getResult.records) {
       const deleteResult = await this.deleteDNSRecord(record.id);
       if (deleteResult.success) {
         deleted++;
+      } else {
+        failed++;
+        console.error(`Failed to delete CF record ${record.id} (${record.name}):`, deleteResult.error);
       }
     }
 
-    return { success: true, deleted };
+    return { success: true, deleted, failed };
   }
 
-  // Update NS records for a subdomain (replace all)
-  async updateNSRecords(
-    subdomain: string,
-    nameservers: string[],
-    ttl: number = 3600
-  ): Promise<{ success: true; records: CloudflareDNSRecord[] } | { success: false; error: string }> {
-    // Delete existing NS records
-    const deleteResult = await this.deleteAllNSRecords(subdomain);
-    if (!deleteResult.success) {
-      return deleteResult;
-    }
+  // Check if subdomain has any records (to prevent conflicts)
+  async subdomainExists(subdomain: string): Promise<{ success: true; exists: boolean } | { success: false; error: string }> {
+    const result = await this.request<CloudflareDNSRecord[]>(
+      'GET',
+      `/zones/${this.zoneId}/dns_records?name=${encodeURIComponent(subdomain)}`
+    );
 
-    // Create new NS records
-    const records: CloudflareDNSRecord[] = [];
-    for (const ns of nameservers) {
-      const createResult = await this.createNSRecord(subdomain, ns, ttl);
-      if (!createResult.success) {
-        // Rollback: delete created records
-        for (const record of records) {
-          await this.deleteNSRecord(record.id);
-        }
-        return createResult;
-      }
-      records.push(createResult.record);
+    if (!result.success) {
+      return result;
     }
 
-    return { success: true, records };
+    return { success: true, exists: (result.data || []).length > 0 };
   }
 }
 
@@ -311,8 +359,67 @@ export function validateNameserver(ns: string): { valid: boolean; error?: string
   return { valid: true };
 }
 
+// SRV content: "<weight> <port> <target>"
+export function parseSrvContent(content: string): { weight: number; port: number; target: string } | null {
+  const match = content.trim().match(/^(\d+)\s+(\d+)\s+(\S+)$/);
+  if (!match) {
+    return null;
+  }
+  return { weight: parseInt(match[1], 10), port: parseInt(match[2], 10), target: match[3] };
+}
+
+export function formatSrvContent(weight: number, port: number, target: string): string {
+  return `${weight} ${port} ${target.replace(/\.$/, '')}`;
+}
+
+// CAA content: '<flags> <tag> "<value>"'
+export function parseCaaContent(content: string): { flags: number; tag: string; value: string } | null {
+  const match = content.trim().match(/^(\d+)\s+([a-zA-Z0-9]+)\s+"(.*)"$/);
+  if (!match) {
+    return null;
+  }
+  return { flags: parseInt(match[1], 10), tag: match[2].toLowerCase(), value: match[3] };
+}
+
+export function formatCaaContent(flags: number, tag: string, value: string): string {
+  return `${flags} ${tag.toLowerCase()} "${value}"`;
+}
+
+// DNSSEC algorithms accepted for DS records (RFC 8624): RSA/SHA-1 variants, RSA/SHA-2, ECDSA and EdDSA
+export const DS_ALGORITHMS = [5, 7, 8, 10, 13, 14, 15, 16];
+
+// Digest length in hex characters per digest type: SHA-1, SHA-256, SHA-384 (GOST is deprecated)
+export const DS_DIGEST_LENGTHS: Record<number, number> = { 1: 40, 2: 64, 4: 96 };
+
+// DS content: "<key_tag> <algorithm> <digest_type> <digest>"
+export function parseDsContent(content: string): { keyTag: number; algorithm: number; digestType: number; digest: string } | null {
+  const match = content.trim().match(/^(\d+)\s+(\d+)\s+(\d+)\s+([0-9a-fA-F\s]+)$/);
+  if (!match) {
+    return null;
+  }
+  return {
+    keyTag: parseInt(match[1], 10),
+    algorithm: parseInt(match[2], 10),
+    digestType: parseInt(match[3], 10),
+    digest: match[4].replace(/\s+/g, '').toUpperCase(),
+  };
+}
+
+export function formatDsContent(keyTag: number, algorithm: number, digestType: number, digest: string): string {
+  return `${keyTag} ${algorithm} ${digestType} ${digest.replace(/\s+/g, '').toUpperCase()}`;
+}
+
+function isValidHostname(value: string): boolean {
+  const normalized = value.endsWith('.') ? value.slice(0, -1) : value;
+  return normalized.length <= 253 && /^([a-zA-Z0-9_]([a-zA-Z0-9_-]*[a-zA-Z0-9])?\.)+[a-zA-Z]{2,}$/.test(normalized);
+}
+
+function isUint16(value: number): boolean {
+  return Number.isInteger(value) && value >= 0 && value <= 65535;
+}
+
 // Validate DNS record content based on type
-export function validateDNSRecordContent(type: 'A' | 'AAAA' | 'CNAME' | 'TXT', content: string): { valid: boolean; error?: string } {
+export function validateDNSRecordContent(type: DnsRecordType, content: string): { valid: boolean; error?: string } {
   switch (type) {
     case 'A': {
       // IPv4 validation
@@ -359,6 +466,70 @@ export function validateDNSRecordContent(type: 'A' | 'AAAA' | 'CNAME' | 'TXT', c
       }
       return { valid: true };
     }
+    case 'MX': {
+      // Mail server hostname
+      if (!isValidHostname(content)) {
+        return { valid: false, error: 'Invalid MX target. Must be a valid hostname (e.g., mail.example.com)' };
+      }
+      return { valid: true };
+    }
+    case 'SRV': {
+      const srv = parseSrvContent(content);
+      if (!srv) {
+        return { valid: false, error: 'Invalid SRV content. Expected "<weight> <port> <target>"' };
+      }
+      if (!isUint16(srv.weight) || !isUint16(srv.port)) {
+        return { valid: false, error: 'SRV weight and port must be between 0 and 65535' };
+      }
+      if (!isValidHostname(srv.target)) {
+        return { valid: false, error: 'Invalid SRV target. Must be a valid hostname' };
+      }
+      return { valid: true };
+    }
+    case 'CAA': {
+      const caa = parseCaaContent(content);
+      if (!caa) {
+        return { valid: false, error: 'Invalid CAA content. Expected \'<flags> <tag> "<value>"\'' };
+      }
+      if (caa.flags !== 0 && caa.flags !== 128) {
+        return { valid: false, error: 'CAA flags must be 0 or 128' };
+      }
+      if (!['issue', 'issuewild', 'iodef'].includes(caa.tag)) {
+        return { valid: false, error: 'CAA tag must be issue, issuewild or iodef' };
+      }
+      if (caa.value.length > 255 || caa.value.includes('"')) {
+        return { valid: false, error: 'Invalid CAA value' };
+      }
+      if (caa.tag === 'iodef') {
+        if (!/^(mailto:\S+@\S+|https?:\/\/\S+)$/.test(caa.value)) {
+          return { valid: false, error: 'CAA iodef value must be a mailto: or https: URL' };
+        }
+      } else if (caa.value !== ';' && !/^[a-z0-9.-]+\.[a-z]{2,}(\s*;.*)?$/i.test(caa.value)) {
+        // Issuer domain, optionally followed by parameters; ";" forbids issuance
+        return { valid: false, error: 'CAA issue value must be an issuer domain (e.g., letsencrypt.org) or ";"' };
+      }
+      return { valid: true };
+    }
+    case 'DS': {
+      const ds = parseDsContent(content);
+      if (!ds) {
+        return { valid: false, error: 'Invalid DS content. Expected "<key_tag> <algorithm> <digest_type> <digest>"' };
+      }
+      if (!isUint16(ds.keyTag)) {
+        return { valid: false, error: 'DS key tag must be between 0 and 65535' };
+      }
+      if (!DS_ALGORITHMS.includes(ds.algorithm)) {
+        return { valid: false, error: `Unsupported DS algorithm ${ds.algorithm}. Must be one of ${DS_ALGORITHMS.join(', ')}` };
+      }
+      const digestLength = DS_DIGEST_LENGTHS[ds.digestType];
+      if (!digestLength) {
+        return { valid: false, error: `Unsupported DS digest type ${ds.digestType}. Must be 1 (SHA-1), 2 (SHA-256) or 4 (SHA-384)` };
+      }
+      if (ds.digest.length !== digestLength) {
+        return { valid: false, error: `DS digest for digest type ${ds.digestType} must be ${digestLength} hex characters` };
+      }
+      return { valid: true };
+    }
     default:
       return { valid: false, error: 'Unknown record type' };
   }
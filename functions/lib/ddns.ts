@@ -0,0 +1,131 @@
+// Dynamic DNS (dyndns2) update keys and record updates
+
+import type { Env, Domain, DnsRecord, User } from './types';
+import { CloudflareDNSClient, validateDNSRecordContent } from './cloudflare-dns';
+
+export const DDNS_KEY_PREFIX = 'ddns_';
+
+// dyndns2 return codes we use
+export type DdnsResult =
+  | { code: 'good' | 'nochg'; ip: string }
+  | { code: 'badauth' | 'notfqdn' | 'nohost' | 'abuse' | 'dnserr' | '911' };
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Generate a new random update key
+export function generateDdnsKey(): string {
+  return DDNS_KEY_PREFIX + toHex(crypto.getRandomValues(new Uint8Array(20)).buffer);
+}
+
+// Update keys are stored as SHA-256 hashes
+export async function hashDdnsKey(key: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key)));
+}
+
+// Read the update key from HTTP Basic auth (the username is ignored)
+export function getDdnsKey(request: Request): string | null {
+  const header = request.headers.get('Authorization');
+  const match = header?.match(/^Basic\s+(\S+)$/i);
+  if (!match) {
+    return null;
+  }
+  try {
+    const decoded = atob(match[1]);
+    const password = decoded.substring(decoded.indexOf(':') + 1);
+    return password.startsWith(DDNS_KEY_PREFIX) ? password : null;
+  } catch {
+    return null;
+  }
+}
+
+// Public view of a record (the key hash is replaced by a flag)
+export function toDnsRecordResponse(record: DnsRecord): Omit<DnsRecord, 'ddns_key_hash'> & { ddns_enabled: boolean } {
+  const { ddns_key_hash, ...rest } = record;
+  return { ...rest, ddns_enabled: !!ddns_key_hash };
+}
+
+export function formatDdnsResult(result: DdnsResult): string {
+  return 'ip' in result ? `${result.code} ${result.ip}` : result.code;
+}
+
+// Apply one dyndns2 update for the record owning the key
+export async function applyDdnsUpdate(
+  env: Env,
+  key: string,
+  hostname: string,
+  ip: string
+): Promise<{ result: DdnsResult; record?: DnsRecord; domain?: Domain; previous?: string }> {
+  const keyHash = await hashDdnsKey(key);
+  const record = await env.DB.prepare(
+    'SELECT * FROM dns_records WHERE ddns_key_hash = ?'
+  ).bind(keyHash).first<DnsRecord>();
+
+  if (!record) {
+    return { result: { code: 'badauth' } };
+  }
+
+  const domain = await env.DB.prepare(
+    'SELECT * FROM domains WHERE id = ?'
+  ).bind(record.domain_id).first<Domain>();
+
+  if (!domain) {
+    return { result: { code: 'badauth' } };
+  }
+
+  const owner = await env.DB.prepare(
+    'SELECT * FROM users WHERE linuxdo_id = ?'
+  ).bind(domain.owner_linuxdo_id).first<User>();
+
+  if (owner?.is_banned) {
+    return { result: { code: 'abuse' }, record, domain };
+  }
+
+  // The key only authorizes its own record
+  const recordFqdn = record.name === '@' ? domain.fqdn : `${record.name}.${domain.fqdn}`;
+  if (hostname.toLowerCase().replace(/\.$/, '') !== recordFqdn) {
+    return { result: { code: 'nohost' }, record, domain };
+  }
+
+  if (domain.status !== 'active') {
+    return { result: { code: 'nohost' }, record, domain };
+  }
+
+  if (record.type !== 'A' && record.type !== 'AAAA') {
+    return { result: { code: 'nohost' }, record, domain };
+  }
+
+  // The address family must match the record type
+  if (!validateDNSRecordContent(record.type, ip).valid) {
+    return { result: { code: 'dnserr' }, record, domain };
+  }
+
+  // Unchanged address: nothing to do
+  if (record.content === ip) {
+    return { result: { code: 'nochg', ip }, record, domain };
+  }
+
+  if (record.cloudflare_record_id) {
+    const cfClient = new CloudflareDNSClient(env.CLOUDFLARE_API_TOKEN, env.CLOUDFLARE_ZONE_ID);
+    const cfResult = await cfClient.updateDNSRecord(
+      record.cloudflare_record_id,
+      record.type,
+      recordFqdn,
+      ip,
+      record.ttl,
+      record.proxied === 1
+    );
+
+    if (!cfResult.success) {
+      console.error('[DDNS] Cloudflare update failed:', recordFqdn, cfResult.error);
+      return { result: { code: 'dnserr' }, record, domain };
+    }
+  }
+
+  await env.DB.prepare(
+    'UPDATE dns_records SET content = ?, updated_at = datetime(\'now\') WHERE id = ?'
+  ).bind(ip, record.id).run();
+
+  return { result: { code: 'good', ip }, record, domain, previous: record.content };
+}
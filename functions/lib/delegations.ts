@@ -0,0 +1,47 @@
+// Sub-delegations: the owner of foo.py.kg hands alice.foo.py.kg to another user
+// The delegate manages records at the delegated name and below it; the owner keeps full control and can revoke
+
+import type { DnsRecord } from './types';
+import type { DomainRole } from './domains';
+
+// Delegated names per domain
+export const MAX_DOMAIN_DELEGATIONS = 10;
+
+// A delegation is a single third-level label
+export function validateDelegationName(name: unknown): { valid: true; name: string } | { valid: false; error: string } {
+  if (typeof name !== 'string' || !name.trim()) {
+    return { valid: false, error: 'Missing or invalid name' };
+  }
+
+  const normalized = name.trim().toLowerCase();
+  if (normalized.length > 63 || !/^[a-z0-9]([a-z0-9-]*[a-z0-9])?$/.test(normalized)) {
+    return { valid: false, error: 'name must be a single label (lowercase letters, numbers, hyphens)' };
+  }
+
+  return { valid: true, name: normalized };
+}
+
+// Whether a record name ('@', 'alice', '_svc._tcp.alice', ...) lies in the delegated subtree
+export function isWithinSubtree(recordName: string, subtree: string): boolean {
+  return recordName === subtree || recordName.endsWith(`.${subtree}`);
+}
+
+// Whether the caller may manage records with this name; only delegates are limited
+export function canManageName(access: { role: DomainRole; subtrees?: string[] }, recordName: string): boolean {
+  if (access.role !== 'delegate') {
+    return true;
+  }
+  return (access.subtrees || []).some(subtree => isWithinSubtree(recordName, subtree));
+}
+
+// The records a caller sees in dns-records listings
+export function filterManagedRecords<T extends Pick<DnsRecord, 'name'>>(
+  access: { role: DomainRole; subtrees?: string[] },
+  records: T[]
+): T[] {
+  return records.filter(record => canManageName(access, record.name));
+}
+
+export function subtreeError(subtrees: string[] | undefined): string {
+  return `Record name must be within your delegated name: ${(subtrees || []).join(', ')}`;
+}
@@ -0,0 +1,160 @@
+// Atomic DNS changesets (batch API and zone import)
+
+import type { Domain, DnsRecord, DnsRecordType } from './types';
+import type { CloudflareBatchInput } from './cloudflare-dns';
+import { CloudflareDNSClient } from './cloudflare-dns';
+
+export interface DnsRecordValues {
+  type: DnsRecordType;
+  name: string;
+  content: string;
+  ttl: number;
+  proxied: boolean;
+  priority: number | null;
+}
+
+export interface DnsChangeset {
+  create: DnsRecordValues[];
+  update: Array<{ record: DnsRecord; to: DnsRecordValues }>;
+  delete: DnsRecord[];
+}
+
+export interface ChangesetOptions {
+  // Runs once Cloudflare serves the change and before the database is written; an error message
+  // undoes the Cloudflare batch, so a change that does not work out never reaches the database
+  verify?: () => Promise<string | null>;
+}
+
+export type ChangesetResult =
+  | { success: true; createdIds: number[] }
+  | { success: false; error: string; rolledBack: boolean; verificationFailed?: boolean };
+
+function fullName(name: string, domain: Domain): string {
+  return name === '@' ? domain.fqdn : `${name}.${domain.fqdn}`;
+}
+
+function toValues(record: DnsRecord): DnsRecordValues {
+  return {
+    type: record.type,
+    name: record.name,
+    content: record.content,
+    ttl: record.ttl,
+    proxied: record.proxied === 1,
+    priority: record.priority,
+  };
+}
+
+// Apply a changeset to Cloudflare and the database as one unit
+// Cloudflare applies the batch all-or-nothing; if the database write then fails,
+// a compensating batch restores the previous Cloudflare state
+export async function applyDnsChangeset(
+  db: D1Database,
+  cfClient: CloudflareDNSClient,
+  domain: Domain,
+  changeset: DnsChangeset,
+  options: ChangesetOptions = {}
+): Promise<ChangesetResult> {
+  // Unsynced rows (no Cloudflare record) only change in the database
+  const deletes = changeset.delete.filter(r => r.cloudflare_record_id);
+  const updates = changeset.update.filter(u => u.record.cloudflare_record_id);
+
+  const batch: CloudflareBatchInput = {
+    deletes: deletes.map(r => ({ id: r.cloudflare_record_id! })),
+    puts: updates.map(({ record, to }) => ({
+      id: record.cloudflare_record_id!,
+      ...to,
+      name: fullName(to.name, domain),
+    })),
+    posts: changeset.create.map(record => ({ ...record, name: fullName(record.name, domain) })),
+  };
+
+  const cfResult = await cfClient.batchDNSRecords(batch);
+  if (!cfResult.success) {
+    console.error('[DNS Changeset] Cloudflare batch failed for', domain.fqdn, cfResult.error);
+    return { success: false, error: cfResult.error, rolledBack: true };
+  }
+
+  const createdCloudflareIds = cfResult.result.posts.map(r => r.id);
+
+  if (options.verify) {
+    const error = await options.verify();
+    if (error) {
+      console.error('[DNS Changeset] Verification failed for', domain.fqdn, error);
+      const rolledBack = await compensate(db, cfClient, domain, deletes, updates, createdCloudflareIds);
+      return { success: false, error, rolledBack, verificationFailed: true };
+    }
+  }
+
+  const statements: D1PreparedStatement[] = [
+    ...changeset.delete.map(record =>
+      db.prepare('DELETE FROM dns_records WHERE id = ?').bind(record.id)
+    ),
+    ...changeset.update.map(({ record, to }) =>
+      db.prepare(`
+        UPDATE dns_records SET type = ?, name = ?, content = ?, priority = ?, ttl = ?, proxied = ?, updated_at = datetime('now') WHERE id = ?
+      `).bind(to.type, to.name, to.content, to.priority, to.ttl, to.proxied ? 1 : 0, record.id)
+    ),
+    ...changeset.create.map((record, i) =>
+      db.prepare(`
+        INSERT INTO dns_records (domain_id, type, name, content, priority, ttl, proxied, cloudflare_record_id, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, datetime('now'), datetime('now'))
+      `).bind(domain.id, record.type, record.name, record.content, record.priority, record.ttl, record.proxied ? 1 : 0, createdCloudflareIds[i] || null)
+    ),
+    // Same dns_mode bookkeeping as the single-record endpoints; NS records mean the domain is delegated
+    db.prepare(`
+      UPDATE domains SET dns_mode = CASE
+        WHEN EXISTS (SELECT 1 FROM dns_records WHERE domain_id = ? AND type = 'NS') THEN 'ns'
+        WHEN EXISTS (SELECT 1 FROM dns_records WHERE domain_id = ?) THEN 'direct'
+        ELSE NULL END
+      WHERE id = ?
+    `).bind(domain.id, domain.id, domain.id),
+  ];
+
+  try {
+    const results = await db.batch(statements);
+    const firstInsert = changeset.delete.length + changeset.update.length;
+    const createdIds = changeset.create.map((_, i) => results[firstInsert + i].meta.last_row_id as number);
+    return { success: true, createdIds };
+  } catch (e) {
+    const error = `Database error: ${e instanceof Error ? e.message : String(e)}`;
+    console.error('[DNS Changeset] Database write failed for', domain.fqdn, e);
+    return { success: false, error, rolledBack: await compensate(db, cfClient, domain, deletes, updates, createdCloudflareIds) };
+  }
+}
+
+// Undo an applied Cloudflare batch after verification or the database write failed
+async function compensate(
+  db: D1Database,
+  cfClient: CloudflareDNSClient,
+  domain: Domain,
+  deleted: DnsRecord[],
+  updated: DnsChangeset['update'],
+  createdCloudflareIds: string[]
+): Promise<boolean> {
+  const undo = await cfClient.batchDNSRecords({
+    deletes: createdCloudflareIds.map(id => ({ id })),
+    puts: updated.map(({ record }) => ({
+      id: record.cloudflare_record_id!,
+      ...toValues(record),
+      name: fullName(record.name, domain),
+    })),
+    posts: deleted.map(record => ({ ...toValues(record), name: fullName(record.name, domain) })),
+  });
+
+  if (!undo.success) {
+    console.error('[DNS Changeset] Rollback failed for', domain.fqdn, undo.error);
+    return false;
+  }
+
+  // Re-created records have new Cloudflare ids; the rows themselves were never deleted
+  for (let i = 0; i < deleted.length; i++) {
+    const restored = undo.result.posts[i];
+    if (restored) {
+      await db.prepare(
+        'UPDATE dns_records SET cloudflare_record_id = ? WHERE id = ?'
+      ).bind(restored.id, deleted[i].id).run();
+    }
+  }
+
+  return true;
+}
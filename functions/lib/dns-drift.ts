@@ -0,0 +1,435 @@
+// Cloudflare drift detection: compare the zone with D1 and repair the differences
+
+import type { Env, DnsRecord, DnsDriftRun } from './types';
+import type { CloudflareDNSRecord } from './cloudflare-dns';
+import { CloudflareDNSClient, PROXIABLE_TYPES } from './cloudflare-dns';
+import { isReservedWord } from './reserved-words';
+
+// Domain statuses whose records are expected to be live in Cloudflare
+// (review domains with records were flagged by the LinuxDO sync and stay published until an admin decides)
+const PUBLISHED_STATUSES = ['active', 'grace', 'review'];
+// Record types managed through dns_records
+const MANAGED_TYPES = ['A', 'AAAA', 'CNAME', 'TXT', 'MX', 'SRV', 'CAA', 'NS', 'DS'];
+// Cloudflare write calls per run, to stay within the Workers subrequest limit
+const MAX_REPAIRS_PER_RUN = 40;
+// Records are created in Cloudflare before their D1 row is written, so a new record looks
+// orphaned for a moment; younger records are left for the next run
+const ORPHAN_MIN_AGE_MS = 10 * 60 * 1000;
+
+export type DriftKind = 'orphaned' | 'missing' | 'mismatched';
+
+interface DriftValues {
+  content: string;
+  ttl: number;
+  proxied: boolean;
+  priority: number | null;
+}
+
+export interface DriftItem {
+  key: string;                    // 'cf:<cloudflare id>' for orphans, 'record:<dns_records id>' otherwise
+  kind: DriftKind;
+  type: string;
+  name: string;                   // full record name
+  domain: string | null;          // owning domain, null when no domain is registered under the name
+  record_id?: number;
+  cloudflare_record_id?: string;
+  expected?: DriftValues;         // D1
+  actual?: DriftValues;           // Cloudflare
+  detail: string;
+  manual?: boolean;               // only repaired when an admin selects the item, never by repair: true
+  repaired?: boolean;
+  error?: string;
+}
+
+export interface DriftReport {
+  id: number;
+  triggered_by: string;
+  zone_records: number;
+  checked: number;
+  orphaned: number;
+  missing: number;
+  mismatched: number;
+  repaired: number;
+  errors: number;
+  items: DriftItem[];
+}
+
+type RecordWithDomain = DnsRecord & { domain_fqdn: string; domain_status: string };
+
+interface DriftCheck {
+  items: DriftItem[];
+  zoneRecords: number;
+  checked: number;
+  records: Map<number, RecordWithDomain>;
+}
+
+function fullName(record: RecordWithDomain): string {
+  return (record.name === '@' ? record.domain_fqdn : `${record.name}.${record.domain_fqdn}`).toLowerCase();
+}
+
+// Presentation differences that are not drift (trailing dots, case, TXT quoting)
+function normalizeContent(type: string, content: string): string {
+  const value = content.trim();
+  if (type === 'TXT') {
+    return value.replace(/^"(.*)"$/s, '$1');
+  }
+  if (type === 'CNAME' || type === 'MX' || type === 'SRV' || type === 'AAAA' || type === 'NS') {
+    return value.toLowerCase().replace(/\.$/, '');
+  }
+  if (type === 'DS') {
+    return value.toUpperCase().replace(/\s+/g, ' ');
+  }
+  return value;
+}
+
+function expectedValues(record: RecordWithDomain): DriftValues {
+  return { content: record.content, ttl: record.ttl, proxied: record.proxied === 1, priority: record.priority };
+}
+
+function actualValues(cf: CloudflareDNSRecord): DriftValues {
+  return { content: cf.content, ttl: cf.ttl, proxied: cf.proxied, priority: cf.priority ?? null };
+}
+
+// Describe how a Cloudflare record differs from its row, or null when they match
+function describeMismatch(record: RecordWithDomain, cf: CloudflareDNSRecord): string | null {
+  const differences: string[] = [];
+  const proxied = PROXIABLE_TYPES.includes(record.type) && record.proxied === 1;
+
+  if (cf.type !== record.type) {
+    differences.push('type');
+  }
+  if (cf.name.toLowerCase() !== fullName(record)) {
+    differences.push('name');
+  }
+  if (normalizeContent(record.type, cf.content) !== normalizeContent(record.type, record.content)) {
+    differences.push('content');
+  }
+  if ((record.type === 'MX' || record.type === 'SRV') && (cf.priority ?? null) !== record.priority) {
+    differences.push('priority');
+  }
+  if (cf.proxied !== proxied) {
+    differences.push('proxied');
+  }
+  // Proxied records always use automatic TTL
+  if (!proxied && cf.ttl !== record.ttl) {
+    differences.push('ttl');
+  }
+
+  return differences.length > 0 ? `Different ${differences.join(', ')}` : null;
+}
+
+// Compare the zone with D1; D1 is the source of truth
+async function detectDrift(env: Env, cfClient: CloudflareDNSClient): Promise<DriftCheck> {
+  const baseDomain = (env.BASE_DOMAIN || 'py.kg').toLowerCase();
+  const baseLabels = baseDomain.split('.').length;
+
+  const zone = await cfClient.listZoneRecords();
+  if (!zone.success) {
+    throw new Error(`Failed to list Cloudflare zone: ${zone.error}`);
+  }
+
+  const { results: domainRows } = await env.DB.prepare(
+    'SELECT fqdn, status FROM domains'
+  ).all<{ fqdn: string; status: string }>();
+  const domains = new Map((domainRows || []).map(d => [d.fqdn.toLowerCase(), d.status]));
+
+  const { results: recordRows } = await env.DB.prepare(`
+    SELECT r.*, d.fqdn as domain_fqdn, d.status as domain_status
+    FROM dns_records r
+    JOIN domains d ON r.domain_id = d.id
+  `).all<RecordWithDomain>();
+  const records = new Map((recordRows || []).map(r => [r.id, r]));
+
+  // Only records under a user's domain (or an unregistered, non-reserved label) are ours;
+  // the apex and infrastructure names under reserved labels are left alone
+  const owned = new Map<string, { cf: CloudflareDNSRecord; domain: string | null }>();
+  for (const cf of zone.records) {
+    const name = cf.name.toLowerCase();
+    if (!MANAGED_TYPES.includes(cf.type) || !name.endsWith(`.${baseDomain}`)) {
+      continue;
+    }
+    const domainFqdn = name.split('.').slice(-(baseLabels + 1)).join('.');
+    if (domains.has(domainFqdn)) {
+      owned.set(cf.id, { cf, domain: domainFqdn });
+    } else if (!isReservedWord(domainFqdn.split('.')[0])) {
+      owned.set(cf.id, { cf, domain: null });
+    }
+  }
+
+  const items: DriftItem[] = [];
+  const published = [...records.values()].filter(r =>
+    PUBLISHED_STATUSES.includes(r.domain_status) && !r.pending_approval
+  );
+  const claimed = new Set(published.map(r => r.cloudflare_record_id).filter(Boolean));
+
+  for (const record of published) {
+    const entry = record.cloudflare_record_id ? owned.get(record.cloudflare_record_id) : undefined;
+
+    if (!entry) {
+      // Re-created outside our bookkeeping: an identical unclaimed record is the same record under a new id
+      const name = fullName(record);
+      const twin = [...owned.values()].find(({ cf }) =>
+        !claimed.has(cf.id) &&
+        cf.type === record.type &&
+        cf.name.toLowerCase() === name &&
+        normalizeContent(record.type, cf.content) === normalizeContent(record.type, record.content)
+      );
+
+      if (twin) {
+        claimed.add(twin.cf.id);
+        items.push({
+          key: `record:${record.id}`,
+          kind: 'mismatched',
+          type: record.type,
+          name,
+          domain: record.domain_fqdn,
+          record_id: record.id,
+          cloudflare_record_id: twin.cf.id,
+          expected: expectedValues(record),
+          actual: actualValues(twin.cf),
+          detail: 'Cloudflare record id changed',
+        });
+        continue;
+      }
+
+      items.push({
+        key: `record:${record.id}`,
+        kind: 'missing',
+        type: record.type,
+        name,
+        domain: record.domain_fqdn,
+        record_id: record.id,
+        expected: expectedValues(record),
+        detail: record.cf_synced ? 'Not found in Cloudflare' : 'Not published (marked unsynced)',
+      });
+      continue;
+    }
+
+    const mismatch = describeMismatch(record, entry.cf) || (record.cf_synced ? null : 'Published but marked unsynced');
+    if (mismatch) {
+      items.push({
+        key: `record:${record.id}`,
+        kind: 'mismatched',
+        type: record.type,
+        name: fullName(record),
+        domain: record.domain_fqdn,
+        record_id: record.id,
+        cloudflare_record_id: entry.cf.id,
+        expected: expectedValues(record),
+        actual: actualValues(entry.cf),
+        detail: mismatch,
+      });
+    }
+  }
+
+  // Rows that should be offline but still claim to be synced
+  for (const record of records.values()) {
+    const offline = !PUBLISHED_STATUSES.includes(record.domain_status) || record.pending_approval;
+    if (offline && record.cf_synced && !(record.cloudflare_record_id && owned.has(record.cloudflare_record_id))) {
+      items.push({
+        key: `record:${record.id}`,
+        kind: 'mismatched',
+        type: record.type,
+        name: fullName(record),
+        domain: record.domain_fqdn,
+        record_id: record.id,
+        expected: expectedValues(record),
+        detail: 'Marked synced but not published',
+      });
+    }
+  }
+
+  // Anything left in our namespaces that no published row claims
+  const offlineIds = new Map(
+    [...records.values()].filter(r => r.cloudflare_record_id).map(r => [r.cloudflare_record_id!, r])
+  );
+  const now = Date.now();
+  for (const { cf, domain } of owned.values()) {
+    if (claimed.has(cf.id)) {
+      continue;
+    }
+    if (cf.created_on && now - new Date(cf.created_on).getTime() < ORPHAN_MIN_AGE_MS) {
+      continue;
+    }
+    const row = offlineIds.get(cf.id);
+    let detail = 'No registered domain';
+    if (row) {
+      detail = row.pending_approval ? 'Record is awaiting approval' : `Domain is ${row.domain_status}`;
+    } else if (domain) {
+      detail = 'Not tracked in D1';
+    }
+
+    items.push({
+      key: `cf:${cf.id}`,
+      kind: 'orphaned',
+      type: cf.type,
+      name: cf.name.toLowerCase(),
+      domain,
+      record_id: row?.id,
+      cloudflare_record_id: cf.id,
+      actual: actualValues(cf),
+      detail,
+      // Nothing under an unregistered label was written by us; an admin decides whether it goes
+      ...(domain ? {} : { manual: true }),
+    });
+  }
+
+  return { items, zoneRecords: owned.size, checked: records.size, records };
+}
+
+// Bring Cloudflare (or the sync flags) in line with D1 for one item
+async function repairItem(
+  db: D1Database,
+  cfClient: CloudflareDNSClient,
+  item: DriftItem,
+  records: Map<number, RecordWithDomain>
+): Promise<{ success: true } | { success: false; error: string }> {
+  if (item.kind === 'orphaned') {
+    const result = await cfClient.deleteDNSRecord(item.cloudflare_record_id!);
+    if (!result.success) {
+      return result;
+    }
+    await db.prepare(
+      'UPDATE dns_records SET cf_synced = 0 WHERE cloudflare_record_id = ?'
+    ).bind(item.cloudflare_record_id).run();
+    return { success: true };
+  }
+
+  const record = records.get(item.record_id!)!;
+
+  // Should be offline: only the flag is wrong
+  if (!PUBLISHED_STATUSES.includes(record.domain_status) || record.pending_approval) {
+    await db.prepare('UPDATE dns_records SET cf_synced = 0 WHERE id = ?').bind(record.id).run();
+    return { success: true };
+  }
+
+  let cloudflareId: string;
+  if (item.kind === 'missing') {
+    const result = await cfClient.createDNSRecord(
+      record.type,
+      fullName(record),
+      record.content,
+      record.ttl,
+      record.proxied === 1,
+      record.priority
+    );
+    if (!result.success) {
+      return result;
+    }
+    cloudflareId = result.record.id;
+  } else {
+    const result = await cfClient.updateDNSRecord(
+      item.cloudflare_record_id!,
+      record.type,
+      fullName(record),
+      record.content,
+      record.ttl,
+      record.proxied === 1,
+      record.priority
+    );
+    if (!result.success) {
+      return result;
+    }
+    cloudflareId = result.record.id;
+  }
+
+  await db.prepare(
+    'UPDATE dns_records SET cloudflare_record_id = ?, cf_synced = 1 WHERE id = ?'
+  ).bind(cloudflareId, record.id).run();
+  return { success: true };
+}
+
+// Check the zone for drift and optionally repair it
+// repair: true repairs everything except manual items, a list of item keys repairs only those items
+export async function runDnsDriftCheck(
+  env: Env,
+  triggeredBy: string,
+  repair: boolean | string[] = false
+): Promise<DriftReport> {
+  const cfClient = new CloudflareDNSClient(env.CLOUDFLARE_API_TOKEN, env.CLOUDFLARE_ZONE_ID);
+
+  // Throws when the zone cannot be listed, before a run is recorded
+  const check = await detectDrift(env, cfClient);
+
+  const runResult = await env.DB.prepare(`
+    INSERT INTO dns_drift_runs (triggered_by, started_at) VALUES (?, datetime('now'))
+  `).bind(triggeredBy).run();
+  const runId = runResult.meta.last_row_id as number;
+
+  // Delete orphans first so re-created records do not collide with them
+  const order: DriftKind[] = ['orphaned', 'mismatched', 'missing'];
+  const selected = check.items
+    .filter(item => (repair === true && !item.manual) || (Array.isArray(repair) && repair.includes(item.key)))
+    .sort((a, b) => order.indexOf(a.kind) - order.indexOf(b.kind))
+    .slice(0, MAX_REPAIRS_PER_RUN);
+
+  for (const item of selected) {
+    try {
+      const result = await repairItem(env.DB, cfClient, item, check.records);
+      item.repaired = result.success;
+      if (!result.success) {
+        item.error = result.error;
+      }
+    } catch (e) {
+      console.error('[DNS Drift] Failed to repair', item.key, e);
+      item.repaired = false;
+      item.error = e instanceof Error ? e.message : String(e);
+    }
+  }
+
+  const count = (kind: DriftKind) => check.items.filter(i => i.kind === kind).length;
+  const report: DriftReport = {
+    id: runId,
+    triggered_by: triggeredBy,
+    zone_records: check.zoneRecords,
+    checked: check.checked,
+    orphaned: count('orphaned'),
+    missing: count('missing'),
+    mismatched: count('mismatched'),
+    repaired: check.items.filter(i => i.repaired).length,
+    errors: check.items.filter(i => i.error).length,
+    items: check.items,
+  };
+
+  await env.DB.prepare(`
+    UPDATE dns_drift_runs
+    SET zone_records = ?, checked = ?, orphaned = ?, missing = ?, mismatched = ?, repaired = ?, errors = ?, items = ?, finished_at = datetime('now')
+    WHERE id = ?
+  `).bind(
+    report.zone_records,
+    report.checked,
+    report.orphaned,
+    report.missing,
+    report.mismatched,
+    report.repaired,
+    report.errors,
+    JSON.stringify(report.items),
+    report.id
+  ).run();
+
+  console.log('[DNS Drift] Run finished:', JSON.stringify({ ...report, items: undefined }));
+  return report;
+}
+
+// List recent drift runs for the admin report
+export async function getDnsDriftRuns(
+  db: D1Database,
+  limit: number,
+  offset: number
+): Promise<{ runs: Array<Omit<DnsDriftRun, 'items'> & { items: DriftItem[] }>; total: number }> {
+  const { results } = await db.prepare(
+    'SELECT * FROM dns_drift_runs ORDER BY id DESC LIMIT ? OFFSET ?'
+  ).bind(limit, offset).all<DnsDriftRun>();
+
+  const countResult = await db.prepare(
+    'SELECT COUNT(*) as count FROM dns_drift_runs'
+  ).first<{ count: number }>();
+
+  return {
+    runs: (results || []).map(run => ({
+      ...run,
+      items: run.items ? JSON.parse(run.items) as DriftItem[] : [],
+    })),
+    total: countResult?.count || 0,
+  };
+}
@@ -0,0 +1,79 @@
+// DNS lookups over HTTPS (JSON API, as served by Cloudflare and Google)
+// Callers take a DnsResolver so tests can pass a stub instead of going to the network
+
+import type { Env } from './types';
+
+export const DEFAULT_DOH_ENDPOINT = 'https://cloudflare-dns.com/dns-query';
+
+// RR type numbers used in answers
+export const DNS_TYPES = {
+  A: 1,
+  NS: 2,
+  CNAME: 5,
+  SOA: 6,
+  AAAA: 28,
+} as const;
+
+export type DnsQueryType = keyof typeof DNS_TYPES;
+
+// RCODE values
+export const DNS_NOERROR = 0;
+export const DNS_SERVFAIL = 2;
+export const DNS_NXDOMAIN = 3;
+export const DNS_REFUSED = 5;
+
+export interface DnsAnswer {
+  name: string;
+  type: number;
+  ttl: number;
+  data: string;
+}
+
+export interface DnsQueryResult {
+  rcode: number;
+  answers: DnsAnswer[];
+}
+
+export interface DnsResolver {
+  // Throws when the resolver itself cannot be reached
+  query(name: string, type: DnsQueryType): Promise<DnsQueryResult>;
+}
+
+interface DohJsonResponse {
+  Status: number;
+  Answer?: Array<{ name: string; type: number; TTL: number; data: string }>;
+}
+
+export class DohResolver implements DnsResolver {
+  private endpoint: string;
+  private fetcher: typeof fetch;
+
+  constructor(endpoint: string = DEFAULT_DOH_ENDPOINT, fetcher: typeof fetch = (input, init) => fetch(input, init)) {
+    this.endpoint = endpoint;
+    this.fetcher = fetcher;
+  }
+
+  async query(name: string, type: DnsQueryType): Promise<DnsQueryResult> {
+    const url = new URL(this.endpoint);
+    url.searchParams.set('name', name);
+    url.searchParams.set('type', type);
+
+    const response = await this.fetcher(url.toString(), {
+      headers: { Accept: 'application/dns-json' },
+    });
+
+    if (!response.ok) {
+      throw new Error(`DoH query for ${name} ${type} failed: HTTP ${response.status}`);
+    }
+
+    const body = await response.json() as DohJsonResponse;
+    return {
+      rcode: body.Status,
+      answers: (body.Answer || []).map(a => ({ name: a.name, type: a.type, ttl: a.TTL, data: a.data })),
+    };
+  }
+}
+
+export function createResolver(env: Pick<Env, 'DOH_RESOLVER_URL'>): DnsResolver {
+  return new DohResolver(env.DOH_RESOLVER_URL || DEFAULT_DOH_ENDPOINT);
+}
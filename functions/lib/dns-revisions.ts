@@ -0,0 +1,100 @@
+// DNS revision history: a snapshot of the zone after every change
+
+import type { DnsRecord, DnsRevision, DnsRevisionSource } from './types';
+import type { AuthContext } from './auth';
+import type { DnsRecordValues } from './dns-changeset';
+
+// Older revisions are pruned beyond this many per domain
+export const MAX_DNS_REVISIONS = 100;
+
+export interface DnsRevisionEntry {
+  linuxdoId: number | null;
+  source: DnsRevisionSource;
+  action: string;
+  details?: Record<string, unknown>;
+}
+
+// The agent calls the DNS handlers directly and marks the context with data.via = 'agent'
+export function getRevisionSource(data: Record<string, unknown> | undefined, auth: AuthContext): DnsRevisionSource {
+  if (data?.via === 'agent') {
+    return 'agent';
+  }
+  return auth.token ? 'api' : 'user';
+}
+
+// Records tracked by revisions: ACME challenges, MX records awaiting approval and NS/DS delegation records are left out
+export async function getRevisionRecords(db: D1Database, domainId: number): Promise<DnsRecordValues[]> {
+  const { results } = await db.prepare(`
+    SELECT * FROM dns_records
+    WHERE domain_id = ? AND acme_challenge = 0 AND pending_approval = 0 AND type NOT IN ('NS', 'DS')
+    ORDER BY type, name, content
+  `).bind(domainId).all<DnsRecord>();
+
+  return (results || []).map(record => ({
+    type: record.type,
+    name: record.name,
+    content: record.content,
+    ttl: record.ttl,
+    proxied: record.proxied === 1,
+    priority: record.priority,
+  }));
+}
+
+// Store the domain's current record set as a new revision
+// Called after the change is applied; a failure here is logged but never fails the change itself
+export async function recordDnsRevision(db: D1Database, domainId: number, entry: DnsRevisionEntry): Promise<void> {
+  try {
+    const records = await getRevisionRecords(db, domainId);
+
+    await db.batch([
+      db.prepare(`
+        INSERT INTO dns_revisions (domain_id, linuxdo_id, source, action, details, records, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, datetime('now'))
+      `).bind(
+        domainId,
+        entry.linuxdoId,
+        entry.source,
+        entry.action,
+        entry.details ? JSON.stringify(entry.details) : null,
+        JSON.stringify(records)
+      ),
+      db.prepare(`
+        DELETE FROM dns_revisions WHERE domain_id = ? AND id NOT IN (
+          SELECT id FROM dns_revisions WHERE domain_id = ? ORDER BY id DESC LIMIT ?
+        )
+      `).bind(domainId, domainId, MAX_DNS_REVISIONS),
+    ]);
+  } catch (e) {
+    console.error('[DNS Revisions] Failed to record revision for domain', domainId, e);
+  }
+}
+
+export function parseRevisionRecords(revision: DnsRevision): DnsRecordValues[] {
+  try {
+    const records = JSON.parse(revision.records);
+    return Array.isArray(records) ? records : [];
+  } catch {
+    return [];
+  }
+}
+
+// Timeline entry without the full record set
+export function toRevisionSummary(revision: DnsRevision) {
+  let details: unknown = null;
+  if (revision.details) {
+    try {
+      details = JSON.parse(revision.details);
+    } catch {
+      details = null;
+    }
+  }
+
+  return {
+    id: revision.id,
+    source: revision.source,
+    action: revision.action,
+    details,
+    record_count: parseRevisionRecords(revision).length,
+    created_at: revision.created_at,
+  };
+}
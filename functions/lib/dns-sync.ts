@@ -0,0 +1,138 @@
+// Helpers for keeping a domain's D1 records and Cloudflare in step
+
+import type { Domain, DnsRecord } from './types';
+import { CloudflareDNSClient } from './cloudflare-dns';
+
+// Remove a domain's synced records from Cloudflare but keep them in D1 (cf_synced = 0)
+// Used when a domain is suspended or enters redemption
+// Records whose Cloudflare delete failed stay marked as synced, so the drift check reports them
+export async function unpublishDomainRecords(
+  db: D1Database,
+  cfClient: CloudflareDNSClient,
+  domainId: number
+): Promise<{ total: number; deleted: number; failed: number }> {
+  const { results: dnsRecords } = await db.prepare(
+    'SELECT * FROM dns_records WHERE domain_id = ? AND cf_synced = 1'
+  ).bind(domainId).all<DnsRecord>();
+
+  const records = dnsRecords || [];
+  const unpublished: number[] = [];
+  let deleted = 0;
+
+  for (const record of records) {
+    if (!record.cloudflare_record_id) {
+      unpublished.push(record.id);
+      continue;
+    }
+    try {
+      const deleteResult = await cfClient.deleteDNSRecord(record.cloudflare_record_id);
+      if (deleteResult.success) {
+        deleted++;
+        unpublished.push(record.id);
+      } else {
+        console.error(`Failed to delete CF record ${record.cloudflare_record_id}:`, deleteResult.error);
+      }
+    } catch (e) {
+      console.error(`Error deleting CF record ${record.cloudflare_record_id}:`, e);
+    }
+  }
+
+  if (unpublished.length > 0) {
+    // Keep the records in D1 so they can be restored later
+    await db.batch(unpublished.map(id =>
+      db.prepare('UPDATE dns_records SET cf_synced = 0 WHERE id = ?').bind(id)
+    ));
+  }
+
+  return { total: records.length, deleted, failed: records.length - unpublished.length };
+}
+
+// Push a domain's unsynced records back to Cloudflare (MX records awaiting approval stay unpublished)
+export async function republishDomainRecords(
+  db: D1Database,
+  cfClient: CloudflareDNSClient,
+  domain: Pick<Domain, 'id' | 'fqdn'>
+): Promise<{ total: number; restored: number }> {
+  const { results: recordsToRestore } = await db.prepare(
+    'SELECT * FROM dns_records WHERE domain_id = ? AND cf_synced = 0 AND pending_approval = 0'
+  ).bind(domain.id).all<DnsRecord>();
+
+  const records = recordsToRestore || [];
+  let restored = 0;
+
+  for (const record of records) {
+    try {
+      const dnsName = record.name === '@' ? domain.fqdn : `${record.name}.${domain.fqdn}`;
+      const createResult = await cfClient.createDNSRecord(
+        record.type,
+        dnsName,
+        record.content,
+        record.ttl,
+        record.proxied === 1,
+        record.priority
+      );
+
+      if (!createResult.success) {
+        console.error(`Failed to restore DNS record ${record.id}:`, createResult.error);
+        continue;
+      }
+
+      // Cloudflare assigns a new ID on every create
+      await db.prepare(
+        'UPDATE dns_records SET cloudflare_record_id = ?, cf_synced = 1 WHERE id = ?'
+      ).bind(createResult.record.id, record.id).run();
+      restored++;
+    } catch (e) {
+      console.error(`Failed to restore DNS record ${record.id}:`, e);
+      // Continue with other records even if one fails
+    }
+  }
+
+  return { total: records.length, restored };
+}
+
+// Delete every synced Cloudflare record of a domain (before the domain itself is removed)
+export async function deleteDomainRecordsFromCloudflare(
+  db: D1Database,
+  cfClient: CloudflareDNSClient,
+  domainId: number
+): Promise<number> {
+  const { results: recordsToDelete } = await db.prepare(
+    'SELECT cloudflare_record_id FROM dns_records WHERE domain_id = ? AND cf_synced = 1 AND cloudflare_record_id IS NOT NULL'
+  ).bind(domainId).all<{ cloudflare_record_id: string }>();
+
+  let deleteCount = 0;
+  for (const record of recordsToDelete || []) {
+    try {
+      const deleteResult = await cfClient.deleteDNSRecord(record.cloudflare_record_id);
+      if (deleteResult.success) {
+        deleteCount++;
+      } else {
+        console.error(`Failed to delete CF record ${record.cloudflare_record_id}:`, deleteResult.error);
+      }
+    } catch (e) {
+      console.error(`Error deleting CF record ${record.cloudflare_record_id}:`, e);
+    }
+  }
+
+  return deleteCount;
+}
+
+// Delete a domain and the rows that reference it
+// Its paid orders are marked released, so the payment callback's recovery path cannot bring it back
+export async function deleteDomainRows(db: D1Database, domainId: number): Promise<void> {
+  await db.prepare(`
+    UPDATE orders SET released_at = datetime('now')
+    WHERE label = (SELECT label FROM domains WHERE id = ?) AND status = 'paid' AND released_at IS NULL
+  `).bind(domainId).run();
+
+  // Delete related records first (to avoid foreign key constraint errors)
+  await db.prepare('DELETE FROM appeals WHERE domain_id = ?').bind(domainId).run();
+  await db.prepare('DELETE FROM dns_records WHERE domain_id = ?').bind(domainId).run();
+  await db.prepare('DELETE FROM dns_revisions WHERE domain_id = ?').bind(domainId).run();
+  await db.prepare('DELETE FROM domain_transfers WHERE domain_id = ?').bind(domainId).run();
+  await db.prepare('DELETE FROM domain_members WHERE domain_id = ?').bind(domainId).run();
+  await db.prepare('DELETE FROM domain_delegations WHERE domain_id = ?').bind(domainId).run();
+  await db.prepare('DELETE FROM ns_requests WHERE domain_id = ?').bind(domainId).run();
+  await db.prepare('DELETE FROM domains WHERE id = ?').bind(domainId).run();
+}
@@ -0,0 +1,255 @@
+// Domain expiry lifecycle: active -> grace -> redemption -> released
+
+import type { Env, Domain, Order } from './types';
+import { CloudflareDNSClient } from './cloudflare-dns';
+import { getSetting } from './moderation';
+import { createNotification } from './notifications';
+import { addBlockchainLog, BlockchainActions } from './blockchain';
+import {
+  unpublishDomainRecords,
+  republishDomainRecords,
+  deleteDomainRecordsFromCloudflare,
+  deleteDomainRows,
+} from './dns-sync';
+
+export interface LifecycleSettings {
+  termDays: number;
+  graceDays: number;
+  redemptionDays: number;
+}
+
+export interface LifecycleRunResult {
+  grace: string[];
+  redemption: string[];
+  released: string[];
+  errors: Array<{ fqdn: string; error: string }>;
+}
+
+async function getDaysSetting(db: D1Database, key: string, defaultValue: number): Promise<number> {
+  const value = parseInt(await getSetting(key, db, String(defaultValue)), 10);
+  return isNaN(value) || value < 0 ? defaultValue : value;
+}
+
+// Read term/grace/redemption lengths from settings
+export async function getLifecycleSettings(db: D1Database): Promise<LifecycleSettings> {
+  return {
+    termDays: await getDaysSetting(db, 'registration_term_days', 365),
+    graceDays: await getDaysSetting(db, 'grace_period_days', 30),
+    redemptionDays: await getDaysSetting(db, 'redemption_period_days', 30),
+  };
+}
+
+// Renewal price falls back to the registration price
+export async function getRenewalPrice(env: Env): Promise<number> {
+  const renewalPrice = await getSetting('renewal_price', env.DB, '');
+  const domainPrice = await getSetting('domain_price', env.DB, '');
+  return parseFloat(renewalPrice || domainPrice || env.DOMAIN_PRICE || '10');
+}
+
+// A domain may only be renewed while less than one full term remains
+export function canRenew(domain: Pick<Domain, 'status' | 'expires_at'>, termDays: number): boolean {
+  if (!['active', 'grace', 'redemption'].includes(domain.status)) {
+    return false;
+  }
+  if (!domain.expires_at) {
+    return true;
+  }
+  const expiresAt = new Date(domain.expires_at.replace(' ', 'T') + 'Z').getTime();
+  return expiresAt - Date.now() < termDays * 24 * 60 * 60 * 1000;
+}
+
+// Apply a paid renewal order: extend expires_at by one term and restore the domain
+// Returns the renewed domain, or null if the domain no longer exists
+export async function applyRenewal(env: Env, order: Order): Promise<Domain | null> {
+  const domain = await env.DB.prepare(
+    'SELECT * FROM domains WHERE label = ? AND owner_linuxdo_id = ?'
+  ).bind(order.label, order.linuxdo_id).first<Domain>();
+
+  if (!domain) {
+    return null;
+  }
+
+  const { termDays } = await getLifecycleSettings(env.DB);
+
+  // Extend from the current expiry so renewing early doesn't lose time;
+  // already expired domains are extended from their original expiry as well
+  await env.DB.prepare(`
+    UPDATE domains
+    SET expires_at = datetime(COALESCE(expires_at, datetime('now')), '+' || ? || ' days')
+    WHERE id = ?
+  `).bind(termDays, domain.id).run();
+
+  // If a renewal from the original expiry still lands in the past, start the term from now
+  await env.DB.prepare(`
+    UPDATE domains SET expires_at = datetime('now', '+' || ? || ' days')
+    WHERE id = ? AND expires_at <= datetime('now')
+  `).bind(termDays, domain.id).run();
+
+  if (domain.status === 'redemption') {
+    const cfClient = new CloudflareDNSClient(env.CLOUDFLARE_API_TOKEN, env.CLOUDFLARE_ZONE_ID);
+    await republishDomainRecords(env.DB, cfClient, domain);
+  }
+
+  // A domain that expired while flagged for review goes back into review, not straight to active
+  if (domain.status === 'grace' || domain.status === 'redemption') {
+    await env.DB.prepare(
+      "UPDATE domains SET status = CASE WHEN review_reason IS NULL THEN 'active' ELSE 'review' END WHERE id = ?"
+    ).bind(domain.id).run();
+  }
+
+  const renewed = await env.DB.prepare(
+    'SELECT * FROM domains WHERE id = ?'
+  ).bind(domain.id).first<Domain>();
+
+  await createNotification(
+    env.DB,
+    domain.owner_linuxdo_id,
+    'domain_renewed',
+    '域名续费成功',
+    `您的域名 ${domain.fqdn} 已续费成功，新的到期时间为 ${renewed?.expires_at} (UTC)。`
+  );
+
+  const user = await env.DB.prepare(
+    'SELECT username FROM users WHERE linuxdo_id = ?'
+  ).bind(domain.owner_linuxdo_id).first<{ username: string }>();
+
+  await addBlockchainLog(env.DB, {
+    action: BlockchainActions.DOMAIN_RENEW,
+    actorName: user?.username || null,
+    targetType: 'domain',
+    targetName: domain.fqdn,
+    details: {
+      amount: order.amount,
+      previous_status: domain.status,
+      expires_at: renewed?.expires_at,
+    },
+  });
+
+  return renewed;
+}
+
+// Move expired domains through grace and redemption, releasing them at the end
+export async function runDomainLifecycle(env: Env): Promise<LifecycleRunResult> {
+  const { graceDays, redemptionDays } = await getLifecycleSettings(env.DB);
+  const cfClient = new CloudflareDNSClient(env.CLOUDFLARE_API_TOKEN, env.CLOUDFLARE_ZONE_ID);
+  const result: LifecycleRunResult = { grace: [], redemption: [], released: [], errors: [] };
+
+  // Step 1: active -> grace (DNS keeps resolving, owner can still renew)
+  // Domains flagged by the LinuxDO re-sync expire too; they keep review_reason so a renewal puts them back into review.
+  // Review domains still waiting on their registration review are left to the admin who approves or rejects them.
+  const { results: expired } = await env.DB.prepare(`
+    SELECT * FROM domains
+    WHERE expires_at IS NOT NULL AND expires_at <= datetime('now')
+      AND (
+        status = 'active'
+        OR (status = 'review' AND NOT EXISTS (
+          SELECT 1 FROM pending_reviews pr WHERE pr.label = domains.label AND pr.status = 'pending'
+        ))
+      )
+  `).all<Domain>();
+
+  for (const domain of expired || []) {
+    try {
+      await env.DB.prepare(
+        "UPDATE domains SET status = 'grace' WHERE id = ?"
+      ).bind(domain.id).run();
+
+      await createNotification(
+        env.DB,
+        domain.owner_linuxdo_id,
+        'domain_expired',
+        '域名已到期',
+        `您的域名 ${domain.fqdn} 已于 ${domain.expires_at} (UTC) 到期，现处于 ${graceDays} 天宽限期内，解析仍然有效。请尽快续费，否则域名将停止解析并最终被释放。`
+      );
+
+      await addBlockchainLog(env.DB, {
+        action: BlockchainActions.DOMAIN_EXPIRE,
+        actorName: 'system',
+        targetType: 'domain',
+        targetName: domain.fqdn,
+        result: 'grace',
+        details: { expires_at: domain.expires_at },
+      });
+
+      result.grace.push(domain.fqdn);
+    } catch (e) {
+      console.error('[Lifecycle] Failed to move domain to grace:', domain.fqdn, e);
+      result.errors.push({ fqdn: domain.fqdn, error: e instanceof Error ? e.message : String(e) });
+    }
+  }
+
+  // Step 2: grace -> redemption (DNS is taken offline, records are kept)
+  const { results: graceEnded } = await env.DB.prepare(`
+    SELECT * FROM domains
+    WHERE status = 'grace' AND datetime(expires_at, '+' || ? || ' days') <= datetime('now')
+  `).bind(graceDays).all<Domain>();
+
+  for (const domain of graceEnded || []) {
+    try {
+      await unpublishDomainRecords(env.DB, cfClient, domain.id);
+
+      await env.DB.prepare(
+        "UPDATE domains SET status = 'redemption' WHERE id = ?"
+      ).bind(domain.id).run();
+
+      await createNotification(
+        env.DB,
+        domain.owner_linuxdo_id,
+        'domain_expired',
+        '域名已进入赎回期',
+        `您的域名 ${domain.fqdn} 宽限期已结束，解析已暂停。${redemptionDays} 天赎回期内续费可恢复域名及全部解析记录，逾期域名将被释放。`
+      );
+
+      await addBlockchainLog(env.DB, {
+        action: BlockchainActions.DOMAIN_EXPIRE,
+        actorName: 'system',
+        targetType: 'domain',
+        targetName: domain.fqdn,
+        result: 'redemption',
+        details: { expires_at: domain.expires_at },
+      });
+
+      result.redemption.push(domain.fqdn);
+    } catch (e) {
+      console.error('[Lifecycle] Failed to move domain to redemption:', domain.fqdn, e);
+      result.errors.push({ fqdn: domain.fqdn, error: e instanceof Error ? e.message : String(e) });
+    }
+  }
+
+  // Step 3: redemption -> released (domain and records are deleted, label becomes available)
+  const { results: redemptionEnded } = await env.DB.prepare(`
+    SELECT * FROM domains
+    WHERE status = 'redemption' AND datetime(expires_at, '+' || ? || ' days') <= datetime('now')
+  `).bind(graceDays + redemptionDays).all<Domain>();
+
+  for (const domain of redemptionEnded || []) {
+    try {
+      // Records were unpublished when entering redemption, but clean up anything left behind
+      await deleteDomainRecordsFromCloudflare(env.DB, cfClient, domain.id);
+      await deleteDomainRows(env.DB, domain.id);
+
+      await createNotification(
+        env.DB,
+        domain.owner_linuxdo_id,
+        'domain_expired',
+        '域名已释放',
+        `您的域名 ${domain.fqdn} 赎回期已结束且未续费，域名及其解析记录已被删除，该域名现已开放注册。`
+      );
+
+      await addBlockchainLog(env.DB, {
+        action: BlockchainActions.DOMAIN_RELEASE,
+        actorName: 'system',
+        targetType: 'domain',
+        targetName: domain.fqdn,
+        details: { expires_at: domain.expires_at },
+      });
+
+      result.released.push(domain.fqdn);
+    } catch (e) {
+      console.error('[Lifecycle] Failed to release domain:', domain.fqdn, e);
+      result.errors.push({ fqdn: domain.fqdn, error: e instanceof Error ? e.message : String(e) });
+    }
+  }
+
+  return result;
+}
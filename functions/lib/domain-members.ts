@@ -0,0 +1,56 @@
+// Domain members: users the owner shares a domain with, as viewer or dns-editor
+
+import type { Domain, DomainMemberRole } from './types';
+import type { DomainRole } from './domains';
+import { addBlockchainLog, BlockchainActions } from './blockchain';
+
+// Members per domain, the owner not included
+export const MAX_DOMAIN_MEMBERS = 10;
+
+export const DOMAIN_MEMBER_ROLES: DomainMemberRole[] = ['viewer', 'dns-editor'];
+
+export function isDomainMemberRole(role: unknown): role is DomainMemberRole {
+  return typeof role === 'string' && (DOMAIN_MEMBER_ROLES as string[]).includes(role);
+}
+
+export interface MemberActionParams {
+  linuxdoId: number;
+  username: string;
+  action: string;                       // what was changed, e.g. 'create', 'zone_import'
+  details?: Record<string, unknown>;
+  ip: string | null;
+}
+
+// Attribute a DNS change made by a member or delegate in audit_logs and the blockchain log
+// The owner's own changes are left to the route's usual logging
+export async function logMemberAction(
+  db: D1Database,
+  access: { domain: Domain; role: DomainRole },
+  params: MemberActionParams
+): Promise<void> {
+  if (access.role === 'owner') {
+    return;
+  }
+
+  const { domain, role } = access;
+
+  // Log the action
+  await db.prepare(`
+    INSERT INTO audit_logs (linuxdo_id, action, target, details, ip_address, created_at)
+    VALUES (?, ?, ?, ?, ?, datetime('now'))
+  `).bind(
+    params.linuxdoId,
+    'dns_member_change',
+    domain.fqdn,
+    JSON.stringify({ role, action: params.action, owner_linuxdo_id: domain.owner_linuxdo_id, ...params.details }),
+    params.ip
+  ).run();
+
+  await addBlockchainLog(db, {
+    action: BlockchainActions.DNS_MEMBER_CHANGE,
+    actorName: params.username,
+    targetType: 'domain',
+    targetName: domain.fqdn,
+    details: { role, action: params.action, ...params.details },
+  });
+}
@@ -0,0 +1,207 @@
+// User domain helpers: which domain a route acts on, and how many domains a user may hold
+
+import type { Env, Domain, DomainResponse, DnsRecord, DomainMemberRole } from './types';
+import { errorResponse } from './auth';
+import { CloudflareDNSClient } from './cloudflare-dns';
+import { getSetting } from './moderation';
+
+// Domains that count against the user's quota (expired domains count until released)
+export const QUOTA_STATUSES: Domain['status'][] = ['pending', 'active', 'review', 'grace', 'redemption', 'suspended'];
+
+// Domains shown to their owner
+export const OWNED_STATUSES: Domain['status'][] = ['active', 'suspended', 'review', 'grace', 'redemption'];
+
+export interface DomainQuota {
+  limit: number;
+  used: number;
+  pending: number;   // labels with an open (unpaid) registration order
+}
+
+// 'owner' routes are for the owner alone; 'read' also admits members, 'write' admits dns-editor members
+export type DomainAccess = 'owner' | 'read' | 'write';
+
+// 'delegate' holds a delegated third-level name (see ./delegations)
+export type DomainRole = 'owner' | DomainMemberRole | 'delegate';
+
+export interface UserDomainOptions {
+  statuses?: Domain['status'][];   // defaults to active domains only
+  access?: DomainAccess;           // defaults to 'owner'
+  delegates?: boolean;             // also admit delegates; the route limits them to their subtrees
+  recordId?: number;               // record routes can find the domain from the record when no label is given
+  notFoundError?: string;
+}
+
+export type UserDomainResult =
+  | { domain: Domain; role: DomainRole; subtrees?: string[]; error?: undefined }
+  | { domain?: undefined; role?: undefined; error: Response };
+
+// Parse the max_domains_by_trust_level setting: {"<trust level>": <max domains>, ...}
+export function parseTrustLevelQuotas(value: string): Record<number, number> | null {
+  try {
+    const parsed = JSON.parse(value);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      return null;
+    }
+
+    const quotas: Record<number, number> = {};
+    for (const [level, max] of Object.entries(parsed)) {
+      const trustLevel = parseInt(level, 10);
+      if (isNaN(trustLevel) || trustLevel < 0 || trustLevel > 4 || typeof max !== 'number' || !Number.isInteger(max) || max < 1 || max > 100) {
+        return null;
+      }
+      quotas[trustLevel] = max;
+    }
+    return quotas;
+  } catch {
+    return null;
+  }
+}
+
+// max_domains_per_user, raised by max_domains_by_trust_level for users at or above a listed trust level
+// exceptLabel leaves that label's open orders out of pending (the user is retrying checkout for it)
+export async function getDomainQuota(
+  db: D1Database,
+  linuxdoId: number,
+  options: { exceptLabel?: string } = {}
+): Promise<DomainQuota> {
+  let limit = parseInt(await getSetting('max_domains_per_user', db, '1'), 10) || 1;
+
+  const byTrustLevel = parseTrustLevelQuotas(await getSetting('max_domains_by_trust_level', db, '') || '{}');
+  if (byTrustLevel && Object.keys(byTrustLevel).length > 0) {
+    const user = await db.prepare(
+      'SELECT trust_level FROM users WHERE linuxdo_id = ?'
+    ).bind(linuxdoId).first<{ trust_level: number }>();
+
+    for (const [level, max] of Object.entries(byTrustLevel)) {
+      if ((user?.trust_level ?? 0) >= parseInt(level, 10) && max > limit) {
+        limit = max;
+      }
+    }
+  }
+
+  const owned = await db.prepare(
+    `SELECT COUNT(*) as count FROM domains WHERE owner_linuxdo_id = ? AND status IN (${QUOTA_STATUSES.map(() => '?').join(', ')})`
+  ).bind(linuxdoId, ...QUOTA_STATUSES).first<{ count: number }>();
+
+  const pending = await db.prepare(`
+    SELECT COUNT(DISTINCT label) as count FROM orders
+    WHERE linuxdo_id = ? AND order_type = 'register' AND status = 'pending' AND label != ?
+  `).bind(linuxdoId, options.exceptLabel || '').first<{ count: number }>();
+
+  return { limit, used: owned?.count || 0, pending: pending?.count || 0 };
+}
+
+// Whether the user may take on one more domain; open registration orders hold a slot each
+export async function hasDomainQuota(db: D1Database, linuxdoId: number): Promise<boolean> {
+  const quota = await getDomainQuota(db, linuxdoId);
+  return quota.used + quota.pending < quota.limit;
+}
+
+// Resolve the domain a user route acts on
+// /api/domains/:label/... names the domain; the unscoped legacy routes fall back to the user's only domain
+// Members and delegates reach a shared domain through its label only
+export async function getUserDomain(
+  db: D1Database,
+  linuxdoId: number,
+  label: string | string[] | undefined,
+  options: UserDomainOptions = {}
+): Promise<UserDomainResult> {
+  const statuses = options.statuses || ['active'];
+  const access = options.access || 'owner';
+  const notFoundError = options.notFoundError || 'You do not have a registered domain';
+
+  if (typeof label === 'string' && label) {
+    const domain = await db.prepare(
+      'SELECT * FROM domains WHERE label = ?'
+    ).bind(label.toLowerCase()).first<Domain>();
+
+    let role: DomainRole | null = null;
+    if (domain && domain.owner_linuxdo_id === linuxdoId) {
+      role = 'owner';
+    } else if (domain && access !== 'owner') {
+      const member = await db.prepare(
+        'SELECT role FROM domain_members WHERE domain_id = ? AND linuxdo_id = ?'
+      ).bind(domain.id, linuxdoId).first<{ role: DomainMemberRole }>();
+      role = member?.role || null;
+    }
+
+    let subtrees: string[] | undefined;
+    if (domain && !role && access !== 'owner') {
+      const { results: delegations } = await db.prepare(
+        'SELECT name FROM domain_delegations WHERE domain_id = ? AND linuxdo_id = ? ORDER BY name'
+      ).bind(domain.id, linuxdoId).all<{ name: string }>();
+
+      if (delegations && delegations.length > 0) {
+        if (!options.delegates) {
+          return { error: errorResponse('Not available for delegated names', 403) };
+        }
+        role = 'delegate';
+        subtrees = delegations.map(d => d.name);
+      }
+    }
+
+    // Other users' domains are indistinguishable from missing ones
+    if (!domain || !role) {
+      return { error: errorResponse(`Domain not found: ${label}`, 404) };
+    }
+    if (access === 'write' && role === 'viewer') {
+      return { error: errorResponse('Viewers cannot modify this domain', 403) };
+    }
+    if (!statuses.includes(domain.status)) {
+      return { error: errorResponse(`Domain ${domain.fqdn} is ${domain.status}`, 409) };
+    }
+    return { domain, role, subtrees };
+  }
+
+  const { results } = await db.prepare(
+    `SELECT * FROM domains WHERE owner_linuxdo_id = ? AND status IN (${statuses.map(() => '?').join(', ')}) ORDER BY id`
+  ).bind(linuxdoId, ...statuses).all<Domain>();
+  const domains = results || [];
+
+  if (domains.length === 0) {
+    return { error: errorResponse(notFoundError, 404) };
+  }
+  if (domains.length === 1) {
+    return { domain: domains[0], role: 'owner' };
+  }
+
+  if (options.recordId !== undefined) {
+    const record = await db.prepare(
+      'SELECT domain_id FROM dns_records WHERE id = ?'
+    ).bind(options.recordId).first<{ domain_id: number }>();
+
+    const domain = domains.find(d => d.id === record?.domain_id);
+    return domain ? { domain, role: 'owner' } : { error: errorResponse('DNS record not found', 404) };
+  }
+
+  return {
+    error: errorResponse(`You have ${domains.length} domains, use /api/domains/:label/... to choose one`, 400),
+  };
+}
+
+// Owner's view of a domain: status, nameservers and DNS records
+export async function buildDomainResponse(env: Env, domain: Domain): Promise<DomainResponse> {
+  // Get NS records from Cloudflare
+  const cfClient = new CloudflareDNSClient(env.CLOUDFLARE_API_TOKEN, env.CLOUDFLARE_ZONE_ID);
+  const nsResult = await cfClient.getNSRecords(domain.fqdn);
+
+  const nameservers = nsResult.success ? nsResult.records.map(r => r.content) : [];
+
+  // Get DNS records from database
+  const { results: dnsRecords } = await env.DB.prepare(
+    'SELECT * FROM dns_records WHERE domain_id = ? ORDER BY type, name'
+  ).bind(domain.id).all<DnsRecord>();
+
+  return {
+    label: domain.label,
+    fqdn: domain.fqdn,
+    status: domain.status,
+    dns_mode: domain.dns_mode || null,
+    nameservers,
+    dns_records: dnsRecords || [],
+    created_at: domain.created_at,
+    expires_at: domain.expires_at,
+    review_reason: domain.review_reason || undefined,
+    suspend_reason: domain.suspend_reason || undefined,
+  };
+}
@@ -0,0 +1,138 @@
+// Periodic re-sync of stored user profiles (username, trust level, silenced, active) from LinuxDO
+// Login only refreshes them for users who log in again; this catches everyone else
+
+import type { User } from './types';
+import type { LinuxDOProfileClient } from './linuxdo';
+import { createNotification } from './notifications';
+import { revokeUserSessions } from './sessions';
+import { revokeUserApiTokens } from './api-tokens';
+
+// Users checked per run; each is one request to LinuxDO and Pages Functions allow 50 subrequests
+export const SYNC_BATCH_SIZE = 40;
+
+export interface LinuxDOSyncReport {
+  checked: number;
+  updated: number;
+  not_found: number;
+  failed: number;
+  flagged_users: number[];
+  flagged_domains: string[];
+}
+
+type SyncedUser = Pick<User, 'linuxdo_id' | 'username' | 'trust_level' | 'silenced' | 'active'>;
+
+// Sync the users that have gone longest without a sync (never-synced users first)
+export async function syncUserProfiles(
+  db: D1Database,
+  client: LinuxDOProfileClient,
+  limit: number = SYNC_BATCH_SIZE
+): Promise<LinuxDOSyncReport> {
+  const report: LinuxDOSyncReport = { checked: 0, updated: 0, not_found: 0, failed: 0, flagged_users: [], flagged_domains: [] };
+
+  const { results: users } = await db.prepare(`
+    SELECT linuxdo_id, username, trust_level, silenced, active FROM users
+    ORDER BY profile_synced_at ASC
+    LIMIT ?
+  `).bind(limit).all<SyncedUser>();
+
+  for (const user of users || []) {
+    report.checked++;
+
+    let profile;
+    try {
+      profile = await client.getUser(user.linuxdo_id, user.username);
+    } catch (e) {
+      // Left unsynced so the next run tries again
+      console.error(`[LinuxDO Sync] Lookup failed for ${user.linuxdo_id}:`, e);
+      report.failed++;
+      continue;
+    }
+
+    // Without an API key a renamed user cannot be found either, so a miss changes nothing
+    if (!profile) {
+      await db.prepare(
+        'UPDATE users SET profile_synced_at = datetime(\'now\') WHERE linuxdo_id = ?'
+      ).bind(user.linuxdo_id).run();
+      report.not_found++;
+      continue;
+    }
+
+    const silenced = profile.silenced ? 1 : 0;
+    const active = profile.active ? 1 : 0;
+    const changed = profile.username !== user.username || profile.trust_level !== user.trust_level ||
+      silenced !== user.silenced || active !== user.active;
+
+    await db.prepare(`
+      UPDATE users SET username = ?, trust_level = ?, silenced = ?, active = ?, profile_synced_at = datetime('now')
+      ${changed ? ", updated_at = datetime('now')" : ''}
+      WHERE linuxdo_id = ?
+    `).bind(profile.username, profile.trust_level, silenced, active, user.linuxdo_id).run();
+
+    if (changed) {
+      report.updated++;
+    }
+
+    const newlySilenced = silenced === 1 && user.silenced !== 1;
+    const newlyInactive = active === 0 && user.active !== 0;
+    if (newlySilenced || newlyInactive) {
+      // Login refuses silenced and inactive users, so existing sessions and API tokens must not outlive the change
+      const sessionsRevoked = await revokeUserSessions(db, user.linuxdo_id);
+      const tokensRevoked = await revokeUserApiTokens(db, user.linuxdo_id);
+
+      const reason = newlySilenced ? 'LinuxDO 账户已被禁言' : 'LinuxDO 账户已停用';
+      const fqdns = await flagUserDomains(db, user.linuxdo_id, reason, {
+        silenced: newlySilenced,
+        inactive: newlyInactive,
+        sessions_revoked: sessionsRevoked,
+        tokens_revoked: tokensRevoked,
+      });
+      report.flagged_users.push(user.linuxdo_id);
+      report.flagged_domains.push(...fqdns);
+    }
+  }
+
+  return report;
+}
+
+// Put the user's active domains into review; records stay published until an admin decides
+async function flagUserDomains(
+  db: D1Database,
+  linuxdoId: number,
+  reason: string,
+  change: { silenced: boolean; inactive: boolean; sessions_revoked: number; tokens_revoked: number }
+): Promise<string[]> {
+  const { results } = await db.prepare(`
+    UPDATE domains SET status = 'review', review_reason = ?
+    WHERE owner_linuxdo_id = ? AND status = 'active'
+    RETURNING fqdn
+  `).bind(reason, linuxdoId).all<{ fqdn: string }>();
+
+  const fqdns = (results || []).map(r => r.fqdn);
+
+  try {
+    await db.prepare(`
+      INSERT INTO audit_logs (linuxdo_id, action, target, details, ip_address, created_at)
+      VALUES (?, ?, ?, ?, ?, datetime('now'))
+    `).bind(
+      linuxdoId,
+      'linuxdo_sync_flag',
+      linuxdoId.toString(),
+      JSON.stringify({ ...change, domains: fqdns }),
+      null
+    ).run();
+  } catch (e) {
+    console.error('Failed to log audit:', e);
+  }
+
+  if (fqdns.length > 0) {
+    await createNotification(
+      db,
+      linuxdoId,
+      'domain_pending_review',
+      '域名已转入人工审核',
+      `由于您的 ${reason}，域名 ${fqdns.join('、')} 已转入人工审核，审核期间解析记录保持不变。如有疑问请通过站内消息联系管理员。`
+    );
+  }
+
+  return fqdns;
+}
@@ -0,0 +1,100 @@
+// LinuxDO (Discourse) profile lookups for the periodic user re-sync
+// Callers take a LinuxDOProfileClient so tests can pass a stub instead of going to the network
+
+import type { Env } from './types';
+
+export const DEFAULT_LINUXDO_API_URL = 'https://linux.do';
+
+export interface LinuxDOProfile {
+  id: number;
+  username: string;
+  trust_level: number;
+  silenced: boolean;
+  active: boolean;
+}
+
+export interface LinuxDOProfileClient {
+  // Resolves to null when LinuxDO has no such user; throws when LinuxDO cannot be reached
+  getUser(linuxdoId: number, username: string): Promise<LinuxDOProfile | null>;
+}
+
+interface DiscourseUser {
+  id: number;
+  username: string;
+  trust_level: number;
+  active?: boolean;
+  silenced?: boolean;
+  silenced_till?: string | null;
+  suspended_till?: string | null;
+}
+
+// A "till" timestamp still in the future
+function isUntilFuture(value: string | null | undefined): boolean {
+  return !!value && new Date(value).getTime() > Date.now();
+}
+
+export class DiscourseProfileClient implements LinuxDOProfileClient {
+  private baseUrl: string;
+  private apiKey?: string;
+  private apiUsername?: string;
+  private fetcher: typeof fetch;
+
+  constructor(
+    baseUrl: string = DEFAULT_LINUXDO_API_URL,
+    credentials: { apiKey?: string; apiUsername?: string } = {},
+    fetcher: typeof fetch = (input, init) => fetch(input, init)
+  ) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.apiKey = credentials.apiKey;
+    this.apiUsername = credentials.apiUsername;
+    this.fetcher = fetcher;
+  }
+
+  // With an API key users are looked up by ID through the admin API, which also survives renames;
+  // without one the public profile is used, looked up by the last known username
+  async getUser(linuxdoId: number, username: string): Promise<LinuxDOProfile | null> {
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    let url: string;
+    if (this.apiKey) {
+      url = `${this.baseUrl}/admin/users/${linuxdoId}.json`;
+      headers['Api-Key'] = this.apiKey;
+      headers['Api-Username'] = this.apiUsername || 'system';
+    } else {
+      url = `${this.baseUrl}/u/${encodeURIComponent(username)}.json`;
+    }
+
+    const response = await this.fetcher(url, { headers });
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`LinuxDO lookup for user ${linuxdoId} failed: HTTP ${response.status}`);
+    }
+
+    const body = await response.json() as DiscourseUser | { user: DiscourseUser };
+    const user = 'user' in body ? body.user : body;
+
+    // A public profile under the old username may now belong to someone else
+    if (!user || user.id !== linuxdoId) {
+      return null;
+    }
+
+    return {
+      id: user.id,
+      username: user.username,
+      trust_level: user.trust_level,
+      silenced: user.silenced === true || isUntilFuture(user.silenced_till),
+      // Suspended accounts cannot log in to LinuxDO, so they count as inactive here
+      active: user.active !== false && !isUntilFuture(user.suspended_till),
+    };
+  }
+}
+
+export function createLinuxDOClient(
+  env: Pick<Env, 'LINUXDO_API_URL' | 'LINUXDO_API_KEY' | 'LINUXDO_API_USERNAME'>
+): LinuxDOProfileClient {
+  return new DiscourseProfileClient(env.LINUXDO_API_URL || DEFAULT_LINUXDO_API_URL, {
+    apiKey: env.LINUXDO_API_KEY,
+    apiUsername: env.LINUXDO_API_USERNAME,
+  });
+}
@@ -2,12 +2,17 @@
 
 import type { Env, BannedWord } from './types';
 import { isReservedWord } from './reserved-words';
+import { revokeUserSessions } from './sessions';
+
+// Which rule blocked a label
+export type ModerationCode = 'reserved' | 'infrastructure' | 'banned_word';
 
 export interface ModerationResult {
   allowed: boolean;
   reason?: string;
   matchedWord?: string;
   requiresReview?: boolean;
+  code?: ModerationCode;
 }
 
 // Common infrastructure subdomain patterns that should be reserved
@@ -39,11 +44,25 @@ function isInfrastructurePattern(label: string): boolean {
   return false;
 }
 
+// Custom banned words from the database (for inappropriate content)
+export async function getBannedWords(db: D1Database): Promise<string[]> {
+  const { results } = await db.prepare(
+    'SELECT word FROM banned_words'
+  ).all<BannedWord>();
+
+  return (results || []).map(w => w.word);
+}
+
 // Check if label contains banned words
 export async function checkLabel(
   label: string,
   db: D1Database
 ): Promise<ModerationResult> {
+  return checkLabelAgainst(label, await getBannedWords(db));
+}
+
+// Same checks as checkLabel with the banned words already loaded, for checking many labels at once
+export function checkLabelAgainst(label: string, bannedWords: string[]): ModerationResult {
   const normalizedLabel = label.toLowerCase();
 
   // First check against js.org reserved words (hard block)
@@ -53,6 +72,7 @@ export async function checkLabel(
       reason: `域名包含被禁止的词汇：${normalizedLabel}`,
       matchedWord: normalizedLabel,
       requiresReview: false,
+      code: 'reserved',
     };
   }
 
@@ -63,17 +83,14 @@ export async function checkLabel(
       reason: `域名包含被禁止的词汇：${normalizedLabel}`,
       matchedWord: normalizedLabel,
       requiresReview: false,
+      code: 'infrastructure',
     };
   }
 
-  // Then check custom banned words from database (for inappropriate content)
-  const { results: bannedWords } = await db.prepare(
-    'SELECT word FROM banned_words'
-  ).all<BannedWord>();
-
-  if (bannedWords && bannedWords.length > 0) {
+  // Then check custom banned words
+  if (bannedWords.length > 0) {
     // Check for exact match or substring match
-    for (const { word } of bannedWords) {
+    for (const word of bannedWords) {
       const normalizedWord = word.toLowerCase();
 
       // Check if label contains the banned word
@@ -84,6 +101,7 @@ export async function checkLabel(
           reason: `域名包含被禁止的词汇：${word}`,
           matchedWord: word,
           requiresReview: false,  // Changed from true to false - hard block instead of review
+          code: 'banned_word',
         };
       }
     }
@@ -126,6 +144,21 @@ export async function checkUserAbuse(
     };
   }
 
+  // Count rate limit violations in last 24 hours (logged once per window by checkRateLimit)
+  const rateLimited = await db.prepare(`
+    SELECT COUNT(*) as count FROM audit_logs
+    WHERE linuxdo_id = ?
+    AND action = 'rate_limited'
+    AND created_at > datetime('now', '-24 hours')
+  `).bind(linuxdoId).first<{ count: number }>();
+
+  if (rateLimited && rateLimited.count >= 10) {
+    return {
+      flagged: true,
+      reason: `用户在24小时内${rateLimited.count}次超出请求频率限制`,
+    };
+  }
+
   return { flagged: false };
 }
 
@@ -139,6 +172,8 @@ export async function banUser(
     UPDATE users SET is_banned = 1, ban_reason = ?, updated_at = datetime('now')
     WHERE linuxdo_id = ?
   `).bind(reason, linuxdoId).run();
+
+  await revokeUserSessions(db, linuxdoId);
 }
 
 // Get setting value from database
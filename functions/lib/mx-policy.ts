@@ -0,0 +1,29 @@
+// MX record policy
+// Mail records are the main abuse vector for free subdomains (see docs/txt-record-policy-update.md),
+// so only trusted users publish them directly; everyone else goes through admin approval
+
+import { getSetting } from './moderation';
+import type { DnsChangeset } from './dns-changeset';
+
+export const MX_APPROVAL_REQUIRED_ERROR = 'MX records require admin approval; add them individually via POST /api/dns-records';
+
+// Whether the user may publish MX records without approval
+export async function canPublishMx(db: D1Database, linuxdoId: number, trustLevel: number): Promise<boolean> {
+  const minTrustLevel = parseInt(await getSetting('mx_min_trust_level', db, '3'), 10);
+  if (!isNaN(minTrustLevel) && trustLevel >= minTrustLevel) {
+    return true;
+  }
+
+  const user = await db.prepare(
+    'SELECT is_admin FROM users WHERE linuxdo_id = ?'
+  ).bind(linuxdoId).first<{ is_admin: number }>();
+
+  return user?.is_admin === 1;
+}
+
+// Whether a changeset creates an MX record or changes an MX target or priority
+export function changesMxRecords(changeset: DnsChangeset): boolean {
+  return changeset.create.some(r => r.type === 'MX') || changeset.update.some(({ record, to }) =>
+    to.type === 'MX' && (record.type !== 'MX' || record.content !== to.content || record.priority !== to.priority)
+  );
+}
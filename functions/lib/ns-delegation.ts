@@ -0,0 +1,328 @@
+// NS delegation mode: the domain's records are replaced by NS records pointing at the user's own nameservers
+// Trusted users switch directly; everyone else goes through admin approval (ns_requests)
+// Owners signing their zone publish DS records next to the NS records
+
+import type { Env, Domain, DnsRecord } from './types';
+import { errorResponse } from './auth';
+import { getSetting } from './moderation';
+import { CloudflareDNSClient, validateNameserver, validateDNSRecordContent, formatDsContent, parseDsContent } from './cloudflare-dns';
+import { applyDnsChangeset } from './dns-changeset';
+import type { DnsChangeset } from './dns-changeset';
+import type { DnsResolver } from './dns-resolver';
+import { DNS_TYPES, DNS_NOERROR, DNS_SERVFAIL, DNS_REFUSED, createResolver } from './dns-resolver';
+
+export const MIN_NAMESERVERS = 2;
+export const MAX_NAMESERVERS = 8;
+export const NS_RECORD_TTL = 3600;
+export const MAX_DS_RECORDS = 8;
+
+// Cloudflare needs a moment before the new NS records are served, so the delegation is looked up a few times
+const VERIFY_ATTEMPTS = 3;
+const VERIFY_DELAY_MS = 2000;
+
+export const NS_MODE_ERROR = 'Domain is delegated to its own nameservers; manage records there, or switch back with DELETE /api/ns';
+export const DIRECT_MODE_ERROR = 'DS records can only be published while the domain is delegated with PUT /api/ns';
+
+export type NameserverList = { valid: true; nameservers: string[] } | { valid: false; error: string };
+
+export type NameserverCheck = { valid: true } | { valid: false; problems: string[] };
+
+// status is the HTTP status to report: 400 when the new nameservers failed the delegation check
+export type NsModeResult = { success: true; deleted: number } | { success: false; error: string; status: number };
+
+export interface DsRecordInput {
+  key_tag?: number;
+  algorithm?: number;
+  digest_type?: number;
+  digest?: string;
+  ttl?: number;
+}
+
+export type DsRecordResult = { valid: true; content: string; ttl: number } | { valid: false; error: string };
+
+function normalizeHost(host: string): string {
+  return host.trim().toLowerCase().replace(/\.$/, '');
+}
+
+// Validate a nameserver list: lowercase hostnames without the trailing dot, no duplicates
+export function parseNameservers(input: unknown): NameserverList {
+  if (!Array.isArray(input)) {
+    return { valid: false, error: 'Missing or invalid nameservers array' };
+  }
+  if (input.length < MIN_NAMESERVERS) {
+    return { valid: false, error: `At least ${MIN_NAMESERVERS} nameservers are required` };
+  }
+  if (input.length > MAX_NAMESERVERS) {
+    return { valid: false, error: `Maximum ${MAX_NAMESERVERS} nameservers allowed` };
+  }
+
+  const errors: string[] = [];
+  const nameservers: string[] = [];
+
+  input.forEach((ns, i) => {
+    if (typeof ns !== 'string') {
+      errors.push(`nameservers[${i}]: Must be a string`);
+      return;
+    }
+
+    const validation = validateNameserver(ns.trim());
+    if (!validation.valid) {
+      errors.push(`nameservers[${i}]: ${validation.error}`);
+      return;
+    }
+
+    nameservers.push(normalizeHost(ns));
+  });
+
+  if (new Set(nameservers).size !== nameservers.length) {
+    errors.push('Duplicate nameservers are not allowed');
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, error: `Validation errors:\n${errors.join('\n')}` };
+  }
+
+  return { valid: true, nameservers };
+}
+
+// Validate a DS record submitted as separate fields; content is returned in presentation format
+export function parseDsRecord(input: DsRecordInput): DsRecordResult {
+  const { key_tag, algorithm, digest_type, digest, ttl = NS_RECORD_TTL } = input;
+
+  if (!Number.isInteger(key_tag) || !Number.isInteger(algorithm) || !Number.isInteger(digest_type)) {
+    return { valid: false, error: 'key_tag, algorithm and digest_type must be integers' };
+  }
+  if (!digest || typeof digest !== 'string') {
+    return { valid: false, error: 'Missing or invalid digest' };
+  }
+  if (!Number.isInteger(ttl) || ttl < 60 || ttl > 86400) {
+    return { valid: false, error: 'TTL must be between 60 and 86400 seconds' };
+  }
+
+  const content = formatDsContent(key_tag!, algorithm!, digest_type!, digest);
+  const validation = validateDNSRecordContent('DS', content);
+  if (!validation.valid) {
+    return { valid: false, error: validation.error! };
+  }
+
+  return { valid: true, content, ttl };
+}
+
+// DS rows as returned to clients: presentation content plus its fields
+export function toDsRecordResponse(record: DnsRecord) {
+  const ds = parseDsContent(record.content);
+  return {
+    id: record.id,
+    content: record.content,
+    key_tag: ds?.keyTag,
+    algorithm: ds?.algorithm,
+    digest_type: ds?.digestType,
+    digest: ds?.digest,
+    ttl: record.ttl,
+    created_at: record.created_at,
+    updated_at: record.updated_at,
+  };
+}
+
+// Whether the user may switch to NS mode without admin approval
+export async function canDelegateNs(db: D1Database, linuxdoId: number, trustLevel: number): Promise<boolean> {
+  const minTrustLevel = parseInt(await getSetting('ns_min_trust_level', db, '3'), 10);
+  if (!isNaN(minTrustLevel) && trustLevel >= minTrustLevel) {
+    return true;
+  }
+
+  const user = await db.prepare(
+    'SELECT is_admin FROM users WHERE linuxdo_id = ?'
+  ).bind(linuxdoId).first<{ is_admin: number }>();
+
+  return user?.is_admin === 1;
+}
+
+// Record changes are made on the user's nameservers while the domain is delegated
+export function requireDirectMode(domain: Domain): Response | null {
+  return domain.dns_mode === 'ns' ? errorResponse(NS_MODE_ERROR, 409) : null;
+}
+
+// DS records only make sense next to a delegation
+export function requireNsMode(domain: Domain): Response | null {
+  return domain.dns_mode !== 'ns' ? errorResponse(DIRECT_MODE_ERROR, 409) : null;
+}
+
+// Check the nameservers before delegating, so the domain does not end up with a lame delegation:
+// - a nameserver inside the domain itself would need glue records, which are not published
+// - the registry's own nameservers do not serve user zones
+// - every nameserver must resolve to an address, and not through a CNAME (RFC 2181 10.3)
+// Whether they serve the zone can only be seen once the delegation is published, see verifyDelegation
+export async function checkNameservers(
+  resolver: DnsResolver,
+  fqdn: string,
+  nameservers: string[],
+  baseDomain: string
+): Promise<NameserverCheck> {
+  let registryNameservers: string[];
+  try {
+    const parent = await resolver.query(baseDomain, 'NS');
+    registryNameservers = parent.answers.filter(a => a.type === DNS_TYPES.NS).map(a => normalizeHost(a.data));
+  } catch (e) {
+    return { valid: false, problems: [`Could not look up the nameservers of ${baseDomain}: ${e instanceof Error ? e.message : String(e)}`] };
+  }
+
+  const problems: string[] = [];
+
+  for (const ns of nameservers) {
+    if (ns === fqdn || ns.endsWith(`.${fqdn}`)) {
+      problems.push(`${ns}: is inside ${fqdn} and would need glue records, use a nameserver under another domain`);
+      continue;
+    }
+    if (registryNameservers.includes(ns)) {
+      problems.push(`${ns}: is a nameserver of ${baseDomain} itself`);
+      continue;
+    }
+
+    try {
+      const [a, aaaa] = await Promise.all([resolver.query(ns, 'A'), resolver.query(ns, 'AAAA')]);
+      const answers = [...a.answers, ...aaaa.answers];
+
+      if (answers.some(answer => answer.type === DNS_TYPES.CNAME)) {
+        problems.push(`${ns}: is an alias (CNAME), nameservers need their own A/AAAA records`);
+      } else if (!answers.some(answer => answer.type === DNS_TYPES.A || answer.type === DNS_TYPES.AAAA)) {
+        problems.push(`${ns}: does not resolve to an address${a.rcode !== DNS_NOERROR ? ` (rcode ${a.rcode})` : ''}`);
+      }
+    } catch (e) {
+      problems.push(`${ns}: lookup failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  if (problems.length > 0) {
+    return { valid: false, problems };
+  }
+
+  return { valid: true };
+}
+
+// Look the domain up through the published delegation: the nameservers must answer with an SOA for it
+// and list exactly the delegated nameservers in its NS set, or the delegation is lame
+// Returns the problems of the last attempt, empty when the delegation works
+export async function verifyDelegation(
+  resolver: DnsResolver,
+  fqdn: string,
+  nameservers: string[],
+  options: { attempts?: number; delayMs?: number } = {}
+): Promise<string[]> {
+  const { attempts = VERIFY_ATTEMPTS, delayMs = VERIFY_DELAY_MS } = options;
+  let problems: string[] = [];
+
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    if (attempt > 1) {
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+
+    problems = await lookUpDelegation(resolver, fqdn, nameservers);
+    if (problems.length === 0) {
+      break;
+    }
+  }
+
+  return problems;
+}
+
+async function lookUpDelegation(resolver: DnsResolver, fqdn: string, nameservers: string[]): Promise<string[]> {
+  let soa, ns;
+  try {
+    [soa, ns] = await Promise.all([resolver.query(fqdn, 'SOA'), resolver.query(fqdn, 'NS')]);
+  } catch (e) {
+    return [`Could not look up ${fqdn}: ${e instanceof Error ? e.message : String(e)}`];
+  }
+
+  if (soa.rcode === DNS_SERVFAIL || soa.rcode === DNS_REFUSED) {
+    return [`${fqdn}: the nameservers do not answer for the domain (rcode ${soa.rcode}), configure the zone on them first`];
+  }
+  if (soa.rcode !== DNS_NOERROR) {
+    return [`${fqdn}: SOA lookup failed (rcode ${soa.rcode})`];
+  }
+
+  const problems: string[] = [];
+  if (!soa.answers.some(a => a.type === DNS_TYPES.SOA && normalizeHost(a.name) === fqdn)) {
+    problems.push(`${fqdn}: the nameservers return no SOA record for the domain`);
+  }
+
+  const served = ns.answers.filter(a => a.type === DNS_TYPES.NS).map(a => normalizeHost(a.data));
+  const matches = served.length === nameservers.length && nameservers.every(n => served.includes(n));
+  if (!matches) {
+    problems.push(`${fqdn}: the nameservers list ${served.length > 0 ? served.join(', ') : 'no NS records'} instead of ${nameservers.join(', ')}`);
+  }
+
+  return problems;
+}
+
+// Point the domain at the nameservers; in direct mode every record is torn down in the same changeset,
+// so Cloudflare never serves records next to the delegation and a failure leaves the old zone in place
+// Changing the nameservers of a delegated domain keeps its DS records
+// The change is undone unless the domain then resolves through the new nameservers (verifyDelegation)
+export async function applyNameservers(
+  env: Env,
+  domain: Domain,
+  nameservers: string[],
+  resolver: DnsResolver = createResolver(env)
+): Promise<NsModeResult> {
+  const { results } = await env.DB.prepare(
+    'SELECT * FROM dns_records WHERE domain_id = ?'
+  ).bind(domain.id).all<DnsRecord>();
+
+  const existing = results || [];
+  const kept = existing.filter(r => r.type === 'DS' || (r.type === 'NS' && nameservers.includes(normalizeHost(r.content))));
+  const keptHosts = kept.filter(r => r.type === 'NS').map(r => normalizeHost(r.content));
+
+  const changeset: DnsChangeset = {
+    create: nameservers.filter(ns => !keptHosts.includes(ns)).map(ns => ({
+      type: 'NS',
+      name: '@',
+      content: ns,
+      ttl: NS_RECORD_TTL,
+      proxied: false,
+      priority: null,
+    })),
+    update: [],
+    delete: existing.filter(r => !kept.includes(r)),
+  };
+
+  return applyModeChangeset(env, domain, changeset, async () => {
+    const problems = await verifyDelegation(resolver, domain.fqdn, nameservers);
+    return problems.length > 0 ? `Delegation check failed:\n${problems.join('\n')}` : null;
+  });
+}
+
+// Remove the delegation and its DS records; the domain is back in direct mode with an empty zone
+export async function removeNameservers(env: Env, domain: Domain): Promise<NsModeResult> {
+  const { results } = await env.DB.prepare(
+    "SELECT * FROM dns_records WHERE domain_id = ? AND type IN ('NS', 'DS')"
+  ).bind(domain.id).all<DnsRecord>();
+
+  return applyModeChangeset(env, domain, { create: [], update: [], delete: results || [] });
+}
+
+async function applyModeChangeset(
+  env: Env,
+  domain: Domain,
+  changeset: DnsChangeset,
+  verify?: () => Promise<string | null>
+): Promise<NsModeResult> {
+  if (changeset.create.length === 0 && changeset.delete.length === 0) {
+    return { success: true, deleted: 0 };
+  }
+
+  const cfClient = new CloudflareDNSClient(env.CLOUDFLARE_API_TOKEN, env.CLOUDFLARE_ZONE_ID);
+  const result = await applyDnsChangeset(env.DB, cfClient, domain, changeset, { verify });
+
+  if (!result.success) {
+    return {
+      success: false,
+      error: result.rolledBack
+        ? `Nameserver change failed and was rolled back: ${result.error}`
+        : `Nameserver change failed and could not be fully rolled back: ${result.error}`,
+      status: result.verificationFailed && result.rolledBack ? 400 : 500,
+    };
+  }
+
+  return { success: true, deleted: changeset.delete.filter(r => r.type !== 'NS' && r.type !== 'DS').length };
+}
@@ -0,0 +1,308 @@
+// Order activation shared by the payment callback and reconciliation
+
+import type { Env, Order, PendingReview, DomainTransfer } from './types';
+import { createNotification } from './notifications';
+import { addBlockchainLog, BlockchainActions } from './blockchain';
+import { getLifecycleSettings, applyRenewal } from './domain-lifecycle';
+import { completeTransfer } from './transfers';
+import { refundPaidOrder } from './refunds';
+import { getDomainQuota } from './domains';
+
+export interface PaymentInfo {
+  tradeNo: string;
+  money: string;
+  ip: string | null;
+  source: 'notify' | 'reconciliation';
+}
+
+export type ActivationResult =
+  | 'registered'
+  | 'pending_review'
+  | 'renewed'
+  | 'renew_domain_not_found'
+  | 'transferred'
+  | 'transfer_failed'
+  | 'quota_exceeded'
+  | 'already_paid';
+
+// Check the paid amount against the order amount
+export function amountMatches(order: Order, money: string): boolean {
+  return order.amount.toFixed(2) === parseFloat(money).toFixed(2);
+}
+
+// Mark an order as paid and create (or renew, or transfer) its domain
+// Throws on database errors so the caller can retry
+export async function completePaidOrder(env: Env, order: Order, payment: PaymentInfo): Promise<ActivationResult> {
+  const baseDomain = env.BASE_DOMAIN || 'py.kg';
+  const fqdn = `${order.label}.${baseDomain}`;
+  const tag = payment.source === 'notify' ? '[Payment Notify]' : '[Reconciliation]';
+
+  console.log(`${tag} 💾 Updating order status to paid...`);
+
+  // Only one of notify / reconciliation may activate an order; refunded orders stay refunded
+  const updateResult = await env.DB.prepare(`
+    UPDATE orders SET status = 'paid', trade_no = ?, paid_at = datetime('now')
+    WHERE order_no = ? AND status NOT IN ('paid', 'refunded')
+  `).bind(payment.tradeNo, order.order_no).run();
+
+  if (!updateResult.meta.changes) {
+    console.log(`${tag} Order was already marked paid (or refunded) concurrently:`, order.order_no);
+    return 'already_paid';
+  }
+
+  console.log(`${tag} ✅ Order updated successfully:`, {
+    order_no: order.order_no,
+    trade_no: payment.tradeNo,
+    new_status: 'paid'
+  });
+
+  if ((order.order_type || 'register') === 'renew') {
+    console.log(`${tag} 🔁 Applying renewal:`, fqdn);
+
+    const renewed = await applyRenewal(env, order);
+    if (!renewed) {
+      // Domain was released or deleted before payment arrived - refund via admin orders
+      console.error(`${tag} ❌ Domain for renewal order not found:`, fqdn);
+    }
+
+    // Log the renewal
+    await env.DB.prepare(`
+      INSERT INTO audit_logs (linuxdo_id, action, target, details, ip_address, created_at)
+      VALUES (?, ?, ?, ?, ?, datetime('now'))
+    `).bind(
+      order.linuxdo_id,
+      'domain_renew',
+      fqdn,
+      JSON.stringify({
+        order_no: order.order_no,
+        trade_no: payment.tradeNo,
+        amount: payment.money,
+        source: payment.source,
+        expires_at: renewed?.expires_at || null,
+        result: renewed ? 'renewed' : 'domain_not_found',
+      }),
+      payment.ip
+    ).run();
+
+    console.log(`${tag} 🎉 Renewal processed:`, fqdn, renewed?.expires_at);
+    return renewed ? 'renewed' : 'renew_domain_not_found';
+  }
+
+  if (order.order_type === 'transfer') {
+    console.log(`${tag} 🔀 Completing transfer:`, fqdn);
+
+    const transfer = await env.DB.prepare(
+      'SELECT * FROM domain_transfers WHERE order_no = ? AND status = ?'
+    ).bind(order.order_no, 'awaiting_payment').first<DomainTransfer>();
+
+    const result = transfer
+      ? await completeTransfer(env, transfer, payment.ip)
+      : { success: false as const, error: 'Transfer is no longer awaiting payment' };
+
+    if (result.success) {
+      console.log(`${tag} 🎉 Transfer completed:`, fqdn);
+      return 'transferred';
+    }
+
+    // The fee was paid but the domain can't move anymore - give the money back
+    console.error(`${tag} ❌ Transfer failed after payment:`, fqdn, result.error);
+
+    if (transfer) {
+      await env.DB.prepare(
+        "UPDATE domain_transfers SET status = 'cancelled' WHERE id = ? AND status = 'awaiting_payment'"
+      ).bind(transfer.id).run();
+    }
+
+    const refund = await refundPaidOrder(env, { ...order, status: 'paid', trade_no: payment.tradeNo }, {
+      reason: `域名转移失败：${result.error}`,
+      actorName: null,
+    });
+
+    // Log the failed transfer
+    await env.DB.prepare(`
+      INSERT INTO audit_logs (linuxdo_id, action, target, details, ip_address, created_at)
+      VALUES (?, ?, ?, ?, ?, datetime('now'))
+    `).bind(
+      order.linuxdo_id,
+      'domain_transfer_failed',
+      fqdn,
+      JSON.stringify({
+        order_no: order.order_no,
+        trade_no: payment.tradeNo,
+        amount: payment.money,
+        source: payment.source,
+        error: result.error,
+        refunded: refund.success,
+        refund_msg: refund.msg,
+      }),
+      payment.ip
+    ).run();
+
+    return 'transfer_failed';
+  }
+
+  // Orders are checked against the quota when created, but several can be paid before any domain exists
+  const quota = await getDomainQuota(env.DB, order.linuxdo_id);
+  if (quota.used >= quota.limit) {
+    console.error(`${tag} ❌ Domain quota reached, refunding order:`, order.order_no, quota);
+    return refundOverQuotaOrder(env, order, payment, quota.limit);
+  }
+
+  const { termDays } = await getLifecycleSettings(env.DB);
+
+  console.log(`${tag} 🔍 Checking for pending review...`);
+
+  // Check if there's a pending review for this order
+  const pendingReview = await env.DB.prepare(
+    'SELECT * FROM pending_reviews WHERE order_no = ? AND status = ?'
+  ).bind(order.order_no, 'pending').first<PendingReview>();
+
+  // Get user info for blockchain log
+  const user = await env.DB.prepare(
+    'SELECT username FROM users WHERE linuxdo_id = ?'
+  ).bind(order.linuxdo_id).first<{ username: string }>();
+
+  if (pendingReview) {
+    console.log(`${tag} ⚠️ Domain requires manual review, creating domain with review status`);
+
+    // Create domain immediately with 'review' status
+    await env.DB.prepare(`
+      INSERT INTO domains (label, fqdn, owner_linuxdo_id, python_praise, usage_purpose, status, review_reason, expires_at, created_at)
+      VALUES (?, ?, ?, ?, ?, 'review', ?, datetime('now', '+' || ? || ' days'), datetime('now'))
+    `).bind(order.label, fqdn, order.linuxdo_id, order.python_praise, order.usage_purpose, pendingReview.reason, termDays).run();
+
+    console.log(`${tag} ✅ Domain created with review status:`, fqdn);
+
+    // Send notification to user
+    await createNotification(
+      env.DB,
+      order.linuxdo_id,
+      'domain_pending_review',
+      '域名创建成功，等待审核',
+      `您的域名 ${fqdn} 已成功创建，正在等待管理员审核。审核原因：${pendingReview.reason}`
+    );
+
+    // Log the payment
+    await env.DB.prepare(`
+      INSERT INTO audit_logs (linuxdo_id, action, target, details, ip_address, created_at)
+      VALUES (?, ?, ?, ?, ?, datetime('now'))
+    `).bind(
+      order.linuxdo_id,
+      'order_paid',
+      fqdn,
+      JSON.stringify({
+        order_no: order.order_no,
+        trade_no: payment.tradeNo,
+        amount: payment.money,
+        source: payment.source,
+        status: 'pending_review',
+      }),
+      payment.ip
+    ).run();
+
+    // Add blockchain log for domain registration (pending review)
+    await addBlockchainLog(env.DB, {
+      action: BlockchainActions.DOMAIN_REGISTER,
+      actorName: user?.username || null,
+      targetType: 'domain',
+      targetName: fqdn,
+      result: 'pending_review',
+      details: {
+        amount: payment.money,
+        review_reason: pendingReview.reason,
+      },
+    });
+
+    console.log(`${tag} ✅ Payment logged, domain pending review:`, fqdn);
+    return 'pending_review';
+  }
+
+  console.log(`${tag} 🌐 Creating domain:`, fqdn);
+
+  // No review needed, create domain directly as active
+  await env.DB.prepare(`
+    INSERT INTO domains (label, fqdn, owner_linuxdo_id, python_praise, usage_purpose, status, expires_at, created_at)
+    VALUES (?, ?, ?, ?, ?, 'active', datetime('now', '+' || ? || ' days'), datetime('now'))
+  `).bind(order.label, fqdn, order.linuxdo_id, order.python_praise, order.usage_purpose, termDays).run();
+
+  console.log(`${tag} ✅ Domain created successfully in database`);
+
+  // Log the action
+  await env.DB.prepare(`
+    INSERT INTO audit_logs (linuxdo_id, action, target, details, ip_address, created_at)
+    VALUES (?, ?, ?, ?, ?, datetime('now'))
+  `).bind(
+    order.linuxdo_id,
+    'domain_register',
+    fqdn,
+    JSON.stringify({
+      order_no: order.order_no,
+      trade_no: payment.tradeNo,
+      amount: payment.money,
+      source: payment.source,
+    }),
+    payment.ip
+  ).run();
+
+  // Add blockchain log for domain registration
+  await addBlockchainLog(env.DB, {
+    action: BlockchainActions.DOMAIN_REGISTER,
+    actorName: user?.username || null,
+    targetType: 'domain',
+    targetName: fqdn,
+    details: {
+      amount: payment.money,
+    },
+  });
+
+  console.log(`${tag} 🎉 Domain registered successfully:`, fqdn);
+  return 'registered';
+}
+
+// The user already holds as many domains as allowed: give the money back instead of creating the domain
+async function refundOverQuotaOrder(env: Env, order: Order, payment: PaymentInfo, limit: number): Promise<ActivationResult> {
+  const fqdn = `${order.label}.${env.BASE_DOMAIN || 'py.kg'}`;
+
+  await env.DB.prepare(`
+    UPDATE pending_reviews
+    SET status = 'rejected', reviewed_at = datetime('now')
+    WHERE order_no = ? AND status = 'pending'
+  `).bind(order.order_no).run();
+
+  const refund = await refundPaidOrder(env, { ...order, status: 'paid', trade_no: payment.tradeNo }, {
+    reason: `域名数量已达上限（${limit} 个），${fqdn} 未创建`,
+    actorName: null,
+  });
+
+  if (!refund.success) {
+    // Left as 'paid' with refund_result set; an admin retries from the orders page
+    await createNotification(
+      env.DB,
+      order.linuxdo_id,
+      'domain_rejected',
+      '域名未创建',
+      `您的域名数量已达上限（${limit} 个），订单 ${order.order_no}（${fqdn}）未创建域名。自动退款失败，管理员将尽快为您处理退款。`
+    );
+  }
+
+  await env.DB.prepare(`
+    INSERT INTO audit_logs (linuxdo_id, action, target, details, ip_address, created_at)
+    VALUES (?, ?, ?, ?, ?, datetime('now'))
+  `).bind(
+    order.linuxdo_id,
+    'order_quota_exceeded',
+    fqdn,
+    JSON.stringify({
+      order_no: order.order_no,
+      trade_no: payment.tradeNo,
+      amount: payment.money,
+      source: payment.source,
+      limit,
+      refunded: refund.success,
+      refund_msg: refund.msg,
+    }),
+    payment.ip
+  ).run();
+
+  return 'quota_exceeded';
+}
@@ -0,0 +1,126 @@
+// Rate limiting for routes that spend Cloudflare API quota or AI tokens
+// Each request counts against two fixed-window buckets, one per user and one per client IP;
+// budgets come from the rate_limits setting, falling back to the defaults below
+
+import { errorResponse } from './auth';
+import { getSetting } from './moderation';
+
+export type RateLimitRoute = 'dns_records' | 'reports' | 'messages' | 'agent_chat';
+
+export interface RateLimitBudget {
+  limit: number;   // requests allowed per window
+  window: number;  // window length in seconds
+}
+
+export const DEFAULT_RATE_LIMITS: Record<RateLimitRoute, RateLimitBudget> = {
+  dns_records: { limit: 30, window: 60 },
+  reports: { limit: 5, window: 3600 },
+  messages: { limit: 20, window: 600 },
+  agent_chat: { limit: 20, window: 600 },
+};
+
+export const RATE_LIMIT_ROUTES = Object.keys(DEFAULT_RATE_LIMITS) as RateLimitRoute[];
+
+// Parse the rate_limits setting: {"<route>": {"limit": <n>, "window": <seconds>}, ...}
+export function parseRateLimits(value: string): Partial<Record<RateLimitRoute, RateLimitBudget>> | null {
+  try {
+    const parsed = JSON.parse(value);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      return null;
+    }
+
+    const budgets: Partial<Record<RateLimitRoute, RateLimitBudget>> = {};
+    for (const [route, budget] of Object.entries(parsed)) {
+      if (!RATE_LIMIT_ROUTES.includes(route as RateLimitRoute) || !budget || typeof budget !== 'object') {
+        return null;
+      }
+      const { limit, window } = budget as Record<string, unknown>;
+      if (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1 || limit > 10000) {
+        return null;
+      }
+      if (typeof window !== 'number' || !Number.isInteger(window) || window < 1 || window > 86400) {
+        return null;
+      }
+      budgets[route as RateLimitRoute] = { limit, window };
+    }
+    return budgets;
+  } catch {
+    return null;
+  }
+}
+
+// Budgets for every route, configured ones taking precedence over the defaults
+export async function getRateLimits(db: D1Database): Promise<Record<RateLimitRoute, RateLimitBudget>> {
+  const configured = parseRateLimits(await getSetting('rate_limits', db, '') || '{}');
+  return { ...DEFAULT_RATE_LIMITS, ...configured };
+}
+
+// Count one request in the bucket's current window and return the new count
+async function hit(db: D1Database, bucket: string, windowStart: number): Promise<number> {
+  const row = await db.prepare(`
+    INSERT INTO rate_limits (bucket, window_start, count) VALUES (?, ?, 1)
+    ON CONFLICT (bucket, window_start) DO UPDATE SET count = count + 1
+    RETURNING count
+  `).bind(bucket, windowStart).first<{ count: number }>();
+
+  return row?.count ?? 1;
+}
+
+// Delete every window that has ended for all routes, including buckets that never come back
+async function purgeExpiredWindows(db: D1Database, budgets: Record<RateLimitRoute, RateLimitBudget>, now: number): Promise<void> {
+  const longest = Math.max(...Object.values(budgets).map(budget => budget.window));
+  await db.prepare('DELETE FROM rate_limits WHERE window_start < ?').bind(now - longest).run();
+}
+
+// Returns a 429 response when the user or their IP is over budget, otherwise null
+// Crossing the limit is written to audit_logs once per window, which checkUserAbuse counts
+export async function checkRateLimit(
+  db: D1Database,
+  request: Request,
+  route: RateLimitRoute,
+  linuxdoId: number
+): Promise<Response | null> {
+  try {
+    const budgets = await getRateLimits(db);
+    const { limit, window } = budgets[route];
+    const now = Math.floor(Date.now() / 1000);
+    const windowStart = now - (now % window);
+
+    const ip = request.headers.get('CF-Connecting-IP');
+    const counts = [await hit(db, `${route}:user:${linuxdoId}`, windowStart)];
+    if (ip) {
+      counts.push(await hit(db, `${route}:ip:${ip}`, windowStart));
+    }
+
+    // Purging on the first hit of a new window keeps it to about once per window per client
+    if (counts.includes(1)) {
+      await purgeExpiredWindows(db, budgets, now);
+    }
+
+    if (counts.every(count => count <= limit)) {
+      return null;
+    }
+
+    if (counts.some(count => count === limit + 1)) {
+      await db.prepare(`
+        INSERT INTO audit_logs (linuxdo_id, action, target, details, ip_address, created_at)
+        VALUES (?, ?, ?, ?, ?, datetime('now'))
+      `).bind(
+        linuxdoId,
+        'rate_limited',
+        route,
+        JSON.stringify({ limit, window }),
+        ip
+      ).run();
+    }
+
+    const retryAfter = windowStart + window - now;
+    const response = errorResponse(`Too many requests, try again in ${retryAfter} seconds`, 429);
+    response.headers.set('Retry-After', String(retryAfter));
+    return response;
+  } catch (e) {
+    // A broken counter should not take the routes down with it
+    console.error('Rate limit check failed:', e);
+    return null;
+  }
+}
@@ -0,0 +1,167 @@
+// RDAP (RFC 9083) responses for the registry's domains
+// Public and unauthenticated: the registrant is shown by username only, like /api/whois
+
+import type { Domain, DnsRecord } from './types';
+import { parseDsContent } from './cloudflare-dns';
+
+export const RDAP_CONFORMANCE = ['rdap_level_0', 'redacted'];
+
+// Statuses visible over RDAP, the same set /api/whois answers for
+export const RDAP_VISIBLE_STATUSES: Domain['status'][] = ['active', 'suspended', 'review', 'grace', 'redemption'];
+
+// domains.status -> RDAP status values (RFC 9083 section 10.2.2)
+const STATUS_MAP: Record<Domain['status'], string[]> = {
+  pending: ['inactive', 'pending create'],
+  review: ['inactive', 'pending create'],
+  active: ['active'],
+  suspended: ['inactive', 'server hold'],
+  // Expired but still resolving; the owner can renew at the normal price
+  grace: ['active', 'auto renew period'],
+  // Records are unpublished until the domain is redeemed or released
+  redemption: ['inactive', 'redemption period'],
+};
+
+export interface RdapDomainData {
+  domain: Domain;
+  username: string | null;
+  records: DnsRecord[];
+  lastChanged: string | null;
+  transferPending: boolean;
+}
+
+// D1 datetimes are UTC "YYYY-MM-DD HH:MM:SS"; RDAP wants RFC 3339
+export function toRdapDate(value: string): string {
+  return value.includes('T') ? value : `${value.replace(' ', 'T')}Z`;
+}
+
+export function rdapStatus(domain: Domain, transferPending: boolean): string[] {
+  const status = [...STATUS_MAP[domain.status]];
+  if (transferPending) {
+    status.push('pending transfer');
+  }
+  return status;
+}
+
+function rdapNotices(origin: string) {
+  return [
+    {
+      title: 'Terms of Use',
+      description: [
+        'Registration data is provided for information only and may not be used for bulk collection.',
+        'Registrant contact details other than the username are not disclosed.',
+      ],
+      links: [{
+        value: `${origin}/rdap/help`,
+        rel: 'terms-of-service',
+        href: `${origin}/terms.html`,
+        type: 'text/html',
+      }],
+    },
+  ];
+}
+
+export function buildRdapDomain(origin: string, data: RdapDomainData) {
+  const { domain, username, records } = data;
+  const self = `${origin}/rdap/domain/${domain.fqdn}`;
+
+  const events: Array<{ eventAction: string; eventDate: string }> = [
+    { eventAction: 'registration', eventDate: toRdapDate(domain.created_at) },
+  ];
+  if (data.lastChanged) {
+    events.push({ eventAction: 'last changed', eventDate: toRdapDate(data.lastChanged) });
+  }
+  if (domain.expires_at) {
+    events.push({ eventAction: 'expiration', eventDate: toRdapDate(domain.expires_at) });
+  }
+  events.push({ eventAction: 'last update of RDAP database', eventDate: new Date().toISOString() });
+
+  const dsData = records
+    .filter(r => r.type === 'DS')
+    .map(r => parseDsContent(r.content))
+    .filter(ds => ds !== null)
+    .map(ds => ({ keyTag: ds!.keyTag, algorithm: ds!.algorithm, digestType: ds!.digestType, digest: ds!.digest }));
+
+  const response: Record<string, unknown> = {
+    rdapConformance: RDAP_CONFORMANCE,
+    objectClassName: 'domain',
+    handle: `PYKG-${domain.id}`,
+    ldhName: domain.fqdn,
+    status: rdapStatus(domain, data.transferPending),
+    events,
+    entities: [
+      {
+        objectClassName: 'entity',
+        roles: ['registrant'],
+        vcardArray: ['vcard', [
+          ['version', {}, 'text', '4.0'],
+          ['fn', {}, 'text', username || 'Unknown'],
+        ]],
+      },
+    ],
+    secureDNS: {
+      delegationSigned: dsData.length > 0,
+      ...(dsData.length > 0 ? { dsData } : {}),
+    },
+    // The LinuxDO ID is never disclosed (RFC 9537)
+    redacted: [
+      {
+        name: { type: 'Registrant ID' },
+        method: 'removal',
+        reason: { description: 'Server policy' },
+      },
+    ],
+    links: [{ value: self, rel: 'self', href: self, type: 'application/rdap+json' }],
+    notices: rdapNotices(origin),
+  };
+
+  // Only delegated domains have nameservers of their own; direct-mode domains are served by the registry
+  const nameservers = records.filter(r => r.type === 'NS').map(r => r.content);
+  if (nameservers.length > 0) {
+    response.nameservers = nameservers.map(ns => ({ objectClassName: 'nameserver', ldhName: ns }));
+  }
+
+  if (domain.status === 'suspended' && domain.suspend_reason) {
+    response.remarks = [{ title: 'Suspension', description: [domain.suspend_reason] }];
+  }
+
+  return response;
+}
+
+export function buildRdapHelp(origin: string, baseDomain: string) {
+  return {
+    rdapConformance: RDAP_CONFORMANCE,
+    notices: [
+      {
+        title: 'RDAP Help',
+        description: [
+          `RDAP service for ${baseDomain} second-level domains.`,
+          `Look up a domain with GET ${origin}/rdap/domain/<name>.${baseDomain}`,
+          'No authentication is required. Only domain lookups are supported.',
+        ],
+        links: [{ value: `${origin}/rdap/help`, rel: 'self', href: `${origin}/rdap/help`, type: 'application/rdap+json' }],
+      },
+      ...rdapNotices(origin),
+    ],
+  };
+}
+
+// RDAP clients are often browser extensions, so responses allow any origin
+export function rdapResponse(data: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: {
+      'Content-Type': 'application/rdap+json',
+      'Access-Control-Allow-Origin': '*',
+    },
+  });
+}
+
+// Error body (RFC 9083 section 6)
+export function rdapError(status: number, title: string, description?: string): Response {
+  return rdapResponse({
+    rdapConformance: RDAP_CONFORMANCE,
+    errorCode: status,
+    title,
+    ...(description ? { description: [description] } : {}),
+  }, status);
+}
@@ -0,0 +1,174 @@
+// Payment reconciliation for orders whose notify callback never arrived
+
+import type { Env, Order, ReconciliationRun } from './types';
+import { LinuxDOCreditClient } from './credit';
+import { getSetting } from './moderation';
+import { completePaidOrder, amountMatches } from './payments';
+
+// Orders younger than this are left to the notify callback
+const MIN_ORDER_AGE_MINUTES = 10;
+// Credit API calls per run, to stay within the Workers subrequest limit
+const MAX_ORDERS_PER_RUN = 40;
+
+export interface ReconciliationItem {
+  order_no: string;
+  label: string;
+  order_type: string;
+  amount: number;
+  outcome: 'activated' | 'expired' | 'pending' | 'query_failed' | 'amount_mismatch' | 'error';
+  detail?: string;
+}
+
+export interface ReconciliationReport {
+  id: number;
+  triggered_by: string;
+  checked: number;
+  activated: number;
+  expired: number;
+  still_pending: number;
+  errors: number;
+  items: ReconciliationItem[];
+}
+
+// Query stale pending orders, complete the paid ones and expire the abandoned ones
+// Orders are checked least recently checked first, so orders that stay pending rotate instead of filling every run
+export async function runPaymentReconciliation(
+  env: Env,
+  triggeredBy: string,
+  creditClient: LinuxDOCreditClient = new LinuxDOCreditClient({
+    pid: env.CREDIT_PID,
+    key: env.CREDIT_KEY,
+    notifyUrl: '',
+    returnUrl: '',
+  })
+): Promise<ReconciliationReport> {
+  const expireHours = parseInt(await getSetting('order_expire_hours', env.DB, '24'), 10) || 24;
+
+  const runResult = await env.DB.prepare(`
+    INSERT INTO reconciliation_runs (triggered_by, started_at) VALUES (?, datetime('now'))
+  `).bind(triggeredBy).run();
+  const runId = runResult.meta.last_row_id as number;
+
+  const { results: orders } = await env.DB.prepare(`
+    SELECT * FROM orders
+    WHERE status = 'pending' AND created_at <= datetime('now', '-' || ? || ' minutes')
+    ORDER BY reconcile_checked_at ASC, created_at ASC
+    LIMIT ?
+  `).bind(MIN_ORDER_AGE_MINUTES, MAX_ORDERS_PER_RUN).all<Order>();
+
+  const items: ReconciliationItem[] = [];
+  const expireBefore = Date.now() - expireHours * 60 * 60 * 1000;
+
+  for (const order of orders || []) {
+    const item: ReconciliationItem = {
+      order_no: order.order_no,
+      label: order.label,
+      order_type: order.order_type || 'register',
+      amount: order.amount,
+      outcome: 'pending',
+    };
+
+    try {
+      await env.DB.prepare(
+        "UPDATE orders SET reconcile_checked_at = datetime('now') WHERE order_no = ?"
+      ).bind(order.order_no).run();
+
+      const result = await creditClient.queryOrder(order.trade_no || '', order.order_no);
+
+      if (!result) {
+        // Unknown state - never expire an order we could not check
+        item.outcome = 'query_failed';
+      } else if (result.code === 1 && result.status === 1) {
+        if (!amountMatches(order, result.money)) {
+          item.outcome = 'amount_mismatch';
+          item.detail = `expected ${order.amount.toFixed(2)}, paid ${result.money}`;
+        } else {
+          const activation = await completePaidOrder(env, order, {
+            tradeNo: result.trade_no,
+            money: result.money,
+            ip: null,
+            source: 'reconciliation',
+          });
+          item.outcome = 'activated';
+          item.detail = activation;
+        }
+      } else {
+        // Not paid (or unknown to the platform because the user never opened the payment page)
+        const createdAt = new Date(order.created_at.replace(' ', 'T') + 'Z').getTime();
+        if (createdAt <= expireBefore) {
+          await env.DB.prepare(
+            "UPDATE orders SET status = 'failed' WHERE order_no = ? AND status = 'pending'"
+          ).bind(order.order_no).run();
+
+          // Drop the review request of an order that was never paid
+          await env.DB.prepare(`
+            UPDATE pending_reviews
+            SET status = 'rejected', reviewed_at = datetime('now')
+            WHERE order_no = ? AND status = 'pending'
+          `).bind(order.order_no).run();
+
+          item.outcome = 'expired';
+        }
+        item.detail = result.msg;
+      }
+    } catch (e) {
+      console.error('[Reconciliation] Failed to reconcile order:', order.order_no, e);
+      item.outcome = 'error';
+      item.detail = e instanceof Error ? e.message : String(e);
+    }
+
+    items.push(item);
+  }
+
+  const count = (outcome: ReconciliationItem['outcome']) => items.filter(i => i.outcome === outcome).length;
+  const report: ReconciliationReport = {
+    id: runId,
+    triggered_by: triggeredBy,
+    checked: items.length,
+    activated: count('activated'),
+    expired: count('expired'),
+    still_pending: count('pending'),
+    errors: count('query_failed') + count('amount_mismatch') + count('error'),
+    items,
+  };
+
+  await env.DB.prepare(`
+    UPDATE reconciliation_runs
+    SET checked = ?, activated = ?, expired = ?, still_pending = ?, errors = ?, items = ?, finished_at = datetime('now')
+    WHERE id = ?
+  `).bind(
+    report.checked,
+    report.activated,
+    report.expired,
+    report.still_pending,
+    report.errors,
+    JSON.stringify(items),
+    report.id
+  ).run();
+
+  console.log('[Reconciliation] Run finished:', JSON.stringify({ ...report, items: undefined }));
+  return report;
+}
+
+// List recent reconciliation runs for the admin report
+export async function getReconciliationRuns(
+  db: D1Database,
+  limit: number,
+  offset: number
+): Promise<{ runs: Array<Omit<ReconciliationRun, 'items'> & { items: ReconciliationItem[] }>; total: number }> {
+  const { results } = await db.prepare(
+    'SELECT * FROM reconciliation_runs ORDER BY id DESC LIMIT ? OFFSET ?'
+  ).bind(limit, offset).all<ReconciliationRun>();
+
+  const countResult = await db.prepare(
+    'SELECT COUNT(*) as count FROM reconciliation_runs'
+  ).first<{ count: number }>();
+
+  return {
+    runs: (results || []).map(run => ({
+      ...run,
+      items: run.items ? JSON.parse(run.items) as ReconciliationItem[] : [],
+    })),
+    total: countResult?.count || 0,
+  };
+}
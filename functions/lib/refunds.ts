@@ -0,0 +1,141 @@
+// Credit refunds for paid orders
+
+import type { Env, Order, Domain } from './types';
+import { LinuxDOCreditClient } from './credit';
+import { createNotification } from './notifications';
+import { addBlockchainLog, BlockchainActions } from './blockchain';
+
+// A claim older than this belongs to a request that died before recording the outcome;
+// no Worker request runs this long, so the order may be claimed again
+const REFUND_CLAIM_MINUTES = 10;
+
+export interface RefundResult {
+  order_no: string;
+  amount: number;
+  success: boolean;
+  msg: string;
+}
+
+export interface RefundOptions {
+  reason: string;
+  actorName: string | null;   // null for automatic refunds
+}
+
+// Refund a single paid order through LinuxDO Credit and record the outcome
+// The order is claimed before the refund API is called, so concurrent calls refund it at most once;
+// failed attempts leave the order as 'paid' with refund_result set, so it can be retried
+export async function refundPaidOrder(
+  env: Env,
+  order: Order,
+  options: RefundOptions,
+  creditClient: LinuxDOCreditClient = new LinuxDOCreditClient({
+    pid: env.CREDIT_PID,
+    key: env.CREDIT_KEY,
+    notifyUrl: '',
+    returnUrl: '',
+  })
+): Promise<RefundResult> {
+  const result: RefundResult = {
+    order_no: order.order_no,
+    amount: order.amount,
+    success: false,
+    msg: '',
+  };
+
+  // The caller's copy of the order may be stale; only the database decides whether it is still paid
+  const claim = await env.DB.prepare(`
+    UPDATE orders SET refund_started_at = datetime('now')
+    WHERE order_no = ? AND status = 'paid'
+      AND (refund_started_at IS NULL OR refund_started_at <= datetime('now', ?))
+  `).bind(order.order_no, `-${REFUND_CLAIM_MINUTES} minutes`).run();
+
+  if (!claim.meta.changes) {
+    result.msg = 'Order is not paid or is already being refunded';
+    return result;
+  }
+
+  if (!order.trade_no) {
+    result.msg = 'Order has no trade_no, refund must be handled manually';
+  } else {
+    const refund = await creditClient.refundOrder(order.trade_no, order.amount, order.order_no);
+    result.success = refund.success;
+    result.msg = refund.msg || (refund.success ? 'success' : 'Refund failed');
+  }
+
+  if (result.success) {
+    const updated = await env.DB.prepare(`
+      UPDATE orders SET status = 'refunded', refund_reason = ?, refund_result = ?, refunded_at = datetime('now'), refund_started_at = NULL
+      WHERE order_no = ? AND status = 'paid'
+    `).bind(options.reason, result.msg, order.order_no).run();
+
+    if (updated.meta.changes) {
+      await createNotification(
+        env.DB,
+        order.linuxdo_id,
+        'order_refunded',
+        '订单已退款',
+        `您的订单 ${order.order_no}（${order.label}）已退款 ${order.amount} 积分。${options.reason ? `退款原因：${options.reason}` : ''}`
+      );
+    }
+  } else {
+    await env.DB.prepare(
+      'UPDATE orders SET refund_reason = ?, refund_result = ?, refund_started_at = NULL WHERE order_no = ?'
+    ).bind(options.reason, result.msg, order.order_no).run();
+
+    console.error('[Refund] Failed to refund order:', order.order_no, result.msg);
+  }
+
+  await addBlockchainLog(env.DB, {
+    action: BlockchainActions.ORDER_REFUND,
+    actorName: options.actorName ?? 'system',
+    targetType: 'order',
+    targetName: order.order_no,
+    result: result.success ? 'success' : 'failed',
+    details: {
+      label: order.label,
+      order_type: order.order_type,
+      amount: order.amount,
+      reason: options.reason,
+      msg: result.msg,
+    },
+  });
+
+  return result;
+}
+
+// Refund the paid orders of the domain's current registration: the order that created it and
+// everything the owner paid for it since (renewals, transfer fee)
+// Orders of an earlier registration of the same label were used up when that one was released
+export async function refundDomainOrders(
+  env: Env,
+  domain: Pick<Domain, 'label' | 'owner_linuxdo_id' | 'created_at'>,
+  options: RefundOptions
+): Promise<RefundResult[]> {
+  const { results: orders } = await env.DB.prepare(`
+    SELECT * FROM orders
+    WHERE label = ? AND linuxdo_id = ? AND status = 'paid' AND released_at IS NULL
+      AND (
+        paid_at >= ?
+        OR order_no = (
+          SELECT order_no FROM orders
+          WHERE label = ? AND linuxdo_id = ? AND order_type = 'register' AND status IN ('paid', 'refunded')
+            AND released_at IS NULL AND paid_at <= ?
+          ORDER BY paid_at DESC LIMIT 1
+        )
+      )
+    ORDER BY created_at ASC
+  `).bind(
+    domain.label,
+    domain.owner_linuxdo_id,
+    domain.created_at,
+    domain.label,
+    domain.owner_linuxdo_id,
+    domain.created_at
+  ).all<Order>();
+
+  const results: RefundResult[] = [];
+  for (const order of orders || []) {
+    results.push(await refundPaidOrder(env, order, options));
+  }
+  return results;
+}
@@ -276,6 +276,7 @@ export const RESERVED_WORDS = new Set([
   'registration',
   'registered',
   'remote',
+  'renew',  // /api/domains/renew
   'require',
   'rest',
   'review',
@@ -331,6 +332,7 @@ export const RESERVED_WORDS = new Set([
   'tools',
   'topic',
   'topics',
+  'transfer',  // /api/domains/transfer
   'translate',
   'trend',
   'trends',
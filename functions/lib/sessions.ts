@@ -0,0 +1,235 @@
+// Server-side sessions: every browser session JWT carries a jti that must match an active row
+// Refreshing re-issues the JWT with the next generation (gen claim); presenting an older generation
+// means a copy of a replaced token is being replayed, so the whole session is revoked
+
+import type { JWTPayload, Session } from './types';
+import { signJWT } from './jwt';
+import { createNotification } from './notifications';
+
+export const SESSION_TTL = 86400; // 24 hours
+export const REMEMBER_ME_TTL = 30 * 86400; // 30 days
+
+// Refreshing slides the expiry forward, but never past this age; then the user logs in through LinuxDO again
+export const MAX_SESSION_AGE = 90 * 86400;
+
+// A refresh only re-issues tokens at least this old
+export const ROTATE_AFTER = 3600;
+
+// Requests sent with the previous token right after a refresh (other tabs, requests in flight) are not replays
+const ROTATION_GRACE_MS = 30 * 1000;
+
+// last_used_at is only rewritten when older than this, to avoid a write on every request
+const LAST_USED_INTERVAL_MS = 5 * 60 * 1000;
+
+// Revoked and expired rows are kept this long so the session list can still be audited
+const SESSION_RETENTION_DAYS = 30;
+
+export interface SessionListItem {
+  id: string;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: string;
+  expires_at: string;
+  last_used_at: string | null;
+  remember: boolean;
+  current: boolean;
+}
+
+// D1 datetimes are UTC "YYYY-MM-DD HH:MM:SS"
+function parseDbTime(value: string): number {
+  return new Date(value.replace(' ', 'T') + 'Z').getTime();
+}
+
+export function sessionTtl(remember: boolean): number {
+  return remember ? REMEMBER_ME_TTL : SESSION_TTL;
+}
+
+// Record a new session at login; returns the jti to put in the JWT
+export async function createSession(
+  db: D1Database,
+  linuxdoId: number,
+  request: Request,
+  remember: boolean
+): Promise<string> {
+  const jti = crypto.randomUUID();
+
+  await db.batch([
+    db.prepare(`
+      INSERT INTO sessions (jti, linuxdo_id, ip_address, user_agent, remember, generation, created_at, expires_at, last_used_at)
+      VALUES (?, ?, ?, ?, ?, 0, datetime('now'), datetime('now', ?), datetime('now'))
+    `).bind(
+      jti,
+      linuxdoId,
+      request.headers.get('CF-Connecting-IP'),
+      request.headers.get('User-Agent')?.slice(0, 256) || null,
+      remember ? 1 : 0,
+      `+${sessionTtl(remember)} seconds`
+    ),
+    db.prepare(
+      'DELETE FROM sessions WHERE linuxdo_id = ? AND expires_at < datetime(\'now\', ?)'
+    ).bind(linuxdoId, `-${SESSION_RETENTION_DAYS} days`),
+  ]);
+
+  return jti;
+}
+
+// Sign the JWT for a session generation
+export async function signSessionToken(
+  user: Pick<JWTPayload, 'sub' | 'username' | 'trust_level'>,
+  jti: string,
+  generation: number,
+  secret: string,
+  expiresInSeconds: number
+): Promise<string> {
+  return signJWT(
+    {
+      sub: user.sub,
+      username: user.username,
+      trust_level: user.trust_level,
+      jti,
+      gen: generation,
+    },
+    secret,
+    expiresInSeconds
+  );
+}
+
+// Check that a session token is still the current one and record its use
+export async function verifySession(
+  db: D1Database,
+  payload: JWTPayload,
+  ip: string | null
+): Promise<{ valid: true; session: Session } | { valid: false; error: string }> {
+  // Tokens issued before sessions were tracked cannot be revoked, so they are no longer accepted
+  if (!payload.jti) {
+    return { valid: false, error: 'Session expired, please log in again' };
+  }
+
+  const session = await db.prepare(
+    'SELECT * FROM sessions WHERE jti = ?'
+  ).bind(payload.jti).first<Session>();
+
+  if (!session || session.revoked_at || parseDbTime(session.expires_at) <= Date.now()) {
+    return { valid: false, error: 'Session has been revoked or expired' };
+  }
+
+  const generation = payload.gen || 0;
+  if (generation !== session.generation) {
+    const justRotated = generation === session.generation - 1 &&
+      session.rotated_at !== null &&
+      Date.now() - parseDbTime(session.rotated_at) <= ROTATION_GRACE_MS;
+
+    if (!justRotated) {
+      await revokeReusedSession(db, session, generation, ip);
+      return { valid: false, error: 'Session token was reused after being refreshed; the session has been revoked' };
+    }
+  }
+
+  const lastUsed = session.last_used_at ? parseDbTime(session.last_used_at) : 0;
+  if (Date.now() - lastUsed > LAST_USED_INTERVAL_MS) {
+    await db.prepare(
+      'UPDATE sessions SET last_used_at = datetime(\'now\') WHERE jti = ?'
+    ).bind(session.jti).run();
+  }
+
+  return { valid: true, session };
+}
+
+// An old generation came back: either the user or whoever copied the cookie holds a stale token,
+// and there is no telling which, so neither keeps the session
+async function revokeReusedSession(db: D1Database, session: Session, generation: number, ip: string | null): Promise<void> {
+  await db.prepare(
+    'UPDATE sessions SET revoked_at = datetime(\'now\') WHERE jti = ? AND revoked_at IS NULL'
+  ).bind(session.jti).run();
+
+  try {
+    await db.prepare(`
+      INSERT INTO audit_logs (linuxdo_id, action, target, details, ip_address, created_at)
+      VALUES (?, ?, ?, ?, ?, datetime('now'))
+    `).bind(
+      session.linuxdo_id,
+      'session_reuse_detected',
+      session.jti,
+      JSON.stringify({ presented_generation: generation, current_generation: session.generation }),
+      ip
+    ).run();
+  } catch (e) {
+    console.error('Failed to log audit:', e);
+  }
+
+  await createNotification(
+    db,
+    session.linuxdo_id,
+    'admin_message',
+    '登录会话已被注销',
+    `检测到一个已刷新的登录凭证被重复使用（IP：${ip || '未知'}），该会话已被注销。如果这不是您本人的操作，请在其他设备上检查登录会话。`
+  );
+}
+
+// Move a session to its next generation and slide its expiry; returns null if the token is still fresh
+// or another request refreshed it first
+export async function rotateSession(
+  db: D1Database,
+  session: Session,
+  payload: JWTPayload
+): Promise<{ generation: number; expiresIn: number } | null> {
+  const now = Math.floor(Date.now() / 1000);
+  if ((payload.gen || 0) !== session.generation || now - payload.iat < ROTATE_AFTER) {
+    return null;
+  }
+
+  const maxExpiry = Math.floor(parseDbTime(session.created_at) / 1000) + MAX_SESSION_AGE;
+  const expiresAt = Math.min(now + sessionTtl(session.remember === 1), maxExpiry);
+  if (expiresAt <= now) {
+    return null;
+  }
+
+  const result = await db.prepare(`
+    UPDATE sessions SET generation = generation + 1, rotated_at = datetime('now'), expires_at = datetime(?, 'unixepoch')
+    WHERE jti = ? AND generation = ? AND revoked_at IS NULL
+  `).bind(expiresAt, session.jti, session.generation).run();
+
+  if (!result.meta.changes) {
+    return null;
+  }
+
+  return { generation: session.generation + 1, expiresIn: expiresAt - now };
+}
+
+// Revoke one session of a user; returns false if it was not active
+export async function revokeSession(db: D1Database, linuxdoId: number, jti: string): Promise<boolean> {
+  const result = await db.prepare(
+    'UPDATE sessions SET revoked_at = datetime(\'now\') WHERE jti = ? AND linuxdo_id = ? AND revoked_at IS NULL'
+  ).bind(jti, linuxdoId).run();
+
+  return result.meta.changes > 0;
+}
+
+// Revoke all of a user's active sessions, optionally keeping one (the caller's own); returns how many were revoked
+export async function revokeUserSessions(db: D1Database, linuxdoId: number, exceptJti?: string): Promise<number> {
+  const result = await db.prepare(`
+    UPDATE sessions SET revoked_at = datetime('now')
+    WHERE linuxdo_id = ? AND revoked_at IS NULL AND expires_at > datetime('now') AND jti != ?
+  `).bind(linuxdoId, exceptJti || '').run();
+
+  return result.meta.changes;
+}
+
+export async function listActiveSessions(db: D1Database, linuxdoId: number, currentJti?: string): Promise<SessionListItem[]> {
+  const { results } = await db.prepare(`
+    SELECT * FROM sessions
+    WHERE linuxdo_id = ? AND revoked_at IS NULL AND expires_at > datetime('now')
+    ORDER BY created_at DESC
+  `).bind(linuxdoId).all<Session>();
+
+  return (results || []).map(s => ({
+    id: s.jti,
+    ip_address: s.ip_address,
+    user_agent: s.user_agent,
+    created_at: s.created_at,
+    expires_at: s.expires_at,
+    last_used_at: s.last_used_at,
+    remember: s.remember === 1,
+    current: s.jti === currentJti,
+  }));
+}
@@ -0,0 +1,151 @@
+// Domain transfers between users: the owner starts a transfer, the recipient accepts (and pays the fee, if any)
+
+import type { Env, Domain, DomainTransfer } from './types';
+import { getSetting } from './moderation';
+import { hasDomainQuota } from './domains';
+import { createNotification } from './notifications';
+import { addBlockchainLog, BlockchainActions } from './blockchain';
+
+// Unanswered transfers expire after this many days
+export const TRANSFER_EXPIRE_DAYS = 7;
+
+// Transfers that still wait for the recipient
+export const OPEN_TRANSFER_STATUSES = ['pending', 'awaiting_payment'];
+
+export type TransferResult =
+  | { success: true; domain: Domain }
+  | { success: false; error: string };
+
+export async function getTransferFee(db: D1Database): Promise<number> {
+  const fee = parseFloat(await getSetting('transfer_fee', db, '0'));
+  return isNaN(fee) || fee < 0 ? 0 : fee;
+}
+
+// Mark open transfers past their deadline as expired
+export async function expireTransfers(db: D1Database): Promise<void> {
+  await db.prepare(`
+    UPDATE domain_transfers SET status = 'expired'
+    WHERE status IN ('pending', 'awaiting_payment') AND expires_at <= datetime('now')
+  `).run();
+}
+
+// Move the domain to the recipient; DNS records stay as they are
+// Only an open transfer of an active domain still owned by the sender can complete
+export async function completeTransfer(
+  env: Env,
+  transfer: DomainTransfer,
+  ip: string | null
+): Promise<TransferResult> {
+  if (!OPEN_TRANSFER_STATUSES.includes(transfer.status)) {
+    return { success: false, error: `Transfer is ${transfer.status}` };
+  }
+
+  const domain = await env.DB.prepare(
+    'SELECT * FROM domains WHERE id = ? AND owner_linuxdo_id = ? AND status = ?'
+  ).bind(transfer.domain_id, transfer.from_linuxdo_id, 'active').first<Domain>();
+
+  if (!domain) {
+    return { success: false, error: 'Domain is no longer active or has changed owner' };
+  }
+
+  if (!(await hasDomainQuota(env.DB, transfer.to_linuxdo_id))) {
+    return { success: false, error: 'Recipient has reached the maximum number of domains' };
+  }
+
+  const updated = await env.DB.prepare(`
+    UPDATE domains SET owner_linuxdo_id = ?
+    WHERE id = ? AND owner_linuxdo_id = ? AND status = 'active'
+  `).bind(transfer.to_linuxdo_id, domain.id, transfer.from_linuxdo_id).run();
+
+  if (!updated.meta.changes) {
+    return { success: false, error: 'Domain is no longer active or has changed owner' };
+  }
+
+  await env.DB.batch([
+    env.DB.prepare(`
+      UPDATE domain_transfers SET status = 'completed', completed_at = datetime('now')
+      WHERE id = ?
+    `).bind(transfer.id),
+    // Any other open transfer of this domain is void now
+    env.DB.prepare(`
+      UPDATE domain_transfers SET status = 'cancelled'
+      WHERE domain_id = ? AND id != ? AND status IN ('pending', 'awaiting_payment')
+    `).bind(domain.id, transfer.id),
+    // DDNS keys belong to the previous owner
+    env.DB.prepare(
+      'UPDATE dns_records SET ddns_key_hash = NULL WHERE domain_id = ?'
+    ).bind(domain.id),
+    // So do the members and delegations the previous owner granted
+    env.DB.prepare(
+      'DELETE FROM domain_members WHERE domain_id = ?'
+    ).bind(domain.id),
+    env.DB.prepare(
+      'DELETE FROM domain_delegations WHERE domain_id = ?'
+    ).bind(domain.id),
+    // The previous owner's NS delegation request is void; an existing delegation stays like other records
+    env.DB.prepare(
+      "UPDATE ns_requests SET status = 'cancelled' WHERE domain_id = ? AND status = 'pending'"
+    ).bind(domain.id),
+    // The previous owner can no longer renew this domain
+    env.DB.prepare(`
+      UPDATE orders SET status = 'failed'
+      WHERE linuxdo_id = ? AND label = ? AND order_type = 'renew' AND status = 'pending'
+    `).bind(transfer.from_linuxdo_id, domain.label),
+  ]);
+
+  const users = await env.DB.prepare(
+    'SELECT linuxdo_id, username FROM users WHERE linuxdo_id IN (?, ?)'
+  ).bind(transfer.from_linuxdo_id, transfer.to_linuxdo_id).all<{ linuxdo_id: number; username: string }>();
+  const usernameOf = (id: number) => (users.results || []).find(u => u.linuxdo_id === id)?.username || null;
+  const fromName = usernameOf(transfer.from_linuxdo_id);
+  const toName = usernameOf(transfer.to_linuxdo_id);
+
+  await createNotification(
+    env.DB,
+    transfer.from_linuxdo_id,
+    'domain_transfer',
+    '域名已转出',
+    `您的域名 ${domain.fqdn} 已转移给 ${toName || '接收方'}。`
+  );
+
+  await createNotification(
+    env.DB,
+    transfer.to_linuxdo_id,
+    'domain_transfer',
+    '域名已转入',
+    `域名 ${domain.fqdn} 已转移到您的账户，原有 DNS 记录保持不变。DDNS 密钥已失效，如需使用请重新生成；原持有人添加的成员和子域名授权已被移除。`
+  );
+
+  // Log the action
+  await env.DB.prepare(`
+    INSERT INTO audit_logs (linuxdo_id, action, target, details, ip_address, created_at)
+    VALUES (?, ?, ?, ?, ?, datetime('now'))
+  `).bind(
+    transfer.to_linuxdo_id,
+    'domain_transfer',
+    domain.fqdn,
+    JSON.stringify({
+      transfer_id: transfer.id,
+      from_linuxdo_id: transfer.from_linuxdo_id,
+      to_linuxdo_id: transfer.to_linuxdo_id,
+      fee: transfer.fee,
+      order_no: transfer.order_no,
+    }),
+    ip
+  ).run();
+
+  await addBlockchainLog(env.DB, {
+    action: BlockchainActions.DOMAIN_TRANSFER,
+    actorName: toName,
+    targetType: 'domain',
+    targetName: domain.fqdn,
+    details: {
+      from: fromName,
+      to: toName,
+      fee: transfer.fee,
+    },
+  });
+
+  console.log('[Transfer] ✅ Domain transferred:', domain.fqdn, fromName, '->', toName);
+  return { success: true, domain: { ...domain, owner_linuxdo_id: transfer.to_linuxdo_id } };
+}
@@ -15,6 +15,12 @@ export interface Env {
   ADMIN_LINUXDO_IDS?: string;   // 管理员 LinuxDO ID 列表，逗号分隔
   ADMIN_SECRET?: string;        // 管理员提升密钥
   DEEPSEEK_API_KEY?: string;    // DeepSeek API Key for Agent
+  CRON_SECRET?: string;         // 定时任务调用密钥
+  DOH_RESOLVER_URL?: string;    // DNS-over-HTTPS JSON 接口，用于检查 NS 委派，默认 Cloudflare
+  ABUSE_CONTACT?: string;       // 文本 WHOIS 中显示的滥用举报联系方式，默认站点地址
+  LINUXDO_API_URL?: string;     // LinuxDO 论坛地址，用于定期同步用户资料，默认 https://linux.do
+  LINUXDO_API_KEY?: string;     // LinuxDO 论坛 API Key（可选），配置后按用户 ID 查询
+  LINUXDO_API_USERNAME?: string; // 与 LINUXDO_API_KEY 配套的 Api-Username，默认 system
 }
 
 export interface LinuxDOUser {
@@ -31,19 +37,75 @@ export interface JWTPayload {
   sub: string; // linuxdo_id as string
   username: string;
   trust_level: number;
+  jti?: string; // sessions.jti, set on browser sessions
+  gen?: number; // sessions.generation when the token was issued
   iat: number;
   exp: number;
 }
 
+// Personal API token scopes
+export type ApiTokenScope = 'dns:read' | 'dns:write' | 'domain:read';
+
+// Admin roles (see lib/admin-roles.ts for what each grants)
+export type AdminRole = 'superadmin' | 'moderator' | 'support';
+
+export type AdminPermission =
+  | 'dashboard'       // GET /api/admin/stats
+  | 'users'           // user list
+  | 'bans'            // ban/unban users
+  | 'admins'          // grant, change and revoke admin roles
+  | 'reviews'         // registration reviews
+  | 'reports'         // abuse reports
+  | 'appeals'         // appeals
+  | 'domains'         // suspend/activate/delete domains
+  | 'dns'             // edit any domain's DNS records, drift repair
+  | 'dns_approvals'   // MX records and NS delegations awaiting approval
+  | 'banned_words'
+  | 'messages'
+  | 'announcements'
+  | 'orders'          // refunds and payment reconciliation
+  | 'settings'
+  | 'blockchain';     // blockchain repair
+
+export interface ApiToken {
+  id: number;
+  linuxdo_id: number;
+  name: string;
+  token_hash: string;
+  token_prefix: string;
+  scopes: string;             // 逗号分隔
+  expires_at: string | null;
+  last_used_at: string | null;
+  last_used_ip: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export interface Session {
+  jti: string;
+  linuxdo_id: number;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: string;
+  expires_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  remember: number;
+  generation: number;
+  rotated_at: string | null;
+}
+
 export interface User {
   linuxdo_id: number;
   username: string;
   trust_level: number;
   silenced: number;
   active: number;
-  is_admin: number;
+  is_admin: number;               // 1 when admin_role is set
+  admin_role: AdminRole | null;
   is_banned: number;
   ban_reason: string | null;
+  profile_synced_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -53,27 +115,105 @@ export interface Domain {
   label: string;
   fqdn: string;
   owner_linuxdo_id: number;
-  status: 'pending' | 'active' | 'suspended' | 'review';
+  status: 'pending' | 'active' | 'suspended' | 'review' | 'grace' | 'redemption';
   review_reason: string | null;
+  suspend_reason: string | null;
   python_praise: string | null;
   usage_purpose: string | null;
   dns_mode: 'ns' | 'direct' | null;
+  expires_at: string | null;  // 到期时间，NULL 表示尚未开始计费周期
   created_at: string;
 }
 
+// NS and DS rows only exist while the domain is delegated to external nameservers (dns_mode = 'ns')
+export type DnsRecordType = 'A' | 'AAAA' | 'CNAME' | 'TXT' | 'MX' | 'SRV' | 'CAA' | 'NS' | 'DS';
+
 export interface DnsRecord {
   id: number;
   domain_id: number;
-  type: 'A' | 'AAAA' | 'CNAME' | 'TXT';
+  type: DnsRecordType;
   name: string;
-  content: string;
+  content: string;  // SRV: "weight port target", CAA: 'flags tag "value"', DS: "key_tag algorithm digest_type digest"
+  priority: number | null;  // MX / SRV only
   ttl: number;
   proxied: number;  // 0 or 1 (boolean in SQLite)
   cloudflare_record_id: string | null;
+  cf_synced: number;  // 1 = published to Cloudflare, 0 = kept in D1 only (suspended, redemption, pending)
+  acme_challenge: number;  // 1 = created by /api/acme/present
+  ddns_key_hash: string | null;  // dyndns2 update key (SHA-256)
+  pending_approval: number;  // 1 = MX record waiting for admin approval
   created_at: string;
   updated_at: string;
 }
 
+// DNS 修订历史（每次修改后的完整记录集）
+export type DnsRevisionSource = 'user' | 'api' | 'agent' | 'admin' | 'ddns' | 'system';
+
+export interface DnsRevision {
+  id: number;
+  domain_id: number;
+  linuxdo_id: number | null;
+  source: DnsRevisionSource;
+  action: string;
+  details: string | null;  // JSON
+  records: string;  // JSON array of DnsRecordValues
+  created_at: string;
+}
+
+// 域名成员
+export type DomainMemberRole = 'viewer' | 'dns-editor';
+
+export interface DomainMember {
+  id: number;
+  domain_id: number;
+  linuxdo_id: number;
+  role: DomainMemberRole;   // viewer 只读 / dns-editor 可修改 DNS 记录
+  invited_by: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// NS 委派申请（信任等级不足时需管理员审核）
+export type NsRequestStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export interface NsRequest {
+  id: number;
+  domain_id: number;
+  linuxdo_id: number;
+  nameservers: string;        // JSON array
+  status: NsRequestStatus;
+  reason: string | null;      // 拒绝原因
+  reviewed_by: number | null;
+  created_at: string;
+  reviewed_at: string | null;
+}
+
+// 子域名授权（将三级域名交给其他用户管理）
+export interface DomainDelegation {
+  id: number;
+  domain_id: number;
+  name: string;             // 被授权的标签，如 alice 对应 alice.foo.py.kg
+  linuxdo_id: number;
+  created_by: number;
+  created_at: string;
+}
+
+// 域名转移
+export type DomainTransferStatus = 'pending' | 'awaiting_payment' | 'completed' | 'cancelled' | 'declined' | 'expired';
+
+export interface DomainTransfer {
+  id: number;
+  domain_id: number;
+  from_linuxdo_id: number;
+  to_linuxdo_id: number;
+  status: DomainTransferStatus;
+  fee: number;                 // 接收方支付的转移费，0 表示免费
+  order_no: string | null;     // 转移费订单
+  created_at: string;
+  expires_at: string;
+  completed_at: string | null;
+}
+
 // 订单表
 export interface Order {
   id: number;
@@ -84,11 +224,47 @@ export interface Order {
   amount: number;             // 积分数量
   python_praise: string | null;
   usage_purpose: string | null;
+  order_type: 'register' | 'renew' | 'transfer';  // 注册 / 续费 / 转移
   status: 'pending' | 'paid' | 'failed' | 'refunded';
+  refund_reason: string | null;
+  refund_result: string | null;  // 最近一次退款接口返回信息
+  refunded_at: string | null;
+  refund_started_at: string | null;  // 退款进行中（防止重复退款），记录结果后清空
+  released_at: string | null;    // 域名被释放或删除的时间，此后订单不再用于恢复域名
+  reconcile_checked_at: string | null;  // 对账任务最近一次查询该订单的时间
   created_at: string;
   paid_at: string | null;
 }
 
+export interface ReconciliationRun {
+  id: number;
+  triggered_by: string;       // 'cron' 或管理员用户名
+  checked: number;
+  activated: number;
+  expired: number;
+  still_pending: number;
+  errors: number;
+  items: string | null;       // JSON: ReconciliationItem[]
+  started_at: string;
+  finished_at: string | null;
+}
+
+// Cloudflare 漂移检测运行记录
+export interface DnsDriftRun {
+  id: number;
+  triggered_by: string;       // 'cron' 或管理员用户名
+  zone_records: number;
+  checked: number;
+  orphaned: number;
+  missing: number;
+  mismatched: number;
+  repaired: number;
+  errors: number;
+  items: string | null;       // JSON: DriftItem[]
+  started_at: string;
+  finished_at: string | null;
+}
+
 export interface AuditLog {
   id: number;
   linuxdo_id: number;
@@ -138,6 +314,8 @@ export interface MeResponse {
     username: string;
     trust_level: number;
     is_admin: boolean;
+    admin_role: AdminRole | null;
+    admin_permissions: AdminPermission[];
     is_banned: boolean;
   };
   quota: {
@@ -157,6 +335,7 @@ export interface DomainResponse {
   python_praise?: string;
   usage_purpose?: string;
   created_at: string;
+  expires_at: string | null;
   review_reason?: string;
   suspend_reason?: string;
 }
@@ -182,6 +361,7 @@ export interface AdminUserListItem {
   username: string;
   trust_level: number;
   is_admin: number;
+  admin_role: AdminRole | null;
   is_banned: number;
   ban_reason: string | null;
   domain_count: number;
@@ -196,7 +376,9 @@ export interface AdminDomainListItem {
   owner_username: string;
   status: string;
   review_reason: string | null;
+  expires_at: string | null;
   created_at: string;
+  flagged: number;  // 1 = put into review by the LinuxDO re-sync, not by a registration
 }
 
 export interface AdminReviewListItem {
@@ -215,11 +397,15 @@ export interface AdminReviewListItem {
   paid_at?: string;
 }
 
+export interface AdminOrderListItem extends Order {
+  username: string | null;
+}
+
 // Notification types
 export interface Notification {
   id: number;
   linuxdo_id: number;
-  type: 'domain_pending_review' | 'domain_approved' | 'domain_rejected' | 'domain_suspended' | 'domain_unsuspended' | 'report_processed' | 'announcement' | 'admin_message';
+  type: 'domain_pending_review' | 'domain_approved' | 'domain_rejected' | 'domain_suspended' | 'domain_unsuspended' | 'report_processed' | 'announcement' | 'admin_message' | 'domain_expired' | 'domain_renewed' | 'order_refunded' | 'domain_transfer' | 'domain_member' | 'domain_delegation';
   title: string;
   message: string;
   is_read: number;
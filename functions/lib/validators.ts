@@ -1,5 +1,8 @@
 // Domain label validation utilities
 
+import type { DnsRecord } from './types';
+import { validateDNSRecordContent, parseSrvContent, parseCaaContent, formatSrvContent, formatCaaContent } from './cloudflare-dns';
+
 export interface LabelValidationResult {
   valid: boolean;
   error?: string;
@@ -50,7 +53,7 @@ export function validateLabel(label: string): LabelValidationResult {
 }
 
 // Allowed DNS record types
-export const ALLOWED_RECORD_TYPES = ['A', 'AAAA', 'CNAME', 'TXT'] as const;
+export const ALLOWED_RECORD_TYPES = ['A', 'AAAA', 'CNAME', 'TXT', 'MX', 'SRV', 'CAA'] as const;
 export type AllowedRecordType = typeof ALLOWED_RECORD_TYPES[number];
 
 // TTL constraints
@@ -124,6 +127,11 @@ export function validateRecordValue(type: AllowedRecordType, value: string): RRS
       }
       return { valid: true };
 
+    case 'MX':
+    case 'SRV':
+    case 'CAA':
+      return validateDNSRecordContent(type, value);
+
     default:
       return { valid: false, error: `Record type ${type} is not allowed` };
   }
@@ -299,3 +307,202 @@ export function isEmailRelatedTxtRecord(name: string, content: string): EmailRel
 
   return { isEmailRelated: false };
 }
+
+// Records per domain (ACME challenge records don't count)
+export const MAX_DNS_RECORDS = 10;
+
+export interface DnsRecordInput {
+  type?: string;
+  name?: string;
+  content?: string;
+  ttl?: number;
+  proxied?: boolean;
+  // MX / SRV
+  priority?: number | null;
+  // SRV
+  weight?: number;
+  port?: number;
+  // CAA
+  flags?: number;
+  tag?: string;
+}
+
+export type DnsRecordInputResult =
+  | { valid: true; record: { type: AllowedRecordType; name: string; content: string; ttl: number; proxied: boolean; priority: number | null } }
+  | { valid: false; error: string };
+
+function isUint16(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 65535;
+}
+
+// Expand a stored record into input fields (SRV/CAA content is split back into its parts)
+export function dnsRecordToInput(record: Pick<DnsRecord, 'type' | 'name' | 'content' | 'ttl' | 'proxied' | 'priority'>): DnsRecordInput {
+  const input: DnsRecordInput = {
+    type: record.type,
+    name: record.name,
+    content: record.content,
+    ttl: record.ttl,
+    proxied: record.proxied === 1,
+    priority: record.priority,
+  };
+
+  if (record.type === 'SRV') {
+    const srv = parseSrvContent(record.content);
+    if (srv) {
+      input.weight = srv.weight;
+      input.port = srv.port;
+      input.content = srv.target;
+    }
+  } else if (record.type === 'CAA') {
+    const caa = parseCaaContent(record.content);
+    if (caa) {
+      input.flags = caa.flags;
+      input.tag = caa.tag;
+      input.content = caa.value;
+    }
+  }
+
+  return input;
+}
+
+// Validate a user-submitted record (shared by the records API, batch API and zone import)
+// SRV/CAA inputs carry their parts separately; the result has content in presentation format
+export function validateDnsRecordInput(input: DnsRecordInput): DnsRecordInputResult {
+  const { type, name, ttl = 3600, proxied = false } = input;
+  let { content } = input;
+
+  // Validate type
+  if (!type || !validateRecordType(type)) {
+    return { valid: false, error: `Invalid or missing record type. Must be ${ALLOWED_RECORD_TYPES.join(', ')}` };
+  }
+
+  // Validate name (@ for root, or subdomain label)
+  if (!name) {
+    return { valid: false, error: 'Name is required' };
+  }
+
+  // Normalize name: empty string becomes @
+  const normalizedName = name.trim().toLowerCase() || '@';
+
+  // Validate content first (needed for TXT email check)
+  if (!content || typeof content !== 'string') {
+    return { valid: false, error: 'Missing or invalid content' };
+  }
+
+  // TXT records: block email-related records only
+  if (type === 'TXT') {
+    const emailCheck = isEmailRelatedTxtRecord(normalizedName, content);
+    if (emailCheck.isEmailRelated) {
+      return { valid: false, error: emailCheck.reason || 'Email-related TXT records are not allowed' };
+    }
+  }
+
+  // Validate name format
+  if (normalizedName !== '@') {
+    if (type === 'TXT') {
+      // TXT records can have underscores (like _acme-challenge)
+      if (!/^[a-z0-9_]([a-z0-9_-]*[a-z0-9_])?(\.[a-z0-9_]([a-z0-9_-]*[a-z0-9_])?)*$/.test(normalizedName)) {
+        return { valid: false, error: 'Invalid name format for TXT record' };
+      }
+    } else if (type === 'SRV') {
+      // _service._proto, optionally under a subdomain label
+      if (!/^_[a-z0-9]([a-z0-9-]*[a-z0-9])?\._(tcp|udp|tls)(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)?$/.test(normalizedName)) {
+        return { valid: false, error: 'Invalid name format for SRV record. Must be _service._proto or _service._proto.subdomain' };
+      }
+    } else {
+      // A/AAAA/CNAME/MX/CAA: standard subdomain format
+      if (!/^[a-z0-9]([a-z0-9-]*[a-z0-9])?$/.test(normalizedName)) {
+        return { valid: false, error: 'Invalid name format. Must be @ or a valid subdomain label (lowercase letters, numbers, hyphens)' };
+      }
+    }
+
+    if (normalizedName.length > 63 && type !== 'SRV') {
+      return { valid: false, error: 'Name too long. Maximum 63 characters' };
+    }
+  } else if (type === 'SRV') {
+    return { valid: false, error: 'Invalid name format for SRV record. Must be _service._proto or _service._proto.subdomain' };
+  }
+
+  // Priority for MX / SRV
+  let priority: number | null = null;
+  if (type === 'MX' || type === 'SRV') {
+    priority = input.priority ?? (type === 'MX' ? 10 : null);
+    if (!isUint16(priority)) {
+      return { valid: false, error: 'Priority must be an integer between 0 and 65535' };
+    }
+  }
+
+  // Assemble SRV/CAA presentation content from their parts
+  if (type === 'SRV') {
+    if (!isUint16(input.weight) || !isUint16(input.port)) {
+      return { valid: false, error: 'SRV records require weight and port between 0 and 65535' };
+    }
+    content = formatSrvContent(input.weight, input.port, content);
+  } else if (type === 'CAA') {
+    if (!input.tag) {
+      return { valid: false, error: 'CAA records require a tag (issue, issuewild or iodef)' };
+    }
+    content = formatCaaContent(input.flags ?? 0, input.tag, content);
+  } else if (type === 'MX' || type === 'CNAME') {
+    content = content.trim().replace(/\.$/, '');
+  }
+
+  // Validate content format
+  const contentValidation = validateDNSRecordContent(type, content);
+  if (!contentValidation.valid) {
+    return { valid: false, error: contentValidation.error! };
+  }
+
+  // Validate TTL
+  if (ttl < 60 || ttl > 86400) {
+    return { valid: false, error: 'TTL must be between 60 and 86400 seconds' };
+  }
+
+  // Validate proxied - only A, AAAA, CNAME can be proxied
+  if (proxied && !['A', 'AAAA', 'CNAME'].includes(type)) {
+    return { valid: false, error: `${type} records cannot be proxied` };
+  }
+
+  return {
+    valid: true,
+    record: { type, name: normalizedName, content, ttl, proxied: !!proxied, priority },
+  };
+}
+
+// Check a complete record set for CNAME conflicts and the record limit
+export function validateDnsRecordSet(records: Array<{ type: string; name: string; content: string; acme_challenge?: number }>): RRSetValidationResult {
+  if (records.filter(r => !r.acme_challenge).length > MAX_DNS_RECORDS) {
+    return { valid: false, error: `Maximum ${MAX_DNS_RECORDS} DNS records allowed` };
+  }
+
+  // Cloudflare rejects identical records
+  const seen = new Set<string>();
+  for (const record of records) {
+    const key = `${record.type}|${record.name}|${record.type === 'CNAME' ? record.content.toLowerCase().replace(/\.$/, '') : record.content}`;
+    if (seen.has(key)) {
+      return { valid: false, error: `Duplicate ${record.type} record at '${record.name}'` };
+    }
+    seen.add(key);
+  }
+
+  const byName = new Map<string, string[]>();
+  for (const record of records) {
+    const types = byName.get(record.name) || [];
+    types.push(record.type);
+    byName.set(record.name, types);
+  }
+
+  // CNAME cannot coexist with other records at the same name (except TXT)
+  // An apex CNAME is allowed: Cloudflare flattens it into A/AAAA answers
+  for (const [name, types] of byName) {
+    const cnames = types.filter(t => t === 'CNAME').length;
+    if (cnames > 1) {
+      return { valid: false, error: `Only one CNAME record is allowed at '${name}'` };
+    }
+    if (cnames === 1 && types.some(t => t !== 'CNAME' && t !== 'TXT')) {
+      return { valid: false, error: `CNAME records cannot coexist with other record types at '${name}'` };
+    }
+  }
+
+  return { valid: true };
+}
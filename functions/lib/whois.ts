@@ -0,0 +1,97 @@
+// Plain-text WHOIS rendering in the style of a port-43 registry response
+// The JSON shape of /api/whois stays the primary format; this is for curl and WHOIS parsers
+
+import type { DnsRecord } from './types';
+import { toRdapDate } from './rdap';
+
+// domains.status -> EPP status codes (RFC 5731), as traditional WHOIS prints them
+const EPP_STATUS_MAP: Record<string, string[]> = {
+  active: ['ok'],
+  review: ['inactive', 'pendingCreate'],
+  suspended: ['inactive', 'serverHold'],
+  grace: ['autoRenewPeriod'],
+  redemption: ['inactive', 'redemptionPeriod'],
+};
+
+export interface WhoisTextDomain {
+  id: number;
+  fqdn: string;
+  status: string;
+  created_at: string;
+  expires_at: string | null;
+  username: string | null;
+  records: Array<Pick<DnsRecord, 'type' | 'name' | 'content'>>;
+}
+
+export interface WhoisTextContext {
+  baseDomain: string;
+  origin: string;
+  abuseContact: string;
+}
+
+// One "Key: value" field
+function line(key: string, value: string): string {
+  return `${key}: ${value}`;
+}
+
+function footer(ctx: WhoisTextContext): string[] {
+  return [
+    '',
+    `>>> Last update of WHOIS database: ${new Date().toISOString().replace(/\.\d{3}Z$/, 'Z')} <<<`,
+    '',
+    `For structured data use RDAP: ${ctx.origin}/rdap/help`,
+    `Terms of use: ${ctx.origin}/terms.html`,
+  ];
+}
+
+export function formatWhoisText(domain: WhoisTextDomain, ctx: WhoisTextContext): string {
+  const lines = [
+    line('Domain Name', domain.fqdn.toUpperCase()),
+    line('Registry Domain ID', `PYKG-${domain.id}`),
+    line('Registrar', `${ctx.baseDomain.toUpperCase()} NIC`),
+    line('Registrar URL', ctx.origin),
+    line('Creation Date', toRdapDate(domain.created_at)),
+  ];
+
+  if (domain.expires_at) {
+    lines.push(line('Registry Expiry Date', toRdapDate(domain.expires_at)));
+  }
+
+  lines.push(line('Registrant Name', domain.username || 'Unknown'));
+  lines.push(line('Registrant ID', 'REDACTED FOR PRIVACY'));
+
+  for (const status of EPP_STATUS_MAP[domain.status] || [domain.status]) {
+    lines.push(line('Domain Status', status));
+  }
+
+  // Delegated domains list their nameservers; direct-mode domains summarize the zone instead
+  const nameservers = domain.records.filter(r => r.type === 'NS');
+  if (nameservers.length > 0) {
+    for (const ns of nameservers) {
+      lines.push(line('Name Server', ns.content.toUpperCase()));
+    }
+  } else {
+    for (const record of domain.records) {
+      lines.push(line('DNS Record', `${record.name} ${record.type} ${record.content}`));
+    }
+  }
+
+  lines.push(line('DNSSEC', domain.records.some(r => r.type === 'DS') ? 'signedDelegation' : 'unsigned'));
+  lines.push(line('Registrar Abuse Contact', ctx.abuseContact));
+
+  return [...lines, ...footer(ctx), ''].join('\n');
+}
+
+export function formatWhoisReservedText(label: string, reason: string, ctx: WhoisTextContext): string {
+  return [
+    line('Domain Name', `${label}.${ctx.baseDomain}`.toUpperCase()),
+    line('Domain Status', 'reserved'),
+    line('Reason', reason),
+    ...footer(ctx),
+    '',
+  ].join('\n');
+}
+
+export function formatWhoisNotFoundText(label: string, ctx: WhoisTextContext): string {
+  return [`No match for "${`${label}.${ctx.baseDomain}`.toUpperCase()}".`, ...footer(ctx), ''].join('\n');
+}
@@ -0,0 +1,451 @@
+// Zone file (RFC 1035 master file) export, import and diff
+
+import type { Domain, DnsRecord } from './types';
+import type { DnsChangeset, DnsRecordValues } from './dns-changeset';
+import type { DnsRecordInput } from './validators';
+import { validateDnsRecordInput, validateDnsRecordSet, validateRecordType } from './validators';
+
+// Cloudflare's own export marks proxied records with this comment
+const PROXIED_TAG = 'cf_tags=cf-proxied:true';
+const DEFAULT_ZONE_TTL = 3600;
+// Keeps parsing cheap; a full zone here is at most a few dozen lines
+export const MAX_ZONE_FILE_SIZE = 64 * 1024;
+
+export type ZoneRecord = DnsRecordValues;
+
+export interface ZoneParseError {
+  line: number;
+  message: string;
+}
+
+export interface ZoneParseResult {
+  records: Array<ZoneRecord & { line: number }>;
+  errors: ZoneParseError[];
+  // Records we recognise but do not manage (SOA/NS at the apex)
+  skipped: Array<{ line: number; type: string; name: string }>;
+}
+
+export interface ZoneDiff extends DnsChangeset {
+  unchanged: number;
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+function quoteTxt(content: string): string {
+  return '"' + content.replace(/\\/g, '\\\\').replace(/"/g, '\\"') + '"';
+}
+
+// Render the domain's records as a BIND zone file
+// ACME challenge records and MX records awaiting approval are left out
+export function exportZoneFile(domain: Domain, records: DnsRecord[]): string {
+  const lines = [
+    `;; Zone file for ${domain.fqdn}`,
+    `;; Exported ${new Date().toISOString()}`,
+    '',
+    `$ORIGIN ${domain.fqdn}.`,
+    `$TTL ${DEFAULT_ZONE_TTL}`,
+    '',
+  ];
+
+  const sorted = records
+    .filter(r => !r.acme_challenge && !r.pending_approval)
+    .sort((a, b) => a.name.localeCompare(b.name) || a.type.localeCompare(b.type));
+
+  for (const record of sorted) {
+    let content = record.content;
+    if (record.type === 'TXT') {
+      content = quoteTxt(content);
+    } else if ((record.type === 'CNAME' || record.type === 'MX' || record.type === 'SRV' || record.type === 'NS') && !content.endsWith('.')) {
+      content = `${content}.`;
+    }
+    if (record.type === 'MX' || record.type === 'SRV') {
+      content = `${record.priority ?? 0} ${content}`;
+    }
+
+    let line = `${record.name}\t${record.ttl}\tIN\t${record.type}\t${content}`;
+    if (record.proxied && ['A', 'AAAA', 'CNAME'].includes(record.type)) {
+      line += ` ; ${PROXIED_TAG}`;
+    }
+    lines.push(line);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+interface Token {
+  value: string;
+  quoted: boolean;
+}
+
+interface LogicalLine {
+  line: number;
+  tokens: Token[];
+  // Line started with whitespace: owner is inherited from the previous record
+  inheritOwner: boolean;
+  comment: string;
+}
+
+// Split the file into logical lines, joining parenthesised continuations
+function tokenize(text: string): { lines: LogicalLine[]; errors: ZoneParseError[] } {
+  const lines: LogicalLine[] = [];
+  const errors: ZoneParseError[] = [];
+  const raw = text.replace(/\r\n?/g, '\n').split('\n');
+
+  let current: LogicalLine | null = null;
+  let depth = 0;
+
+  for (let i = 0; i < raw.length; i++) {
+    const lineText = raw[i];
+    const lineNo = i + 1;
+
+    if (!current) {
+      current = { line: lineNo, tokens: [], inheritOwner: /^[ \t]/.test(lineText), comment: '' };
+    }
+
+    let pos = 0;
+    while (pos < lineText.length) {
+      const ch = lineText[pos];
+
+      if (ch === ' ' || ch === '\t') {
+        pos++;
+      } else if (ch === ';') {
+        current.comment += lineText.slice(pos + 1).trim() + ' ';
+        break;
+      } else if (ch === '(') {
+        depth++;
+        pos++;
+      } else if (ch === ')') {
+        depth--;
+        pos++;
+        if (depth < 0) {
+          errors.push({ line: lineNo, message: 'Unbalanced parentheses' });
+          depth = 0;
+        }
+      } else if (ch === '"') {
+        let value = '';
+        pos++;
+        let closed = false;
+        while (pos < lineText.length) {
+          const c = lineText[pos];
+          if (c === '\\' && pos + 1 < lineText.length) {
+            // \DDD decimal escape or escaped character
+            const digits = lineText.slice(pos + 1, pos + 4);
+            if (/^\d{3}$/.test(digits)) {
+              value += String.fromCharCode(parseInt(digits, 10));
+              pos += 4;
+            } else {
+              value += lineText[pos + 1];
+              pos += 2;
+            }
+          } else if (c === '"') {
+            closed = true;
+            pos++;
+            break;
+          } else {
+            value += c;
+            pos++;
+          }
+        }
+        if (!closed) {
+          errors.push({ line: lineNo, message: 'Unterminated quoted string' });
+        }
+        current.tokens.push({ value, quoted: true });
+      } else {
+        const start = pos;
+        while (pos < lineText.length && !/[\s;()"]/.test(lineText[pos])) {
+          pos++;
+        }
+        current.tokens.push({ value: lineText.slice(start, pos), quoted: false });
+      }
+    }
+
+    if (depth === 0) {
+      if (current.tokens.length > 0) {
+        lines.push(current);
+      }
+      current = null;
+    }
+  }
+
+  if (current && depth > 0) {
+    errors.push({ line: current.line, message: 'Unbalanced parentheses' });
+  }
+
+  return { lines, errors };
+}
+
+// TTLs may be plain seconds or BIND units (1h30m, 1d, ...)
+function parseTtl(value: string): number | null {
+  if (/^\d+$/.test(value)) {
+    return parseInt(value, 10);
+  }
+  if (!/^(\d+[smhdw])+$/i.test(value)) {
+    return null;
+  }
+  const units: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400, w: 604800 };
+  let total = 0;
+  for (const part of value.toLowerCase().match(/\d+[smhdw]/g) || []) {
+    total += parseInt(part, 10) * units[part[part.length - 1]];
+  }
+  return total;
+}
+
+// Numeric RDATA field; NaN fails validation downstream
+function toNumber(value: string): number {
+  return /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+}
+
+// Resolve a (possibly relative) name against the origin; result has no trailing dot
+function absoluteName(name: string, origin: string): string {
+  if (name === '@') {
+    return origin;
+  }
+  if (name.endsWith('.')) {
+    return name.slice(0, -1).toLowerCase();
+  }
+  return `${name}.${origin}`.toLowerCase();
+}
+
+// Parse a zone file into records relative to the domain
+export function parseZoneFile(text: string, domainFqdn: string): ZoneParseResult {
+  const result: ZoneParseResult = { records: [], errors: [], skipped: [] };
+  const domain = domainFqdn.toLowerCase();
+  const { lines, errors } = tokenize(text);
+  result.errors.push(...errors);
+
+  let origin = domain;
+  let defaultTtl = DEFAULT_ZONE_TTL;
+  let lastOwner: string | null = null;
+  const seen = new Set<string>();
+
+  for (const entry of lines) {
+    const tokens = entry.tokens.slice();
+    const first = tokens[0];
+
+    // Directives
+    if (!entry.inheritOwner && !first.quoted && first.value.startsWith('$')) {
+      const directive = first.value.toUpperCase();
+      if (directive === '$ORIGIN' && tokens[1]) {
+        origin = absoluteName(tokens[1].value, origin);
+      } else if (directive === '$TTL' && tokens[1]) {
+        const ttl = parseTtl(tokens[1].value);
+        if (ttl === null) {
+          result.errors.push({ line: entry.line, message: `Invalid $TTL value '${tokens[1].value}'` });
+        } else {
+          defaultTtl = ttl;
+        }
+      } else {
+        result.errors.push({ line: entry.line, message: `Unsupported directive ${first.value}` });
+      }
+      continue;
+    }
+
+    // Owner name
+    let owner: string;
+    if (entry.inheritOwner) {
+      if (!lastOwner) {
+        result.errors.push({ line: entry.line, message: 'Record has no owner name' });
+        continue;
+      }
+      owner = lastOwner;
+    } else {
+      owner = absoluteName(tokens.shift()!.value, origin);
+      lastOwner = owner;
+    }
+
+    // Optional TTL and class, in either order
+    let ttl: number | null = null;
+    while (tokens.length > 0 && !tokens[0].quoted) {
+      const value = tokens[0].value;
+      if (value.toUpperCase() === 'IN') {
+        tokens.shift();
+      } else if (ttl === null && parseTtl(value) !== null) {
+        ttl = parseTtl(value);
+        tokens.shift();
+      } else {
+        break;
+      }
+    }
+
+    const typeToken = tokens.shift();
+    if (!typeToken || typeToken.quoted) {
+      result.errors.push({ line: entry.line, message: 'Missing record type' });
+      continue;
+    }
+    const type = typeToken.value.toUpperCase();
+
+    // Name relative to the user's domain
+    let name: string;
+    if (owner === domain) {
+      name = '@';
+    } else if (owner.endsWith(`.${domain}`)) {
+      name = owner.slice(0, -(domain.length + 1));
+    } else {
+      result.errors.push({ line: entry.line, message: `Name '${owner}' is outside ${domain}` });
+      continue;
+    }
+
+    // The registry manages SOA and NS for the zone
+    if ((type === 'SOA' || type === 'NS') && name === '@') {
+      result.skipped.push({ line: entry.line, type, name });
+      continue;
+    }
+
+    if (!validateRecordType(type)) {
+      result.errors.push({ line: entry.line, message: `Unsupported record type ${type}` });
+      continue;
+    }
+
+    if (tokens.length === 0) {
+      result.errors.push({ line: entry.line, message: `Missing ${type} record data` });
+      continue;
+    }
+
+    // Number of RDATA fields per type (TXT takes any number of strings)
+    const fieldCounts: Record<string, number> = { A: 1, AAAA: 1, CNAME: 1, MX: 2, SRV: 4, CAA: 3 };
+    if (type !== 'TXT' && tokens.length !== fieldCounts[type]) {
+      result.errors.push({ line: entry.line, message: `${type} record expects ${fieldCounts[type]} data field(s)` });
+      continue;
+    }
+
+    const values = tokens.map(t => t.value);
+    const input: DnsRecordInput = {
+      type,
+      name,
+      ttl: ttl ?? defaultTtl,
+      proxied: ['A', 'AAAA', 'CNAME'].includes(type) && entry.comment.includes(PROXIED_TAG),
+    };
+
+    switch (type) {
+      case 'TXT':
+        // Multiple character-strings are concatenated
+        input.content = values.join('');
+        break;
+      case 'CNAME':
+        input.content = absoluteName(values[0], origin);
+        break;
+      case 'MX':
+        input.priority = toNumber(values[0]);
+        input.content = absoluteName(values[1], origin);
+        break;
+      case 'SRV':
+        input.priority = toNumber(values[0]);
+        input.weight = toNumber(values[1]);
+        input.port = toNumber(values[2]);
+        input.content = absoluteName(values[3], origin);
+        break;
+      case 'CAA':
+        input.flags = toNumber(values[0]);
+        input.tag = values[1];
+        input.content = values[2];
+        break;
+      default:
+        input.content = values[0];
+    }
+
+    const validation = validateDnsRecordInput(input);
+
+    if (!validation.valid) {
+      result.errors.push({ line: entry.line, message: validation.error });
+      continue;
+    }
+
+    const key = recordKey(validation.record);
+    if (seen.has(key)) {
+      result.errors.push({ line: entry.line, message: `Duplicate ${type} record at '${name}'` });
+      continue;
+    }
+    seen.add(key);
+
+    result.records.push({ ...validation.record, line: entry.line });
+  }
+
+  // Whole-zone constraints (record limit, CNAME conflicts)
+  if (result.errors.length === 0) {
+    const setCheck = validateDnsRecordSet(result.records);
+    if (!setCheck.valid) {
+      result.errors.push({ line: 0, message: setCheck.error! });
+    }
+  }
+
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Diff
+// ---------------------------------------------------------------------------
+
+function normalizeContent(type: string, content: string): string {
+  return type === 'CNAME' || type === 'MX' ? content.toLowerCase().replace(/\.$/, '') : content;
+}
+
+function recordKey(record: { type: string; name: string; content: string; priority: number | null }): string {
+  return `${record.type}|${record.name}|${record.priority ?? ''}|${normalizeContent(record.type, record.content)}`;
+}
+
+// Compute the changes needed to turn the current records into the imported ones
+// Records that only change content keep their row (and DDNS key) as an update
+export function diffZone(current: DnsRecord[], desired: ZoneRecord[]): ZoneDiff {
+  const diff: ZoneDiff = { create: [], update: [], delete: [], unchanged: 0 };
+  const remaining = current.filter(r => !r.acme_challenge && !r.pending_approval);
+  const unmatched: ZoneRecord[] = [];
+
+  // Same type, name and content: unchanged, or an update of TTL/proxy
+  for (const record of desired) {
+    const index = remaining.findIndex(r => recordKey(r) === recordKey(record));
+    if (index === -1) {
+      unmatched.push(record);
+      continue;
+    }
+    const [existing] = remaining.splice(index, 1);
+    if (existing.ttl !== record.ttl || (existing.proxied === 1) !== record.proxied) {
+      diff.update.push({ record: existing, to: record });
+    } else {
+      diff.unchanged++;
+    }
+  }
+
+  // Same type and name with different content: update in place
+  for (const record of unmatched) {
+    const index = remaining.findIndex(r => r.type === record.type && r.name === record.name);
+    if (index === -1) {
+      diff.create.push(record);
+      continue;
+    }
+    const [existing] = remaining.splice(index, 1);
+    diff.update.push({ record: existing, to: record });
+  }
+
+  diff.delete = remaining;
+  return diff;
+}
+
+// Client-facing view of a diff (previews of zone imports and revision restores)
+export function formatZoneDiff(diff: ZoneDiff) {
+  return {
+    create: diff.create,
+    update: diff.update.map(({ record, to }) => ({
+      id: record.id,
+      type: record.type,
+      name: record.name,
+      from: { content: record.content, priority: record.priority, ttl: record.ttl, proxied: record.proxied === 1 },
+      to: { content: to.content, priority: to.priority, ttl: to.ttl, proxied: to.proxied },
+    })),
+    delete: diff.delete.map(record => ({
+      id: record.id,
+      type: record.type,
+      name: record.name,
+      content: record.content,
+      priority: record.priority,
+      ttl: record.ttl,
+      proxied: record.proxied === 1,
+    })),
+    unchanged: diff.unchanged,
+  };
+}
@@ -0,0 +1,72 @@
+// /rdap/domain/:fqdn - RDAP domain lookup (RFC 9082/9083), no login required
+
+import type { Env, Domain, DnsRecord } from '../../lib/types';
+import { validateLabel } from '../../lib/validators';
+import { buildRdapDomain, rdapResponse, rdapError, RDAP_VISIBLE_STATUSES } from '../../lib/rdap';
+
+// GET /rdap/domain/:fqdn
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env, request, params } = context;
+  const origin = new URL(request.url).origin;
+  const baseDomain = (env.BASE_DOMAIN || 'py.kg').toLowerCase();
+
+  const fqdn = (params.fqdn as string).toLowerCase().replace(/\.$/, '');
+
+  // Only second-level names under the base domain are registry objects
+  if (!fqdn.endsWith(`.${baseDomain}`)) {
+    return rdapError(404, 'Not Found', `This server only answers for ${baseDomain}`);
+  }
+
+  const label = fqdn.slice(0, -(baseDomain.length + 1));
+  if (label.includes('.')) {
+    return rdapError(404, 'Not Found', `${fqdn} is not a registered ${baseDomain} domain`);
+  }
+
+  const validation = validateLabel(label);
+  if (!validation.valid) {
+    return rdapError(400, 'Bad Request', validation.error || 'Invalid domain name');
+  }
+
+  try {
+    const domain = await env.DB.prepare(
+      `SELECT * FROM domains WHERE label = ? AND status IN (${RDAP_VISIBLE_STATUSES.map(() => '?').join(', ')})`
+    ).bind(label, ...RDAP_VISIBLE_STATUSES).first<Domain>();
+
+    if (!domain) {
+      return rdapError(404, 'Not Found');
+    }
+
+    const owner = await env.DB.prepare(
+      'SELECT username FROM users WHERE linuxdo_id = ?'
+    ).bind(domain.owner_linuxdo_id).first<{ username: string }>();
+
+    // Delegation data only; the zone's own records are not registration data
+    const { results: records } = await env.DB.prepare(
+      "SELECT * FROM dns_records WHERE domain_id = ? AND type IN ('NS', 'DS') ORDER BY type, content"
+    ).bind(domain.id).all<DnsRecord>();
+
+    // Last change to the domain: a DNS revision or a completed transfer
+    const changed = await env.DB.prepare(`
+      SELECT MAX(changed_at) as last_changed FROM (
+        SELECT MAX(created_at) as changed_at FROM dns_revisions WHERE domain_id = ?
+        UNION ALL
+        SELECT MAX(completed_at) FROM domain_transfers WHERE domain_id = ? AND status = 'completed'
+      )
+    `).bind(domain.id, domain.id).first<{ last_changed: string | null }>();
+
+    const transfer = await env.DB.prepare(
+      "SELECT id FROM domain_transfers WHERE domain_id = ? AND status IN ('pending', 'awaiting_payment')"
+    ).bind(domain.id).first();
+
+    return rdapResponse(buildRdapDomain(origin, {
+      domain,
+      username: owner?.username || null,
+      records: records || [],
+      lastChanged: changed?.last_changed || null,
+      transferPending: !!transfer,
+    }));
+  } catch (e) {
+    console.error('RDAP query error:', e);
+    return rdapError(500, 'Internal Server Error');
+  }
+};
@@ -0,0 +1,11 @@
+// /rdap/help - RDAP help query (RFC 9082 section 3.1.6)
+
+import type { Env } from '../lib/types';
+import { buildRdapHelp, rdapResponse } from '../lib/rdap';
+
+// GET /rdap/help
+export const onRequestGet: PagesFunction<Env> = async (context) => {
+  const { env, request } = context;
+
+  return rdapResponse(buildRdapHelp(new URL(request.url).origin, (env.BASE_DOMAIN || 'py.kg').toLowerCase()));
+};
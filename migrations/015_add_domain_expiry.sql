@@ -0,0 +1,73 @@
+-- Migration: Add domain expiry, renewal orders and grace/redemption lifecycle
+-- Run: wrangler d1 execute pykg-nic-db --file=./migrations/015_add_domain_expiry.sql
+
+-- SQLite doesn't support modifying CHECK constraints directly,
+-- so the domains table is recreated with the new statuses and the expires_at column
+
+PRAGMA foreign_keys = OFF;
+
+-- Step 1: Create new domains table with 'grace' and 'redemption' statuses
+CREATE TABLE domains_new (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    label TEXT NOT NULL UNIQUE,
+    fqdn TEXT NOT NULL UNIQUE,
+    owner_linuxdo_id INTEGER NOT NULL UNIQUE,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'active', 'suspended', 'review', 'grace', 'redemption')),
+    review_reason TEXT,
+    python_praise TEXT,
+    usage_purpose TEXT,
+    dns_mode TEXT CHECK (dns_mode IN ('ns', 'direct')) DEFAULT 'direct',
+    suspend_reason TEXT,
+    expires_at TEXT,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    FOREIGN KEY (owner_linuxdo_id) REFERENCES users(linuxdo_id)
+);
+
+-- Step 2: Copy data from old table
+-- Existing registrations were sold without a term, so they get one full term from today
+INSERT INTO domains_new (id, label, fqdn, owner_linuxdo_id, status, review_reason, python_praise, usage_purpose, dns_mode, suspend_reason, expires_at, created_at)
+SELECT id, label, fqdn, owner_linuxdo_id, status, review_reason, python_praise, usage_purpose, dns_mode, suspend_reason, datetime('now', '+365 days'), created_at
+FROM domains;
+
+-- Step 3: Drop old table
+DROP TABLE domains;
+
+-- Step 4: Rename new table
+ALTER TABLE domains_new RENAME TO domains;
+
+-- Step 5: Recreate indexes
+CREATE INDEX IF NOT EXISTS idx_domains_owner ON domains(owner_linuxdo_id);
+CREATE INDEX IF NOT EXISTS idx_domains_status ON domains(status);
+CREATE INDEX IF NOT EXISTS idx_domains_expires ON domains(expires_at);
+
+PRAGMA foreign_keys = ON;
+
+-- Orders can now be registrations or renewals
+ALTER TABLE orders ADD COLUMN order_type TEXT NOT NULL DEFAULT 'register';
+
+-- Add expiry notification types
+CREATE TABLE IF NOT EXISTS notifications_new (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    linuxdo_id INTEGER NOT NULL,
+    type TEXT NOT NULL CHECK (type IN ('domain_pending_review', 'domain_approved', 'domain_rejected', 'domain_suspended', 'domain_unsuspended', 'report_processed', 'announcement', 'admin_message', 'domain_expired', 'domain_renewed')),
+    title TEXT NOT NULL,
+    message TEXT NOT NULL,
+    is_read INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    FOREIGN KEY (linuxdo_id) REFERENCES users(linuxdo_id)
+);
+
+INSERT INTO notifications_new (id, linuxdo_id, type, title, message, is_read, created_at)
+SELECT id, linuxdo_id, type, title, message, is_read, created_at FROM notifications;
+
+DROP TABLE notifications;
+
+ALTER TABLE notifications_new RENAME TO notifications;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(linuxdo_id);
+CREATE INDEX IF NOT EXISTS idx_notifications_read ON notifications(is_read);
+
+-- Lifecycle settings (days)
+INSERT OR IGNORE INTO settings (key, value) VALUES ('registration_term_days', '365');
+INSERT OR IGNORE INTO settings (key, value) VALUES ('grace_period_days', '30');
+INSERT OR IGNORE INTO settings (key, value) VALUES ('redemption_period_days', '30');
@@ -0,0 +1,29 @@
+-- Migration: Record credit refunds on orders
+-- Run: wrangler d1 execute pykg-nic-db --file=./migrations/016_add_order_refunds.sql
+
+-- Refund attempts are recorded even when they fail, so admins can retry
+ALTER TABLE orders ADD COLUMN refund_reason TEXT;
+ALTER TABLE orders ADD COLUMN refund_result TEXT;
+ALTER TABLE orders ADD COLUMN refunded_at TEXT;
+
+-- Add refund notification type
+CREATE TABLE IF NOT EXISTS notifications_new (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    linuxdo_id INTEGER NOT NULL,
+    type TEXT NOT NULL CHECK (type IN ('domain_pending_review', 'domain_approved', 'domain_rejected', 'domain_suspended', 'domain_unsuspended', 'report_processed', 'announcement', 'admin_message', 'domain_expired', 'domain_renewed', 'order_refunded')),
+    title TEXT NOT NULL,
+    message TEXT NOT NULL,
+    is_read INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    FOREIGN KEY (linuxdo_id) REFERENCES users(linuxdo_id)
+);
+
+INSERT INTO notifications_new (id, linuxdo_id, type, title, message, is_read, created_at)
+SELECT id, linuxdo_id, type, title, message, is_read, created_at FROM notifications;
+
+DROP TABLE notifications;
+
+ALTER TABLE notifications_new RENAME TO notifications;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(linuxdo_id);
+CREATE INDEX IF NOT EXISTS idx_notifications_read ON notifications(is_read);
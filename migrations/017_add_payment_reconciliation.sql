@@ -0,0 +1,20 @@
+-- Migration: Add payment reconciliation reports
+-- Run: wrangler d1 execute pykg-nic-db --file=./migrations/017_add_payment_reconciliation.sql
+
+CREATE TABLE IF NOT EXISTS reconciliation_runs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    triggered_by TEXT NOT NULL,               -- 'cron' or admin username
+    checked INTEGER NOT NULL DEFAULT 0,       -- pending orders queried
+    activated INTEGER NOT NULL DEFAULT 0,     -- paid orders completed by this run
+    expired INTEGER NOT NULL DEFAULT 0,       -- unpaid orders marked failed
+    still_pending INTEGER NOT NULL DEFAULT 0, -- unpaid but not old enough to expire
+    errors INTEGER NOT NULL DEFAULT 0,        -- query failures, amount mismatches, DB errors
+    items TEXT,                               -- JSON array of per-order results
+    started_at TEXT NOT NULL DEFAULT (datetime('now')),
+    finished_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_runs_started ON reconciliation_runs(started_at);
+
+-- Unpaid orders older than this are expired by reconciliation
+INSERT OR IGNORE INTO settings (key, value) VALUES ('order_expire_hours', '24');
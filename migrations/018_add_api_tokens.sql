@@ -0,0 +1,19 @@
+-- Migration: Add personal API tokens
+-- Run: wrangler d1 execute pykg-nic-db --file=./migrations/018_add_api_tokens.sql
+
+CREATE TABLE IF NOT EXISTS api_tokens (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    linuxdo_id INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    token_hash TEXT NOT NULL UNIQUE,          -- SHA-256 of the token, the token itself is never stored
+    token_prefix TEXT NOT NULL,               -- first characters, shown in the token list
+    scopes TEXT NOT NULL,                     -- comma separated, e.g. 'dns:read,dns:write'
+    expires_at TEXT,                          -- NULL = never expires
+    last_used_at TEXT,
+    last_used_ip TEXT,
+    revoked_at TEXT,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    FOREIGN KEY (linuxdo_id) REFERENCES users(linuxdo_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_tokens_user ON api_tokens(linuxdo_id);
@@ -0,0 +1,8 @@
+-- Migration: Mark ACME DNS-01 challenge records
+-- Run: wrangler d1 execute pykg-nic-db --file=./migrations/019_add_acme_challenge_records.sql
+
+-- Challenge TXT records created through /api/acme/present don't count against the record limit
+-- and are removed automatically once stale
+ALTER TABLE dns_records ADD COLUMN acme_challenge INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_dns_records_acme ON dns_records(acme_challenge, created_at);
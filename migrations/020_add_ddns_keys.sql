@@ -0,0 +1,7 @@
+-- Migration: Add per-record dynamic DNS update keys
+-- Run: wrangler d1 execute pykg-nic-db --file=./migrations/020_add_ddns_keys.sql
+
+-- SHA-256 of the update key used by /nic/update (dyndns2), NULL = dynamic updates disabled
+ALTER TABLE dns_records ADD COLUMN ddns_key_hash TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_dns_records_ddns_key ON dns_records(ddns_key_hash);
@@ -0,0 +1,46 @@
+-- Migration: Add MX, SRV and CAA record types
+-- Run: wrangler d1 execute pykg-nic-db --file=./migrations/021_add_mx_srv_caa_records.sql
+
+-- SQLite doesn't support modifying CHECK constraints directly
+-- So we need to recreate the table with the updated constraint
+
+-- priority: MX preference / SRV priority (NULL for other types)
+-- content holds the remaining RDATA in presentation format:
+--   SRV: "<weight> <port> <target>", CAA: "<flags> <tag> \"<value>\""
+-- pending_approval: MX records waiting for admin approval (not published to Cloudflare)
+CREATE TABLE IF NOT EXISTS dns_records_new (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    domain_id INTEGER NOT NULL,
+    type TEXT NOT NULL CHECK (type IN ('A', 'AAAA', 'CNAME', 'NS', 'TXT', 'MX', 'SRV', 'CAA')),
+    name TEXT NOT NULL,
+    content TEXT NOT NULL,
+    priority INTEGER,
+    ttl INTEGER NOT NULL DEFAULT 3600,
+    cloudflare_record_id TEXT,
+    proxied INTEGER NOT NULL DEFAULT 0,
+    cf_synced INTEGER NOT NULL DEFAULT 1,
+    acme_challenge INTEGER NOT NULL DEFAULT 0,
+    ddns_key_hash TEXT,
+    pending_approval INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+    FOREIGN KEY (domain_id) REFERENCES domains(id) ON DELETE CASCADE
+);
+
+INSERT INTO dns_records_new (id, domain_id, type, name, content, ttl, cloudflare_record_id, proxied, cf_synced, acme_challenge, ddns_key_hash, created_at, updated_at)
+SELECT id, domain_id, type, name, content, ttl, cloudflare_record_id, proxied, cf_synced, acme_challenge, ddns_key_hash, created_at, updated_at
+FROM dns_records;
+
+DROP TABLE dns_records;
+
+ALTER TABLE dns_records_new RENAME TO dns_records;
+
+CREATE INDEX IF NOT EXISTS idx_dns_records_domain ON dns_records(domain_id);
+CREATE INDEX IF NOT EXISTS idx_dns_records_type ON dns_records(type);
+CREATE INDEX IF NOT EXISTS idx_dns_records_cf_id ON dns_records(cloudflare_record_id);
+CREATE INDEX IF NOT EXISTS idx_dns_records_acme ON dns_records(acme_challenge, created_at);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_dns_records_ddns_key ON dns_records(ddns_key_hash);
+CREATE INDEX IF NOT EXISTS idx_dns_records_pending ON dns_records(pending_approval);
+
+-- Users at or above this trust level publish MX records directly; others need admin approval
+INSERT OR IGNORE INTO settings (key, value) VALUES ('mx_min_trust_level', '3');
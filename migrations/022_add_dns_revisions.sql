@@ -0,0 +1,32 @@
+-- Migration: Add DNS zone revision history
+-- Run: wrangler d1 execute pykg-nic-db --file=./migrations/022_add_dns_revisions.sql
+
+-- One row per zone change, holding the full record set after the change
+CREATE TABLE IF NOT EXISTS dns_revisions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    domain_id INTEGER NOT NULL,
+    linuxdo_id INTEGER,                       -- who made the change, NULL for system changes
+    source TEXT NOT NULL CHECK (source IN ('user', 'api', 'agent', 'admin', 'ddns', 'system')),
+    action TEXT NOT NULL,                     -- create/update/delete/batch/zone_import/ddns_update/restore/...
+    details TEXT,                             -- JSON describing the change
+    records TEXT NOT NULL,                    -- JSON array of records (type, name, content, ttl, proxied, priority)
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    FOREIGN KEY (domain_id) REFERENCES domains(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_dns_revisions_domain ON dns_revisions(domain_id, id);
+
+-- Baseline revision with the current records of every domain, so the state before the first tracked change can be restored
+INSERT INTO dns_revisions (domain_id, linuxdo_id, source, action, details, records)
+SELECT domain_id, NULL, 'system', 'baseline', NULL,
+       json_group_array(json_object(
+           'type', type,
+           'name', name,
+           'content', content,
+           'ttl', ttl,
+           'proxied', json(CASE WHEN proxied = 1 THEN 'true' ELSE 'false' END),
+           'priority', priority
+       ))
+FROM dns_records
+WHERE acme_challenge = 0 AND pending_approval = 0
+GROUP BY domain_id;
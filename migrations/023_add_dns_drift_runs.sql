@@ -0,0 +1,22 @@
+-- Migration: Add Cloudflare drift detection runs
+-- Run: wrangler d1 execute pykg-nic-db --file=./migrations/023_add_dns_drift_runs.sql
+
+CREATE TABLE IF NOT EXISTS dns_drift_runs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    triggered_by TEXT NOT NULL,               -- 'cron' or admin username
+    zone_records INTEGER NOT NULL DEFAULT 0,  -- Cloudflare records in user namespaces
+    checked INTEGER NOT NULL DEFAULT 0,       -- D1 records compared
+    orphaned INTEGER NOT NULL DEFAULT 0,      -- in Cloudflare but not (or no longer) published from D1
+    missing INTEGER NOT NULL DEFAULT 0,       -- published in D1 but absent from Cloudflare
+    mismatched INTEGER NOT NULL DEFAULT 0,    -- present in both with different values or sync flag
+    repaired INTEGER NOT NULL DEFAULT 0,
+    errors INTEGER NOT NULL DEFAULT 0,        -- failed repairs
+    items TEXT,                               -- JSON array of drift items
+    started_at TEXT NOT NULL DEFAULT (datetime('now')),
+    finished_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_dns_drift_runs_started ON dns_drift_runs(started_at);
+
+-- Scheduled checks only report by default; 'true' repairs drift automatically
+INSERT OR IGNORE INTO settings (key, value) VALUES ('dns_drift_auto_repair', 'false');
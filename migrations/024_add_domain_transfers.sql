@@ -0,0 +1,47 @@
+-- Migration: Add domain transfers between users
+-- Run: wrangler d1 execute pykg-nic-db --file=./migrations/024_add_domain_transfers.sql
+
+CREATE TABLE IF NOT EXISTS domain_transfers (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    domain_id INTEGER NOT NULL,
+    from_linuxdo_id INTEGER NOT NULL,
+    to_linuxdo_id INTEGER NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'awaiting_payment', 'completed', 'cancelled', 'declined', 'expired')),
+    fee REAL NOT NULL DEFAULT 0,              -- transfer fee paid by the recipient, fixed when the transfer starts
+    order_no TEXT,                            -- fee order, set once the recipient accepts
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    expires_at TEXT NOT NULL,
+    completed_at TEXT,
+    FOREIGN KEY (domain_id) REFERENCES domains(id) ON DELETE CASCADE,
+    FOREIGN KEY (from_linuxdo_id) REFERENCES users(linuxdo_id),
+    FOREIGN KEY (to_linuxdo_id) REFERENCES users(linuxdo_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_domain_transfers_domain ON domain_transfers(domain_id, status);
+CREATE INDEX IF NOT EXISTS idx_domain_transfers_to ON domain_transfers(to_linuxdo_id, status);
+CREATE INDEX IF NOT EXISTS idx_domain_transfers_order ON domain_transfers(order_no);
+
+-- Transfer fee in credits, 0 = free
+INSERT OR IGNORE INTO settings (key, value) VALUES ('transfer_fee', '0');
+
+-- Add transfer notification type
+CREATE TABLE IF NOT EXISTS notifications_new (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    linuxdo_id INTEGER NOT NULL,
+    type TEXT NOT NULL CHECK (type IN ('domain_pending_review', 'domain_approved', 'domain_rejected', 'domain_suspended', 'domain_unsuspended', 'report_processed', 'announcement', 'admin_message', 'domain_expired', 'domain_renewed', 'order_refunded', 'domain_transfer')),
+    title TEXT NOT NULL,
+    message TEXT NOT NULL,
+    is_read INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    FOREIGN KEY (linuxdo_id) REFERENCES users(linuxdo_id)
+);
+
+INSERT INTO notifications_new (id, linuxdo_id, type, title, message, is_read, created_at)
+SELECT id, linuxdo_id, type, title, message, is_read, created_at FROM notifications;
+
+DROP TABLE notifications;
+
+ALTER TABLE notifications_new RENAME TO notifications;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(linuxdo_id);
+CREATE INDEX IF NOT EXISTS idx_notifications_read ON notifications(is_read);
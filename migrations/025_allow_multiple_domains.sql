@@ -0,0 +1,44 @@
+-- Migration: Allow multiple domains per user (up to max_domains_per_user)
+-- Run: wrangler d1 execute pykg-nic-db --file=./migrations/025_allow_multiple_domains.sql
+
+-- SQLite can't drop a UNIQUE constraint, so the domains table is recreated without UNIQUE(owner_linuxdo_id)
+
+PRAGMA foreign_keys = OFF;
+
+-- Step 1: Create new domains table
+CREATE TABLE domains_new (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    label TEXT NOT NULL UNIQUE,
+    fqdn TEXT NOT NULL UNIQUE,
+    owner_linuxdo_id INTEGER NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'active', 'suspended', 'review', 'grace', 'redemption')),
+    review_reason TEXT,
+    python_praise TEXT,
+    usage_purpose TEXT,
+    dns_mode TEXT CHECK (dns_mode IN ('ns', 'direct')) DEFAULT 'direct',
+    suspend_reason TEXT,
+    expires_at TEXT,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    FOREIGN KEY (owner_linuxdo_id) REFERENCES users(linuxdo_id)
+);
+
+-- Step 2: Copy data from old table
+INSERT INTO domains_new (id, label, fqdn, owner_linuxdo_id, status, review_reason, python_praise, usage_purpose, dns_mode, suspend_reason, expires_at, created_at)
+SELECT id, label, fqdn, owner_linuxdo_id, status, review_reason, python_praise, usage_purpose, dns_mode, suspend_reason, expires_at, created_at
+FROM domains;
+
+-- Step 3: Drop old table
+DROP TABLE domains;
+
+-- Step 4: Rename new table
+ALTER TABLE domains_new RENAME TO domains;
+
+-- Step 5: Recreate indexes
+CREATE INDEX IF NOT EXISTS idx_domains_owner ON domains(owner_linuxdo_id);
+CREATE INDEX IF NOT EXISTS idx_domains_status ON domains(status);
+CREATE INDEX IF NOT EXISTS idx_domains_expires ON domains(expires_at);
+
+PRAGMA foreign_keys = ON;
+
+-- Per trust level quotas, e.g. {"2": 3, "3": 5}; empty = max_domains_per_user for everyone
+INSERT OR IGNORE INTO settings (key, value) VALUES ('max_domains_by_trust_level', '');
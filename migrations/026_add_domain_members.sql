@@ -0,0 +1,39 @@
+-- Migration: Add domain members (collaborators invited by the owner)
+-- Run: wrangler d1 execute pykg-nic-db --file=./migrations/026_add_domain_members.sql
+
+CREATE TABLE IF NOT EXISTS domain_members (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    domain_id INTEGER NOT NULL,
+    linuxdo_id INTEGER NOT NULL,
+    role TEXT NOT NULL CHECK (role IN ('viewer', 'dns-editor')),
+    invited_by INTEGER NOT NULL,              -- owner who added the member
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+    UNIQUE (domain_id, linuxdo_id),
+    FOREIGN KEY (domain_id) REFERENCES domains(id) ON DELETE CASCADE,
+    FOREIGN KEY (linuxdo_id) REFERENCES users(linuxdo_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_domain_members_user ON domain_members(linuxdo_id);
+
+-- Add member notification type
+CREATE TABLE IF NOT EXISTS notifications_new (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    linuxdo_id INTEGER NOT NULL,
+    type TEXT NOT NULL CHECK (type IN ('domain_pending_review', 'domain_approved', 'domain_rejected', 'domain_suspended', 'domain_unsuspended', 'report_processed', 'announcement', 'admin_message', 'domain_expired', 'domain_renewed', 'order_refunded', 'domain_transfer', 'domain_member')),
+    title TEXT NOT NULL,
+    message TEXT NOT NULL,
+    is_read INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    FOREIGN KEY (linuxdo_id) REFERENCES users(linuxdo_id)
+);
+
+INSERT INTO notifications_new (id, linuxdo_id, type, title, message, is_read, created_at)
+SELECT id, linuxdo_id, type, title, message, is_read, created_at FROM notifications;
+
+DROP TABLE notifications;
+
+ALTER TABLE notifications_new RENAME TO notifications;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(linuxdo_id);
+CREATE INDEX IF NOT EXISTS idx_notifications_read ON notifications(is_read);
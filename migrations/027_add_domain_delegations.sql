@@ -0,0 +1,38 @@
+-- Migration: Add sub-delegations (a third-level name handed to another user)
+-- Run: wrangler d1 execute pykg-nic-db --file=./migrations/027_add_domain_delegations.sql
+
+CREATE TABLE IF NOT EXISTS domain_delegations (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    domain_id INTEGER NOT NULL,
+    name TEXT NOT NULL,                       -- delegated label, e.g. 'alice' for alice.foo.py.kg
+    linuxdo_id INTEGER NOT NULL,              -- delegate
+    created_by INTEGER NOT NULL,              -- owner who made the grant
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    UNIQUE (domain_id, name),
+    FOREIGN KEY (domain_id) REFERENCES domains(id) ON DELETE CASCADE,
+    FOREIGN KEY (linuxdo_id) REFERENCES users(linuxdo_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_domain_delegations_user ON domain_delegations(linuxdo_id);
+
+-- Add delegation notification type
+CREATE TABLE IF NOT EXISTS notifications_new (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    linuxdo_id INTEGER NOT NULL,
+    type TEXT NOT NULL CHECK (type IN ('domain_pending_review', 'domain_approved', 'domain_rejected', 'domain_suspended', 'domain_unsuspended', 'report_processed', 'announcement', 'admin_message', 'domain_expired', 'domain_renewed', 'order_refunded', 'domain_transfer', 'domain_member', 'domain_delegation')),
+    title TEXT NOT NULL,
+    message TEXT NOT NULL,
+    is_read INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    FOREIGN KEY (linuxdo_id) REFERENCES users(linuxdo_id)
+);
+
+INSERT INTO notifications_new (id, linuxdo_id, type, title, message, is_read, created_at)
+SELECT id, linuxdo_id, type, title, message, is_read, created_at FROM notifications;
+
+DROP TABLE notifications;
+
+ALTER TABLE notifications_new RENAME TO notifications;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(linuxdo_id);
+CREATE INDEX IF NOT EXISTS idx_notifications_read ON notifications(is_read);
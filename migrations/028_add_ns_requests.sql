@@ -0,0 +1,25 @@
+-- Migration: Bring back NS delegation as an opt-in mode
+-- Delegation records are tracked in dns_records (type 'NS', name '@') so suspension,
+-- redemption, release and the drift check handle them like any other record
+-- Run: wrangler d1 execute pykg-nic-db --file=./migrations/028_add_ns_requests.sql
+
+-- Requests from users below ns_min_trust_level, waiting for an admin
+CREATE TABLE IF NOT EXISTS ns_requests (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    domain_id INTEGER NOT NULL,
+    linuxdo_id INTEGER NOT NULL,
+    nameservers TEXT NOT NULL,                -- JSON array of nameserver hostnames
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+    reason TEXT,                              -- rejection reason
+    reviewed_by INTEGER,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    reviewed_at TEXT,
+    FOREIGN KEY (domain_id) REFERENCES domains(id) ON DELETE CASCADE,
+    FOREIGN KEY (linuxdo_id) REFERENCES users(linuxdo_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ns_requests_status ON ns_requests(status);
+CREATE INDEX IF NOT EXISTS idx_ns_requests_domain ON ns_requests(domain_id, status);
+
+-- Trust level for switching to NS mode without admin approval (5 = approval only)
+INSERT OR IGNORE INTO settings (key, value) VALUES ('ns_min_trust_level', '3');
@@ -0,0 +1,13 @@
+-- Migration: Add rate limiting for mutating routes
+-- Fixed-window counters, one row per bucket ("<route>:user:<id>" or "<route>:ip:<address>") and window
+-- Run: wrangler d1 execute pykg-nic-db --file=./migrations/030_add_rate_limits.sql
+
+CREATE TABLE IF NOT EXISTS rate_limits (
+    bucket TEXT NOT NULL,
+    window_start INTEGER NOT NULL,            -- Unix seconds, a multiple of the window length
+    count INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (bucket, window_start)
+);
+
+-- Per-route budgets overriding the built-in defaults, e.g. {"dns_records": {"limit": 30, "window": 60}}
+INSERT OR IGNORE INTO settings (key, value) VALUES ('rate_limits', '');
@@ -0,0 +1,17 @@
+-- Migration: Add server-side sessions
+-- Each login session JWT carries a jti that must match an active row here, so sessions can be revoked
+-- Run: wrangler d1 execute pykg-nic-db --file=./migrations/031_add_sessions.sql
+
+CREATE TABLE IF NOT EXISTS sessions (
+    jti TEXT PRIMARY KEY,                     -- random UUID, the JWT's jti claim
+    linuxdo_id INTEGER NOT NULL,
+    ip_address TEXT,                          -- where the session was created
+    user_agent TEXT,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    expires_at TEXT NOT NULL,                 -- same as the JWT's exp
+    last_used_at TEXT,
+    revoked_at TEXT,
+    FOREIGN KEY (linuxdo_id) REFERENCES users(linuxdo_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(linuxdo_id);
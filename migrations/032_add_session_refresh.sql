@@ -0,0 +1,7 @@
+-- Migration: Add sliding session refresh and remember-me
+-- Refreshing a session re-issues its JWT with the next generation; a JWT from an older generation is a replayed copy
+-- Run: wrangler d1 execute pykg-nic-db --file=./migrations/032_add_session_refresh.sql
+
+ALTER TABLE sessions ADD COLUMN remember INTEGER NOT NULL DEFAULT 0;   -- 1 = "remember me" login, longer lifetime
+ALTER TABLE sessions ADD COLUMN generation INTEGER NOT NULL DEFAULT 0; -- matches the gen claim of the only valid JWT
+ALTER TABLE sessions ADD COLUMN rotated_at TEXT;                       -- last refresh
@@ -0,0 +1,6 @@
+-- Migration: Add periodic re-sync of user profiles from LinuxDO
+-- Run: wrangler d1 execute pykg-nic-db --file=./migrations/033_add_linuxdo_sync.sql
+
+ALTER TABLE users ADD COLUMN profile_synced_at TEXT;   -- last re-sync by /api/cron/linuxdo-sync, NULL = never
+
+CREATE INDEX IF NOT EXISTS idx_users_profile_synced ON users(profile_synced_at);
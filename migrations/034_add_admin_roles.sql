@@ -0,0 +1,8 @@
+-- Migration: Add admin roles
+-- is_admin stays as "has any admin role" for the checks that only need that (MX policy, NS approval)
+-- Run: wrangler d1 execute pykg-nic-db --file=./migrations/034_add_admin_roles.sql
+
+ALTER TABLE users ADD COLUMN admin_role TEXT CHECK (admin_role IN ('superadmin', 'moderator', 'support'));
+
+-- Existing admins keep every permission they had
+UPDATE users SET admin_role = 'superadmin' WHERE is_admin = 1;
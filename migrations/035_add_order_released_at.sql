@@ -0,0 +1,8 @@
+-- Migration: Mark the paid orders of domains that no longer exist
+-- Run: wrangler d1 execute pykg-nic-db --file=./migrations/035_add_order_released_at.sql
+
+-- Set when the domain an order paid for is released or deleted; a replayed payment callback
+-- must not re-create the domain from such an order
+ALTER TABLE orders ADD COLUMN released_at TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_orders_label ON orders(label);
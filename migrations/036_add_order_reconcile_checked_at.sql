@@ -0,0 +1,6 @@
+-- Migration: Rotate the payment reconciliation queue
+-- Run: wrangler d1 execute pykg-nic-db --file=./migrations/036_add_order_reconcile_checked_at.sql
+
+-- Set each time reconciliation queries a pending order; orders are picked least recently checked first,
+-- so orders that stay pending (query failed, amount mismatch) do not block newer ones
+ALTER TABLE orders ADD COLUMN reconcile_checked_at TEXT;
@@ -0,0 +1,6 @@
+-- Migration: Claim orders while they are being refunded
+-- Run: wrangler d1 execute pykg-nic-db --file=./migrations/037_add_order_refund_started_at.sql
+
+-- Set by the request that calls the refund API and cleared when it records the outcome,
+-- so two requests (an admin double-click, a manual refund racing an automatic one) cannot refund twice
+ALTER TABLE orders ADD COLUMN refund_started_at TEXT;
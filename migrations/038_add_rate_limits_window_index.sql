@@ -0,0 +1,5 @@
+-- Migration: Index rate limit windows by start time
+-- Expired windows are purged across all buckets with DELETE ... WHERE window_start < ?
+-- Run: wrangler d1 execute pykg-nic-db --file=./migrations/038_add_rate_limits_window_index.sql
+
+CREATE INDEX IF NOT EXISTS idx_rate_limits_window_start ON rate_limits(window_start);
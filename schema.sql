@@ -15,7 +15,7 @@ CREATE TABLE IF NOT EXISTS users (
     updated_at TEXT NOT NULL DEFAULT (datetime('now'))
 );
 
--- Domains table: one domain per user (enforced by UNIQUE on owner_linuxdo_id)
+-- Domains table: one domain per user (enforced by UNIQUE on owner_linuxdo_id, dropped in migration 025)
 CREATE TABLE IF NOT EXISTS domains (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
     label TEXT NOT NULL UNIQUE,
@@ -0,0 +1,89 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { applyDnsChangeset } from '../functions/lib/dns-changeset';
+import { CloudflareDNSClient } from '../functions/lib/cloudflare-dns';
+import type { CloudflareBatchInput, CloudflareBatchResult } from '../functions/lib/cloudflare-dns';
+import type { Domain, DnsRecord } from '../functions/lib/types';
+
+// Records every batch and hands out new ids for created records
+class StubCloudflare extends CloudflareDNSClient {
+	batches: CloudflareBatchInput[] = [];
+	private nextId = 1;
+
+	constructor() {
+		super('token', 'zone');
+	}
+
+	async batchDNSRecords(batch: CloudflareBatchInput): Promise<{ success: true; result: CloudflareBatchResult }> {
+		this.batches.push(batch);
+		const posts = (batch.posts || []).map(record => ({ ...record, id: `cf-new-${this.nextId++}`, priority: record.priority ?? undefined }));
+		return { success: true, result: { deletes: [], puts: [], posts } };
+	}
+}
+
+const domain = {
+	id: 1,
+	label: 'demo',
+	fqdn: 'demo.py.kg',
+	owner_linuxdo_id: 1,
+	status: 'active',
+	dns_mode: 'direct',
+} as Domain;
+
+const TABLES = [
+	`CREATE TABLE domains (id INTEGER PRIMARY KEY, fqdn TEXT NOT NULL, dns_mode TEXT)`,
+	`CREATE TABLE dns_records (
+		id INTEGER PRIMARY KEY AUTOINCREMENT, domain_id INTEGER NOT NULL, type TEXT NOT NULL, name TEXT NOT NULL,
+		content TEXT NOT NULL, priority INTEGER, ttl INTEGER NOT NULL, proxied INTEGER NOT NULL DEFAULT 0,
+		cloudflare_record_id TEXT, created_at TEXT NOT NULL, updated_at TEXT NOT NULL
+	)`,
+	`INSERT INTO domains (id, fqdn, dns_mode) VALUES (1, 'demo.py.kg', 'direct')`,
+	`INSERT INTO dns_records (domain_id, type, name, content, ttl, cloudflare_record_id, created_at, updated_at)
+		VALUES (1, 'A', 'www', '192.0.2.1', 3600, 'cf-www', '2026-01-01 00:00:00', '2026-01-01 00:00:00')`,
+];
+
+async function records(): Promise<DnsRecord[]> {
+	const { results } = await env.DB.prepare('SELECT * FROM dns_records ORDER BY id').all<DnsRecord>();
+	return results || [];
+}
+
+const nsChangeset = async () => ({
+	create: [{ type: 'NS' as const, name: '@', content: 'ns1.example.com', ttl: 3600, proxied: false, priority: null }],
+	update: [],
+	delete: await records(),
+});
+
+beforeEach(async () => {
+	await env.DB.batch(TABLES.map(sql => env.DB.prepare(sql)));
+});
+
+describe('applyDnsChangeset verify', () => {
+	it('writes the change once verification passes', async () => {
+		const cf = new StubCloudflare();
+
+		const result = await applyDnsChangeset(env.DB, cf, domain, await nsChangeset(), { verify: async () => null });
+
+		expect(result.success).toBe(true);
+		expect((await records()).map(r => [r.type, r.content])).toEqual([['NS', 'ns1.example.com']]);
+		expect(await env.DB.prepare('SELECT dns_mode FROM domains WHERE id = 1').first('dns_mode')).toBe('ns');
+	});
+
+	it('undoes the Cloudflare batch and leaves the database alone when verification fails', async () => {
+		const cf = new StubCloudflare();
+
+		const result = await applyDnsChangeset(env.DB, cf, domain, await nsChangeset(), {
+			verify: async () => 'Delegation check failed: lame',
+		});
+
+		expect(result).toEqual({ success: false, error: 'Delegation check failed: lame', rolledBack: true, verificationFailed: true });
+
+		// The compensating batch deletes the new NS record and re-creates the deleted A record
+		expect(cf.batches).toHaveLength(2);
+		expect(cf.batches[1].deletes).toEqual([{ id: 'cf-new-1' }]);
+		expect(cf.batches[1].posts?.map(r => [r.type, r.name, r.content])).toEqual([['A', 'www.demo.py.kg', '192.0.2.1']]);
+
+		const rows = await records();
+		expect(rows.map(r => [r.type, r.content, r.cloudflare_record_id])).toEqual([['A', '192.0.2.1', 'cf-new-2']]);
+		expect(await env.DB.prepare('SELECT dns_mode FROM domains WHERE id = 1').first('dns_mode')).toBe('direct');
+	});
+});
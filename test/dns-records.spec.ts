@@ -0,0 +1,69 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { onRequestPut } from '../functions/api/dns-records/[id]';
+import { createSession, signSessionToken } from '../functions/lib/sessions';
+import type { Env } from '../functions/lib/types';
+
+const SIGNING_KEY = 'test-signing-key';
+
+// Only the columns the PUT handler reads before it reaches Cloudflare
+const TABLES = [
+	`CREATE TABLE sessions (
+		jti TEXT PRIMARY KEY, linuxdo_id INTEGER NOT NULL, ip_address TEXT, user_agent TEXT, remember INTEGER NOT NULL DEFAULT 0,
+		generation INTEGER NOT NULL DEFAULT 0, rotated_at TEXT, created_at TEXT NOT NULL, expires_at TEXT NOT NULL,
+		last_used_at TEXT, revoked_at TEXT
+	)`,
+	`CREATE TABLE settings (key TEXT PRIMARY KEY, value TEXT NOT NULL)`,
+	`CREATE TABLE rate_limits (bucket TEXT NOT NULL, window_start INTEGER NOT NULL, count INTEGER NOT NULL DEFAULT 0, PRIMARY KEY (bucket, window_start))`,
+	`CREATE TABLE audit_logs (
+		id INTEGER PRIMARY KEY AUTOINCREMENT, linuxdo_id INTEGER NOT NULL, action TEXT NOT NULL,
+		target TEXT, details TEXT, ip_address TEXT, created_at TEXT NOT NULL
+	)`,
+	`CREATE TABLE domains (
+		id INTEGER PRIMARY KEY, label TEXT NOT NULL, fqdn TEXT NOT NULL, owner_linuxdo_id INTEGER NOT NULL,
+		status TEXT NOT NULL, dns_mode TEXT
+	)`,
+	`CREATE TABLE dns_records (
+		id INTEGER PRIMARY KEY, domain_id INTEGER NOT NULL, type TEXT NOT NULL, name TEXT NOT NULL, content TEXT NOT NULL,
+		priority INTEGER, ttl INTEGER NOT NULL, proxied INTEGER NOT NULL DEFAULT 0, cloudflare_record_id TEXT,
+		cf_synced INTEGER NOT NULL DEFAULT 1, acme_challenge INTEGER NOT NULL DEFAULT 0, ddns_key_hash TEXT,
+		pending_approval INTEGER NOT NULL DEFAULT 0, created_at TEXT NOT NULL, updated_at TEXT NOT NULL
+	)`,
+	`INSERT INTO domains (id, label, fqdn, owner_linuxdo_id, status) VALUES (1, 'demo', 'demo.py.kg', 1, 'active')`,
+	`INSERT INTO dns_records (id, domain_id, type, name, content, ttl, cloudflare_record_id, acme_challenge, created_at, updated_at)
+		VALUES (2, 1, 'TXT', '_acme-challenge', 'token', 60, 'cf-acme', 1, '2026-01-01 00:00:00', '2026-01-01 00:00:00')`,
+];
+
+async function put(recordId: string, body: unknown): Promise<Response> {
+	const jti = await createSession(env.DB, 1, new Request('https://nic.py.kg/'), false);
+	const token = await signSessionToken({ sub: '1', username: 'alice', trust_level: 2 }, jti, 0, SIGNING_KEY, 3600);
+
+	const request = new Request(`https://nic.py.kg/api/dns-records/${recordId}`, {
+		method: 'PUT',
+		headers: { Cookie: `session=${token}`, 'Content-Type': 'application/json' },
+		body: JSON.stringify(body),
+	});
+
+	return onRequestPut({
+		request,
+		env: { ...env, JWT_SIGNING_KEY: SIGNING_KEY } as unknown as Env,
+		params: { id: recordId },
+		data: {},
+	} as unknown as Parameters<typeof onRequestPut>[0]);
+}
+
+beforeEach(async () => {
+	await env.DB.batch(TABLES.map(sql => env.DB.prepare(sql)));
+});
+
+describe('PUT /api/dns-records/:id', () => {
+	it('refuses to turn an ACME challenge record into an ordinary record', async () => {
+		const response = await put('2', { type: 'A', name: 'www', content: '192.0.2.1' });
+
+		expect(response.status).toBe(400);
+		expect(await response.json()).toEqual({ success: false, error: 'ACME challenge records are managed by /api/acme' });
+
+		const record = await env.DB.prepare('SELECT type, name, content FROM dns_records WHERE id = 2').first();
+		expect(record).toEqual({ type: 'TXT', name: '_acme-challenge', content: 'token' });
+	});
+});
@@ -0,0 +1,211 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { syncUserProfiles } from '../functions/lib/linuxdo-sync';
+import type { LinuxDOProfile, LinuxDOProfileClient } from '../functions/lib/linuxdo';
+
+// Profiles keyed by LinuxDO ID; missing IDs are "no such user", an Error is thrown
+class StubProfileClient implements LinuxDOProfileClient {
+	lookups: number[] = [];
+
+	constructor(private profiles: Record<number, LinuxDOProfile | Error>) {}
+
+	async getUser(linuxdoId: number): Promise<LinuxDOProfile | null> {
+		this.lookups.push(linuxdoId);
+		const profile = this.profiles[linuxdoId];
+		if (profile instanceof Error) {
+			throw profile;
+		}
+		return profile || null;
+	}
+}
+
+function profile(id: number, values: Partial<LinuxDOProfile> = {}): LinuxDOProfile {
+	return { id, username: `user${id}`, trust_level: 1, silenced: false, active: true, ...values };
+}
+
+// Only the columns syncUserProfiles reads and writes
+const TABLES = [
+	`CREATE TABLE users (
+		linuxdo_id INTEGER PRIMARY KEY, username TEXT NOT NULL, trust_level INTEGER NOT NULL DEFAULT 0,
+		silenced INTEGER NOT NULL DEFAULT 0, active INTEGER NOT NULL DEFAULT 1, profile_synced_at TEXT,
+		updated_at TEXT NOT NULL DEFAULT '2026-01-01 00:00:00'
+	)`,
+	`CREATE TABLE domains (
+		id INTEGER PRIMARY KEY AUTOINCREMENT, label TEXT NOT NULL, fqdn TEXT NOT NULL,
+		owner_linuxdo_id INTEGER NOT NULL, status TEXT NOT NULL, review_reason TEXT
+	)`,
+	`CREATE TABLE audit_logs (
+		id INTEGER PRIMARY KEY AUTOINCREMENT, linuxdo_id INTEGER NOT NULL, action TEXT NOT NULL,
+		target TEXT, details TEXT, ip_address TEXT, created_at TEXT NOT NULL
+	)`,
+	`CREATE TABLE notifications (
+		id INTEGER PRIMARY KEY AUTOINCREMENT, linuxdo_id INTEGER NOT NULL, type TEXT NOT NULL,
+		title TEXT NOT NULL, message TEXT NOT NULL, is_read INTEGER NOT NULL, created_at TEXT NOT NULL
+	)`,
+	`CREATE TABLE sessions (jti TEXT PRIMARY KEY, linuxdo_id INTEGER NOT NULL, expires_at TEXT NOT NULL, revoked_at TEXT)`,
+	`CREATE TABLE api_tokens (id INTEGER PRIMARY KEY AUTOINCREMENT, linuxdo_id INTEGER NOT NULL, revoked_at TEXT)`,
+];
+
+async function addUser(id: number, values: { silenced?: number; active?: number; synced?: string | null } = {}): Promise<void> {
+	await env.DB.prepare(
+		'INSERT INTO users (linuxdo_id, username, trust_level, silenced, active, profile_synced_at) VALUES (?, ?, 1, ?, ?, ?)'
+	).bind(id, `user${id}`, values.silenced ?? 0, values.active ?? 1, values.synced ?? null).run();
+}
+
+async function addDomain(ownerId: number, label: string, status: string): Promise<void> {
+	await env.DB.prepare(
+		'INSERT INTO domains (label, fqdn, owner_linuxdo_id, status) VALUES (?, ?, ?, ?)'
+	).bind(label, `${label}.py.kg`, ownerId, status).run();
+}
+
+// One live session and one live API token per user
+async function addAccess(id: number): Promise<void> {
+	await env.DB.batch([
+		env.DB.prepare("INSERT INTO sessions (jti, linuxdo_id, expires_at) VALUES (?, ?, datetime('now', '+1 day'))").bind(`jti-${id}`, id),
+		env.DB.prepare('INSERT INTO api_tokens (linuxdo_id) VALUES (?)').bind(id),
+	]);
+}
+
+async function revokedAccess(): Promise<{ sessions: number[]; tokens: number[] }> {
+	const { results: sessions } = await env.DB.prepare(
+		'SELECT linuxdo_id FROM sessions WHERE revoked_at IS NOT NULL ORDER BY linuxdo_id'
+	).all<{ linuxdo_id: number }>();
+	const { results: tokens } = await env.DB.prepare(
+		'SELECT linuxdo_id FROM api_tokens WHERE revoked_at IS NOT NULL ORDER BY linuxdo_id'
+	).all<{ linuxdo_id: number }>();
+	return { sessions: sessions.map(r => r.linuxdo_id), tokens: tokens.map(r => r.linuxdo_id) };
+}
+
+async function getUser(id: number) {
+	return env.DB.prepare('SELECT * FROM users WHERE linuxdo_id = ?').bind(id).first<{
+		username: string;
+		trust_level: number;
+		silenced: number;
+		active: number;
+		profile_synced_at: string | null;
+		updated_at: string;
+	}>();
+}
+
+beforeEach(async () => {
+	await env.DB.batch(TABLES.map(sql => env.DB.prepare(sql)));
+});
+
+describe('syncUserProfiles', () => {
+	it('syncs never-synced users first, up to the limit', async () => {
+		await addUser(1, { synced: '2026-01-02 00:00:00' });
+		await addUser(2, { synced: '2026-01-01 00:00:00' });
+		await addUser(3);
+		const client = new StubProfileClient({ 1: profile(1), 2: profile(2), 3: profile(3) });
+
+		const report = await syncUserProfiles(env.DB, client, 2);
+
+		expect(client.lookups).toEqual([3, 2]);
+		expect(report.checked).toBe(2);
+		expect((await getUser(1))?.profile_synced_at).toBe('2026-01-02 00:00:00');
+		expect((await getUser(3))?.profile_synced_at).not.toBeNull();
+	});
+
+	it('stores renames and trust level changes and only bumps updated_at when something changed', async () => {
+		await addUser(1);
+		await addUser(2);
+		const client = new StubProfileClient({ 1: profile(1, { username: 'renamed', trust_level: 3 }), 2: profile(2) });
+
+		const report = await syncUserProfiles(env.DB, client);
+
+		expect(report).toMatchObject({ checked: 2, updated: 1, not_found: 0, failed: 0, flagged_users: [] });
+		expect(await getUser(1)).toMatchObject({ username: 'renamed', trust_level: 3 });
+		expect((await getUser(1))?.updated_at).not.toBe('2026-01-01 00:00:00');
+		expect((await getUser(2))?.updated_at).toBe('2026-01-01 00:00:00');
+	});
+
+	it('retries failed lookups on the next run and only marks missing users as synced', async () => {
+		await addUser(1);
+		await addUser(2);
+		const client = new StubProfileClient({ 1: new Error('HTTP 502') });
+
+		const report = await syncUserProfiles(env.DB, client);
+
+		expect(report).toMatchObject({ checked: 2, updated: 0, not_found: 1, failed: 1 });
+		expect((await getUser(1))?.profile_synced_at).toBeNull();
+		expect(await getUser(2)).toMatchObject({ username: 'user2', profile_synced_at: expect.any(String) });
+	});
+
+	it('puts the active domains of newly silenced or deactivated users into review', async () => {
+		await addUser(1);
+		await addUser(2);
+		await addDomain(1, 'one', 'active');
+		await addDomain(1, 'held', 'suspended');
+		await addDomain(2, 'two', 'active');
+		const client = new StubProfileClient({ 1: profile(1, { silenced: true }), 2: profile(2, { active: false }) });
+
+		const report = await syncUserProfiles(env.DB, client);
+
+		expect(report.flagged_users).toEqual([1, 2]);
+		expect(report.flagged_domains).toEqual(['one.py.kg', 'two.py.kg']);
+
+		const { results: domains } = await env.DB.prepare(
+			'SELECT label, status, review_reason FROM domains ORDER BY id'
+		).all();
+		expect(domains).toEqual([
+			{ label: 'one', status: 'review', review_reason: 'LinuxDO 账户已被禁言' },
+			{ label: 'held', status: 'suspended', review_reason: null },
+			{ label: 'two', status: 'review', review_reason: 'LinuxDO 账户已停用' },
+		]);
+
+		const audit = await env.DB.prepare(
+			"SELECT details FROM audit_logs WHERE action = 'linuxdo_sync_flag' AND linuxdo_id = 1"
+		).first<{ details: string }>();
+		expect(JSON.parse(audit!.details)).toEqual({
+			silenced: true,
+			inactive: false,
+			sessions_revoked: 0,
+			tokens_revoked: 0,
+			domains: ['one.py.kg'],
+		});
+
+		const { results: notifications } = await env.DB.prepare(
+			'SELECT linuxdo_id, type FROM notifications ORDER BY id'
+		).all();
+		expect(notifications).toEqual([
+			{ linuxdo_id: 1, type: 'domain_pending_review' },
+			{ linuxdo_id: 2, type: 'domain_pending_review' },
+		]);
+	});
+
+	it('revokes the sessions and API tokens of newly silenced or deactivated users', async () => {
+		await addUser(1);
+		await addUser(2);
+		await addUser(3);
+		for (const id of [1, 2, 3]) {
+			await addAccess(id);
+		}
+		const client = new StubProfileClient({
+			1: profile(1, { silenced: true }),
+			2: profile(2, { active: false }),
+			3: profile(3, { trust_level: 2 }),
+		});
+
+		await syncUserProfiles(env.DB, client);
+
+		expect(await revokedAccess()).toEqual({ sessions: [1, 2], tokens: [1, 2] });
+
+		const audit = await env.DB.prepare(
+			"SELECT details FROM audit_logs WHERE action = 'linuxdo_sync_flag' AND linuxdo_id = 2"
+		).first<{ details: string }>();
+		expect(JSON.parse(audit!.details)).toMatchObject({ inactive: true, sessions_revoked: 1, tokens_revoked: 1 });
+	});
+
+	it('does not flag users who were already silenced', async () => {
+		await addUser(1, { silenced: 1 });
+		await addDomain(1, 'one', 'active');
+		await addAccess(1);
+		const client = new StubProfileClient({ 1: profile(1, { silenced: true }) });
+
+		const report = await syncUserProfiles(env.DB, client);
+
+		expect(report.flagged_users).toEqual([]);
+		expect(await env.DB.prepare("SELECT status FROM domains WHERE label = 'one'").first('status')).toBe('active');
+		expect(await revokedAccess()).toEqual({ sessions: [], tokens: [] });
+	});
+});
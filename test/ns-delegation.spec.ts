@@ -0,0 +1,194 @@
+import { describe, it, expect } from 'vitest';
+import { checkNameservers, verifyDelegation, parseNameservers, parseDsRecord } from '../functions/lib/ns-delegation';
+import { DNS_TYPES, DNS_NXDOMAIN, DNS_NOERROR, DNS_SERVFAIL, DNS_REFUSED } from '../functions/lib/dns-resolver';
+import type { DnsResolver, DnsQueryResult, DnsQueryType } from '../functions/lib/dns-resolver';
+
+// Answers keyed by "<name> <type>"; anything not listed is NXDOMAIN, an Error is thrown
+class StubResolver implements DnsResolver {
+	queries: string[] = [];
+
+	constructor(private answers: Record<string, DnsQueryResult | Error>) {}
+
+	async query(name: string, type: DnsQueryType): Promise<DnsQueryResult> {
+		const key = `${name} ${type}`;
+		this.queries.push(key);
+		const answer = this.answers[key];
+		if (answer instanceof Error) {
+			throw answer;
+		}
+		return answer || { rcode: DNS_NXDOMAIN, answers: [] };
+	}
+}
+
+function answer(name: string, type: keyof typeof DNS_TYPES, ...data: string[]): DnsQueryResult {
+	return { rcode: DNS_NOERROR, answers: data.map(d => ({ name, type: DNS_TYPES[type], ttl: 300, data: d })) };
+}
+
+const registry = {
+	'py.kg NS': answer('py.kg', 'NS', 'ada.ns.cloudflare.com.', 'bob.ns.cloudflare.com.'),
+};
+
+describe('parseNameservers', () => {
+	it('normalizes case and trailing dots', () => {
+		expect(parseNameservers(['NS1.Example.com.', ' ns2.example.net '])).toEqual({
+			valid: true,
+			nameservers: ['ns1.example.com', 'ns2.example.net'],
+		});
+	});
+
+	it('rejects a missing array and lists outside 2-8 entries', () => {
+		expect(parseNameservers('ns1.example.com')).toMatchObject({ valid: false, error: 'Missing or invalid nameservers array' });
+		expect(parseNameservers(['ns1.example.com'])).toMatchObject({ valid: false, error: 'At least 2 nameservers are required' });
+		expect(parseNameservers(Array.from({ length: 9 }, (_, i) => `ns${i}.example.com`))).toMatchObject({
+			valid: false,
+			error: 'Maximum 8 nameservers allowed',
+		});
+	});
+
+	it('reports every invalid entry and duplicates', () => {
+		const result = parseNameservers(['ns1.example.com', 42, 'not a host', 'NS1.example.com.']);
+		expect(result.valid).toBe(false);
+		if (!result.valid) {
+			expect(result.error).toContain('nameservers[1]: Must be a string');
+			expect(result.error).toContain('nameservers[2]: Invalid nameserver format');
+			expect(result.error).toContain('Duplicate nameservers are not allowed');
+		}
+	});
+});
+
+describe('parseDsRecord', () => {
+	const sha256 = 'e06d44b80b8f1d39a95c0b0d7c65d08458e880409bbc683457104237c7f8ec8d';
+
+	it('returns the record in presentation format', () => {
+		expect(parseDsRecord({ key_tag: 2371, algorithm: 13, digest_type: 2, digest: sha256 })).toEqual({
+			valid: true,
+			content: `2371 13 2 ${sha256.toUpperCase()}`,
+			ttl: 3600,
+		});
+	});
+
+	it('accepts a digest split by whitespace and a custom TTL', () => {
+		const result = parseDsRecord({ key_tag: 1, algorithm: 8, digest_type: 2, digest: `${sha256.slice(0, 32)} ${sha256.slice(32)}`, ttl: 600 });
+		expect(result).toMatchObject({ valid: true, ttl: 600 });
+	});
+
+	it('rejects missing fields, bad TTLs, unknown algorithms and wrong digest lengths', () => {
+		expect(parseDsRecord({ algorithm: 13, digest_type: 2, digest: sha256 })).toMatchObject({ valid: false });
+		expect(parseDsRecord({ key_tag: 1, algorithm: 13, digest_type: 2 })).toEqual({ valid: false, error: 'Missing or invalid digest' });
+		expect(parseDsRecord({ key_tag: 1, algorithm: 13, digest_type: 2, digest: sha256, ttl: 30 })).toEqual({
+			valid: false,
+			error: 'TTL must be between 60 and 86400 seconds',
+		});
+		expect(parseDsRecord({ key_tag: 1, algorithm: 99, digest_type: 2, digest: sha256 })).toMatchObject({ valid: false });
+		expect(parseDsRecord({ key_tag: 70000, algorithm: 13, digest_type: 2, digest: sha256 })).toMatchObject({ valid: false });
+		expect(parseDsRecord({ key_tag: 1, algorithm: 13, digest_type: 2, digest: sha256.slice(0, 40) })).toEqual({
+			valid: false,
+			error: 'DS digest for digest type 2 must be 64 hex characters',
+		});
+	});
+});
+
+describe('checkNameservers', () => {
+	it('accepts nameservers with A or AAAA records', async () => {
+		const resolver = new StubResolver({
+			...registry,
+			'ns1.example.com A': answer('ns1.example.com', 'A', '192.0.2.53'),
+			'ns2.example.net AAAA': answer('ns2.example.net', 'AAAA', '2001:db8::53'),
+		});
+
+		const result = await checkNameservers(resolver, 'demo.py.kg', ['ns1.example.com', 'ns2.example.net'], 'py.kg');
+
+		expect(result).toEqual({ valid: true });
+		expect(resolver.queries).toContain('py.kg NS');
+	});
+
+	it('rejects nameservers inside the domain, registry nameservers, aliases and names without addresses', async () => {
+		const resolver = new StubResolver({
+			...registry,
+			'alias.example.com A': answer('alias.example.com', 'CNAME', 'ns.example.org.'),
+		});
+
+		const result = await checkNameservers(
+			resolver,
+			'demo.py.kg',
+			['ns1.demo.py.kg', 'ada.ns.cloudflare.com', 'alias.example.com', 'gone.example.com'],
+			'py.kg'
+		);
+
+		expect(result).toEqual({
+			valid: false,
+			problems: [
+				'ns1.demo.py.kg: is inside demo.py.kg and would need glue records, use a nameserver under another domain',
+				'ada.ns.cloudflare.com: is a nameserver of py.kg itself',
+				'alias.example.com: is an alias (CNAME), nameservers need their own A/AAAA records',
+				'gone.example.com: does not resolve to an address (rcode 3)',
+			],
+		});
+		// Names that fail the static checks are never looked up
+		expect(resolver.queries).not.toContain('ns1.demo.py.kg A');
+	});
+
+	it('reports resolver failures instead of throwing', async () => {
+		const down = new StubResolver({ 'py.kg NS': new Error('HTTP 503') });
+		expect(await checkNameservers(down, 'demo.py.kg', ['ns1.example.com', 'ns2.example.com'], 'py.kg')).toEqual({
+			valid: false,
+			problems: ['Could not look up the nameservers of py.kg: HTTP 503'],
+		});
+
+		const flaky = new StubResolver({
+			...registry,
+			'ns1.example.com A': answer('ns1.example.com', 'A', '192.0.2.53'),
+			'ns2.example.com A': new Error('timeout'),
+		});
+		expect(await checkNameservers(flaky, 'demo.py.kg', ['ns1.example.com', 'ns2.example.com'], 'py.kg')).toEqual({
+			valid: false,
+			problems: ['ns2.example.com: lookup failed: timeout'],
+		});
+	});
+});
+
+describe('verifyDelegation', () => {
+	const nameservers = ['ns1.example.com', 'ns2.example.net'];
+	const soa = answer('demo.py.kg', 'SOA', 'ns1.example.com. hostmaster.example.com. 1 7200 3600 1209600 3600');
+	const options = { attempts: 2, delayMs: 0 };
+
+	it('accepts a zone served with an SOA and the delegated NS set', async () => {
+		const resolver = new StubResolver({
+			'demo.py.kg SOA': soa,
+			'demo.py.kg NS': answer('demo.py.kg', 'NS', 'NS2.example.net.', 'ns1.example.com.'),
+		});
+
+		expect(await verifyDelegation(resolver, 'demo.py.kg', nameservers, options)).toEqual([]);
+		expect(resolver.queries).toHaveLength(2);
+	});
+
+	it('reports a lame delegation after every attempt failed', async () => {
+		const lame = { rcode: DNS_SERVFAIL, answers: [] };
+		const resolver = new StubResolver({ 'demo.py.kg SOA': lame, 'demo.py.kg NS': lame });
+
+		expect(await verifyDelegation(resolver, 'demo.py.kg', nameservers, options)).toEqual([
+			'demo.py.kg: the nameservers do not answer for the domain (rcode 2), configure the zone on them first',
+		]);
+		expect(resolver.queries.filter(q => q === 'demo.py.kg SOA')).toHaveLength(2);
+
+		const refused = new StubResolver({ 'demo.py.kg SOA': { rcode: DNS_REFUSED, answers: [] } });
+		expect(await verifyDelegation(refused, 'demo.py.kg', nameservers, options)).toHaveLength(1);
+	});
+
+	it('rejects a zone without an SOA or with a different NS set', async () => {
+		const resolver = new StubResolver({
+			'demo.py.kg SOA': { rcode: DNS_NOERROR, answers: [] },
+			'demo.py.kg NS': answer('demo.py.kg', 'NS', 'ns1.example.com.', 'ns.other.org.'),
+		});
+
+		expect(await verifyDelegation(resolver, 'demo.py.kg', nameservers, options)).toEqual([
+			'demo.py.kg: the nameservers return no SOA record for the domain',
+			'demo.py.kg: the nameservers list ns1.example.com, ns.other.org instead of ns1.example.com, ns2.example.net',
+		]);
+	});
+
+	it('reports resolver failures', async () => {
+		const down = new StubResolver({ 'demo.py.kg SOA': new Error('HTTP 503') });
+		expect(await verifyDelegation(down, 'demo.py.kg', nameservers, options)).toEqual(['Could not look up demo.py.kg: HTTP 503']);
+	});
+});
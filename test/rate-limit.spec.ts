@@ -0,0 +1,52 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { checkRateLimit } from '../functions/lib/rate-limit';
+
+// Only the tables checkRateLimit touches
+const TABLES = [
+	`CREATE TABLE settings (key TEXT PRIMARY KEY, value TEXT NOT NULL)`,
+	`CREATE TABLE rate_limits (bucket TEXT NOT NULL, window_start INTEGER NOT NULL, count INTEGER NOT NULL DEFAULT 0, PRIMARY KEY (bucket, window_start))`,
+	`CREATE TABLE audit_logs (
+		id INTEGER PRIMARY KEY AUTOINCREMENT, linuxdo_id INTEGER NOT NULL, action TEXT NOT NULL,
+		target TEXT, details TEXT, ip_address TEXT, created_at TEXT NOT NULL
+	)`,
+];
+
+async function addWindow(bucket: string, secondsAgo: number): Promise<void> {
+	const now = Math.floor(Date.now() / 1000);
+	await env.DB.prepare('INSERT INTO rate_limits (bucket, window_start, count) VALUES (?, ?, 3)').bind(bucket, now - secondsAgo).run();
+}
+
+async function buckets(): Promise<string[]> {
+	const { results } = await env.DB.prepare('SELECT bucket FROM rate_limits ORDER BY bucket').all<{ bucket: string }>();
+	return results.map(r => r.bucket);
+}
+
+beforeEach(async () => {
+	await env.DB.batch(TABLES.map(sql => env.DB.prepare(sql)));
+});
+
+describe('checkRateLimit', () => {
+	it('purges windows of other buckets once they have ended for every route', async () => {
+		// Older than the longest default window (reports, one hour)
+		await addWindow('messages:user:2', 7200);
+		await addWindow('reports:ip:192.0.2.9', 7200);
+		// Still inside the longest window
+		await addWindow('reports:user:3', 1800);
+
+		const request = new Request('https://nic.py.kg/api/dns-records', { headers: { 'CF-Connecting-IP': '192.0.2.1' } });
+		expect(await checkRateLimit(env.DB, request, 'dns_records', 1)).toBeNull();
+
+		expect(await buckets()).toEqual(['dns_records:ip:192.0.2.1', 'dns_records:user:1', 'reports:user:3']);
+	});
+
+	it('keeps windows a configured longer budget still needs', async () => {
+		await env.DB.prepare("INSERT INTO settings (key, value) VALUES ('rate_limits', ?)")
+			.bind(JSON.stringify({ reports: { limit: 5, window: 86400 } })).run();
+		await addWindow('reports:user:3', 7200);
+
+		expect(await checkRateLimit(env.DB, new Request('https://nic.py.kg/'), 'messages', 1)).toBeNull();
+
+		expect(await buckets()).toEqual(['messages:user:1', 'reports:user:3']);
+	});
+});
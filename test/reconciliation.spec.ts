@@ -0,0 +1,93 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { runPaymentReconciliation } from '../functions/lib/reconciliation';
+import { LinuxDOCreditClient } from '../functions/lib/credit';
+import type { OrderQueryResult } from '../functions/lib/credit';
+import type { Env } from '../functions/lib/types';
+
+// Answers "paid" for the listed orders; every other query fails
+class StubCreditClient extends LinuxDOCreditClient {
+	queried: string[] = [];
+
+	constructor(private paid: Record<string, string>) {
+		super({ pid: 'pid', key: 'key', notifyUrl: '', returnUrl: '' });
+	}
+
+	async queryOrder(tradeNo: string, outTradeNo?: string): Promise<OrderQueryResult | null> {
+		this.queried.push(outTradeNo!);
+		const money = this.paid[outTradeNo!];
+		if (!money) {
+			return null;
+		}
+		return {
+			code: 1,
+			msg: 'succ',
+			trade_no: `T-${outTradeNo}`,
+			out_trade_no: outTradeNo!,
+			type: 'epay',
+			pid: 'pid',
+			addtime: '',
+			endtime: '',
+			name: '',
+			money,
+			status: 1,
+		};
+	}
+}
+
+// Only the columns reconciliation and the renewal path of completePaidOrder use
+const TABLES = [
+	`CREATE TABLE settings (key TEXT PRIMARY KEY, value TEXT NOT NULL)`,
+	`CREATE TABLE reconciliation_runs (
+		id INTEGER PRIMARY KEY AUTOINCREMENT, triggered_by TEXT NOT NULL, checked INTEGER NOT NULL DEFAULT 0,
+		activated INTEGER NOT NULL DEFAULT 0, expired INTEGER NOT NULL DEFAULT 0, still_pending INTEGER NOT NULL DEFAULT 0,
+		errors INTEGER NOT NULL DEFAULT 0, items TEXT, started_at TEXT NOT NULL, finished_at TEXT
+	)`,
+	`CREATE TABLE orders (
+		id INTEGER PRIMARY KEY AUTOINCREMENT, order_no TEXT NOT NULL UNIQUE, trade_no TEXT, linuxdo_id INTEGER NOT NULL,
+		label TEXT NOT NULL, amount REAL NOT NULL, order_type TEXT NOT NULL DEFAULT 'register', status TEXT NOT NULL,
+		created_at TEXT NOT NULL, paid_at TEXT, reconcile_checked_at TEXT
+	)`,
+	`CREATE TABLE domains (id INTEGER PRIMARY KEY AUTOINCREMENT, label TEXT NOT NULL, owner_linuxdo_id INTEGER NOT NULL)`,
+	`CREATE TABLE audit_logs (
+		id INTEGER PRIMARY KEY AUTOINCREMENT, linuxdo_id INTEGER NOT NULL, action TEXT NOT NULL,
+		target TEXT, details TEXT, ip_address TEXT, created_at TEXT NOT NULL
+	)`,
+];
+
+async function addOrder(orderNo: string, minutesAgo: number, orderType = 'register'): Promise<void> {
+	await env.DB.prepare(`
+		INSERT INTO orders (order_no, linuxdo_id, label, amount, order_type, status, created_at)
+		VALUES (?, 1, ?, 10, ?, 'pending', datetime('now', ?))
+	`).bind(orderNo, orderNo, orderType, `-${minutesAgo} minutes`).run();
+}
+
+beforeEach(async () => {
+	await env.DB.batch(TABLES.map(sql => env.DB.prepare(sql)));
+});
+
+describe('runPaymentReconciliation', () => {
+	it('rotates through orders that stay pending so newer paid orders are reached', async () => {
+		// 41 orders whose lookups keep failing, all older than the paid one
+		for (let i = 0; i < 41; i++) {
+			await addOrder(`stuck-${i}`, 120 + i);
+		}
+		await addOrder('paid', 60, 'renew');
+
+		const client = new StubCreditClient({ paid: '10.00' });
+
+		const first = await runPaymentReconciliation(env as unknown as Env, 'test', client);
+		expect(first.checked).toBe(40);
+		expect(first.errors).toBe(40);
+		expect(client.queried).not.toContain('paid');
+
+		client.queried = [];
+		const second = await runPaymentReconciliation(env as unknown as Env, 'test', client);
+		expect(client.queried.slice(0, 2).sort()).toEqual(['paid', 'stuck-0']);
+		expect(second.activated).toBe(1);
+		expect(second.items.find(i => i.order_no === 'paid')).toMatchObject({ outcome: 'activated', detail: 'renew_domain_not_found' });
+
+		const order = await env.DB.prepare("SELECT status, reconcile_checked_at FROM orders WHERE order_no = 'paid'").first();
+		expect(order).toMatchObject({ status: 'paid', reconcile_checked_at: expect.any(String) });
+	});
+});
@@ -0,0 +1,105 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { refundPaidOrder } from '../functions/lib/refunds';
+import { LinuxDOCreditClient } from '../functions/lib/credit';
+import type { Env, Order } from '../functions/lib/types';
+
+// Counts refund calls; with blocking set, each call waits until the test releases it
+class StubCreditClient extends LinuxDOCreditClient {
+	refunds: string[] = [];
+	private pending: Array<() => void> = [];
+
+	constructor(private outcome: { success: boolean; msg: string }, private blocking = false) {
+		super({ pid: 'pid', key: 'key', notifyUrl: '', returnUrl: '' });
+	}
+
+	async refundOrder(tradeNo: string): Promise<{ success: boolean; msg: string }> {
+		this.refunds.push(tradeNo);
+		if (this.blocking) {
+			await new Promise<void>(resolve => this.pending.push(resolve));
+		}
+		return this.outcome;
+	}
+
+	release(): void {
+		this.pending.splice(0).forEach(resolve => resolve());
+	}
+}
+
+// Only the columns refundPaidOrder reads and writes
+const TABLES = [
+	`CREATE TABLE orders (
+		id INTEGER PRIMARY KEY AUTOINCREMENT, order_no TEXT NOT NULL UNIQUE, trade_no TEXT, linuxdo_id INTEGER NOT NULL,
+		label TEXT NOT NULL, amount REAL NOT NULL, order_type TEXT NOT NULL DEFAULT 'register', status TEXT NOT NULL,
+		refund_reason TEXT, refund_result TEXT, refunded_at TEXT, refund_started_at TEXT, created_at TEXT NOT NULL
+	)`,
+	`CREATE TABLE notifications (
+		id INTEGER PRIMARY KEY AUTOINCREMENT, linuxdo_id INTEGER NOT NULL, type TEXT NOT NULL,
+		title TEXT NOT NULL, message TEXT NOT NULL, is_read INTEGER NOT NULL, created_at TEXT NOT NULL
+	)`,
+	`CREATE TABLE blockchain_logs (
+		id INTEGER PRIMARY KEY AUTOINCREMENT, block_hash TEXT NOT NULL UNIQUE, prev_hash TEXT NOT NULL, action TEXT NOT NULL,
+		actor_name TEXT, target_type TEXT, target_name TEXT, result TEXT, details TEXT, timestamp TEXT NOT NULL
+	)`,
+	`INSERT INTO orders (order_no, trade_no, linuxdo_id, label, amount, status, created_at)
+		VALUES ('ORD1', 'T1', 1, 'demo', 10, 'paid', '2026-01-01 00:00:00')`,
+];
+
+const options = { reason: '测试退款', actorName: 'admin' };
+
+async function loadOrder(): Promise<Order> {
+	return (await env.DB.prepare("SELECT * FROM orders WHERE order_no = 'ORD1'").first<Order>())!;
+}
+
+async function notificationCount(): Promise<number> {
+	return (await env.DB.prepare('SELECT COUNT(*) as count FROM notifications').first<number>('count')) || 0;
+}
+
+beforeEach(async () => {
+	await env.DB.batch(TABLES.map(sql => env.DB.prepare(sql)));
+});
+
+describe('refundPaidOrder', () => {
+	it('calls the refund API once when two refunds of the same order race', async () => {
+		const client = new StubCreditClient({ success: true, msg: 'success' }, true);
+		const order = await loadOrder();
+
+		const first = refundPaidOrder(env as unknown as Env, order, options, client);
+		const second = refundPaidOrder(env as unknown as Env, order, options, client);
+
+		// The loser returns without waiting for the API
+		expect(await second).toMatchObject({ success: false, msg: 'Order is not paid or is already being refunded' });
+		client.release();
+		expect(await first).toMatchObject({ success: true });
+
+		expect(client.refunds).toEqual(['T1']);
+		expect(await loadOrder()).toMatchObject({ status: 'refunded', refund_started_at: null });
+		expect(await notificationCount()).toBe(1);
+	});
+
+	it('does not refund an order whose stored status is no longer paid', async () => {
+		const client = new StubCreditClient({ success: true, msg: 'success' });
+		const stale = await loadOrder();
+		await env.DB.prepare("UPDATE orders SET status = 'refunded' WHERE order_no = 'ORD1'").run();
+
+		const result = await refundPaidOrder(env as unknown as Env, stale, options, client);
+
+		expect(result.success).toBe(false);
+		expect(client.refunds).toEqual([]);
+		expect(await notificationCount()).toBe(0);
+	});
+
+	it('releases the claim after a failed refund so it can be retried', async () => {
+		const failing = new StubCreditClient({ success: false, msg: 'insufficient balance' });
+		expect(await refundPaidOrder(env as unknown as Env, await loadOrder(), options, failing)).toMatchObject({
+			success: false,
+			msg: 'insufficient balance',
+		});
+		expect(await loadOrder()).toMatchObject({ status: 'paid', refund_started_at: null, refund_result: 'insufficient balance' });
+		expect(await notificationCount()).toBe(0);
+
+		const retry = new StubCreditClient({ success: true, msg: 'success' });
+		expect(await refundPaidOrder(env as unknown as Env, await loadOrder(), options, retry)).toMatchObject({ success: true });
+		expect(await notificationCount()).toBe(1);
+	});
+});
@@ -0,0 +1,29 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { onRequestGet } from '../functions/api/whois';
+import type { Env } from '../functions/lib/types';
+
+async function get(query: string, accept?: string): Promise<Response> {
+	const request = new Request(`https://nic.py.kg/api/whois?${query}`, {
+		headers: accept ? { Accept: accept } : {},
+	});
+
+	return onRequestGet({
+		request,
+		env: env as unknown as Env,
+		params: {},
+		data: {},
+	} as unknown as Parameters<typeof onRequestGet>[0]);
+}
+
+describe('GET /api/whois', () => {
+	it('rejects an unknown format in the format the Accept header asks for', async () => {
+		const text = await get('domain=demo&format=xml', 'text/plain');
+		expect(text.status).toBe(400);
+		expect(await text.text()).toBe('Error: format must be "json" or "text"\n');
+
+		const json = await get('domain=demo&format=xml');
+		expect(json.status).toBe(400);
+		expect(await json.json()).toEqual({ success: false, error: 'format must be "json" or "text"' });
+	});
+});
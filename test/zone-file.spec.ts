@@ -0,0 +1,254 @@
+import { describe, it, expect } from 'vitest';
+import { parseZoneFile, exportZoneFile, diffZone } from '../functions/lib/zone-file';
+import type { Domain, DnsRecord } from '../functions/lib/types';
+
+const domain: Domain = {
+	id: 1,
+	label: 'example',
+	fqdn: 'example.py.kg',
+	owner_linuxdo_id: 1,
+	status: 'active',
+	review_reason: null,
+	suspend_reason: null,
+	python_praise: null,
+	usage_purpose: null,
+	dns_mode: 'direct',
+	expires_at: null,
+	created_at: '2026-01-01 00:00:00',
+};
+
+let nextId = 1;
+function record(values: Partial<DnsRecord> & Pick<DnsRecord, 'type' | 'name' | 'content'>): DnsRecord {
+	return {
+		id: nextId++,
+		domain_id: domain.id,
+		priority: null,
+		ttl: 3600,
+		proxied: 0,
+		cloudflare_record_id: `cf-${nextId}`,
+		cf_synced: 1,
+		acme_challenge: 0,
+		ddns_key_hash: null,
+		pending_approval: 0,
+		created_at: '2026-01-01 00:00:00',
+		updated_at: '2026-01-01 00:00:00',
+		...values,
+	};
+}
+
+describe('parseZoneFile', () => {
+	it('parses relative and absolute owners with $ORIGIN and $TTL', () => {
+		const result = parseZoneFile(
+			[
+				'$ORIGIN example.py.kg.',
+				'$TTL 1h',
+				'@ IN A 192.0.2.1',
+				'www 300 IN CNAME example.py.kg.',
+				'api.example.py.kg. IN 1d AAAA 2001:db8::1',
+			].join('\n'),
+			'example.py.kg'
+		);
+
+		expect(result.errors).toEqual([]);
+		expect(result.records.map(({ line, ...r }) => r)).toEqual([
+			{ type: 'A', name: '@', content: '192.0.2.1', ttl: 3600, proxied: false, priority: null },
+			{ type: 'CNAME', name: 'www', content: 'example.py.kg', ttl: 300, proxied: false, priority: null },
+			{ type: 'AAAA', name: 'api', content: '2001:db8::1', ttl: 86400, proxied: false, priority: null },
+		]);
+	});
+
+	it('inherits the owner on indented lines and resolves names against a changed $ORIGIN', () => {
+		const result = parseZoneFile(
+			[
+				'www IN A 192.0.2.1',
+				'    IN AAAA 2001:db8::1',
+				'$ORIGIN sub.example.py.kg.',
+				'@ IN A 192.0.2.2',
+			].join('\n'),
+			'example.py.kg'
+		);
+
+		expect(result.errors).toEqual([]);
+		expect(result.records.map(r => [r.type, r.name])).toEqual([
+			['A', 'www'],
+			['AAAA', 'www'],
+			['A', 'sub'],
+		]);
+	});
+
+	it('reads MX and SRV priorities and relative targets', () => {
+		const result = parseZoneFile(
+			[
+				'@ IN MX 10 mail',
+				'_sip._tcp IN SRV 5 20 5060 sip.example.com.',
+			].join('\n'),
+			'example.py.kg'
+		);
+
+		expect(result.errors).toEqual([]);
+		expect(result.records[0]).toMatchObject({ type: 'MX', name: '@', priority: 10, content: 'mail.example.py.kg' });
+		expect(result.records[1]).toMatchObject({ type: 'SRV', name: '_sip._tcp', priority: 5, content: '20 5060 sip.example.com' });
+	});
+
+	it('unquotes TXT strings, joins multiple strings and handles escapes and parentheses', () => {
+		const result = parseZoneFile(
+			[
+				'txt1 IN TXT "say \\"hi\\"; ok"',
+				'txt2 IN TXT ( "part one "',
+				'              "part two" )',
+				'txt3 IN TXT "a\\059b"',
+			].join('\n'),
+			'example.py.kg'
+		);
+
+		expect(result.errors).toEqual([]);
+		expect(result.records.map(r => r.content)).toEqual([
+			'say "hi"; ok',
+			'part one part two',
+			'a;b',
+		]);
+		expect(result.records[1].line).toBe(2);
+	});
+
+	it('reads the proxied tag from the comment of A, AAAA and CNAME records', () => {
+		const result = parseZoneFile(
+			[
+				'www IN A 192.0.2.1 ; cf_tags=cf-proxied:true',
+				'txt IN TXT "hello" ; cf_tags=cf-proxied:true',
+				'plain IN A 192.0.2.2 ; a comment',
+			].join('\n'),
+			'example.py.kg'
+		);
+
+		expect(result.records.map(r => r.proxied)).toEqual([true, false, false]);
+	});
+
+	it('skips apex SOA and NS records', () => {
+		const result = parseZoneFile(
+			[
+				'@ IN SOA ns1.example.com. admin.example.com. ( 1 7200 3600 1209600 3600 )',
+				'@ IN NS ns1.example.com.',
+				'www IN A 192.0.2.1',
+			].join('\n'),
+			'example.py.kg'
+		);
+
+		expect(result.errors).toEqual([]);
+		expect(result.skipped).toEqual([
+			{ line: 1, type: 'SOA', name: '@' },
+			{ line: 2, type: 'NS', name: '@' },
+		]);
+		expect(result.records).toHaveLength(1);
+	});
+
+	it('reports errors with line numbers', () => {
+		const result = parseZoneFile(
+			[
+				'$INCLUDE other.zone',
+				'www IN A not-an-ip',
+				'mail.other.com. IN A 192.0.2.1',
+				'x IN PTR example.com.',
+				'y IN MX mail',
+				'z IN TXT "unterminated',
+				'$TTL forever',
+			].join('\n'),
+			'example.py.kg'
+		);
+
+		// Any error rejects the whole import
+		expect(result.errors.map(e => e.line)).toEqual([6, 1, 2, 3, 4, 5, 7]);
+		expect(result.errors[0].message).toBe('Unterminated quoted string');
+		expect(result.errors[3].message).toContain('outside example.py.kg');
+		expect(result.errors[4].message).toBe('Unsupported record type PTR');
+		expect(result.errors[5].message).toBe('MX record expects 2 data field(s)');
+	});
+
+	it('rejects duplicate records and CNAME conflicts', () => {
+		const duplicate = parseZoneFile('www IN A 192.0.2.1\nwww IN A 192.0.2.1', 'example.py.kg');
+		expect(duplicate.errors).toEqual([{ line: 2, message: "Duplicate A record at 'www'" }]);
+
+		const conflict = parseZoneFile('www IN CNAME target.example.com.\nwww IN A 192.0.2.1', 'example.py.kg');
+		expect(conflict.errors).toHaveLength(1);
+		expect(conflict.errors[0].line).toBe(0);
+	});
+});
+
+describe('exportZoneFile', () => {
+	it('round-trips through parseZoneFile', () => {
+		const records = [
+			record({ type: 'A', name: '@', content: '192.0.2.1', proxied: 1 }),
+			record({ type: 'AAAA', name: 'www', content: '2001:db8::1', ttl: 300 }),
+			record({ type: 'CNAME', name: 'blog', content: 'example.github.io' }),
+			record({ type: 'TXT', name: 'note', content: 'quote " and \\ backslash' }),
+			record({ type: 'MX', name: '@', content: 'mail.example.com', priority: 20 }),
+			record({ type: 'SRV', name: '_xmpp._tcp', content: '10 5222 xmpp.example.com', priority: 5 }),
+			record({ type: 'CAA', name: '@', content: '0 issue "letsencrypt.org"' }),
+		];
+
+		const text = exportZoneFile(domain, records);
+		const parsed = parseZoneFile(text, domain.fqdn);
+
+		expect(parsed.errors).toEqual([]);
+		const diff = diffZone(records, parsed.records);
+		expect(diff.create).toEqual([]);
+		expect(diff.update).toEqual([]);
+		expect(diff.delete).toEqual([]);
+		expect(diff.unchanged).toBe(records.length);
+	});
+
+	it('leaves out ACME challenge records and MX records awaiting approval', () => {
+		const text = exportZoneFile(domain, [
+			record({ type: 'A', name: 'www', content: '192.0.2.1' }),
+			record({ type: 'TXT', name: '_acme-challenge', content: 'token', acme_challenge: 1 }),
+			record({ type: 'MX', name: '@', content: 'mail.example.com', priority: 10, pending_approval: 1 }),
+		]);
+
+		expect(text).toContain('$ORIGIN example.py.kg.');
+		expect(text).toContain('www\t3600\tIN\tA\t192.0.2.1');
+		expect(text).not.toContain('_acme-challenge');
+		expect(text).not.toContain('MX');
+	});
+});
+
+describe('diffZone', () => {
+	it('classifies records as unchanged, updated, created and deleted', () => {
+		const unchanged = record({ type: 'A', name: 'www', content: '192.0.2.1' });
+		const ttlChange = record({ type: 'A', name: 'api', content: '192.0.2.2' });
+		const contentChange = record({ type: 'CNAME', name: 'blog', content: 'old.example.com' });
+		const removed = record({ type: 'TXT', name: 'old', content: 'bye' });
+		const acme = record({ type: 'TXT', name: '_acme-challenge', content: 'token', acme_challenge: 1 });
+
+		const { records } = parseZoneFile(
+			[
+				'www IN A 192.0.2.1',
+				'api 300 IN A 192.0.2.2',
+				'blog IN CNAME NEW.example.com.',
+				'new IN TXT "hello"',
+			].join('\n'),
+			domain.fqdn
+		);
+
+		const diff = diffZone([unchanged, ttlChange, contentChange, removed, acme], records);
+
+		expect(diff.unchanged).toBe(1);
+		expect(diff.update.map(u => [u.record.id, u.to.content, u.to.ttl])).toEqual([
+			[ttlChange.id, '192.0.2.2', 300],
+			[contentChange.id, 'new.example.com', 3600],
+		]);
+		expect(diff.create.map(r => [r.type, r.name])).toEqual([['TXT', 'new']]);
+		expect(diff.delete).toEqual([removed]);
+	});
+
+	it('treats a proxied flag change as an update and matches CNAME targets case-insensitively', () => {
+		const proxied = record({ type: 'A', name: 'www', content: '192.0.2.1', proxied: 1 });
+		const cname = record({ type: 'CNAME', name: 'blog', content: 'Target.Example.com' });
+
+		const { records } = parseZoneFile('www IN A 192.0.2.1\nblog IN CNAME target.example.com.', domain.fqdn);
+		const diff = diffZone([proxied, cname], records);
+
+		expect(diff.update).toHaveLength(1);
+		expect(diff.update[0].record.id).toBe(proxied.id);
+		expect(diff.update[0].to.proxied).toBe(false);
+		expect(diff.unchanged).toBe(1);
+	});
+});
@@ -1,10 +1,17 @@
 import { defineWorkersConfig } from '@cloudflare/vitest-pool-workers/config';
 
+// Pages Functions have no worker entry point, so tests import the modules under functions/ directly
 export default defineWorkersConfig({
 	test: {
+		include: ['test/**/*.spec.ts'],
 		poolOptions: {
 			workers: {
-				wrangler: { configPath: './wrangler.jsonc' },
+				miniflare: {
+					compatibilityDate: '2025-12-31',
+					compatibilityFlags: ['nodejs_compat'],
+					// Empty per test file; specs create the tables they use
+					d1Databases: ['DB'],
+				},
 			},
 		},
 	},